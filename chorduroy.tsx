@@ -1,30 +1,52 @@
 import React, { useState, useEffect, useMemo, useCallback, useRef } from 'react';
-import { Music, Cable, Trophy, SkipForward, Undo2, Redo2, Trash2 } from 'lucide-react';
+import { Music, Cable, Trophy, SkipForward, Undo2, Redo2, Trash2, Play, Pause, Square, Volume2, Download, Upload, FileText } from 'lucide-react';
 import { useSequenceStore, useSequenceHistory } from './src/stores/useSequenceStore';
-import { cardToPhraseSegment } from './src/types';
-import type {
-    Duration,
-    PhraseSegment,
-    MIDIAccess,
-    MIDIMessageEvent,
-    MIDIConnectionEvent,
-    NavigatorWithMIDI,
-    TargetChord,
-} from './src/types';
+import { cardToPhraseSegment, phraseSegmentToCard, pickExpression } from './src/types';
+import type { Duration, PhraseSegment, TargetChord } from './src/types';
 
 // Import chord analysis from lib (single source of truth)
 import {
     INTERVALS,
-    getChordToneWithTension,
+    getPatternVoicing,
     analyzeChord,
 } from './src/lib/chordAnalysis';
-import { VirtualKeyboard, ChordCardHistory, DurationScrollPicker, SimpleStaff } from './src/components';
+import { chordDisplay, nextOverride, spellNotes } from './src/lib/spelling';
+import { DEFAULT_SPLIT_POINT, shiftHandSplit, splitCards } from './src/lib/handSplit';
+import { buildSegmentsFromEvents } from './src/lib/recording';
+import type { RecordedNote } from './src/lib/recording';
+import type { TrackedNoteEvent } from './src/lib/noteTracker';
+import { playChord } from './src/lib/noteOutput';
+import { resolveLoop } from './src/lib/timeline';
+import { canSplitIntoHands, trackIds, trackLabel } from './src/lib/tracks';
+import { readMidiFile, writeMidiFile } from './src/lib/midiFile';
+import { downloadFile, fileNameFor } from './src/lib/download';
+import { readMusicXml, writeMusicXml } from './src/lib/musicXml';
+import { useMIDI } from './src/hooks/useMIDI';
+import { useMIDIOutput } from './src/hooks/useMIDIOutput';
+import { useSynth } from './src/hooks/useSynth';
+import { useTransport } from './src/hooks/useTransport';
+import { useMetronome } from './src/hooks/useMetronome';
+import { useTimedRecording } from './src/hooks/useTimedRecording';
+import { SYNTH_PRESETS } from './src/lib/synth';
+import {
+    VirtualKeyboard,
+    ChordCardHistory,
+    DurationScrollPicker,
+    DURATION_OPTIONS,
+    DURATION_MODIFIERS,
+    StaffRenderer,
+    MIDIDevicePanel,
+    SynthControls,
+    PracticeControls,
+    MetronomeControls,
+    TimedRecordControls,
+    HandSplitControls,
+    TrackSelector,
+    ImportDialog,
+} from './src/components';
+import type { ImportSource } from './src/components';
 
 export default function ChorduroyApp() {
-    const [activeNotes, setActiveNotes] = useState<number[]>([]);
-    const [midiAccess, setMidiAccess] = useState<MIDIAccess | null>(null);
-    const [status, setStatus] = useState<string>('Checking MIDI...');
-
     // Game State
     const [gameMode, setGameMode] = useState<'free' | 'training'>('free');
     const [targetChord, setTargetChord] = useState<TargetChord | null>(null);
@@ -38,16 +60,41 @@ export default function ChorduroyApp() {
     const {
         selectedCardIds,
         recordingDuration,
+        sequence,
+        playbackState,
+        playbackPosition,
+        practice,
         addCard,
+        appendCards,
+        loadSequence,
+        updateCard,
         updateCardDuration,
+        setEnharmonicOverride,
         selectCard,
         selectCards,
         clearSelection,
         selectAll,
+        hoveredCardId,
+        setHoveredCard,
         updateSelectedCardsDuration,
+        modifySelectedCardsDuration,
         deleteSelectedCards,
         setRecordingDuration,
         clearCards,
+        play,
+        pause,
+        stop,
+        seekToCard,
+        setLoop,
+        setLoopFromSelection,
+        setLoopEnabled,
+        setCountInBars,
+        setTempoRamp,
+        setTempo,
+        setTimeSignature,
+        activeTrackId,
+        setActiveTrack,
+        splitIntoHandTracks,
         getCards,
         getCardIndex,
         getSelectionCount,
@@ -65,6 +112,9 @@ export default function ChorduroyApp() {
         [cards]
     );
 
+    // Cards on any track, not just the one being edited
+    const sequenceHasCards = Object.values(sequence.tracks).some((trackCards) => trackCards.length > 0);
+
     // Selection count for UI
     const selectionCount = getSelectionCount();
 
@@ -75,6 +125,23 @@ export default function ChorduroyApp() {
         return idx >= 0 ? idx : null;
     }, [selectedCardIds, getCardIndex]);
 
+    // Duration the picker shows: the first selected card's, else the recording value
+    const activeDuration: Duration = selectedCardIndex !== null
+        ? cards[selectedCardIndex]?.duration ?? 'q'
+        : recordingDuration;
+
+    // Edit mode sets the selected cards' durations, record mode the next card's
+    const setDuration = useCallback((duration: Duration) => {
+        if (selectedCardIds.length > 0) updateSelectedCardsDuration(duration);
+        else setRecordingDuration(duration);
+    }, [selectedCardIds.length, updateSelectedCardsDuration, setRecordingDuration]);
+
+    // Dots and tuplets change each selected card's own value, so mixed rhythms keep their shape
+    const modifyDuration = useCallback((modify: (duration: Duration) => Duration) => {
+        if (selectedCardIds.length > 0) modifySelectedCardsDuration(modify);
+        else setRecordingDuration(modify(recordingDuration));
+    }, [selectedCardIds.length, modifySelectedCardsDuration, setRecordingDuration, recordingDuration]);
+
     // Handle card click with modifier keys
     const handleCardClick = useCallback((cardId: string, event: React.MouseEvent) => {
         if (event.shiftKey) {
@@ -88,32 +155,29 @@ export default function ChorduroyApp() {
             } else {
                 selectCard(cardId, 'replace');
             }
+            // During playback a click also moves the cursor there
+            if (playbackState !== 'stopped') {
+                seekToCard(getCardIndex(cardId));
+            }
         }
-    }, [selectCard, selectedCardIds, clearSelection]);
+    }, [selectCard, selectedCardIds, clearSelection, playbackState, seekToCard, getCardIndex]);
 
-    // Pedal state
-    const [isPedalDown, setIsPedalDown] = useState<boolean>(false);
-    const noteBufferRef = useRef<{ note: number; time: number }[]>([]);
-    const activeNotesRef = useRef<number[]>([]);
+    // Card under the playback cursor (null while stopped)
+    const playingCardIndex = playbackState !== 'stopped' ? playbackPosition.cardIndex : null;
+    const playingCardId = playingCardIndex !== null ? cards[playingCardIndex]?.id ?? null : null;
 
-    // --- MIDI ENGINE ---
-    const isPedalDownRef = useRef(false);
-    const clusterTimerRef = useRef<number | null>(null);
-    const PEDAL_CLUSTER_GAP_MS = 220;
-    const CHORD_IOI_THRESHOLD_MS = 110;
-
-    const clearClusterTimer = useCallback(() => {
-        if (clusterTimerRef.current !== null) {
-            window.clearTimeout(clusterTimerRef.current);
-            clusterTimerRef.current = null;
-        }
-    }, []);
+    // Cards inside the practice loop, for highlighting
+    const loopRange = useMemo(() => resolveLoop(cards, sequence.loop), [cards, sequence.loop]);
+    const loopCardIds = useMemo(
+        () => (loopRange ? cards.slice(loopRange.startIndex, loopRange.endIndex + 1).map((c) => c.id) : []),
+        [cards, loopRange]
+    );
 
     // Add a chord to the store (wraps store.addCard for compatibility)
     const addSegmentToHistory = useCallback((segment: PhraseSegment) => {
         // Only add chord segments to the store (scales are not supported yet)
         if (segment.type === 'chord') {
-            addCard(segment.notes, segment.analysis);
+            addCard(segment.notes, segment.analysis, pickExpression(segment));
         }
     }, [addCard]);
 
@@ -125,6 +189,25 @@ export default function ChorduroyApp() {
         }
     }, [cards, updateCardDuration]);
 
+    // MIDI file or MusicXML score chosen for import, previewed before it touches the sequence
+    const [pendingImport, setPendingImport] = useState<{ fileName: string; source: ImportSource } | null>(null);
+    const importFileInputRef = useRef<HTMLInputElement>(null);
+
+    const handleImportFileChosen = useCallback(async (event: React.ChangeEvent<HTMLInputElement>) => {
+        const chosen = event.target.files?.[0];
+        // Clear the input so choosing the same file again still fires
+        event.target.value = '';
+        if (!chosen) return;
+        try {
+            const source: ImportSource = /\.midi?$/i.test(chosen.name)
+                ? { format: 'midi', file: readMidiFile(new Uint8Array(await chosen.arrayBuffer())) }
+                : { format: 'musicXml', score: readMusicXml(await chosen.text()) };
+            setPendingImport({ fileName: chosen.name, source });
+        } catch (error) {
+            alert(`Couldn't import ${chosen.name}: ${error instanceof Error ? error.message : String(error)}`);
+        }
+    }, []);
+
     // Delete selected cards (supports multi-selection)
     const deleteSelectedCard = useCallback(() => {
         if (selectedCardIds.length > 0) {
@@ -132,70 +215,111 @@ export default function ChorduroyApp() {
         }
     }, [selectedCardIds, deleteSelectedCards]);
 
-    const buildSegmentsFromEvents = useCallback((events: { note: number; time: number }[]) => {
-        if (events.length === 0) return;
-
-        const sortedEvents = [...events].sort((a, b) => a.time - b.time);
-        const clusters: { note: number; time: number }[][] = [];
-        let currentCluster: { note: number; time: number }[] = [sortedEvents[0]];
+    // --- MIDI ENGINE ---
+    // Timed takes are captured separately; this ref lets the pedal path
+    // (set up before the timed recorder) know when one is running
+    const isTimedRecordingRef = useRef(false);
+
+    // Pedal takes become cards using the current recording duration
+    const handleRecord = useCallback((events: RecordedNote[]) => {
+        if (isTimedRecordingRef.current) return;
+        buildSegmentsFromEvents(events, recordingDuration).forEach(addSegmentToHistory);
+    }, [addSegmentToHistory, recordingDuration]);
 
-        for (let i = 1; i < sortedEvents.length; i++) {
-            const ev = sortedEvents[i];
-            const prev = sortedEvents[i - 1];
-            if (ev.time - prev.time > PEDAL_CLUSTER_GAP_MS) {
-                clusters.push(currentCluster);
-                currentCluster = [ev];
-            } else {
-                currentCluster.push(ev);
-            }
-        }
-        clusters.push(currentCluster);
+    // Every strike and release goes to the timed recorder (set below)
+    const handleNoteRef = useRef<(event: TrackedNoteEvent) => void>(() => {});
+    const handleNote = useCallback((event: TrackedNoteEvent) => handleNoteRef.current(event), []);
 
-        clusters.forEach(clusterEvents => {
-            const uniqueNotes = Array.from(new Set(clusterEvents.map(e => e.note))).sort((a, b) => a - b);
-            if (uniqueNotes.length === 0) return;
+    const {
+        status,
+        midiAccess,
+        service,
+        activeNotes,
+        isPedalDown,
+        devices,
+        configureInput,
+        noteOn,
+        noteOff,
+    } = useMIDI({ onRecord: handleRecord, onNote: handleNote });
+
+    // --- MIDI OUTPUT ---
+    const {
+        outputs,
+        selectedOutputId,
+        selectOutput,
+        outputChannel,
+        setOutputChannel,
+        output: midiOutput,
+        clickOutput: midiClickOutput,
+    } = useMIDIOutput(service);
+
+    // Built-in synth sounds whenever no MIDI output is selected
+    const {
+        output: synthOutput,
+        clickOutput: synthClickOutput,
+        presetId: synthPresetId,
+        setPresetId: setSynthPresetId,
+        volume: synthVolume,
+        setVolume: setSynthVolume,
+    } = useSynth();
+    const output = midiOutput ?? synthOutput;
+
+    // Virtual keyboard also sounds on the current output
+    const handleVirtualNoteOn = useCallback((note: number, velocity: number) => {
+        noteOn(note, velocity);
+        output?.noteOn(note, velocity);
+    }, [noteOn, output]);
 
-            let totalIOI = 0;
-            for (let i = 1; i < clusterEvents.length; i++) {
-                totalIOI += clusterEvents[i].time - clusterEvents[i - 1].time;
+    const handleVirtualNoteOff = useCallback((note: number) => {
+        noteOff(note);
+        output?.noteOff(note);
+    }, [noteOff, output]);
+
+    // --- METRONOME ---
+    // Runs on its own in Free Play; during playback it follows the transport
+    const metronome = useMetronome(midiClickOutput ?? synthClickOutput, gameMode === 'free');
+
+    // --- TIMED RECORDING ---
+    // A take lands as one undo step, rests included
+    const timedRecording = useTimedRecording({
+        restartMetronome: metronome.restart,
+        onTake: (segments) => appendCards(
+            segments.filter((s) => s.type !== 'scale').map(phraseSegmentToCard)
+        ),
+    });
+    isTimedRecordingRef.current = timedRecording.isRecording;
+    handleNoteRef.current = timedRecording.handleNote;
+
+    // --- PLAYBACK ---
+    useTransport(output, metronome.handleBeat);
+
+    const togglePlayback = useCallback(() => {
+        if (playbackState === 'playing') {
+            pause();
+        } else if (cards.length > 0) {
+            // From stopped, start at the selected card
+            if (playbackState === 'stopped' && selectedCardIndex !== null) {
+                seekToCard(selectedCardIndex);
             }
-            const avgIOI = clusterEvents.length > 1 ? totalIOI / (clusterEvents.length - 1) : 0;
-            const timeSpan = clusterEvents[clusterEvents.length - 1].time - clusterEvents[0].time;
-            const isChord = avgIOI < CHORD_IOI_THRESHOLD_MS || timeSpan < PEDAL_CLUSTER_GAP_MS * 0.6;
-
-            const segment: PhraseSegment = {
-                type: isChord ? 'chord' : 'scale',
-                notes: uniqueNotes,
-                timestamp: Date.now(),
-                analysis: isChord ? analyzeChord(uniqueNotes) || undefined : undefined,
-                duration: recordingDuration
-            };
-
-            addSegmentToHistory(segment);
-        });
-    }, [addSegmentToHistory, recordingDuration]);
-
-    const flushBuffer = useCallback(() => {
-        if (noteBufferRef.current.length === 0) return;
-        const events = noteBufferRef.current;
-        noteBufferRef.current = [];
-        clearClusterTimer();
-        buildSegmentsFromEvents(events);
-    }, [buildSegmentsFromEvents, clearClusterTimer]);
-
-    const scheduleIdleFlush = useCallback(() => {
-        if (!isPedalDownRef.current || noteBufferRef.current.length === 0) return;
-        clearClusterTimer();
-        clusterTimerRef.current = window.setTimeout(() => {
-            flushBuffer();
-        }, PEDAL_CLUSTER_GAP_MS);
-    }, [clearClusterTimer, flushBuffer]);
+            play();
+        }
+    }, [playbackState, pause, play, seekToCard, cards.length, selectedCardIndex]);
 
     // === KEYBOARD SHORTCUTS ===
     useEffect(() => {
         const handleKeyDown = (e: KeyboardEvent) => {
             // Don't handle if focus is in an input
             if (document.activeElement?.tagName === 'INPUT') return;
+            // The import preview is modal: it handles its own keys
+            if (pendingImport) return;
+
+            // Space: play/pause, unless a control that takes Space has focus
+            const focused = document.activeElement?.tagName;
+            if (e.key === ' ' && focused !== 'BUTTON' && focused !== 'SELECT' && focused !== 'TEXTAREA') {
+                e.preventDefault();
+                togglePlayback();
+                return;
+            }
 
             // Undo: Ctrl+Z / Cmd+Z
             if ((e.ctrlKey || e.metaKey) && e.key === 'z' && !e.shiftKey) {
@@ -227,150 +351,30 @@ export default function ChorduroyApp() {
                 return;
             }
 
-            // Duration shortcuts: 1-5
-            const durationMap: { [key: string]: Duration } = {
-                '1': 'w',   // Whole
-                '2': 'h',   // Half
-                '3': 'q',   // Quarter
-                '4': '8',   // Eighth
-                '5': '16',  // Sixteenth
-            };
-            if (durationMap[e.key]) {
-                e.preventDefault();
-                const duration = durationMap[e.key];
-                if (selectedCardIds.length > 0) {
-                    // Edit mode: update all selected cards' duration
-                    updateSelectedCardsDuration(duration);
-                } else {
-                    // Record mode: set recording duration
-                    setRecordingDuration(duration);
-                }
-            }
-        };
-
-        window.addEventListener('keydown', handleKeyDown);
-        return () => window.removeEventListener('keydown', handleKeyDown);
-    }, [canUndo, canRedo, undo, redo, selectedCardIds, deleteSelectedCard, clearSelection, selectAll, updateSelectedCardsDuration, setRecordingDuration]);
-
-    // Track MIDI access for cleanup
-    const midiAccessRef = useRef<MIDIAccess | null>(null);
-
-    useEffect(() => {
-        const nav = navigator as NavigatorWithMIDI;
-        if (!nav.requestMIDIAccess) {
-            setStatus('Web MIDI API not supported in this browser');
-            return;
-        }
-
-        let isMounted = true;
-
-        const onMidiMessage = (msg: MIDIMessageEvent) => {
-            if (!isMounted || !msg.data) return;
-            const [command, data1, data2] = msg.data as Uint8Array;
-
-            // Note On
-            if (command >= 144 && command <= 159 && data2 > 0) {
-                const note = data1;
-                setActiveNotes(prev => {
-                    const next = [...new Set([...prev, note])];
-                    activeNotesRef.current = next;
-                    return next;
-                });
-
-                if (isPedalDownRef.current) {
-                    noteBufferRef.current.push({ note, time: performance.now() });
-                    scheduleIdleFlush();
-                }
-            }
-            // Note Off
-            else if ((command >= 128 && command <= 143) || (command >= 144 && command <= 159 && data2 === 0)) {
-                const note = data1;
-                setActiveNotes(prev => {
-                    const next = prev.filter(n => n !== note);
-                    activeNotesRef.current = next;
-                    return next;
-                });
-            }
-            // Control Change
-            else if (command >= 176 && command <= 191) {
-                const controller = data1;
-                const value = data2;
-                if (controller === 64) {
-                    const pedalDown = value >= 64;
-                    setIsPedalDown(pedalDown);
-
-                    if (pedalDown) {
-                        // Pedal down: start recording current chord snapshot or upcoming chord(s)
-                        clearClusterTimer();
-                        noteBufferRef.current = [];
-                        const now = performance.now();
-                        const snapshot = activeNotesRef.current;
-                        if (snapshot.length > 0) {
-                            noteBufferRef.current = snapshot.map(note => ({ note, time: now }));
-                        }
-                        isPedalDownRef.current = true;
-                        scheduleIdleFlush();
-                    } else {
-                        // Pedal up: flush anything we collected (single tap or held-record mode)
-                        isPedalDownRef.current = false;
-                        clearClusterTimer();
-                        flushBuffer();
-                    }
-                }
+            // Metronome on/off: M
+            if (e.key === 'm' && !e.ctrlKey && !e.metaKey) {
+                metronome.setEnabled(!metronome.settings.enabled);
+                return;
             }
-        };
 
-        const handleStateChange = (e: MIDIConnectionEvent) => {
-            if (!isMounted || !e.port) return;
-            if (e.port.state === 'connected' && e.port.type === 'input') {
-                (e.port as any).onmidimessage = onMidiMessage;
+            // Duration shortcuts: 1-6 pick a note value, '.', 't' and 'q' add dots or a tuplet
+            if (e.ctrlKey || e.metaKey) return;
+            const option = DURATION_OPTIONS.find((o) => o.shortcut === e.key);
+            if (option) {
+                e.preventDefault();
+                setDuration(option.value);
+                return;
             }
-        };
-
-        nav.requestMIDIAccess()
-            .then((access) => {
-                if (!isMounted) return;
-
-                midiAccessRef.current = access;
-                setMidiAccess(access);
-                setStatus('Ready');
-
-                for (const input of access.inputs.values()) {
-                    input.onmidimessage = onMidiMessage;
-                }
-
-                access.onstatechange = handleStateChange;
-            })
-            .catch((err) => {
-                if (!isMounted) return;
-                console.error('MIDI access error:', err);
-                if (err.name === 'SecurityError') {
-                    setStatus('MIDI access denied - check permissions');
-                } else if (err.name === 'AbortError') {
-                    setStatus('MIDI access request was aborted');
-                } else {
-                    setStatus(`MIDI error: ${err.message || 'Unknown error'}`);
-                }
-            });
-
-        return () => {
-            isMounted = false;
-            clearClusterTimer();
-
-            // Clean up MIDI handlers
-            const access = midiAccessRef.current;
-            if (access) {
-                access.onstatechange = null;
-                for (const input of access.inputs.values()) {
-                    input.onmidimessage = null;
-                }
+            const modifier = DURATION_MODIFIERS.find((m) => m.shortcut === e.key);
+            if (modifier) {
+                e.preventDefault();
+                modifyDuration(modifier.apply);
             }
         };
-    }, [clearClusterTimer, flushBuffer, scheduleIdleFlush]);
 
-    useEffect(() => {
-        activeNotesRef.current = activeNotes;
-    }, [activeNotes]);
+        window.addEventListener('keydown', handleKeyDown);
+        return () => window.removeEventListener('keydown', handleKeyDown);
+    }, [canUndo, canRedo, undo, redo, selectedCardIds, deleteSelectedCard, clearSelection, selectAll, setDuration, modifyDuration, togglePlayback, metronome.settings.enabled, metronome.setEnabled, pendingImport]);
 
     // --- CHORD ANALYSIS ---
     const currentChord = useMemo(() => analyzeChord(activeNotes), [activeNotes]);
@@ -460,27 +464,6 @@ export default function ChorduroyApp() {
     }, [currentChord, targetChord, gameMode, generateTarget, rootToPitchClass]);
 
     // --- HANDLERS ---
-    const handleVirtualNoteOn = useCallback((note: number) => {
-        setActiveNotes(prev => {
-            const next = [...new Set([...prev, note])];
-            activeNotesRef.current = next;
-            return next;
-        });
-
-        if (isPedalDownRef.current) {
-            noteBufferRef.current.push({ note, time: performance.now() });
-            scheduleIdleFlush();
-        }
-    }, [scheduleIdleFlush]);
-
-    const handleVirtualNoteOff = useCallback((note: number) => {
-        setActiveNotes(prev => {
-            const next = prev.filter(n => n !== note);
-            activeNotesRef.current = next;
-            return next;
-        });
-    }, []);
-
     const resetGame = useCallback(() => {
         setScore(0);
         setGameMode('training');
@@ -492,9 +475,47 @@ export default function ChorduroyApp() {
         generateTarget();
     }, [generateTarget]);
 
+    // Play the target chord on the current output
+    const hearTarget = useCallback(() => {
+        if (!output || !targetChord) return;
+        const notes = getPatternVoicing(rootToPitchClass(targetChord.root), targetChord.quality);
+        if (notes) playChord(output, notes, 1200);
+    }, [output, targetChord, rootToPitchClass]);
+
     // Memoize sorted notes for the interval display
     const sortedActiveNotes = useMemo(() => [...activeNotes].sort((a, b) => a - b), [activeNotes]);
 
+    // Notes listed under the chord, spelled as the staff spells them
+    const listedNotes = useMemo(
+        () => (selectedSegment ? [...selectedSegment.notes].sort((a, b) => a - b) : sortedActiveNotes),
+        [selectedSegment, sortedActiveNotes]
+    );
+    const listedNames = useMemo(() => spellNotes(listedNotes, {
+        analysis: displayChord ?? undefined,
+        enharmonicOverrides: selectedSegment?.enharmonicOverrides,
+        keySignature: sequence.keySignature,
+    }), [listedNotes, displayChord, selectedSegment, sequence.keySignature]);
+
+    // Named as the notes under it are spelled, in the sequence's key
+    const displayName = selectedSegment?.analysis
+        ? chordDisplay(selectedSegment.notes, selectedSegment.analysis, selectedSegment.enharmonicOverrides, sequence.keySignature)
+        : displayChord && chordDisplay(sortedActiveNotes, displayChord, undefined, sequence.keySignature);
+
+    // Cycle one note of a card through its spellings (G# -> Ab -> G#), as one undo step
+    const respellNote = useCallback((cardId: string, midi: number) => {
+        const card = cards.find((c) => c.id === cardId);
+        if (!card) return;
+        setEnharmonicOverride(cardId, midi, nextOverride(card.notes, midi, {
+            analysis: card.analysis,
+            enharmonicOverrides: card.enharmonicOverrides,
+            keySignature: sequence.keySignature,
+        }));
+    }, [cards, setEnharmonicOverride, sequence.keySignature]);
+
+    // Staves for each card, as the sheet music splits them
+    const splitPoint = sequence.handSplitPoint ?? DEFAULT_SPLIT_POINT;
+    const cardHands = useMemo(() => splitCards(cards, splitPoint), [cards, splitPoint]);
+
     return (
         <div className="min-h-screen bg-stone-100 text-stone-800 font-sans selection:bg-amber-200">
             {/* Header - Compact */}
@@ -509,6 +530,27 @@ export default function ChorduroyApp() {
                             <Cable size={10} />
                             {status}
                         </span>
+                        {midiAccess && (
+                            <MIDIDevicePanel
+                                devices={devices}
+                                onConfigure={configureInput}
+                                outputs={outputs}
+                                selectedOutputId={selectedOutputId}
+                                onSelectOutput={selectOutput}
+                                outputChannel={outputChannel}
+                                onOutputChannelChange={setOutputChannel}
+                            />
+                        )}
+                        {synthOutput && (
+                            <SynthControls
+                                presets={SYNTH_PRESETS}
+                                presetId={synthPresetId}
+                                onPresetChange={setSynthPresetId}
+                                volume={synthVolume}
+                                onVolumeChange={setSynthVolume}
+                                isActive={midiOutput === null}
+                            />
+                        )}
                         {isPedalDown && (
                             <span className="bg-red-100 text-red-600 px-1.5 py-0.5 rounded-full text-[10px] font-bold animate-pulse">
                                 REC
@@ -553,7 +595,7 @@ export default function ChorduroyApp() {
                                         ? 'text-green-400'
                                         : 'text-white'
                             }`}>
-                                {displayChord ? displayChord.display : <span className="text-slate-600">...</span>}
+                                {displayName ?? <span className="text-slate-600">...</span>}
                             </div>
                         </div>
                         {displayChord?.quality && (
@@ -565,48 +607,83 @@ export default function ChorduroyApp() {
 
                     {/* Notes & Intervals - Inline */}
                     <div className="flex items-center gap-1.5 flex-wrap">
-                        {(selectedSegment ? [...selectedSegment.notes].sort((a, b) => a - b) : sortedActiveNotes).map((note, noteIndex) => {
+                        {listedNotes.map((note, noteIndex) => {
                             const notePitchClass = note % 12;
-                            const rootPitchClass = displayChord?.detectedRootPitchClass ?? (sortedActiveNotes[0] % 12);
+                            const rootPitchClass = displayChord?.detectedRootPitchClass ?? (listedNotes[0] % 12);
                             const interval = (notePitchClass - rootPitchClass + 12) % 12;
                             const isRoot = notePitchClass === rootPitchClass;
                             const intervalName = isRoot ? 'R' : (INTERVALS[interval]?.split(' ')[0] || '?');
-                            // Use tension-aware spelling based on detected chord quality
-                            // Pass actual interval when available for accurate #/b disambiguation
-                            const patternName = displayChord?.quality || '';
-                            const actualInterval = displayChord?.actualIntervals?.[noteIndex];
-                            const noteName = getChordToneWithTension(notePitchClass, rootPitchClass, patternName, actualInterval);
-
-                            return (
-                                <div key={note} className={`flex flex-col items-center px-2 py-1 rounded ${
-                                    selectedSegment
-                                        ? 'bg-blue-900/50 border border-blue-500/50'
-                                        : 'bg-slate-900 border border-slate-600'
-                                }`}>
+                            // Tension-aware spelling from the chord, with any override
+                            const noteName = listedNames[noteIndex];
+
+                            // A selected card's notes can be clicked to cycle their spelling
+                            return selectedCardIndex !== null && selectedSegment ? (
+                                <button
+                                    key={note}
+                                    type="button"
+                                    onClick={() => respellNote(cards[selectedCardIndex].id, note)}
+                                    title={`${noteName}: click to respell`}
+                                    className="flex flex-col items-center px-2 py-1 rounded bg-blue-900/50 border border-blue-500/50 hover:border-blue-300"
+                                >
+                                    <span className="text-sm font-bold text-white">{noteName}</span>
+                                    <span className="text-[8px] text-slate-400 uppercase">{intervalName}</span>
+                                </button>
+                            ) : (
+                                <div key={note} className="flex flex-col items-center px-2 py-1 rounded bg-slate-900 border border-slate-600">
                                     <span className="text-sm font-bold text-white">{noteName}</span>
                                     <span className="text-[8px] text-slate-400 uppercase">{intervalName}</span>
                                 </div>
                             );
                         })}
+                        {selectedCardIndex !== null && cards[selectedCardIndex]?.notes.length > 0 && (
+                            <HandSplitControls
+                                hands={cardHands[selectedCardIndex]}
+                                isManual={cards[selectedCardIndex].handSplit !== undefined}
+                                onShift={(direction) => updateCard(cards[selectedCardIndex].id, {
+                                    handSplit: shiftHandSplit(cardHands[selectedCardIndex], direction),
+                                })}
+                                onReset={() => updateCard(cards[selectedCardIndex].id, { handSplit: undefined })}
+                            />
+                        )}
                     </div>
 
                     {/* Duration Picker - Vertical Scroll Wheel */}
                     <DurationScrollPicker
-                        value={selectionCount > 0 ? (selectedSegment?.duration || 'q') : recordingDuration}
-                        onChange={(duration) => {
-                            if (selectionCount > 0) {
-                                // Update all selected cards' duration
-                                updateSelectedCardsDuration(duration);
-                            } else {
-                                setRecordingDuration(duration);
-                            }
-                        }}
+                        value={activeDuration}
+                        onChange={setDuration}
+                        onModify={modifyDuration}
                         mode={selectionCount > 0 ? 'edit' : 'record'}
                         selectionCount={selectionCount}
                     />
 
                     {/* Edit Controls: Undo/Redo/Delete/Clear */}
                     <div className="flex items-center gap-1">
+                        <button
+                            onClick={togglePlayback}
+                            disabled={cards.length === 0 && playbackState !== 'playing'}
+                            title={playbackState === 'playing' ? 'Pause (Space)' : 'Play (Space)'}
+                            className={`p-2 rounded-md transition-all ${
+                                playbackState === 'playing'
+                                    ? 'text-emerald-300 bg-emerald-900/40 hover:bg-emerald-900/60'
+                                    : cards.length > 0
+                                        ? 'text-slate-300 hover:bg-slate-700 hover:text-white'
+                                        : 'text-slate-600 cursor-not-allowed'
+                            }`}
+                        >
+                            {playbackState === 'playing' ? <Pause size={16} /> : <Play size={16} />}
+                        </button>
+                        <button
+                            onClick={() => stop()}
+                            disabled={playbackState === 'stopped'}
+                            title="Stop"
+                            className={`p-2 rounded-md transition-all ${
+                                playbackState !== 'stopped'
+                                    ? 'text-slate-300 hover:bg-slate-700 hover:text-white'
+                                    : 'text-slate-600 cursor-not-allowed'
+                            }`}
+                        >
+                            <Square size={16} />
+                        </button>
                         <button
                             onClick={() => undo()}
                             disabled={!canUndo}
@@ -641,6 +718,42 @@ export default function ChorduroyApp() {
                                 {selectionCount > 1 && <span className="text-xs">{selectionCount}</span>}
                             </button>
                         )}
+                        <button
+                            onClick={() => importFileInputRef.current?.click()}
+                            title="Import a MIDI file or MusicXML score"
+                            className="p-2 rounded-md text-slate-300 hover:bg-slate-700 hover:text-white transition-all"
+                        >
+                            <Upload size={16} />
+                        </button>
+                        <input
+                            ref={importFileInputRef}
+                            type="file"
+                            accept=".mid,.midi,audio/midi,.musicxml,.xml"
+                            onChange={handleImportFileChosen}
+                            className="hidden"
+                        />
+                        {sequenceHasCards && (
+                            <button
+                                onClick={() => downloadFile(writeMidiFile(sequence), fileNameFor(sequence, 'mid'), 'audio/midi')}
+                                title="Export as a MIDI file"
+                                className="p-2 rounded-md text-slate-300 hover:bg-slate-700 hover:text-white transition-all"
+                            >
+                                <Download size={16} />
+                            </button>
+                        )}
+                        {sequenceHasCards && (
+                            <button
+                                onClick={() => downloadFile(
+                                    writeMusicXml(sequence),
+                                    fileNameFor(sequence, 'musicxml'),
+                                    'application/vnd.recordare.musicxml+xml'
+                                )}
+                                title="Export as MusicXML for notation software"
+                                className="p-2 rounded-md text-slate-300 hover:bg-slate-700 hover:text-white transition-all"
+                            >
+                                <FileText size={16} />
+                            </button>
+                        )}
                         {cards.length > 0 && (
                             <button
                                 onClick={() => {
@@ -683,6 +796,14 @@ export default function ChorduroyApp() {
                                 <Trophy size={12} className="text-yellow-500" />
                                 {score}
                             </div>
+                            <button
+                                onClick={hearTarget}
+                                disabled={!output}
+                                title={output ? 'Hear the target' : 'No audio output available'}
+                                className={output ? 'text-slate-400 hover:text-white' : 'text-slate-600 cursor-not-allowed'}
+                            >
+                                <Volume2 size={14} />
+                            </button>
                             <button onClick={skipChord} className="text-slate-400 hover:text-white">
                                 <SkipForward size={14} />
                             </button>
@@ -692,6 +813,56 @@ export default function ChorduroyApp() {
 
                 {/* BOTTOM SECTION: VISUALIZATION */}
                 <div className="bg-slate-800 rounded-xl p-3 md:p-4 border border-slate-700 shadow-xl flex-1 flex flex-col gap-4">
+                    {/* Metronome and practice: loop, count-in, tempo ramp */}
+                    <div className="flex flex-wrap items-center gap-x-6 gap-y-2">
+                        <MetronomeControls
+                            settings={metronome.settings}
+                            onEnabledChange={metronome.setEnabled}
+                            onSubdivisionChange={metronome.setSubdivision}
+                            onVolumeChange={metronome.setVolume}
+                            tempo={sequence.tempo}
+                            onTempoChange={setTempo}
+                            timeSignature={sequence.timeSignature}
+                            onTimeSignatureChange={setTimeSignature}
+                            currentBeat={metronome.currentBeat}
+                        />
+                        {gameMode === 'free' && (
+                            <TimedRecordControls
+                                isRecording={timedRecording.isRecording}
+                                onStart={timedRecording.start}
+                                onStop={timedRecording.stop}
+                                disabled={playbackState === 'playing'}
+                                grid={timedRecording.grid}
+                                onGridChange={timedRecording.setGrid}
+                                swingTolerance={timedRecording.swingTolerance}
+                                onSwingToleranceChange={timedRecording.setSwingTolerance}
+                            />
+                        )}
+                        <PracticeControls
+                            loop={sequence.loop}
+                            loopLength={loopCardIds.length}
+                            selectionCount={selectionCount}
+                            onLoopSelection={setLoopFromSelection}
+                            onLoopEnabledChange={setLoopEnabled}
+                            onClearLoop={() => setLoop(null)}
+                            practice={practice}
+                            onCountInChange={setCountInBars}
+                            onTempoRampChange={setTempoRamp}
+                            tempo={sequence.tempo}
+                            currentTempo={playbackState !== 'stopped' ? playbackPosition.tempo : undefined}
+                            loopPass={playbackState !== 'stopped' ? playbackPosition.loopPass : undefined}
+                        />
+                    </div>
+
+                    {/* Tracks: what recording and editing apply to */}
+                    <TrackSelector
+                        trackIds={trackIds(sequence)}
+                        activeTrackId={activeTrackId}
+                        onSelect={setActiveTrack}
+                        onSplitHands={canSplitIntoHands(sequence) ? splitIntoHandTracks : undefined}
+                        disabled={timedRecording.isRecording}
+                    />
+
                     {/* Card-based Chord History */}
                     <ChordCardHistory
                         activeNotes={activeNotes}
@@ -701,10 +872,17 @@ export default function ChorduroyApp() {
                         onSelectCards={selectCards}
                         onClearSelection={clearSelection}
                         recordingDuration={recordingDuration}
+                        playingCardId={playingCardId}
+                        loopCardIds={loopCardIds}
+                        keySignature={sequence.keySignature}
+                        splitPoint={splitPoint}
+                        onRespellNote={respellNote}
+                        hoveredCardId={hoveredCardId}
+                        onCardHover={setHoveredCard}
                     />
 
                     {/* VexFlow Sheet Music */}
-                    <SimpleStaff segments={history} />
+                    <StaffRenderer onCardClick={handleCardClick} />
 
                     {/* Keyboard View */}
                     <VirtualKeyboard
@@ -715,6 +893,24 @@ export default function ChorduroyApp() {
                     />
                 </div>
             </main>
+
+            {pendingImport && (
+                <ImportDialog
+                    fileName={pendingImport.fileName}
+                    source={pendingImport.source}
+                    targetTrackLabel={trackLabel(activeTrackId)}
+                    hasCards={sequenceHasCards}
+                    onReplace={(imported) => {
+                        loadSequence(imported);
+                        setPendingImport(null);
+                    }}
+                    onAppend={(imported) => {
+                        appendCards(imported);
+                        setPendingImport(null);
+                    }}
+                    onCancel={() => setPendingImport(null)}
+                />
+            )}
         </div>
     );
 }
@@ -1,5 +1,8 @@
 import React from 'react';
 import { MiniVexStaff } from './MiniVexStaff';
+import { getNoteDetails } from '../lib/chordAnalysis';
+import { chordDisplay } from '../lib/spelling';
+import type { HandSplit } from '../lib/handSplit';
 import type { PhraseSegment } from '../types';
 
 export interface ChordCardProps {
@@ -7,16 +10,65 @@ export interface ChordCardProps {
     cardId?: string;  // Card ID for selection (undefined for active card)
     isActive?: boolean;
     isSelected?: boolean;
+    /** Under the playback cursor */
+    isPlaying?: boolean;
+    /** Under the pointer, here or on the staff */
+    isHovered?: boolean;
+    /** Inside the practice loop */
+    isInLoop?: boolean;
+    /** Active key, for spelling the notes */
+    keySignature?: string;
+    /** The notes by staff, as the sequence splits them */
+    hands?: HandSplit;
+    /** Clicking a note on the mini staff cycles its spelling */
+    onRespellNote?: (midi: number) => void;
     onClick?: (event: React.MouseEvent) => void;
 }
 
-const CARD_WIDTH = 156;
+export const CARD_WIDTH = 156;
+const VELOCITY_BAR_HEIGHT = 20;
+
+/** One bar per note (low to high), height by recorded velocity */
+const VelocityBars: React.FC<{ notes: number[]; velocities: number[]; onsets?: number[] }> = ({
+    notes,
+    velocities,
+    onsets,
+}) => {
+    const average = velocities.reduce((sum, v) => sum + v, 0) / velocities.length;
+    return (
+        <div
+            className="flex items-end justify-center gap-0.5 px-3 pb-2"
+            style={{ height: VELOCITY_BAR_HEIGHT + 8 }}
+        >
+            {notes.map((note, i) => {
+                const velocity = velocities[i] ?? 0;
+                // Flag notes noticeably louder or softer than the rest of the voicing
+                const isUneven = Math.abs(velocity - average) > 20;
+                const onset = onsets?.[i];
+                return (
+                    <div
+                        key={note}
+                        className={`flex-1 max-w-[10px] rounded-t-sm ${isUneven ? 'bg-rose-400' : 'bg-amber-400/80'}`}
+                        style={{ height: Math.max(2, (velocity / 127) * VELOCITY_BAR_HEIGHT) }}
+                        title={`${getNoteDetails(note).name}: velocity ${velocity}${onset ? `, +${onset} ms` : ''}`}
+                    />
+                );
+            })}
+        </div>
+    );
+};
 
 export const ChordCard: React.FC<ChordCardProps> = ({
     segment,
     cardId,
     isActive = false,
     isSelected = false,
+    isPlaying = false,
+    isHovered = false,
+    isInLoop = false,
+    keySignature,
+    hands,
+    onRespellNote,
     onClick
 }) => {
     return (
@@ -30,6 +82,9 @@ export const ChordCard: React.FC<ChordCardProps> = ({
                     ? 'bg-gradient-to-b from-blue-50 via-indigo-50/30 to-white border-2 border-blue-400/70 shadow-lg shadow-blue-200/40 scale-[1.04] ring-2 ring-blue-300/50'
                     : 'bg-gradient-to-b from-amber-50 via-orange-50/30 to-white border border-amber-300/70 shadow-md hover:shadow-lg hover:scale-[1.02]'
                 }
+                ${isPlaying ? 'ring-4 ring-emerald-400/70 shadow-emerald-200/60' : ''}
+                ${isHovered && !isSelected && !isPlaying ? 'ring-2 ring-amber-400/70' : ''}
+                ${isInLoop ? 'outline-dashed outline-2 outline-offset-4 outline-violet-400/70' : ''}
             `}
             style={{ width: CARD_WIDTH }}
         >
@@ -43,7 +98,9 @@ export const ChordCard: React.FC<ChordCardProps> = ({
                     : 'bg-gradient-to-r from-amber-100/80 via-amber-50 to-amber-100/80 border-amber-200/60 text-stone-800'
                 }
             `}>
-                {segment.analysis?.display || '—'}
+                {segment.analysis
+                    ? chordDisplay(segment.notes, segment.analysis, segment.enharmonicOverrides, keySignature)
+                    : '—'}
             </div>
 
             {/* Mini Staff - VexFlow */}
@@ -52,8 +109,22 @@ export const ChordCard: React.FC<ChordCardProps> = ({
                     notes={segment.notes}
                     duration={segment.duration || 'q'}
                     isActive={isActive}
+                    analysis={segment.analysis}
+                    enharmonicOverrides={segment.enharmonicOverrides}
+                    keySignature={keySignature}
+                    hands={hands}
+                    onNoteClick={onRespellNote}
                 />
             </div>
+
+            {/* Recorded dynamics */}
+            {segment.velocities && segment.velocities.length > 0 && (
+                <VelocityBars
+                    notes={segment.notes}
+                    velocities={segment.velocities}
+                    onsets={segment.onsets}
+                />
+            )}
         </div>
     );
 };
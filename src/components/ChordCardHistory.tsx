@@ -1,18 +1,48 @@
 import React, { useState, useEffect, useMemo, useCallback, useRef } from 'react';
-import { ChordCard } from './ChordCard';
+import { CARD_WIDTH, ChordCard } from './ChordCard';
 import { analyzeChord } from '../lib/chordAnalysis';
+import { DEFAULT_SPLIT_POINT, splitCards, splitHands } from '../lib/handSplit';
+import { visibleRange } from '../lib/renderCache';
 import type { ChordAnalysis, Duration, PhraseSegment } from '../types';
 
 export interface ChordCardHistoryProps {
     activeNotes: number[];
-    cards: { id: string; notes: number[]; duration: Duration; analysis?: ChordAnalysis }[];
+    cards: {
+        id: string;
+        notes: number[];
+        duration: Duration;
+        analysis?: ChordAnalysis;
+        enharmonicOverrides?: Record<number, string>;
+        handSplit?: number;
+        velocities?: number[];
+        onsets?: number[];
+    }[];
     selectedCardIds: string[];
     onCardClick: (cardId: string, event: React.MouseEvent) => void;
     onSelectCards: (ids: string[]) => void;
     onClearSelection: () => void;
     recordingDuration: Duration;
+    /** Card under the playback cursor */
+    playingCardId?: string | null;
+    /** Cards inside the active practice loop */
+    loopCardIds?: string[];
+    /** Active key, for spelling the cards' notes */
+    keySignature?: string;
+    /** MIDI note the treble/bass split leans toward */
+    splitPoint?: number;
+    /** A note on a card's mini staff was clicked to cycle its spelling */
+    onRespellNote?: (cardId: string, midi: number) => void;
+    /** Card under the pointer here or on the staff */
+    hoveredCardId?: string | null;
+    onCardHover?: (cardId: string | null) => void;
 }
 
+/** Space between cards (gap-3) and before the first (pl-6) */
+const CARD_GAP = 12;
+const LIST_PADDING = 24;
+/** Cards kept rendered beyond each edge of the view */
+const OVERSCAN = 4;
+
 export const ChordCardHistory: React.FC<ChordCardHistoryProps> = ({
     activeNotes,
     cards,
@@ -20,7 +50,14 @@ export const ChordCardHistory: React.FC<ChordCardHistoryProps> = ({
     onCardClick,
     onSelectCards,
     onClearSelection,
-    recordingDuration
+    recordingDuration,
+    playingCardId = null,
+    loopCardIds = [],
+    keySignature = 'C',
+    splitPoint = DEFAULT_SPLIT_POINT,
+    onRespellNote,
+    hoveredCardId = null,
+    onCardHover
 }) => {
     const scrollRef = useRef<HTMLDivElement>(null);
     const containerRef = useRef<HTMLDivElement>(null);
@@ -30,6 +67,7 @@ export const ChordCardHistory: React.FC<ChordCardHistoryProps> = ({
     const [canScrollLeft, setCanScrollLeft] = useState(false);
     const [canScrollRight, setCanScrollRight] = useState(false);
     const [isBrowsing, setIsBrowsing] = useState(false);
+    const [viewport, setViewport] = useState({ offset: 0, size: 0 });
     const scrollIntervalRef = useRef<number | null>(null);
 
     // Marquee selection state
@@ -44,6 +82,25 @@ export const ChordCardHistory: React.FC<ChordCardHistoryProps> = ({
     // Convert cards to segments for rendering (cards with notes are chord segments)
     const chordCards = useMemo(() => cards.filter(c => c.notes.length > 0), [cards]);
 
+    // Staves for each card's notes, split in sequence order as the sheet music does
+    const handsById = useMemo(() => {
+        const hands = splitCards(cards, splitPoint);
+        return new Map(cards.map((card, i) => [card.id, hands[i]]));
+    }, [cards, splitPoint]);
+    const activeHands = useMemo(() => splitHands(activeNotes, { splitPoint }), [activeNotes, splitPoint]);
+
+    // Only the cards in view (and a few either side) are mounted; spacers
+    // stand in for the rest so the scroll width stays true
+    const { start: firstShown, end: lastShown } = visibleRange({
+        scrollOffset: viewport.offset,
+        viewportSize: viewport.size,
+        itemSize: CARD_WIDTH + CARD_GAP,
+        count: chordCards.length,
+        leading: LIST_PADDING,
+        overscan: OVERSCAN,
+    });
+    const spacerWidth = (count: number) => count * (CARD_WIDTH + CARD_GAP) - CARD_GAP;
+
     // Create segment for active notes
     const activeSegment = useMemo((): PhraseSegment | null => {
         if (activeNotes.length === 0) return null;
@@ -62,6 +119,7 @@ export const ChordCardHistory: React.FC<ChordCardHistoryProps> = ({
             const { scrollLeft, scrollWidth, clientWidth } = scrollRef.current;
             setCanScrollLeft(scrollLeft > 5);
             setCanScrollRight(scrollLeft < scrollWidth - clientWidth - 5);
+            setViewport({ offset: scrollLeft, size: clientWidth });
         }
     }, []);
 
@@ -94,6 +152,23 @@ export const ChordCardHistory: React.FC<ChordCardHistoryProps> = ({
         }
     }, [chordCards.length, isBrowsing, selectedCardIds.length]);
 
+    // Keep the playing card in view, scrolling by position if it isn't mounted
+    useEffect(() => {
+        if (!playingCardId) return;
+        const element = cardRefsMap.current.get(playingCardId);
+        if (element) {
+            element.scrollIntoView({ behavior: 'smooth', block: 'nearest', inline: 'center' });
+            return;
+        }
+        const index = chordCards.findIndex((card) => card.id === playingCardId);
+        const scroller = scrollRef.current;
+        if (index < 0 || !scroller) return;
+        scroller.scrollTo({
+            left: LIST_PADDING + index * (CARD_WIDTH + CARD_GAP) - (scroller.clientWidth - CARD_WIDTH) / 2,
+            behavior: 'smooth',
+        });
+    }, [playingCardId, chordCards]);
+
     // Continuous scroll while hovering - check bounds inside interval to avoid stutter
     useEffect(() => {
         if (isHoveringLeft) {
@@ -307,7 +382,10 @@ export const ChordCardHistory: React.FC<ChordCardHistoryProps> = ({
             >
                 <div ref={containerRef} className="flex gap-3 p-4 pr-8 pl-6 min-w-min items-center">
                     {/* History cards */}
-                    {chordCards.map((card) => {
+                    {firstShown > 0 && (
+                        <div className="flex-shrink-0" style={{ width: spacerWidth(firstShown) }} aria-hidden />
+                    )}
+                    {chordCards.slice(firstShown, lastShown).map((card) => {
                         // Convert card to PhraseSegment for ChordCard rendering
                         const segment: PhraseSegment = {
                             type: 'chord',
@@ -315,6 +393,9 @@ export const ChordCardHistory: React.FC<ChordCardHistoryProps> = ({
                             timestamp: 0,  // Not used for display
                             analysis: card.analysis,
                             duration: card.duration,
+                            enharmonicOverrides: card.enharmonicOverrides,
+                            velocities: card.velocities,
+                            onsets: card.onsets,
                         };
                         const isMarqueeSelected = marqueeSelectedIds.includes(card.id);
                         return (
@@ -324,22 +405,39 @@ export const ChordCardHistory: React.FC<ChordCardHistoryProps> = ({
                                     if (el) cardRefsMap.current.set(card.id, el);
                                     else cardRefsMap.current.delete(card.id);
                                 }}
+                                onMouseEnter={() => onCardHover?.(card.id)}
+                                onMouseLeave={() => onCardHover?.(null)}
                             >
                                 <ChordCard
                                     cardId={card.id}
                                     segment={segment}
                                     isSelected={selectedCardIds.includes(card.id) || isMarqueeSelected}
+                                    isPlaying={card.id === playingCardId}
+                                    isHovered={card.id === hoveredCardId}
+                                    isInLoop={loopCardIds.includes(card.id)}
+                                    keySignature={keySignature}
+                                    hands={handsById.get(card.id)}
+                                    onRespellNote={onRespellNote && ((midi) => onRespellNote(card.id, midi))}
                                     onClick={(e) => onCardClick(card.id, e)}
                                 />
                             </div>
                         );
                     })}
+                    {lastShown < chordCards.length && (
+                        <div
+                            className="flex-shrink-0"
+                            style={{ width: spacerWidth(chordCards.length - lastShown) }}
+                            aria-hidden
+                        />
+                    )}
 
                     {/* Active chord card - only show when no cards are selected */}
                     {activeSegment && selectedCardIds.length === 0 && (
                         <ChordCard
                             segment={activeSegment}
                             isActive={true}
+                            keySignature={keySignature}
+                            hands={activeHands}
                             onClick={() => onClearSelection()}
                         />
                     )}
@@ -1,35 +1,73 @@
 import React, { useState, useEffect, useRef } from 'react';
-import type { Duration } from '../types';
+import { DURATION_INFO } from '../types';
+import type { BaseDuration, Duration } from '../types';
+import { cycleDots, toggleTuplet, withBase } from '../lib/durations';
 
 export interface DurationScrollPickerProps {
     value: Duration;
     onChange: (duration: Duration) => void;
+    /** A dot or tuplet toggle, for the caller to apply to each card's own duration */
+    onModify: (modify: (duration: Duration) => Duration) => void;
     mode: 'edit' | 'record';
     selectionCount?: number;  // Number of cards selected (for multi-selection)
 }
 
-export const DURATION_OPTIONS: { value: Duration; label: string; shortcut: string }[] = [
+/** Note values on the wheel; dots and tuplets are applied on top */
+export const DURATION_OPTIONS: { value: BaseDuration; label: string; shortcut: string }[] = [
     { value: 'w', label: 'Whole', shortcut: '1' },
     { value: 'h', label: 'Half', shortcut: '2' },
     { value: 'q', label: 'Quarter', shortcut: '3' },
     { value: '8', label: 'Eighth', shortcut: '4' },
     { value: '16', label: '16th', shortcut: '5' },
+    { value: '32', label: '32nd', shortcut: '6' },
 ];
 
-const DurationNoteIcon: React.FC<{ duration: Duration; className?: string }> = ({ duration, className = '' }) => {
-    const icons: Record<Duration, JSX.Element> = {
+/** Toggles that turn the wheel's value into dotted or tuplet durations */
+export const DURATION_MODIFIERS: {
+    label: (duration: Duration) => string;
+    title: string;
+    shortcut: string;
+    apply: (duration: Duration) => Duration;
+    isActive: (duration: Duration) => boolean;
+}[] = [
+    {
+        label: (d) => (DURATION_INFO[d].dots > 1 ? '··' : '·'),
+        title: 'Dot (again for double dot)',
+        shortcut: '.',
+        apply: cycleDots,
+        isActive: (d) => DURATION_INFO[d].dots > 0,
+    },
+    {
+        label: () => '3',
+        title: 'Triplet',
+        shortcut: 't',
+        apply: (d) => toggleTuplet(d, 3),
+        isActive: (d) => DURATION_INFO[d].tuplet?.notes === 3,
+    },
+    {
+        label: () => '5',
+        title: 'Quintuplet',
+        shortcut: 'q',
+        apply: (d) => toggleTuplet(d, 5),
+        isActive: (d) => DURATION_INFO[d].tuplet?.notes === 5,
+    },
+];
+
+const DurationNoteIcon: React.FC<{ duration: BaseDuration; className?: string }> = ({ duration, className = '' }) => {
+    const icons: Record<BaseDuration, JSX.Element> = {
         'w': <svg viewBox="0 0 32 40" className={className}><ellipse cx="16" cy="24" rx="10" ry="6" fill="none" stroke="currentColor" strokeWidth="2.5"/></svg>,
         'h': <svg viewBox="0 0 32 40" className={className}><ellipse cx="12" cy="30" rx="9" ry="5.5" fill="none" stroke="currentColor" strokeWidth="2.5" transform="rotate(-20 12 30)"/><line x1="20" y1="27" x2="20" y2="6" stroke="currentColor" strokeWidth="2.5"/></svg>,
         'q': <svg viewBox="0 0 32 40" className={className}><ellipse cx="12" cy="30" rx="9" ry="5.5" fill="currentColor" transform="rotate(-20 12 30)"/><line x1="20" y1="27" x2="20" y2="6" stroke="currentColor" strokeWidth="2.5"/></svg>,
         '8': <svg viewBox="0 0 32 40" className={className}><ellipse cx="12" cy="30" rx="9" ry="5.5" fill="currentColor" transform="rotate(-20 12 30)"/><line x1="20" y1="27" x2="20" y2="6" stroke="currentColor" strokeWidth="2.5"/><path d="M20 6 Q28 12 23 20" fill="none" stroke="currentColor" strokeWidth="2.5" strokeLinecap="round"/></svg>,
         '16': <svg viewBox="0 0 32 40" className={className}><ellipse cx="12" cy="30" rx="9" ry="5.5" fill="currentColor" transform="rotate(-20 12 30)"/><line x1="20" y1="27" x2="20" y2="6" stroke="currentColor" strokeWidth="2.5"/><path d="M20 6 Q28 10 23 16" fill="none" stroke="currentColor" strokeWidth="2.5" strokeLinecap="round"/><path d="M20 12 Q28 16 23 22" fill="none" stroke="currentColor" strokeWidth="2.5" strokeLinecap="round"/></svg>,
+        '32': <svg viewBox="0 0 32 40" className={className}><ellipse cx="12" cy="30" rx="9" ry="5.5" fill="currentColor" transform="rotate(-20 12 30)"/><line x1="20" y1="27" x2="20" y2="4" stroke="currentColor" strokeWidth="2.5"/><path d="M20 4 Q28 8 23 13" fill="none" stroke="currentColor" strokeWidth="2.5" strokeLinecap="round"/><path d="M20 9 Q28 13 23 18" fill="none" stroke="currentColor" strokeWidth="2.5" strokeLinecap="round"/><path d="M20 14 Q28 18 23 23" fill="none" stroke="currentColor" strokeWidth="2.5" strokeLinecap="round"/></svg>,
     };
     return icons[duration];
 };
 
 const ITEM_HEIGHT = 44;
 
-export const DurationScrollPicker: React.FC<DurationScrollPickerProps> = ({ value, onChange, mode, selectionCount = 0 }) => {
+export const DurationScrollPicker: React.FC<DurationScrollPickerProps> = ({ value, onChange, onModify, mode, selectionCount = 0 }) => {
     const containerRef = useRef<HTMLDivElement>(null);
 
     // Use refs for drag state to avoid stale closure issues with pointer capture
@@ -40,11 +78,18 @@ export const DurationScrollPicker: React.FC<DurationScrollPickerProps> = ({ valu
     // State only for triggering re-renders during drag
     const [, forceRender] = useState(0);
 
-    const currentIndex = DURATION_OPTIONS.findIndex(d => d.value === value);
+    const { base, dots, tuplet } = DURATION_INFO[value];
+    const currentIndex = DURATION_OPTIONS.findIndex(d => d.value === base);
 
     // Store onChange in a ref to avoid re-attaching wheel listener
     const onChangeRef = useRef(onChange);
     onChangeRef.current = onChange;
+    const valueRef = useRef(value);
+    valueRef.current = value;
+
+    // Moving the wheel keeps the dots or tuplet where the new value has them.
+    // Reads only refs, so the wheel listener's first-render copy stays current.
+    const selectBase = (next: BaseDuration) => onChangeRef.current(withBase(valueRef.current, next));
     const currentIndexRef = useRef(currentIndex);
     currentIndexRef.current = currentIndex;
 
@@ -59,7 +104,7 @@ export const DurationScrollPicker: React.FC<DurationScrollPickerProps> = ({ valu
             const direction = e.deltaY > 0 ? -1 : 1;
             const newIndex = Math.max(0, Math.min(DURATION_OPTIONS.length - 1, currentIndexRef.current + direction));
             if (newIndex !== currentIndexRef.current) {
-                onChangeRef.current(DURATION_OPTIONS[newIndex].value);
+                selectBase(DURATION_OPTIONS[newIndex].value);
             }
         };
 
@@ -87,7 +132,7 @@ export const DurationScrollPicker: React.FC<DurationScrollPickerProps> = ({ valu
 
         // Update selection in real-time as user drags
         if (newIndex !== currentIndexRef.current) {
-            onChangeRef.current(DURATION_OPTIONS[newIndex].value);
+            selectBase(DURATION_OPTIONS[newIndex].value);
         }
     };
 
@@ -104,7 +149,7 @@ export const DurationScrollPicker: React.FC<DurationScrollPickerProps> = ({ valu
 
     const handleClick = (index: number) => {
         if (!isDraggingRef.current) {
-            onChange(DURATION_OPTIONS[index].value);
+            selectBase(DURATION_OPTIONS[index].value);
         }
     };
 
@@ -133,6 +178,7 @@ export const DurationScrollPicker: React.FC<DurationScrollPickerProps> = ({ valu
             {/* Vertical scroll picker */}
             <div
                 ref={containerRef}
+                title={DURATION_INFO[value].label}
                 className={`relative select-none cursor-ns-resize rounded-xl overflow-hidden transition-shadow ${
                     isDraggingRef.current
                         ? mode === 'edit'
@@ -190,15 +236,20 @@ export const DurationScrollPicker: React.FC<DurationScrollPickerProps> = ({ valu
                                     transform: `scale(${scale})`,
                                 }}
                             >
-                                {/* Note icon */}
-                                <DurationNoteIcon
-                                    duration={option.value}
-                                    className={`w-6 h-8 ${
-                                        isActive
-                                            ? mode === 'edit' ? 'text-blue-300' : 'text-emerald-300'
-                                            : 'text-slate-400'
-                                    }`}
-                                />
+                                {/* Note icon, with the current value's dots and tuplet number */}
+                                <span className={`relative flex items-center ${
+                                    isActive
+                                        ? mode === 'edit' ? 'text-blue-300' : 'text-emerald-300'
+                                        : 'text-slate-400'
+                                }`}>
+                                    <DurationNoteIcon duration={option.value} className="w-6 h-8" />
+                                    {isActive && dots > 0 && (
+                                        <span className="text-lg font-bold leading-none -ml-0.5">{'.'.repeat(dots)}</span>
+                                    )}
+                                    {isActive && tuplet && (
+                                        <span className="absolute -top-1 -left-1 text-[10px] font-bold">{tuplet.notes}</span>
+                                    )}
+                                </span>
 
                                 {/* Label */}
                                 <span className={`text-sm font-medium ${
@@ -240,6 +291,30 @@ export const DurationScrollPicker: React.FC<DurationScrollPickerProps> = ({ valu
                     </>
                 )}
             </div>
+
+            {/* Dot and tuplet toggles */}
+            <div className="flex flex-col gap-1">
+                {DURATION_MODIFIERS.map((modifier) => {
+                    const isActive = modifier.isActive(value);
+                    return (
+                        <button
+                            key={modifier.shortcut}
+                            onClick={() => onModify(modifier.apply)}
+                            className={`w-8 h-8 flex items-center justify-center rounded-lg border text-sm font-bold transition-colors ${
+                                isActive
+                                    ? mode === 'edit'
+                                        ? 'bg-blue-500/30 border-blue-400/50 text-blue-200'
+                                        : 'bg-emerald-500/30 border-emerald-400/50 text-emerald-200'
+                                    : 'border-slate-600 text-slate-400 hover:bg-slate-700 hover:text-white'
+                            }`}
+                            title={`${modifier.title} (${modifier.shortcut})`}
+                            aria-pressed={isActive}
+                        >
+                            {modifier.label(value)}
+                        </button>
+                    );
+                })}
+            </div>
         </div>
     );
 };
@@ -0,0 +1,57 @@
+import React from 'react';
+import { ArrowDown, ArrowUp } from 'lucide-react';
+import type { HandSplit } from '../lib/handSplit';
+
+export interface HandSplitControlsProps {
+    /** The selected card's notes by staff */
+    hands: HandSplit;
+    /** The card has a manual split */
+    isManual: boolean;
+    /** Move the boundary one note: -1 hands the bass's top note up, 1 the treble's lowest down */
+    onShift: (direction: 1 | -1) => void;
+    /** Back to the automatic split */
+    onReset: () => void;
+}
+
+/** Which of a card's notes sit on the bass staff and which on the treble */
+export const HandSplitControls: React.FC<HandSplitControlsProps> = ({ hands, isManual, onShift, onReset }) => {
+    const button = 'p-0.5 rounded border border-slate-600 text-slate-300 hover:bg-slate-700 hover:text-white disabled:opacity-40';
+
+    return (
+        <div className="flex flex-col items-center gap-0.5">
+            <span className="text-[8px] text-slate-400 uppercase">
+                Hands {hands.bass.length}·{hands.treble.length}
+            </span>
+            <div className="flex items-center gap-0.5">
+                <button
+                    type="button"
+                    onClick={() => onShift(-1)}
+                    disabled={hands.bass.length === 0}
+                    className={button}
+                    title="Move the bass staff's top note to the treble"
+                >
+                    <ArrowUp size={10} />
+                </button>
+                <button
+                    type="button"
+                    onClick={() => onShift(1)}
+                    disabled={hands.treble.length === 0}
+                    className={button}
+                    title="Move the treble staff's lowest note to the bass"
+                >
+                    <ArrowDown size={10} />
+                </button>
+                {isManual && (
+                    <button
+                        type="button"
+                        onClick={onReset}
+                        className="px-1 text-[9px] rounded border border-slate-600 text-slate-300 hover:bg-slate-700 hover:text-white"
+                        title="Split this card automatically again"
+                    >
+                        Auto
+                    </button>
+                )}
+            </div>
+        </div>
+    );
+};
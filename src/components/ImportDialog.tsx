@@ -0,0 +1,175 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { X } from 'lucide-react';
+import type { Card, Duration, Sequence } from '../types';
+import { midiFileToSequence } from '../lib/midiFile';
+import type { MidiFile } from '../lib/midiFile';
+import { musicXmlToSequence } from '../lib/musicXml';
+import type { MusicXmlScore } from '../lib/musicXml';
+
+/** A file read for import, before it becomes cards */
+export type ImportSource =
+    | { format: 'midi'; file: MidiFile }
+    | { format: 'musicXml'; score: MusicXmlScore };
+
+export interface ImportDialogProps {
+    fileName: string;
+    source: ImportSource;
+    /** Name of the track appended cards go to */
+    targetTrackLabel: string;
+    /** The current sequence has cards a replace would discard */
+    hasCards: boolean;
+    /** Load the imported sequence in place of the current one */
+    onReplace: (sequence: Sequence) => void;
+    /** Add the imported cards to the end of the target track */
+    onAppend: (cards: Card[]) => void;
+    onCancel: () => void;
+}
+
+/** Grids a MIDI import can snap to */
+const GRIDS: { value: Duration; label: string }[] = [
+    { value: '8', label: '8th' },
+    { value: '16', label: '16th' },
+    { value: '32', label: '32nd' },
+];
+
+/** Lowest roots chord symbols can be voiced from */
+const REGISTERS: { value: number; label: string }[] = [
+    { value: 36, label: 'C2' },
+    { value: 48, label: 'C3' },
+    { value: 60, label: 'C4' },
+];
+
+const TITLES: Record<ImportSource['format'], string> = {
+    midi: 'Import MIDI file',
+    musicXml: 'Import MusicXML score',
+};
+
+/** Cards listed in the preview before it summarises the rest */
+const PREVIEW_LIMIT = 48;
+
+/** Preview of the cards a MIDI file or MusicXML score becomes, to replace the sequence with or append */
+export const ImportDialog: React.FC<ImportDialogProps> = ({
+    fileName,
+    source,
+    targetTrackLabel,
+    hasCards,
+    onReplace,
+    onAppend,
+    onCancel,
+}) => {
+    const [grid, setGrid] = useState<Duration>('16');
+    const [register, setRegister] = useState(48);
+    const sequence = useMemo(() => {
+        const name = fileName.replace(/\.(midi?|musicxml|xml)$/i, '');
+        return source.format === 'midi'
+            ? midiFileToSequence(source.file, { grid, name })
+            : musicXmlToSequence(source.score, { register, name });
+    }, [source, grid, register, fileName]);
+    const cards = Object.values(sequence.tracks).flat();
+    const chordCount = cards.filter((c) => !c.isRest).length;
+
+    useEffect(() => {
+        const handleKeyDown = (e: KeyboardEvent) => {
+            if (e.key === 'Escape') onCancel();
+        };
+        window.addEventListener('keydown', handleKeyDown);
+        return () => window.removeEventListener('keydown', handleKeyDown);
+    }, [onCancel]);
+
+    const handleReplace = () => {
+        if (hasCards && !confirm('Replace the current sequence?')) return;
+        onReplace(sequence);
+    };
+
+    const button = 'px-3 py-1.5 rounded-md text-xs font-medium transition-all disabled:opacity-40';
+
+    return (
+        <div className="fixed inset-0 z-[60] flex items-center justify-center bg-black/50" onClick={onCancel}>
+            <div
+                role="dialog"
+                aria-modal="true"
+                aria-label={TITLES[source.format]}
+                className="w-full max-w-xl bg-slate-800 border border-slate-700 rounded-xl shadow-xl p-4 flex flex-col gap-3 text-slate-200"
+                onClick={(e) => e.stopPropagation()}
+            >
+                <div className="flex items-center justify-between">
+                    <div>
+                        <h2 className="text-sm font-semibold">{sequence.name}</h2>
+                        <p className="text-xs text-slate-400">
+                            {fileName} · {chordCount} chord{chordCount !== 1 ? 's' : ''} · {sequence.tempo} BPM
+                            · {sequence.timeSignature[0]}/{sequence.timeSignature[1]}
+                            {sequence.keySignature && ` · ${sequence.keySignature} major`}
+                        </p>
+                    </div>
+                    <button onClick={onCancel} className="text-slate-400 hover:text-white" title="Cancel (Esc)">
+                        <X size={16} />
+                    </button>
+                </div>
+
+                <div className="flex items-center gap-2 text-xs text-slate-300">
+                    <span>{source.format === 'midi' ? 'Snap to' : 'Voice chord symbols from'}</span>
+                    <div className="flex bg-slate-900 rounded-md p-0.5 border border-slate-700">
+                        {source.format === 'midi'
+                            ? GRIDS.map(({ value, label }) => (
+                                <button
+                                    key={value}
+                                    onClick={() => setGrid(value)}
+                                    className={`px-2 py-0.5 rounded ${grid === value ? 'bg-slate-700 text-white' : 'text-slate-400 hover:text-white'}`}
+                                >
+                                    {label}
+                                </button>
+                            ))
+                            : REGISTERS.map(({ value, label }) => (
+                                <button
+                                    key={value}
+                                    onClick={() => setRegister(value)}
+                                    className={`px-2 py-0.5 rounded ${register === value ? 'bg-slate-700 text-white' : 'text-slate-400 hover:text-white'}`}
+                                >
+                                    {label}
+                                </button>
+                            ))}
+                    </div>
+                </div>
+
+                <div className="flex flex-wrap gap-1 max-h-48 overflow-y-auto bg-slate-900 rounded-md p-2">
+                    {cards.length === 0 && <span className="text-xs text-slate-500">The file has no notes.</span>}
+                    {cards.slice(0, PREVIEW_LIMIT).map((card) => (
+                        <span
+                            key={card.id}
+                            className={`px-1.5 py-0.5 rounded text-xs font-mono ${
+                                card.isRest ? 'text-slate-500 border border-dashed border-slate-700' : 'bg-slate-700 text-slate-100'
+                            }`}
+                            title={card.notes.join(' ')}
+                        >
+                            {card.isRest ? 'rest' : card.analysis?.display ?? `${card.notes.length} notes`}
+                            <span className="text-slate-400"> {card.duration}</span>
+                        </span>
+                    ))}
+                    {cards.length > PREVIEW_LIMIT && (
+                        <span className="text-xs text-slate-500 self-center">+{cards.length - PREVIEW_LIMIT} more</span>
+                    )}
+                </div>
+
+                <div className="flex justify-end gap-2">
+                    <button onClick={onCancel} className={`${button} text-slate-300 hover:bg-slate-700`}>
+                        Cancel
+                    </button>
+                    <button
+                        onClick={() => onAppend(cards)}
+                        disabled={cards.length === 0}
+                        className={`${button} border border-slate-600 text-slate-200 hover:bg-slate-700`}
+                    >
+                        Append to {targetTrackLabel}
+                    </button>
+                    <button
+                        onClick={handleReplace}
+                        disabled={cards.length === 0}
+                        className={`${button} bg-blue-600 text-white hover:bg-blue-500`}
+                    >
+                        Replace sequence
+                    </button>
+                </div>
+            </div>
+        </div>
+    );
+};
@@ -0,0 +1,159 @@
+import React, { useState } from 'react';
+import { Cable, ChevronDown } from 'lucide-react';
+import type { MIDIInputInfo, MIDIInputSettings, MIDIPortInfo } from '../lib/midiService';
+
+export interface MIDIDevicePanelProps {
+    devices: MIDIInputInfo[];
+    onConfigure: (id: string, settings: Partial<MIDIInputSettings>) => void;
+    outputs: MIDIPortInfo[];
+    selectedOutputId: string | null;
+    onSelectOutput: (id: string | null) => void;
+    outputChannel: number;
+    onOutputChannelChange: (channel: number) => void;
+}
+
+const CHANNELS = Array.from({ length: 16 }, (_, i) => i + 1);
+
+/** Toggle a channel in/out of the filter; an empty filter falls back to omni */
+const toggleChannel = (channels: number[] | null, channel: number): number[] | null => {
+    if (channels === null) return [channel];
+    const next = channels.includes(channel)
+        ? channels.filter(c => c !== channel)
+        : [...channels, channel].sort((a, b) => a - b);
+    return next.length > 0 ? next : null;
+};
+
+export const MIDIDevicePanel: React.FC<MIDIDevicePanelProps> = ({
+    devices,
+    onConfigure,
+    outputs,
+    selectedOutputId,
+    onSelectOutput,
+    outputChannel,
+    onOutputChannelChange,
+}) => {
+    const [isOpen, setIsOpen] = useState(false);
+
+    const connectedCount = devices.filter(d => d.state === 'connected').length;
+    const selectedOutput = outputs.find(o => o.id === selectedOutputId);
+
+    return (
+        <div className="relative">
+            <button
+                onClick={() => setIsOpen(open => !open)}
+                className="flex items-center gap-1 px-2 py-1 rounded-md text-xs text-stone-600 hover:bg-stone-100 border border-stone-200 transition-colors"
+                title="MIDI devices"
+            >
+                <Cable size={12} />
+                {connectedCount} input{connectedCount !== 1 ? 's' : ''}
+                {selectedOutput && (
+                    <span className={`truncate max-w-[8rem] ${selectedOutput.state === 'connected' ? 'text-emerald-600' : 'text-stone-400 line-through'}`}>
+                        → {selectedOutput.name}
+                    </span>
+                )}
+                <ChevronDown size={12} className={`transition-transform ${isOpen ? 'rotate-180' : ''}`} />
+            </button>
+
+            {isOpen && (
+                <div className="absolute left-0 top-full mt-1 w-80 bg-white border border-stone-200 rounded-lg shadow-xl z-50 p-2 flex flex-col gap-2">
+                    <span className="text-[10px] uppercase tracking-wider text-stone-400 px-1">Inputs</span>
+                    {devices.length === 0 && (
+                        <div className="text-xs text-stone-400 text-center py-3">No MIDI inputs found</div>
+                    )}
+
+                    {devices.map((device) => {
+                        const isConnected = device.state === 'connected';
+                        return (
+                            <div
+                                key={device.id}
+                                className={`rounded-md border px-2 py-1.5 ${
+                                    device.enabled && isConnected ? 'border-amber-300 bg-amber-50/50' : 'border-stone-200 bg-stone-50'
+                                }`}
+                            >
+                                <div className="flex items-center gap-2">
+                                    <span
+                                        className={`w-2 h-2 rounded-full flex-shrink-0 ${isConnected ? 'bg-emerald-500' : 'bg-stone-300'}`}
+                                        title={isConnected ? 'Connected' : 'Disconnected'}
+                                    />
+                                    <div className="flex-1 min-w-0">
+                                        <div className={`text-xs font-medium truncate ${isConnected ? 'text-stone-800' : 'text-stone-400'}`}>
+                                            {device.name}
+                                        </div>
+                                        {device.manufacturer && (
+                                            <div className="text-[10px] text-stone-400 truncate">{device.manufacturer}</div>
+                                        )}
+                                    </div>
+                                    <label className="flex items-center gap-1 text-[10px] text-stone-500 cursor-pointer">
+                                        <input
+                                            type="checkbox"
+                                            checked={device.enabled}
+                                            onChange={(e) => onConfigure(device.id, { enabled: e.target.checked })}
+                                        />
+                                        On
+                                    </label>
+                                </div>
+
+                                {/* Channel filter */}
+                                <div className={`flex flex-wrap gap-0.5 mt-1.5 ${device.enabled ? '' : 'opacity-40 pointer-events-none'}`}>
+                                    <button
+                                        onClick={() => onConfigure(device.id, { channels: null })}
+                                        className={`px-1.5 h-5 rounded text-[10px] font-medium ${
+                                            device.channels === null ? 'bg-amber-500 text-white' : 'bg-stone-200 text-stone-500 hover:bg-stone-300'
+                                        }`}
+                                        title="Listen on all channels"
+                                    >
+                                        All
+                                    </button>
+                                    {CHANNELS.map((channel) => {
+                                        const isOn = device.channels?.includes(channel) ?? false;
+                                        return (
+                                            <button
+                                                key={channel}
+                                                onClick={() => onConfigure(device.id, { channels: toggleChannel(device.channels, channel) })}
+                                                className={`w-5 h-5 rounded text-[10px] font-mono ${
+                                                    isOn ? 'bg-amber-500 text-white' : 'bg-stone-200 text-stone-500 hover:bg-stone-300'
+                                                }`}
+                                                title={`Channel ${channel}`}
+                                            >
+                                                {channel}
+                                            </button>
+                                        );
+                                    })}
+                                </div>
+                            </div>
+                        );
+                    })}
+
+                    {/* Output port: playback, virtual keyboard and prompts are sent here (built-in synth when none) */}
+                    <span className="text-[10px] uppercase tracking-wider text-stone-400 px-1 pt-1 border-t border-stone-100">Output</span>
+                    <div className="flex items-center gap-2 px-1">
+                        <select
+                            value={selectedOutputId ?? ''}
+                            onChange={(e) => onSelectOutput(e.target.value || null)}
+                            className="flex-1 min-w-0 text-xs border border-stone-200 rounded px-1 py-1 bg-white"
+                        >
+                            <option value="">Built-in synth</option>
+                            {outputs.map((output) => (
+                                <option key={output.id} value={output.id} disabled={output.state !== 'connected'}>
+                                    {output.name}{output.state !== 'connected' ? ' (disconnected)' : ''}
+                                </option>
+                            ))}
+                        </select>
+                        <label className="flex items-center gap-1 text-[10px] text-stone-500">
+                            Ch
+                            <select
+                                value={outputChannel}
+                                onChange={(e) => onOutputChannelChange(Number(e.target.value))}
+                                className="text-xs border border-stone-200 rounded px-1 py-1 bg-white font-mono"
+                            >
+                                {CHANNELS.map((channel) => (
+                                    <option key={channel} value={channel}>{channel}</option>
+                                ))}
+                            </select>
+                        </label>
+                    </div>
+                </div>
+            )}
+        </div>
+    );
+};
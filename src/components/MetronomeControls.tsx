@@ -0,0 +1,131 @@
+import React from 'react';
+import { Bell, BellOff } from 'lucide-react';
+import { accentPattern, formatGrouping } from '../lib/metronome';
+import type { MetronomeSettings } from '../lib/metronome';
+import type { TimeSignature } from '../types';
+
+export interface MetronomeControlsProps {
+    settings: MetronomeSettings;
+    onEnabledChange: (enabled: boolean) => void;
+    onSubdivisionChange: (subdivision: number) => void;
+    onVolumeChange: (volume: number) => void;
+    tempo: number;
+    onTempoChange: (tempo: number) => void;
+    timeSignature: TimeSignature;
+    onTimeSignatureChange: (timeSignature: TimeSignature) => void;
+    /** Beat that last clicked, or null when silent */
+    currentBeat: number | null;
+}
+
+const TIME_SIGNATURES: TimeSignature[] = [
+    [2, 4], [3, 4], [4, 4], [5, 4],
+    [6, 8], [7, 8], [9, 8], [12, 8],
+];
+
+const SUBDIVISIONS = [
+    { value: 1, label: 'Beats' },
+    { value: 2, label: 'Eighths' },
+    { value: 3, label: 'Triplets' },
+    { value: 4, label: 'Sixteenths' },
+];
+
+const formatTimeSignature = ([beats, unit]: TimeSignature) => `${beats}/${unit}`;
+
+export const MetronomeControls: React.FC<MetronomeControlsProps> = ({
+    settings,
+    onEnabledChange,
+    onSubdivisionChange,
+    onVolumeChange,
+    tempo,
+    onTempoChange,
+    timeSignature,
+    onTimeSignatureChange,
+    currentBeat,
+}) => {
+    const pattern = accentPattern(timeSignature);
+    const grouping = formatGrouping(timeSignature);
+    const select = 'text-xs border border-slate-600 rounded px-1 py-0.5 bg-slate-900 text-slate-200';
+
+    return (
+        <div className="flex items-center gap-2 text-xs text-slate-300">
+            <button
+                onClick={() => onEnabledChange(!settings.enabled)}
+                className={`flex items-center gap-1 px-2 py-1 rounded border transition-colors ${
+                    settings.enabled
+                        ? 'bg-amber-900/40 border-amber-500/60 text-amber-200'
+                        : 'border-slate-600 hover:bg-slate-700 hover:text-white'
+                }`}
+                title={settings.enabled ? 'Metronome off (M)' : 'Metronome on (M)'}
+            >
+                {settings.enabled ? <Bell size={14} /> : <BellOff size={14} />}
+                Click
+            </button>
+
+            <input
+                type="number"
+                min={20}
+                max={400}
+                value={tempo}
+                onChange={(e) => onTempoChange(Number(e.target.value))}
+                className={`w-14 ${select}`}
+                aria-label="Tempo (BPM)"
+                title="Tempo (quarter notes per minute)"
+            />
+
+            <select
+                value={formatTimeSignature(timeSignature)}
+                onChange={(e) => {
+                    const next = TIME_SIGNATURES.find((ts) => formatTimeSignature(ts) === e.target.value);
+                    if (next) onTimeSignatureChange(next);
+                }}
+                className={select}
+                aria-label="Time signature"
+            >
+                {TIME_SIGNATURES.map((ts) => (
+                    <option key={formatTimeSignature(ts)} value={formatTimeSignature(ts)}>
+                        {formatTimeSignature(ts)}
+                    </option>
+                ))}
+            </select>
+
+            <select
+                value={settings.subdivision}
+                onChange={(e) => onSubdivisionChange(Number(e.target.value))}
+                className={select}
+                aria-label="Subdivision"
+            >
+                {SUBDIVISIONS.map(({ value, label }) => (
+                    <option key={value} value={value}>{label}</option>
+                ))}
+            </select>
+
+            <input
+                type="range"
+                min={0}
+                max={1}
+                step={0.01}
+                value={settings.volume}
+                onChange={(e) => onVolumeChange(Number(e.target.value))}
+                className="w-14 accent-amber-500"
+                aria-label="Metronome volume"
+            />
+
+            {/* One dot per beat unit; accents are larger, the sounding beat lights up */}
+            <div className="flex items-center gap-1" title={grouping ? `Grouped ${grouping}` : undefined}>
+                {pattern.map((level, i) => (
+                    <span
+                        key={i}
+                        className={`rounded-full transition-colors ${
+                            level === 'subdivision' ? 'w-1.5 h-1.5' : 'w-2.5 h-2.5'
+                        } ${
+                            currentBeat === i
+                                ? level === 'downbeat' ? 'bg-amber-400' : 'bg-slate-200'
+                                : 'bg-slate-600'
+                        }`}
+                    />
+                ))}
+                {grouping && <span className="text-slate-500 ml-1">{grouping}</span>}
+            </div>
+        </div>
+    );
+};
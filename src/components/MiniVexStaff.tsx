@@ -1,22 +1,63 @@
-import React, { useEffect, useRef } from 'react';
-import { Renderer, Stave, StaveNote, Voice, Formatter, Accidental } from 'vexflow';
-import type { Duration } from '../types';
+import React, { useEffect, useRef, useState } from 'react';
+import { Renderer, Stave, StaveNote, Voice, Formatter, Accidental, Dot } from 'vexflow';
+import { DURATION_INFO } from '../types';
+import type { ChordAnalysis, Duration } from '../types';
+import { spellNotes, toVexKey } from '../lib/spelling';
+import { splitHands } from '../lib/handSplit';
+import type { HandSplit } from '../lib/handSplit';
 
 export interface MiniVexStaffProps {
     notes: number[];
     duration: Duration;
     isActive?: boolean;
+    /** Chord analysis used to spell the notes */
+    analysis?: ChordAnalysis;
+    /** Hand-picked note names, by MIDI note */
+    enharmonicOverrides?: Record<number, string>;
+    /** Active key, which settles enharmonic choices (no signature is drawn) */
+    keySignature?: string;
+    /** Notes by staff as the sequence splits them; split on its own when absent */
+    hands?: HandSplit;
+    /** Makes each notehead clickable, e.g. to respell it */
+    onNoteClick?: (midi: number) => void;
 }
 
-export const MiniVexStaff: React.FC<MiniVexStaffProps> = ({ notes, duration, isActive = false }) => {
+const WIDTH = 154;
+const HEIGHT = 180;
+
+/** Clickable area over one drawn notehead */
+interface NoteTarget {
+    midi: number;
+    name: string;
+    x: number;
+    y: number;
+    width: number;
+}
+
+/** Height of a notehead's click target: one staff space */
+const TARGET_HEIGHT = 10;
+
+export const MiniVexStaff: React.FC<MiniVexStaffProps> = ({
+    notes,
+    duration,
+    isActive = false,
+    analysis,
+    enharmonicOverrides,
+    keySignature = 'C',
+    hands,
+    onNoteClick,
+}) => {
     const containerRef = useRef<HTMLDivElement>(null);
+    const [targets, setTargets] = useState<NoteTarget[]>([]);
+    // The sequence re-splits every card on any edit; only redraw when this one's split changes
+    const handsKey = hands ? `${hands.bass}|${hands.treble}` : null;
 
     useEffect(() => {
         if (!containerRef.current || notes.length === 0) return;
         containerRef.current.innerHTML = '';
 
-        const width = 154;
-        const height = 180;
+        const width = WIDTH;
+        const height = HEIGHT;
 
         const renderer = new Renderer(containerRef.current, Renderer.Backends.SVG);
         renderer.resize(width, height);
@@ -37,60 +78,43 @@ export const MiniVexStaff: React.FC<MiniVexStaffProps> = ({ notes, duration, isA
         const bassStave = new Stave(staveX, bassY, staveWidth);
         bassStave.setContext(context).draw();
 
-        // Helper: MIDI to VexFlow key
-        const midiToVexKey = (midi: number): string => {
-            const noteNames = ['c', 'c#', 'd', 'd#', 'e', 'f', 'f#', 'g', 'g#', 'a', 'a#', 'b'];
-            const note = noteNames[midi % 12];
-            const octave = Math.floor(midi / 12) - 1;
-            return `${note.replace('#', '')}/${octave}`;
-        };
-
-        const needsSharp = (midi: number): boolean => {
-            return [1, 3, 6, 8, 10].includes(midi % 12);
-        };
-
-        // Split notes
+        // Spell from the chord, then split by hand
         const sorted = [...notes].sort((a, b) => a - b);
-        const trebleMidi = sorted.filter(n => n >= 60);
-        const bassMidi = sorted.filter(n => n < 60);
+        const spelled = spellNotes(sorted, { analysis, enharmonicOverrides, keySignature });
+        const nameOf = (midi: number) => spelled[sorted.indexOf(midi)];
+        const { treble: trebleMidi, bass: bassMidi } = hands ?? splitHands(sorted);
+        const trebleKeys = trebleMidi.map((midi) => toVexKey(midi, nameOf(midi)));
+        const bassKeys = bassMidi.map((midi) => toVexKey(midi, nameOf(midi)));
 
-        const dur: string = duration || 'q';
-        const restDur: string = `${dur}r`;
+        // Tuplets show as their written value; a lone note has no bracket
+        const { base, dots } = DURATION_INFO[duration || 'q'];
+        const dur: string = base;
+        const restDur: string = `${base}r`;
 
         // Create notes
         const trebleNotes: StaveNote[] = [];
         const bassNotes: StaveNote[] = [];
 
-        if (trebleMidi.length > 0) {
-            const keys = trebleMidi.map(midiToVexKey);
-            const note = new StaveNote({ clef: 'treble', keys, duration: dur });
-            trebleMidi.forEach((midi, idx) => {
-                if (needsSharp(midi)) {
-                    note.addModifier(new Accidental('#'), idx);
-                }
-            });
-            trebleNotes.push(note);
+        if (trebleKeys.length > 0) {
+            trebleNotes.push(new StaveNote({ clef: 'treble', keys: trebleKeys, duration: dur, dots }));
         } else {
-            trebleNotes.push(new StaveNote({ clef: 'treble', keys: ['b/4'], duration: restDur }));
+            trebleNotes.push(new StaveNote({ clef: 'treble', keys: ['b/4'], duration: restDur, dots }));
         }
 
-        if (bassMidi.length > 0) {
-            const keys = bassMidi.map(midiToVexKey);
-            const note = new StaveNote({ clef: 'bass', keys, duration: dur });
-            bassMidi.forEach((midi, idx) => {
-                if (needsSharp(midi)) {
-                    note.addModifier(new Accidental('#'), idx);
-                }
-            });
-            bassNotes.push(note);
+        if (bassKeys.length > 0) {
+            bassNotes.push(new StaveNote({ clef: 'bass', keys: bassKeys, duration: dur, dots }));
         } else {
-            bassNotes.push(new StaveNote({ clef: 'bass', keys: ['d/3'], duration: restDur }));
+            bassNotes.push(new StaveNote({ clef: 'bass', keys: ['d/3'], duration: restDur, dots }));
         }
 
+        if (dots > 0) Dot.buildAndAttach([...trebleNotes, ...bassNotes], { all: true });
+
         // Render voices with natural centering from the stave position
         if (trebleNotes.length > 0) {
             const voice = new Voice({ numBeats: 1, beatValue: 4 }).setStrict(false);
             voice.addTickables(trebleNotes);
+            // No key signature is drawn, so every accidental shows
+            Accidental.applyAccidentals([voice], 'C');
             new Formatter().joinVoices([voice]).format([voice], staveWidth - 20);
             voice.draw(context, trebleStave);
         }
@@ -98,11 +122,45 @@ export const MiniVexStaff: React.FC<MiniVexStaffProps> = ({ notes, duration, isA
         if (bassNotes.length > 0) {
             const voice = new Voice({ numBeats: 1, beatValue: 4 }).setStrict(false);
             voice.addTickables(bassNotes);
+            Accidental.applyAccidentals([voice], 'C');
             new Formatter().joinVoices([voice]).format([voice], staveWidth - 20);
             voice.draw(context, bassStave);
         }
 
-    }, [notes, duration, isActive]);
-
-    return <div ref={containerRef} className="flex justify-center items-center" />;
+        // Noteheads keep the order of their keys: bass then treble, low to high
+        const heads = [bassNotes[0], trebleNotes[0]]
+            .filter((note) => !note.isRest())
+            .flatMap((note) => note.noteHeads);
+        const headMidi = [...bassMidi, ...trebleMidi];
+        setTargets(heads.map((head, i) => ({
+            midi: headMidi[i],
+            name: nameOf(headMidi[i]),
+            x: head.getAbsoluteX(),
+            y: head.getY() - TARGET_HEIGHT / 2,
+            width: head.getWidth(),
+        })));
+
+    }, [notes, duration, isActive, analysis, enharmonicOverrides, keySignature, handsKey]);
+
+    return (
+        <div className="flex justify-center items-center">
+            <div className="relative" style={{ width: WIDTH, height: HEIGHT }}>
+                <div ref={containerRef} />
+                {onNoteClick && targets.map((target) => (
+                    <button
+                        key={target.midi}
+                        type="button"
+                        onClick={(e) => {
+                            e.stopPropagation();
+                            onNoteClick(target.midi);
+                        }}
+                        className="absolute rounded-full hover:bg-blue-400/30 focus:outline-none focus-visible:ring-1 focus-visible:ring-blue-400"
+                        style={{ left: target.x, top: target.y, width: target.width, height: TARGET_HEIGHT }}
+                        title={`${target.name}: click to respell`}
+                        aria-label={`Respell ${target.name}`}
+                    />
+                ))}
+            </div>
+        </div>
+    );
 };
@@ -0,0 +1,148 @@
+import React from 'react';
+import { Repeat, Timer, TrendingUp } from 'lucide-react';
+import type { LoopRegion, PracticeSettings, TempoRamp } from '../types';
+
+export interface PracticeControlsProps {
+    loop: LoopRegion | undefined;
+    /** Cards in the loop, or 0 when it no longer resolves */
+    loopLength: number;
+    selectionCount: number;
+    onLoopSelection: () => void;
+    onLoopEnabledChange: (enabled: boolean) => void;
+    onClearLoop: () => void;
+    practice: PracticeSettings;
+    onCountInChange: (bars: number) => void;
+    onTempoRampChange: (ramp: TempoRamp | null) => void;
+    tempo: number;
+    /** Ramped tempo while playing, if it differs from the sequence tempo */
+    currentTempo?: number;
+    /** Completed loop passes while playing */
+    loopPass?: number;
+}
+
+const COUNT_IN_OPTIONS = [0, 1, 2];
+
+export const PracticeControls: React.FC<PracticeControlsProps> = ({
+    loop,
+    loopLength,
+    selectionCount,
+    onLoopSelection,
+    onLoopEnabledChange,
+    onClearLoop,
+    practice,
+    onCountInChange,
+    onTempoRampChange,
+    tempo,
+    currentTempo,
+    loopPass,
+}) => {
+    const ramp = practice.tempoRamp;
+    const isLooping = !!loop?.enabled && loopLength > 0;
+
+    const handleLoopClick = () => {
+        // A fresh multi-card selection replaces the loop; otherwise toggle it
+        if (selectionCount > 1 || (!loop && selectionCount > 0)) onLoopSelection();
+        else if (loop) onLoopEnabledChange(!loop.enabled);
+    };
+
+    const updateRamp = (updates: Partial<TempoRamp>) => {
+        const current = ramp ?? { stepBpm: 5, everyLoops: 2, targetTempo: tempo + 20 };
+        onTempoRampChange({ ...current, ...updates });
+    };
+
+    const numberInput = 'w-12 text-xs border border-slate-600 rounded px-1 py-0.5 bg-slate-900 text-slate-200';
+
+    return (
+        <div className="flex items-center gap-3 text-xs text-slate-300">
+            <div className="flex items-center gap-1">
+                <button
+                    onClick={handleLoopClick}
+                    disabled={!loop && selectionCount === 0}
+                    className={`flex items-center gap-1 px-2 py-1 rounded border transition-colors disabled:opacity-40 ${
+                        isLooping
+                            ? 'bg-violet-900/40 border-violet-500/60 text-violet-200'
+                            : 'border-slate-600 hover:bg-slate-700 hover:text-white'
+                    }`}
+                    title={selectionCount > 1 ? 'Loop selected cards' : 'Toggle loop'}
+                >
+                    <Repeat size={14} />
+                    {loop && loopLength > 0 ? `${loopLength} card${loopLength === 1 ? '' : 's'}` : 'Loop'}
+                </button>
+                {loop && (
+                    <button
+                        onClick={onClearLoop}
+                        className="text-slate-500 hover:text-white px-1"
+                        title="Clear loop"
+                    >
+                        ×
+                    </button>
+                )}
+                {isLooping && loopPass !== undefined && (
+                    <span className="text-violet-300 tabular-nums" title="Completed passes">
+                        ×{loopPass}
+                    </span>
+                )}
+            </div>
+
+            <label className="flex items-center gap-1" title="Count-in before playback">
+                <Timer size={14} />
+                <select
+                    value={practice.countInBars}
+                    onChange={(e) => onCountInChange(Number(e.target.value))}
+                    className="text-xs border border-slate-600 rounded px-1 py-0.5 bg-slate-900 text-slate-200"
+                    aria-label="Count-in bars"
+                >
+                    {COUNT_IN_OPTIONS.map((bars) => (
+                        <option key={bars} value={bars}>
+                            {bars === 0 ? 'No count-in' : `${bars} bar${bars === 1 ? '' : 's'}`}
+                        </option>
+                    ))}
+                </select>
+            </label>
+
+            <div className={`flex items-center gap-1 ${ramp ? '' : 'opacity-60'}`} title="Speed up the loop as it repeats">
+                <input
+                    type="checkbox"
+                    checked={!!ramp}
+                    onChange={(e) => (e.target.checked ? updateRamp({}) : onTempoRampChange(null))}
+                    className="accent-violet-500"
+                    aria-label="Tempo ramp"
+                />
+                <TrendingUp size={14} />
+                <span>+</span>
+                <input
+                    type="number"
+                    min={1}
+                    max={40}
+                    value={ramp?.stepBpm ?? 5}
+                    onChange={(e) => updateRamp({ stepBpm: Math.max(1, Number(e.target.value)) })}
+                    className={numberInput}
+                    aria-label="BPM per step"
+                />
+                <span>BPM every</span>
+                <input
+                    type="number"
+                    min={1}
+                    max={16}
+                    value={ramp?.everyLoops ?? 2}
+                    onChange={(e) => updateRamp({ everyLoops: Math.max(1, Number(e.target.value)) })}
+                    className={numberInput}
+                    aria-label="Loops per step"
+                />
+                <span>loops to</span>
+                <input
+                    type="number"
+                    min={20}
+                    max={400}
+                    value={ramp?.targetTempo ?? tempo + 20}
+                    onChange={(e) => updateRamp({ targetTempo: Number(e.target.value) })}
+                    className={numberInput}
+                    aria-label="Target tempo"
+                />
+                {currentTempo !== undefined && (
+                    <span className="text-violet-300 tabular-nums">♩={Math.round(currentTempo)}</span>
+                )}
+            </div>
+        </div>
+    );
+};
@@ -0,0 +1,754 @@
+import React, { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import {
+    Renderer,
+    Stave,
+    StaveNote,
+    StaveConnector,
+    Voice,
+    Formatter,
+    Accidental,
+    Beam,
+    BarlineType,
+    StaveTie,
+    Dot,
+    Tuplet,
+} from 'vexflow';
+import type { RenderContext } from 'vexflow';
+import { DURATION_INFO } from '../types';
+import type { Card, Duration } from '../types';
+import {
+    useSequenceStore,
+    selectActiveTrackId,
+    selectTracks,
+    selectTimeSignature,
+    selectKeySignature,
+    selectHandSplitPoint,
+    selectHoveredCardId,
+    selectSelectedCardIds,
+    selectPlaybackState,
+    selectPlaybackPosition,
+} from '../stores/useSequenceStore';
+import { breakSystems, groupMeasures, measureMinWidth, measureRenderKeys, tupletGroups } from '../lib/staffLayout';
+import type { Measure, MeasureEntry } from '../lib/staffLayout';
+import { chordDisplay, courtesyAccidentals, stepInKey, vexKeysFor } from '../lib/spelling';
+import { staffStep } from '../lib/handSplit';
+import type { HandSplit } from '../lib/handSplit';
+import { getNoteDetails } from '../lib/chordAnalysis';
+import { chordSymbolParts, romanNumeral } from '../lib/harmony';
+import { contentHash, createRenderCache } from '../lib/renderCache';
+import { buildTimeline, cardIndexAtTick } from '../lib/timeline';
+import { grandStaffCards, grandStaffTracks } from '../lib/tracks';
+import { offsetTargets, retuneCard, targetAt } from '../lib/staffEditing';
+import type { NoteheadTarget, StaffTargets } from '../lib/staffEditing';
+
+export interface StaffRendererProps {
+    className?: string;
+    /** A chord on the staff was clicked; selects the card by the click's modifiers when absent */
+    onCardClick?: (cardId: string, event: React.MouseEvent) => void;
+}
+
+/** Colour of the chord under the playback cursor */
+const PLAYING_STYLE = { fillStyle: '#059669', strokeStyle: '#059669' };
+
+/** Split points offered, F3 to G4 */
+const SPLIT_POINTS = Array.from({ length: 15 }, (_, i) => 53 + i);
+
+/** Chord labels that can be shown above the staff */
+interface LabelLayers {
+    symbols: boolean;
+    numerals: boolean;
+    functions: boolean;
+}
+
+const LAYER_NAMES: Record<keyof LabelLayers, string> = {
+    symbols: 'Chords',
+    numerals: 'Numerals',
+    functions: 'Functions',
+};
+
+/** Major keys by signature, sharps then flats */
+const KEY_SIGNATURES = ['C', 'G', 'D', 'A', 'E', 'B', 'F#', 'C#', 'F', 'Bb', 'Eb', 'Ab', 'Db', 'Gb', 'Cb'];
+
+// Grand staff geometry
+const MARGIN = 20;
+const TOP = 40;
+const BASS_OFFSET = 110;
+const SYSTEM_HEIGHT = 270;
+/** Top line of the treble staff below the top of its line */
+const TREBLE_TOP_LINE = 40;
+/** Half a staff space: one diatonic step */
+const STEP_HEIGHT = 5;
+/** Staff position of the treble staff's top line, F5, and middle line, B4 */
+const TREBLE_TOP_STEP = 38;
+const TREBLE_MIDDLE_STEP = 34;
+/** An up stem's reach above its highest note */
+const STEM_HEIGHT = 35;
+/** Height of a notehead's pointer target: one staff space */
+const HEAD_TARGET_HEIGHT = 10;
+/** How far a chord's pointer target reaches beyond the outer staff lines */
+const CHORD_TARGET_MARGIN = 30;
+/** Gap between the label rows and the highest thing on the treble staff */
+const LABEL_CLEARANCE = 8;
+/** Height of one row of labels */
+const LABEL_ROW = 16;
+/** Width assumed until the container has been measured */
+const DEFAULT_WIDTH = 800;
+
+const NO_CARDS: Card[] = [];
+
+/** A card's keys on each staff, spelled from its chord and the key; a rest has none */
+const cardKeys = (card: Card, hands: HandSplit, keySignature: string): [string[], string[]] => {
+    if (card.isRest) return [[], []];
+    const sorted = [...card.notes].sort((a, b) => a - b);
+    const keys = vexKeysFor(sorted, {
+        analysis: card.analysis,
+        enharmonicOverrides: card.enharmonicOverrides,
+        keySignature,
+    });
+    const keyFor = (midi: number) => keys[sorted.indexOf(midi)];
+    return [hands.treble.map(keyFor), hands.bass.map(keyFor)];
+};
+
+/** The two staves, treble first, as indexes into per-staff pairs */
+type StaffIndex = 0 | 1;
+const CLEFS = ['treble', 'bass'] as const;
+/** Where a rest sits on each staff: the middle line */
+const REST_KEYS = ['b/4', 'd/3'];
+
+/** A written piece of a card as one staff's tickable; with no notes on the staff it rests */
+const buildNote = (
+    card: Card,
+    hands: HandSplit,
+    duration: Duration,
+    keySignature: string,
+    staff: StaffIndex
+): StaveNote => {
+    const keys = cardKeys(card, hands, keySignature)[staff];
+    const { base, dots } = DURATION_INFO[duration];
+    const note = keys.length > 0
+        ? new StaveNote({ clef: CLEFS[staff], keys, duration: base, dots })
+        : new StaveNote({ clef: CLEFS[staff], keys: [REST_KEYS[staff]], duration: `${base}r`, dots });
+    if (dots > 0) Dot.buildAndAttach([note], { all: true });
+    return note;
+};
+
+/** A chord to label, at the treble note that starts it */
+interface ChordLabel {
+    card: Card;
+    note: StaveNote;
+    playing: boolean;
+}
+
+/** Write a chord symbol with its extensions raised */
+const drawChordSymbol = (context: RenderContext, display: string, x: number, y: number) => {
+    const { root, quality, extensions, bass } = chordSymbolParts(display);
+    let at = x;
+    const write = (text: string, size: number, rise: number) => {
+        if (!text) return;
+        context.setFont('Arial', size, 'bold');
+        context.fillText(text, at, y - rise);
+        at += context.measureText(text).width;
+    };
+    write(root + quality, 13, 0);
+    write(extensions, 9, 5);
+    if (bass) write(`/${bass}`, 13, 0);
+};
+
+/**
+ * Where a line's chord labels sit: clear of the highest note or stem on
+ * the line, so every label on it reads straight across. Worked out from the
+ * notes rather than the drawing, so it is known before any measure is drawn.
+ */
+const labelRowY = (entries: MeasureEntry[], hands: HandSplit[]): number => {
+    const tops = entries.map(({ card, cardIndex }) => {
+        const treble = card.isRest ? [] : hands[cardIndex].treble.map(staffStep);
+        if (treble.length === 0) return TREBLE_TOP_LINE;
+        const highest = Math.max(...treble);
+        const stemUp = (Math.min(...treble) + highest) / 2 < TREBLE_MIDDLE_STEP;
+        const y = TREBLE_TOP_LINE + (TREBLE_TOP_STEP - highest) * STEP_HEIGHT;
+        return stemUp ? y - STEM_HEIGHT : y - STEP_HEIGHT;
+    });
+    return Math.min(TREBLE_TOP_LINE, ...tops) - LABEL_CLEARANCE;
+};
+
+/**
+ * Label a measure's chords on rows above the treble staff, the lowest row
+ * at `rowY`. Symbols sit on top, the roman numeral and function line
+ * under them.
+ */
+const drawChordLabels = (
+    context: RenderContext,
+    labels: ChordLabel[],
+    rowY: number,
+    layers: LabelLayers,
+    keySignature: string
+) => {
+    const showsAnalysis = layers.numerals || layers.functions;
+    if (labels.length === 0 || (!layers.symbols && !showsAnalysis)) return;
+
+    const analysisY = rowY;
+    const symbolY = showsAnalysis ? analysisY - LABEL_ROW : analysisY;
+
+    context.save();
+    labels.forEach(({ card, note, playing }) => {
+        const display = chordDisplay(card.notes, card.analysis!, card.enharmonicOverrides, keySignature);
+        const x = note.getAbsoluteX();
+        const colour = playing ? PLAYING_STYLE.fillStyle : '#1e293b';
+        context.setFillStyle(colour);
+
+        if (layers.symbols) drawChordSymbol(context, display, x, symbolY);
+        if (!showsAnalysis) return;
+
+        const roman = romanNumeral(card.analysis!, keySignature, display);
+        if (!roman) return;
+        const text = [
+            layers.numerals ? roman.numeral : '',
+            layers.functions && roman.function ? (layers.numerals ? `(${roman.function})` : roman.function) : '',
+        ].filter(Boolean).join(' ');
+        context.setFont('Arial', 11, layers.numerals ? 'normal' : 'bold');
+        context.fillText(text, x, analysisY);
+    });
+    context.restore();
+};
+
+/** Bracket the runs of tuplet pieces that fill a whole group */
+const buildTuplets = (entries: MeasureEntry[], notes: StaveNote[]): Tuplet[] =>
+    tupletGroups(entries).map(({ start, end, tuplet }) =>
+        new Tuplet(notes.slice(start, end), { numNotes: tuplet.notes, notesOccupied: tuplet.inSpaceOf })
+    );
+
+/** Each piece's keys on each staff as the reader sees them, rests as none */
+const writtenKeys = (measure: Measure | undefined, hands: HandSplit[], keySignature: string): [string[][], string[][]] => {
+    const pieces = (measure?.entries ?? []).map((entry) => cardKeys(entry.card, hands[entry.cardIndex], keySignature));
+    return [pieces.map(([treble]) => treble), pieces.map(([, bass]) => bass)];
+};
+
+/** Add the cautionary accidentals strict rules leave out */
+const addCourtesyAccidentals = (
+    notes: StaveNote[],
+    written: string[][],
+    keySignature: string,
+    previousMeasure: string[][]
+) => {
+    courtesyAccidentals(written, keySignature, previousMeasure).forEach(({ chord, key, accidental }) => {
+        notes[chord].addModifier(new Accidental(accidental).setAsCautionary(), key);
+    });
+};
+
+/** Room taken by the clef and signatures that open a line */
+const measureHeaderWidth = (keySignature: string, timeSpec: string | null): number => {
+    const stave = new Stave(0, 0, 500).addClef('treble').addKeySignature(keySignature);
+    if (timeSpec) stave.addTimeSignature(timeSpec);
+    return stave.getNoteStartX() - stave.getX() + 10;
+};
+
+/**
+ * What one staff shows of a measure. Split between the staves, both share
+ * the measure and each writes its hand's notes; with a track per hand, each
+ * staff has its own measure (none once its track has ended).
+ */
+interface StaffPart {
+    measure: Measure | undefined;
+    /** The measure before, whose accidentals decide the courtesy ones */
+    previous: Measure | undefined;
+    hands: HandSplit[];
+    playingIndex: number | null;
+}
+
+/** Everything one measure's drawing needs */
+interface MeasureDrawing {
+    parts: [StaffPart, StaffPart];
+    width: number;
+    opensLine: boolean;
+    opensPiece: boolean;
+    isLast: boolean;
+    keySignature: string;
+    timeSpec: string;
+    layers: LabelLayers;
+    labelY: number;
+}
+
+/** A drawn measure and what the pointer can reach in it, from its own origin */
+interface RenderedMeasure {
+    element: HTMLDivElement;
+    targets: StaffTargets;
+}
+
+/**
+ * Draw one measure of the grand staff into an SVG of its own, so it can be
+ * kept and reused while other measures change. The SVG lets its contents
+ * overflow: the brace sits left of the first measure on a line, long
+ * labels run on over the next. Ties across the bar line are drawn as a half
+ * on each side. The staves' voices are formatted together, so pieces line
+ * up by where they fall in the measure whether or not the staves share a
+ * rhythm.
+ */
+const renderMeasure = ({
+    parts,
+    width,
+    opensLine,
+    opensPiece,
+    isLast,
+    keySignature,
+    timeSpec,
+    layers,
+    labelY,
+}: MeasureDrawing): RenderedMeasure => {
+    const element = document.createElement('div');
+    element.style.position = 'absolute';
+    const renderer = new Renderer(element, Renderer.Backends.SVG);
+    renderer.resize(width, SYSTEM_HEIGHT);
+    element.querySelector('svg')?.style.setProperty('overflow', 'visible');
+    const context = renderer.getContext();
+    context.setFont('Arial', 10);
+
+    const treble = new Stave(0, 0, width);
+    const bass = new Stave(0, BASS_OFFSET, width);
+    if (opensLine) {
+        treble.addClef('treble').addKeySignature(keySignature);
+        bass.addClef('bass').addKeySignature(keySignature);
+    }
+    if (opensPiece) {
+        treble.addTimeSignature(timeSpec);
+        bass.addTimeSignature(timeSpec);
+    }
+    if (isLast) {
+        treble.setEndBarType(BarlineType.END);
+        bass.setEndBarType(BarlineType.END);
+    }
+    // Line the two staves' notes up whatever their clefs' widths
+    const noteStart = Math.max(treble.getNoteStartX(), bass.getNoteStartX());
+    treble.setNoteStartX(noteStart);
+    bass.setNoteStartX(noteStart);
+    treble.setContext(context).draw();
+    bass.setContext(context).draw();
+
+    if (opensLine) {
+        new StaveConnector(treble, bass).setType('brace').setContext(context).draw();
+        new StaveConnector(treble, bass).setType('singleLeft').setContext(context).draw();
+    }
+    new StaveConnector(treble, bass)
+        .setType(isLast ? 'boldDoubleRight' : 'singleRight')
+        .setContext(context)
+        .draw();
+
+    const targets: StaffTargets = { chords: [], heads: [] };
+    const staves = [treble, bass];
+    const entries = parts.map(({ measure }) => measure?.entries ?? []);
+    if (entries.every((staffEntries) => staffEntries.length === 0)) return { element, targets };
+
+    const labels: ChordLabel[] = [];
+    const notes = parts.map(({ hands, playingIndex }, staff) =>
+        entries[staff].map((entry) => {
+            const note = buildNote(entry.card, hands[entry.cardIndex], entry.duration, keySignature, staff as StaffIndex);
+            const playing = entry.cardIndex === playingIndex;
+            if (staff === 0 && !entry.tiedFromPrevious && !entry.card.isRest && entry.card.analysis) {
+                labels.push({ card: entry.card, note, playing });
+            }
+            if (playing) note.setStyle(PLAYING_STYLE);
+            return note;
+        })
+    );
+
+    // Tuplets scale their notes' ticks, so they come before the voices
+    const tuplets = entries.flatMap((staffEntries, staff) => buildTuplets(staffEntries, notes[staff]));
+
+    const [numBeats, beatValue] = timeSpec.split('/').map(Number);
+    const groups = Beam.getDefaultBeamGroups(timeSpec);
+    const beams: Beam[] = [];
+    const voices = parts.map((part, staff) => {
+        const voice = new Voice({ numBeats, beatValue }).setStrict(false);
+        // A staff whose track has ended rests for the whole measure
+        if (notes[staff].length === 0) {
+            return voice.addTickables([
+                new StaveNote({ clef: CLEFS[staff], keys: [REST_KEYS[staff]], duration: 'wr', alignCenter: true }),
+            ]);
+        }
+        voice.addTickables(notes[staff]);
+        Accidental.applyAccidentals([voice], keySignature);
+        const written = writtenKeys(part.measure, part.hands, keySignature)[staff];
+        const previous = writtenKeys(part.previous, part.hands, keySignature)[staff];
+        addCourtesyAccidentals(notes[staff], written, keySignature, previous);
+        beams.push(...Beam.generateBeams(notes[staff], { groups }));
+        return voice;
+    });
+
+    const formatter = new Formatter();
+    voices.forEach((voice) => formatter.joinVoices([voice]));
+    formatter.format(voices, treble.getNoteEndX() - noteStart - 10);
+    voices.forEach((voice, staff) => voice.draw(context, staves[staff]));
+    beams.forEach((beam) => beam.setContext(context).draw());
+    tuplets.forEach((tuplet) => tuplet.setContext(context).draw());
+
+    // Ties inside the measure join their notes; one crossing a bar line is
+    // drawn open-ended, the other half in the neighbouring measure
+    entries.forEach((staffEntries, staff) => {
+        staffEntries.forEach((entry, i) => {
+            const note = notes[staff][i];
+            if (note.isRest()) return;
+            const indexes = note.getKeys().map((_, k) => k);
+            const tied = { firstIndexes: indexes, lastIndexes: indexes };
+            const ties: StaveTie[] = [];
+            if (entry.tiedFromPrevious && i === 0) ties.push(new StaveTie({ lastNote: note, ...tied }));
+            if (entry.tiesToNext) {
+                const next = notes[staff][i + 1];
+                ties.push(new StaveTie({ firstNote: note, ...(next && { lastNote: next }), ...tied }));
+            }
+            ties.forEach((tie) => tie.setContext(context).draw());
+        });
+    });
+
+    drawChordLabels(context, labels, labelY, layers, keySignature);
+
+    // A piece split between the staves is one column over both; each
+    // hand's track has its own column on its own staff
+    const columns: StaffIndex[][] = parts[0].measure === parts[1].measure ? [[0, 1]] : [[0], [1]];
+    columns.forEach((column) => {
+        const top = staves[column[0]].getYForLine(0) - CHORD_TARGET_MARGIN;
+        const bottom = staves[column[column.length - 1]].getYForLine(4) + CHORD_TARGET_MARGIN;
+        entries[column[0]].forEach(({ card }, i) => {
+            const boxes = column.map((staff) => notes[staff][i].getBoundingBox());
+            const left = Math.min(...boxes.map((box) => box.getX()));
+            const right = Math.max(...boxes.map((box) => box.getX() + box.getW()));
+            targets.chords.push({ cardId: card.id, x: left, y: top, width: right - left, height: bottom - top });
+        });
+    });
+
+    // Noteheads keep the order of their keys, which follow the hands low to high
+    entries.forEach((staffEntries, staff) => {
+        staffEntries.forEach(({ card, cardIndex }, i) => {
+            const note = notes[staff][i];
+            if (note.isRest()) return;
+            const midis = parts[staff].hands[cardIndex][CLEFS[staff]];
+            note.noteHeads.forEach((head, k) => {
+                targets.heads.push({
+                    cardId: card.id,
+                    midi: midis[k],
+                    x: head.getAbsoluteX(),
+                    y: head.getY() - HEAD_TARGET_HEIGHT / 2,
+                    width: head.getWidth(),
+                    height: HEAD_TARGET_HEIGHT,
+                });
+            });
+        });
+    });
+    return { element, targets };
+};
+
+/**
+ * Grand-staff view of the sequence. Cards are barred into measures of the
+ * time signature and the measures wrap onto as many lines as the width
+ * needs; the clef and key signature open every line, the time signature
+ * the first. Each measure is drawn into its own SVG and kept until its
+ * content or place changes, so an edit redraws a measure or two, not the
+ * whole piece. While a hand's track is active the staves show the two hand
+ * tracks, each in its own rhythm.
+ */
+export const StaffRenderer: React.FC<StaffRendererProps> = ({ className = '', onCardClick }) => {
+    const tracks = useSequenceStore(selectTracks);
+    const activeTrackId = useSequenceStore(selectActiveTrackId);
+    const timeSignature = useSequenceStore(selectTimeSignature);
+    const keySignature = useSequenceStore(selectKeySignature);
+    const splitPoint = useSequenceStore(selectHandSplitPoint);
+    const playbackState = useSequenceStore(selectPlaybackState);
+    const playbackPosition = useSequenceStore(selectPlaybackPosition);
+    const setKeySignature = useSequenceStore((state) => state.setKeySignature);
+    const setHandSplitPoint = useSequenceStore((state) => state.setHandSplitPoint);
+    const selectedCardIds = useSequenceStore(selectSelectedCardIds);
+    const hoveredCardId = useSequenceStore(selectHoveredCardId);
+    const selectCard = useSequenceStore((state) => state.selectCard);
+    const setHoveredCard = useSequenceStore((state) => state.setHoveredCard);
+    const updateCard = useSequenceStore((state) => state.updateCard);
+    const setActiveTrack = useSequenceStore((state) => state.setActiveTrack);
+
+    // The track on each staff; the same one when it is split between them
+    const staffTracks = grandStaffTracks(activeTrackId);
+    const [trebleTrack, bassTrack] = staffTracks.kind === 'hands'
+        ? [staffTracks.treble, staffTracks.bass]
+        : [staffTracks.track, staffTracks.track];
+    const split = trebleTrack === bassTrack;
+    const trebleCards = tracks[trebleTrack] ?? NO_CARDS;
+    const bassCards = tracks[bassTrack] ?? NO_CARDS;
+    const trackCards = useMemo(() => (split ? [trebleCards] : [trebleCards, bassCards]), [split, trebleCards, bassCards]);
+
+    // The active track plays from the cursor's card; the other hand from the same tick
+    const timelines = useMemo(() => [buildTimeline(trebleCards), buildTimeline(bassCards)], [trebleCards, bassCards]);
+    const playingIn = (trackId: string, staff: StaffIndex): number | null => {
+        if (playbackState === 'stopped') return null;
+        if (trackId === activeTrackId) return playbackPosition.cardIndex;
+        const index = cardIndexAtTick(timelines[staff], playbackPosition.tick);
+        return index === -1 ? null : index;
+    };
+    const treblePlaying = playingIn(trebleTrack, 0);
+    const bassPlaying = playingIn(bassTrack, 1);
+
+    const wrapperRef = useRef<HTMLDivElement>(null);
+    const containerRef = useRef<HTMLDivElement>(null);
+    const [width, setWidth] = useState(DEFAULT_WIDTH);
+    const [layers, setLayers] = useState<LabelLayers>({ symbols: true, numerals: false, functions: false });
+    // What the pointer can reach, in the staff's coordinates
+    const [targets, setTargets] = useState<StaffTargets>({ chords: [], heads: [] });
+    // A notehead being dragged, and how many scale steps so far
+    const [drag, setDrag] = useState<{ head: NoteheadTarget; startY: number; steps: number } | null>(null);
+
+    useEffect(() => {
+        const wrapper = wrapperRef.current;
+        if (!wrapper || typeof ResizeObserver === 'undefined') return;
+        const observer = new ResizeObserver(([entry]) => {
+            const next = Math.floor(entry.contentRect.width);
+            if (next > 0) setWidth(next);
+        });
+        observer.observe(wrapper);
+        return () => observer.disconnect();
+    }, []);
+
+    // Each staff's measures, and the notes each card writes on it
+    const staffMeasures = useMemo(() => {
+        const [treble, bass] = grandStaffCards(tracks, grandStaffTracks(activeTrackId), splitPoint);
+        const trebleMeasures = groupMeasures(treble.cards, timeSignature);
+        const bassMeasures = bass.cards === treble.cards ? trebleMeasures : groupMeasures(bass.cards, timeSignature);
+        return [{ measures: trebleMeasures, hands: treble.hands }, { measures: bassMeasures, hands: bass.hands }];
+    }, [tracks, activeTrackId, timeSignature, splitPoint]);
+    const measureCount = Math.max(...staffMeasures.map(({ measures }) => measures.length));
+
+    // Drawn measures, kept while nothing they show changes
+    const [cache] = useState(() => createRenderCache<RenderedMeasure>(({ element }) => element.remove()));
+
+    useEffect(() => {
+        const container = containerRef.current;
+        if (!container) return;
+        if (measureCount === 0) {
+            cache.clear();
+            container.style.height = '0px';
+            setTargets({ chords: [], heads: [] });
+            return;
+        }
+
+        const timeSpec = `${timeSignature[0]}/${timeSignature[1]}`;
+        const firstHeader = measureHeaderWidth(keySignature, timeSpec);
+        const header = measureHeaderWidth(keySignature, null);
+        const [trebleStaff, bassStaff] = staffMeasures;
+        const minWidths = Array.from({ length: measureCount }, (_, i) => Math.max(
+            ...staffMeasures.map(({ measures }) => (measures[i] ? measureMinWidth(measures[i]) : 0))
+        ));
+        const systems = breakSystems(
+            minWidths,
+            width - MARGIN * 2,
+            (systemIndex) => (systemIndex === 0 ? firstHeader : header)
+        );
+
+        const widest = Math.max(...systems.map((s) => s.widths.reduce((sum, w) => sum + w, 0)));
+        container.style.width = `${Math.max(width, widest + MARGIN * 2)}px`;
+        container.style.height = `${TOP + systems.length * SYSTEM_HEIGHT}px`;
+
+        const trebleKeys = measureRenderKeys(trebleStaff.measures, trebleStaff.hands, treblePlaying);
+        const bassKeys = split ? [] : measureRenderKeys(bassStaff.measures, bassStaff.hands, bassPlaying);
+        const contentKeys = split
+            ? trebleKeys
+            : Array.from({ length: measureCount }, (_, i) => `${trebleKeys[i] ?? ''}|${bassKeys[i] ?? ''}`);
+        const part = ({ measures, hands }: typeof trebleStaff, index: number, playingIndex: number | null): StaffPart =>
+            ({ measure: measures[index], previous: measures[index - 1], hands, playingIndex });
+        const elements: HTMLDivElement[] = [];
+        const keys: string[] = [];
+        const reachable: StaffTargets = { chords: [], heads: [] };
+
+        systems.forEach((system, systemIndex) => {
+            const y = TOP + systemIndex * SYSTEM_HEIGHT;
+            const labelY = labelRowY(
+                system.measures.flatMap((index) => trebleStaff.measures[index]?.entries ?? []),
+                trebleStaff.hands
+            );
+            let x = MARGIN;
+            system.measures.forEach((measureIndex, i) => {
+                const drawing: MeasureDrawing = {
+                    parts: [
+                        part(trebleStaff, measureIndex, treblePlaying),
+                        part(bassStaff, measureIndex, bassPlaying),
+                    ],
+                    width: system.widths[i],
+                    opensLine: i === 0,
+                    opensPiece: systemIndex === 0 && i === 0,
+                    isLast: measureIndex === measureCount - 1,
+                    keySignature,
+                    timeSpec,
+                    layers,
+                    labelY,
+                };
+                const { width: measureWidth, opensLine, opensPiece, isLast } = drawing;
+                const key = `${contentKeys[measureIndex]}:${contentHash([
+                    measureWidth, opensLine, opensPiece, isLast, keySignature, timeSpec, layers, labelY,
+                ])}`;
+                const { element, targets: measureTargets } = cache.get(key, () => renderMeasure(drawing));
+                element.style.left = `${x}px`;
+                element.style.top = `${y}px`;
+                elements.push(element);
+                keys.push(key);
+                const placed = offsetTargets(measureTargets, x, y);
+                reachable.chords.push(...placed.chords);
+                reachable.heads.push(...placed.heads);
+                x += measureWidth;
+            });
+        });
+
+        container.replaceChildren(...elements);
+        cache.retain(keys);
+        setTargets(reachable);
+    }, [cache, staffMeasures, measureCount, split, timeSignature, keySignature, treblePlaying, bassPlaying, width, layers]);
+
+    // --- Pointer: hover, click to select, drag a notehead to retune it ---
+
+    const pointerAt = (event: React.MouseEvent) => {
+        const rect = event.currentTarget.getBoundingClientRect();
+        return { x: event.clientX - rect.left, y: event.clientY - rect.top };
+    };
+
+    const dragTarget = drag && drag.steps !== 0 ? stepInKey(drag.head.midi, drag.steps, keySignature) : null;
+
+    const handleMouseDown = useCallback((event: React.MouseEvent) => {
+        const { x, y } = pointerAt(event);
+        const hit = targetAt(targets, x, y);
+        if (hit?.kind !== 'head') return;
+        event.preventDefault();
+        setDrag({ head: hit.target, startY: y, steps: 0 });
+    }, [targets]);
+
+    const handleMouseMove = useCallback((event: React.MouseEvent<HTMLDivElement>) => {
+        const { x, y } = pointerAt(event);
+        if (drag) {
+            const steps = Math.round((drag.startY - y) / STEP_HEIGHT);
+            if (steps !== drag.steps) setDrag({ ...drag, steps });
+            return;
+        }
+        const hit = targetAt(targets, x, y);
+        setHoveredCard(hit?.target.cardId ?? null);
+        event.currentTarget.style.cursor = hit?.kind === 'head' ? 'ns-resize' : hit ? 'pointer' : '';
+    }, [drag, targets, setHoveredCard]);
+
+    const handleMouseUp = useCallback((event: React.MouseEvent) => {
+        const { x, y } = pointerAt(event);
+        setDrag(null);
+        if (drag && dragTarget !== null) {
+            const card = trackCards.flat().find((c) => c.id === drag.head.cardId);
+            const updates = card && retuneCard(card, drag.head.midi, dragTarget);
+            if (updates) updateCard(drag.head.cardId, updates);
+            return;
+        }
+        const cardId = drag?.head.cardId ?? targetAt(targets, x, y)?.target.cardId;
+        if (!cardId) return;
+        // A card of the other hand's track makes that track the one being edited
+        if (!split && !tracks[activeTrackId]?.some((c) => c.id === cardId)) {
+            setActiveTrack(trebleCards.some((c) => c.id === cardId) ? trebleTrack : bassTrack);
+        }
+        if (onCardClick) onCardClick(cardId, event);
+        else selectCard(cardId, event.shiftKey ? 'range' : event.ctrlKey || event.metaKey ? 'toggle' : 'replace');
+    }, [
+        drag, dragTarget, trackCards, split, tracks, activeTrackId, trebleCards, trebleTrack, bassTrack,
+        targets, onCardClick, selectCard, updateCard, setActiveTrack,
+    ]);
+
+    const handleMouseLeave = useCallback(() => {
+        setDrag(null);
+        setHoveredCard(null);
+    }, [setHoveredCard]);
+
+    const highlighted = targets.chords.filter(
+        ({ cardId }) => cardId === hoveredCardId || selectedCardIds.includes(cardId)
+    );
+
+    const chordCount = trackCards.reduce((sum, cards) => sum + cards.filter((c) => !c.isRest).length, 0);
+
+    return (
+        <div className={`w-full bg-amber-50 rounded-xl border border-amber-200 shadow-inner ${className}`}>
+            <div className="flex items-center justify-between px-4 py-2 border-b border-amber-200/50">
+                <span className="text-xs font-medium text-amber-700">Sheet Music</span>
+                <div className="flex items-center gap-3">
+                    {chordCount > 0 && (
+                        <span className="text-xs text-amber-500">
+                            {chordCount} chord{chordCount !== 1 ? 's' : ''} · {measureCount} bar{measureCount !== 1 ? 's' : ''}
+                        </span>
+                    )}
+                    <div className="flex items-center gap-1" role="group" aria-label="Chord labels">
+                        {(Object.keys(LAYER_NAMES) as (keyof LabelLayers)[]).map((layer) => (
+                            <button
+                                key={layer}
+                                type="button"
+                                onClick={() => setLayers((current) => ({ ...current, [layer]: !current[layer] }))}
+                                aria-pressed={layers[layer]}
+                                className={`text-xs rounded px-1.5 py-0.5 border ${
+                                    layers[layer]
+                                        ? 'bg-amber-600 border-amber-600 text-white'
+                                        : 'bg-white border-amber-200 text-amber-700 hover:bg-amber-100'
+                                }`}
+                            >
+                                {LAYER_NAMES[layer]}
+                            </button>
+                        ))}
+                    </div>
+                    <select
+                        value={splitPoint}
+                        onChange={(e) => setHandSplitPoint(Number(e.target.value))}
+                        className="text-xs border border-amber-200 rounded px-1 py-0.5 bg-white text-amber-800"
+                        aria-label="Hand split point"
+                        title="Notes below this lean toward the bass staff"
+                    >
+                        {SPLIT_POINTS.map((midi) => (
+                            <option key={midi} value={midi}>Split {getNoteDetails(midi).name}</option>
+                        ))}
+                    </select>
+                    <select
+                        value={keySignature}
+                        onChange={(e) => setKeySignature(e.target.value)}
+                        className="text-xs border border-amber-200 rounded px-1 py-0.5 bg-white text-amber-800"
+                        aria-label="Key signature"
+                    >
+                        {KEY_SIGNATURES.map((key) => (
+                            <option key={key} value={key}>{key} major</option>
+                        ))}
+                    </select>
+                </div>
+            </div>
+            <div ref={wrapperRef} className="overflow-x-auto">
+                <div
+                    className="relative my-2 w-max select-none"
+                    onMouseDown={handleMouseDown}
+                    onMouseMove={handleMouseMove}
+                    onMouseUp={handleMouseUp}
+                    onMouseLeave={handleMouseLeave}
+                >
+                    {/* Highlights sit under the notation, which is redrawn only when it changes */}
+                    {highlighted.map((target, i) => (
+                        <div
+                            key={`${target.cardId}-${i}`}
+                            className={`absolute rounded pointer-events-none ${
+                                selectedCardIds.includes(target.cardId)
+                                    ? 'bg-blue-400/20 ring-1 ring-blue-400/60'
+                                    : 'bg-amber-300/30'
+                            }`}
+                            style={{ left: target.x - 4, top: target.y, width: target.width + 8, height: target.height }}
+                        />
+                    ))}
+                    <div ref={containerRef} className="relative" />
+                    {drag && dragTarget !== null && (
+                        <div
+                            className="absolute pointer-events-none flex items-center gap-1"
+                            style={{ left: drag.head.x, top: drag.head.y - drag.steps * STEP_HEIGHT }}
+                        >
+                            <div
+                                className="rounded-full bg-blue-500/60"
+                                style={{ width: drag.head.width, height: drag.head.height }}
+                            />
+                            <span className="text-[10px] font-medium text-blue-700 bg-white/80 rounded px-1">
+                                {getNoteDetails(dragTarget).name}
+                            </span>
+                        </div>
+                    )}
+                </div>
+            </div>
+            {measureCount === 0 && (
+                <div className="flex items-center justify-center h-[280px] text-amber-400 text-sm">
+                    Play chords to see notation...
+                </div>
+            )}
+        </div>
+    );
+};
@@ -0,0 +1,58 @@
+import React from 'react';
+import { Volume2, VolumeX } from 'lucide-react';
+import type { SynthPreset } from '../lib/synth';
+
+export interface SynthControlsProps {
+    presets: SynthPreset[];
+    presetId: string;
+    onPresetChange: (id: string) => void;
+    /** 0-1 */
+    volume: number;
+    onVolumeChange: (volume: number) => void;
+    /** False while a MIDI output is selected and the synth is bypassed */
+    isActive: boolean;
+}
+
+export const SynthControls: React.FC<SynthControlsProps> = ({
+    presets,
+    presetId,
+    onPresetChange,
+    volume,
+    onVolumeChange,
+    isActive,
+}) => {
+    return (
+        <div
+            className={`flex items-center gap-1.5 text-xs ${isActive ? 'text-stone-600' : 'text-stone-400 opacity-60'}`}
+            title={isActive ? 'Built-in synth' : 'Built-in synth (bypassed: MIDI output selected)'}
+        >
+            <button
+                onClick={() => onVolumeChange(volume > 0 ? 0 : 0.8)}
+                className="hover:text-stone-900"
+                title={volume > 0 ? 'Mute' : 'Unmute'}
+            >
+                {volume > 0 ? <Volume2 size={14} /> : <VolumeX size={14} />}
+            </button>
+            <input
+                type="range"
+                min={0}
+                max={1}
+                step={0.01}
+                value={volume}
+                onChange={(e) => onVolumeChange(Number(e.target.value))}
+                className="w-16 accent-amber-500"
+                aria-label="Synth volume"
+            />
+            <select
+                value={presetId}
+                onChange={(e) => onPresetChange(e.target.value)}
+                className="text-xs border border-stone-200 rounded px-1 py-0.5 bg-white"
+                aria-label="Synth sound"
+            >
+                {presets.map((preset) => (
+                    <option key={preset.id} value={preset.id}>{preset.label}</option>
+                ))}
+            </select>
+        </div>
+    );
+};
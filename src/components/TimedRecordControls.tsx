@@ -0,0 +1,80 @@
+import React from 'react';
+import { Circle, Square } from 'lucide-react';
+import { DURATION_INFO } from '../types';
+import type { Duration } from '../types';
+
+export interface TimedRecordControlsProps {
+    isRecording: boolean;
+    onStart: () => void;
+    onStop: () => void;
+    /** Timed takes need the metronome's own clock, so not during playback */
+    disabled?: boolean;
+    grid: Duration;
+    onGridChange: (grid: Duration) => void;
+    swingTolerance: number;
+    onSwingToleranceChange: (tolerance: number) => void;
+}
+
+const GRIDS: Duration[] = ['q', '8', '8t3', '16'];
+
+const SWING_OPTIONS = [
+    { value: 0, label: 'Straight' },
+    { value: 0.2, label: 'Light swing' },
+    { value: 1 / 3, label: 'Triplet swing' },
+];
+
+export const TimedRecordControls: React.FC<TimedRecordControlsProps> = ({
+    isRecording,
+    onStart,
+    onStop,
+    disabled = false,
+    grid,
+    onGridChange,
+    swingTolerance,
+    onSwingToleranceChange,
+}) => {
+    const select = 'text-xs border border-slate-600 rounded px-1 py-0.5 bg-slate-900 text-slate-200 disabled:opacity-50';
+
+    return (
+        <div className="flex items-center gap-2 text-xs text-slate-300">
+            <button
+                onClick={isRecording ? onStop : onStart}
+                disabled={disabled && !isRecording}
+                className={`flex items-center gap-1 px-2 py-1 rounded border transition-colors disabled:opacity-40 ${
+                    isRecording
+                        ? 'bg-red-900/50 border-red-500/70 text-red-200 animate-pulse'
+                        : 'border-slate-600 hover:bg-slate-700 hover:text-white'
+                }`}
+                title={isRecording ? 'Stop and quantize the take' : 'Record in time with the metronome (one bar count-in)'}
+            >
+                {isRecording ? <Square size={12} /> : <Circle size={12} className="text-red-400" />}
+                {isRecording ? 'Stop' : 'Timed'}
+            </button>
+
+            <select
+                value={grid}
+                onChange={(e) => onGridChange(e.target.value as Duration)}
+                disabled={isRecording}
+                className={select}
+                aria-label="Quantize grid"
+                title="Quantize grid"
+            >
+                {GRIDS.map((d) => (
+                    <option key={d} value={d}>{DURATION_INFO[d].label}s</option>
+                ))}
+            </select>
+
+            <select
+                value={swingTolerance}
+                onChange={(e) => onSwingToleranceChange(Number(e.target.value))}
+                disabled={isRecording}
+                className={select}
+                aria-label="Swing tolerance"
+            >
+                {SWING_OPTIONS.map(({ value, label }) => (
+                    <option key={label} value={value}>{label}</option>
+                ))}
+            </select>
+        </div>
+    );
+};
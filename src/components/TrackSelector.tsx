@@ -0,0 +1,54 @@
+import React from 'react';
+import { Split } from 'lucide-react';
+import type { TrackId } from '../types';
+import { trackLabel } from '../lib/tracks';
+
+export interface TrackSelectorProps {
+    trackIds: TrackId[];
+    activeTrackId: TrackId;
+    onSelect: (trackId: TrackId) => void;
+    /** Split the both-hands track into a track per hand; hidden when absent */
+    onSplitHands?: () => void;
+    disabled?: boolean;
+}
+
+/** Which track recording and editing go to */
+export const TrackSelector: React.FC<TrackSelectorProps> = ({
+    trackIds,
+    activeTrackId,
+    onSelect,
+    onSplitHands,
+    disabled = false,
+}) => (
+    <div className="flex items-center gap-1 text-xs" role="tablist" aria-label="Tracks">
+        {trackIds.map((trackId) => (
+            <button
+                key={trackId}
+                type="button"
+                role="tab"
+                aria-selected={trackId === activeTrackId}
+                onClick={() => onSelect(trackId)}
+                disabled={disabled}
+                className={`rounded px-2 py-0.5 border disabled:opacity-40 ${
+                    trackId === activeTrackId
+                        ? 'bg-slate-200 border-slate-200 text-slate-900'
+                        : 'border-slate-600 text-slate-300 hover:bg-slate-700 hover:text-white'
+                }`}
+            >
+                {trackLabel(trackId)}
+            </button>
+        ))}
+        {onSplitHands && (
+            <button
+                type="button"
+                onClick={onSplitHands}
+                disabled={disabled}
+                className="flex items-center gap-1 rounded px-2 py-0.5 border border-slate-600 text-slate-300 hover:bg-slate-700 hover:text-white disabled:opacity-40"
+                title="Give each hand a track of its own, split by register"
+            >
+                <Split size={12} />
+                Split hands
+            </button>
+        )}
+    </div>
+);
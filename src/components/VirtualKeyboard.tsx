@@ -3,7 +3,8 @@ import React, { useCallback, useRef } from 'react';
 export interface VirtualKeyboardProps {
     activeNotes: number[];
     highlightedNotes?: number[];
-    onNoteOn: (note: number) => void;
+    /** Velocity comes from where the key is pressed: nearer the front is louder */
+    onNoteOn: (note: number, velocity: number) => void;
     onNoteOff: (note: number) => void;
 }
 
@@ -55,7 +56,10 @@ export const VirtualKeyboard: React.FC<VirtualKeyboardProps> = ({ activeNotes, h
         (e.target as HTMLElement).setPointerCapture(e.pointerId);
         if (!pressedKeysRef.current.has(midi)) {
             pressedKeysRef.current.add(midi);
-            onNoteOn(midi);
+            const rect = e.currentTarget.getBoundingClientRect();
+            const depth = rect.height > 0 ? (e.clientY - rect.top) / rect.height : 0.5;
+            const velocity = Math.round(40 + 87 * Math.max(0, Math.min(1, depth)));
+            onNoteOn(midi, velocity);
         }
     }, [onNoteOn]);
 
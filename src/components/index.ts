@@ -11,8 +11,32 @@ export type { ChordCardProps } from './ChordCard';
 export { ChordCardHistory } from './ChordCardHistory';
 export type { ChordCardHistoryProps } from './ChordCardHistory';
 
-export { DurationScrollPicker, DURATION_OPTIONS } from './DurationScrollPicker';
+export { DurationScrollPicker, DURATION_OPTIONS, DURATION_MODIFIERS } from './DurationScrollPicker';
 export type { DurationScrollPickerProps } from './DurationScrollPicker';
 
-export { SimpleStaff } from './SimpleStaff';
-export type { SimpleStaffProps } from './SimpleStaff';
+export { StaffRenderer } from './StaffRenderer';
+export type { StaffRendererProps } from './StaffRenderer';
+
+export { MIDIDevicePanel } from './MIDIDevicePanel';
+export type { MIDIDevicePanelProps } from './MIDIDevicePanel';
+
+export { SynthControls } from './SynthControls';
+export type { SynthControlsProps } from './SynthControls';
+
+export { PracticeControls } from './PracticeControls';
+export type { PracticeControlsProps } from './PracticeControls';
+
+export { MetronomeControls } from './MetronomeControls';
+export type { MetronomeControlsProps } from './MetronomeControls';
+
+export { TimedRecordControls } from './TimedRecordControls';
+export type { TimedRecordControlsProps } from './TimedRecordControls';
+
+export { HandSplitControls } from './HandSplitControls';
+export type { HandSplitControlsProps } from './HandSplitControls';
+
+export { TrackSelector } from './TrackSelector';
+export type { TrackSelectorProps } from './TrackSelector';
+
+export { ImportDialog } from './ImportDialog';
+export type { ImportDialogProps, ImportSource } from './ImportDialog';
@@ -0,0 +1,125 @@
+/**
+ * React hook around the MIDI service
+ *
+ * Owns the MIDIAccess lifecycle and mirrors the note tracker (held notes,
+ * sustain pedal) into React state. Virtual input (on-screen keyboard)
+ * goes through the same noteOn/noteOff path as hardware.
+ */
+
+import { useState, useEffect, useCallback, useRef } from 'react';
+import { createMIDIService, describeMIDIError } from '../lib/midiService';
+import type { MIDIService, MIDIInputInfo, MIDIInputSettings } from '../lib/midiService';
+import { createNoteTracker, VIRTUAL_SOURCE } from '../lib/noteTracker';
+import type { NoteTrackerState, TrackedNoteEvent } from '../lib/noteTracker';
+import type { RecordedNote } from '../lib/recording';
+import type { MIDIAccess, NavigatorWithMIDI } from '../types';
+
+export interface UseMIDIOptions {
+    /** Use this access object instead of calling navigator.requestMIDIAccess() */
+    access?: MIDIAccess;
+    /** Called with the note-ons captured during each pedal take */
+    onRecord?: (events: RecordedNote[]) => void;
+    /** Called for every note strike and release, from any source */
+    onNote?: (event: TrackedNoteEvent) => void;
+}
+
+export interface UseMIDIResult {
+    status: string;
+    midiAccess: MIDIAccess | null;
+    service: MIDIService | null;
+    activeNotes: number[];
+    isPedalDown: boolean;
+    /** Input ports with connection state and routing settings */
+    devices: MIDIInputInfo[];
+    /** Enable/disable an input or change its channel filter */
+    configureInput: (id: string, settings: Partial<MIDIInputSettings>) => void;
+    /** Press a note from a non-hardware source */
+    noteOn: (note: number, velocity?: number) => void;
+    /** Release a note from a non-hardware source */
+    noteOff: (note: number) => void;
+}
+
+export const useMIDI = ({ access, onRecord, onNote }: UseMIDIOptions = {}): UseMIDIResult => {
+    const [status, setStatus] = useState<string>('Checking MIDI...');
+    const [midiAccess, setMidiAccess] = useState<MIDIAccess | null>(null);
+    const [service, setService] = useState<MIDIService | null>(null);
+    const [devices, setDevices] = useState<MIDIInputInfo[]>([]);
+    const [playing, setPlaying] = useState<NoteTrackerState>({ activeNotes: [], isPedalDown: false });
+
+    // Keep the latest callbacks without re-subscribing
+    const onRecordRef = useRef(onRecord);
+    onRecordRef.current = onRecord;
+    const onNoteRef = useRef(onNote);
+    onNoteRef.current = onNote;
+
+    const [tracker] = useState(() => createNoteTracker({
+        onChange: setPlaying,
+        onRecord: (events) => onRecordRef.current?.(events),
+        onNote: (event) => onNoteRef.current?.(event),
+    }));
+
+    useEffect(() => {
+        let isMounted = true;
+        let activeService: MIDIService | null = null;
+        const unsubscribers: (() => void)[] = [];
+
+        const connect = (resolved: MIDIAccess) => {
+            if (!isMounted) return;
+            activeService = createMIDIService(resolved);
+            unsubscribers.push(activeService.subscribe(tracker.handleEvent));
+            unsubscribers.push(activeService.subscribeDevices(setDevices));
+            setMidiAccess(resolved);
+            setService(activeService);
+            setDevices(activeService.getDevices());
+            setStatus('Ready');
+        };
+
+        if (access) {
+            connect(access);
+        } else {
+            const nav = navigator as NavigatorWithMIDI;
+            if (!nav.requestMIDIAccess) {
+                setStatus('Web MIDI API not supported in this browser');
+            } else {
+                nav.requestMIDIAccess()
+                    .then(connect)
+                    .catch((err) => {
+                        if (!isMounted) return;
+                        console.error('MIDI access error:', err);
+                        setStatus(describeMIDIError(err));
+                    });
+            }
+        }
+
+        return () => {
+            isMounted = false;
+            tracker.reset();
+            unsubscribers.forEach((unsubscribe) => unsubscribe());
+            activeService?.dispose();
+        };
+    }, [access, tracker]);
+
+    const noteOn = useCallback((note: number, velocity?: number) => {
+        tracker.noteOn(note, performance.now(), VIRTUAL_SOURCE, velocity);
+    }, [tracker]);
+
+    const noteOff = useCallback((note: number) => {
+        tracker.noteOff(note, VIRTUAL_SOURCE, performance.now());
+    }, [tracker]);
+
+    const configureInput = useCallback((id: string, settings: Partial<MIDIInputSettings>) => {
+        service?.configureInput(id, settings);
+    }, [service]);
+
+    return {
+        status,
+        midiAccess,
+        service,
+        activeNotes: playing.activeNotes,
+        isPedalDown: playing.isPedalDown,
+        devices,
+        configureInput,
+        noteOn,
+        noteOff,
+    };
+};
@@ -0,0 +1,78 @@
+/**
+ * React hook for choosing a MIDI output port
+ *
+ * Tracks available outputs (including hot-plug), the selected port and
+ * channel, and exposes a NoteOutput for it plus one on the General MIDI
+ * percussion channel for metronome clicks. Sends an all-notes-off panic
+ * whenever the output changes or the component unmounts.
+ */
+
+import { useState, useEffect, useMemo } from 'react';
+import { getPortInfo } from '../lib/midiService';
+import type { MIDIService, MIDIPortInfo } from '../lib/midiService';
+import { createMIDINoteOutput } from '../lib/midiOutput';
+import { METRONOME_MIDI_CHANNEL } from '../lib/metronome';
+import type { NoteOutput } from '../lib/noteOutput';
+
+export interface UseMIDIOutputResult {
+    /** Output ports with connection state */
+    outputs: MIDIPortInfo[];
+    selectedOutputId: string | null;
+    selectOutput: (id: string | null) => void;
+    /** Channel (1-16) notes are sent on */
+    outputChannel: number;
+    setOutputChannel: (channel: number) => void;
+    /** Sink for the selected port, or null when none is selected/connected */
+    output: NoteOutput | null;
+    /** Metronome clicks on the selected port's percussion channel */
+    clickOutput: NoteOutput | null;
+}
+
+export const useMIDIOutput = (service: MIDIService | null): UseMIDIOutputResult => {
+    const [outputs, setOutputs] = useState<MIDIPortInfo[]>([]);
+    const [selectedOutputId, selectOutput] = useState<string | null>(null);
+    const [outputChannel, setOutputChannel] = useState<number>(1);
+
+    useEffect(() => {
+        if (!service) return;
+        const refresh = () => setOutputs(service.getOutputs().map(getPortInfo));
+        refresh();
+        return service.subscribePorts(refresh);
+    }, [service]);
+
+    const selectedState = outputs.find(o => o.id === selectedOutputId)?.state;
+
+    const port = useMemo(() => {
+        if (!service || !selectedOutputId || selectedState !== 'connected') return null;
+        return service.access.outputs.get(selectedOutputId) ?? null;
+    }, [service, selectedOutputId, selectedState]);
+
+    const output = useMemo(
+        () => (port ? createMIDINoteOutput(port, outputChannel) : null),
+        [port, outputChannel]
+    );
+
+    const clickOutput = useMemo(
+        () => (port ? createMIDINoteOutput(port, METRONOME_MIDI_CHANNEL) : null),
+        [port]
+    );
+
+    // Panic on switch/unmount so nothing keeps ringing on the old port
+    useEffect(() => {
+        return () => output?.allNotesOff();
+    }, [output]);
+
+    useEffect(() => {
+        return () => clickOutput?.allNotesOff();
+    }, [clickOutput]);
+
+    return {
+        outputs,
+        selectedOutputId,
+        selectOutput,
+        outputChannel,
+        setOutputChannel,
+        output,
+        clickOutput,
+    };
+};
@@ -0,0 +1,123 @@
+/**
+ * React hook for the metronome
+ *
+ * Follows the sequence's tempo and time signature. While the transport
+ * plays, its beats are clicked through `handleBeat`; otherwise, when
+ * `allowStandalone` is set (Free Play), the metronome runs its own clock so
+ * chords can be played in time.
+ */
+
+import { useState, useEffect, useRef, useCallback } from 'react';
+import { createMetronome, DEFAULT_METRONOME_SETTINGS } from '../lib/metronome';
+import type { MetronomeSettings } from '../lib/metronome';
+import type { BeatEvent } from '../lib/transport';
+import type { NoteOutput } from '../lib/noteOutput';
+import { useSequenceStore, selectPlaybackState } from '../stores/useSequenceStore';
+
+export interface UseMetronomeResult {
+    settings: MetronomeSettings;
+    setEnabled: (enabled: boolean) => void;
+    setSubdivision: (subdivision: number) => void;
+    setVolume: (volume: number) => void;
+    /** Pass to useTransport so playback beats click */
+    handleBeat: (beat: BeatEvent) => void;
+    /** Switch on and restart the standalone clock; returns its first downbeat time */
+    restart: () => number;
+    /** Beat within the measure that last clicked, or null when silent */
+    currentBeat: number | null;
+}
+
+export const useMetronome = (output: NoteOutput | null, allowStandalone: boolean): UseMetronomeResult => {
+    const [settings, setSettings] = useState<MetronomeSettings>(DEFAULT_METRONOME_SETTINGS);
+    const [currentBeat, setCurrentBeat] = useState<number | null>(null);
+    const settingsRef = useRef(settings);
+    settingsRef.current = settings;
+    const playbackState = useSequenceStore(selectPlaybackState);
+
+    const outputRef = useRef(output);
+    outputRef.current = output;
+
+    // Clicks are handed out early; the beat display waits for them to sound
+    const displayTimersRef = useRef<Set<ReturnType<typeof setTimeout>>>(new Set());
+
+    const [metronome] = useState(() => createMetronome({
+        getOutput: () => outputRef.current,
+        onClick: (click) => {
+            if (click.level === 'subdivision') return;
+            const timers = displayTimersRef.current;
+            const timer = setTimeout(() => {
+                timers.delete(timer);
+                setCurrentBeat(click.beat);
+            }, Math.max(0, click.time - performance.now()));
+            timers.add(timer);
+        },
+    }));
+
+    useEffect(() => {
+        metronome.setSettings(settings);
+    }, [metronome, settings]);
+
+    useEffect(() => {
+        const { tempo, timeSignature } = useSequenceStore.getState().sequence;
+        metronome.setMeter(tempo, timeSignature);
+        return useSequenceStore.subscribe((state, prev) => {
+            const { tempo, timeSignature } = state.sequence;
+            if (tempo !== prev.sequence.tempo || timeSignature !== prev.sequence.timeSignature) {
+                metronome.setMeter(tempo, timeSignature);
+            }
+        });
+    }, [metronome]);
+
+    // Standalone clock whenever the transport isn't supplying beats
+    const runStandalone = settings.enabled && allowStandalone && playbackState !== 'playing';
+    useEffect(() => {
+        if (!runStandalone) return;
+        // restart() may already have started it on the right downbeat
+        if (!metronome.isRunning()) metronome.start();
+        return () => metronome.stop();
+    }, [metronome, runStandalone]);
+
+    // Nothing clicking: clear the beat display
+    const isSilent = !runStandalone && playbackState === 'stopped';
+    useEffect(() => {
+        if (!isSilent) return;
+        displayTimersRef.current.forEach(clearTimeout);
+        displayTimersRef.current.clear();
+        setCurrentBeat(null);
+    }, [isSilent]);
+
+    useEffect(() => () => {
+        metronome.stop();
+        displayTimersRef.current.forEach(clearTimeout);
+    }, [metronome]);
+
+    const setEnabled = useCallback((enabled: boolean) => {
+        setSettings((s) => ({ ...s, enabled }));
+    }, []);
+
+    const restart = useCallback(() => {
+        const at = performance.now();
+        metronome.setSettings({ ...settingsRef.current, enabled: true });
+        metronome.start(at);
+        setEnabled(true);
+        return at;
+    }, [metronome, setEnabled]);
+
+    const setSubdivision = useCallback((subdivision: number) => {
+        setSettings((s) => ({ ...s, subdivision: Math.max(1, Math.min(4, Math.round(subdivision))) }));
+    }, []);
+
+    const setVolume = useCallback((volume: number) => {
+        setSettings((s) => ({ ...s, volume: Math.max(0, Math.min(1, volume)) }));
+    }, []);
+
+    return {
+        settings,
+        setEnabled,
+        setSubdivision,
+        setVolume,
+        handleBeat: metronome.beat,
+        restart,
+        currentBeat,
+    };
+};
@@ -0,0 +1,87 @@
+/**
+ * React hook for the built-in synth
+ *
+ * The AudioContext is created on the first note rather than on mount, so
+ * browsers don't warn about audio starting without a user gesture. Preset
+ * and volume live in React state and are applied to the engine. A second
+ * engine on the same context plays metronome clicks.
+ */
+
+import { useState, useEffect, useMemo, useRef } from 'react';
+import { CLICK_PRESET, createSynthOutput, DEFAULT_SYNTH_PRESET_ID } from '../lib/synth';
+import type { SynthOutput } from '../lib/synth';
+import type { NoteOutput } from '../lib/noteOutput';
+import type { AudioContextLike } from '../types';
+
+export interface UseSynthResult {
+    /** Synth as a NoteOutput, or null when Web Audio is unavailable */
+    output: NoteOutput | null;
+    /** Click voice for the metronome, or null when Web Audio is unavailable */
+    clickOutput: NoteOutput | null;
+    presetId: string;
+    setPresetId: (id: string) => void;
+    /** Master volume, 0-1 */
+    volume: number;
+    setVolume: (volume: number) => void;
+}
+
+type AudioContextConstructor = new () => AudioContextLike;
+
+const getAudioContextConstructor = (): AudioContextConstructor | null => {
+    if (typeof window === 'undefined') return null;
+    const win = window as Window & { webkitAudioContext?: AudioContextConstructor };
+    return window.AudioContext ?? win.webkitAudioContext ?? null;
+};
+
+export const useSynth = (): UseSynthResult => {
+    const [presetId, setPresetId] = useState<string>(DEFAULT_SYNTH_PRESET_ID);
+    const [volume, setVolume] = useState<number>(0.8);
+    const synthRef = useRef<{ context: AudioContextLike; synth: SynthOutput; click: SynthOutput } | null>(null);
+
+    // Latest settings for the lazily created engine
+    const settingsRef = useRef({ presetId, volume });
+    settingsRef.current = { presetId, volume };
+
+    const { output, clickOutput } = useMemo(() => {
+        const AudioContextCtor = getAudioContextConstructor();
+        if (!AudioContextCtor) return { output: null, clickOutput: null };
+
+        const ensure = () => {
+            if (!synthRef.current) {
+                const context = new AudioContextCtor();
+                synthRef.current = {
+                    context,
+                    synth: createSynthOutput(context, settingsRef.current),
+                    click: createSynthOutput(context, { presetId: CLICK_PRESET.id, volume: 1 }),
+                };
+            }
+            return synthRef.current;
+        };
+
+        const lazyOutput = (engine: 'synth' | 'click'): NoteOutput => ({
+            noteOn: (note, velocity, time) => ensure()[engine].noteOn(note, velocity, time),
+            noteOff: (note, time) => synthRef.current?.[engine].noteOff(note, time),
+            allNotesOff: () => synthRef.current?.[engine].allNotesOff(),
+        });
+
+        return { output: lazyOutput('synth'), clickOutput: lazyOutput('click') };
+    }, []);
+
+    useEffect(() => {
+        synthRef.current?.synth.setPreset(presetId);
+    }, [presetId]);
+
+    useEffect(() => {
+        synthRef.current?.synth.setVolume(volume);
+    }, [volume]);
+
+    // Release the audio device on unmount
+    useEffect(() => () => {
+        synthRef.current?.synth.allNotesOff();
+        synthRef.current?.click.allNotesOff();
+        void synthRef.current?.context.close?.();
+        synthRef.current = null;
+    }, []);
+
+    return { output, clickOutput, presetId, setPresetId, volume, setVolume };
+};
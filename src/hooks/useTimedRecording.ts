@@ -0,0 +1,89 @@
+/**
+ * React hook for timed recording
+ *
+ * Starting a take restarts the metronome and gives one bar of count-in;
+ * the take's grid starts on the downbeat after it. Stopping quantizes the
+ * take against the sequence tempo and hands back chord and rest segments.
+ */
+
+import { useState, useCallback, useRef } from 'react';
+import { buildSegmentsFromEvents, createTimedRecorder } from '../lib/recording';
+import type { RecordingTiming } from '../lib/recording';
+import type { TrackedNoteEvent } from '../lib/noteTracker';
+import { ticksPerMeasure, ticksToMs } from '../lib/timeline';
+import { useSequenceStore } from '../stores/useSequenceStore';
+import type { Duration, PhraseSegment } from '../types';
+
+/** Bars clicked before the take's first downbeat */
+export const RECORD_COUNT_IN_BARS = 1;
+
+export interface UseTimedRecordingOptions {
+    /** Restart the metronome on a downbeat now and return its time */
+    restartMetronome: () => number;
+    /** Receives the quantized take */
+    onTake: (segments: PhraseSegment[]) => void;
+}
+
+export interface UseTimedRecordingResult {
+    isRecording: boolean;
+    start: () => void;
+    stop: () => void;
+    /** Feed every note strike and release (useMIDI's onNote) */
+    handleNote: (event: TrackedNoteEvent) => void;
+    grid: Duration;
+    setGrid: (grid: Duration) => void;
+    /** Fraction of a grid step off-beats may land late (see RecordingTiming) */
+    swingTolerance: number;
+    setSwingTolerance: (tolerance: number) => void;
+}
+
+export const useTimedRecording = ({ restartMetronome, onTake }: UseTimedRecordingOptions): UseTimedRecordingResult => {
+    const [isRecording, setIsRecording] = useState(false);
+    const [grid, setGrid] = useState<Duration>('8');
+    const [swingTolerance, setSwingTolerance] = useState(0);
+
+    const [recorder] = useState(createTimedRecorder);
+    const timingRef = useRef<RecordingTiming | null>(null);
+
+    const onTakeRef = useRef(onTake);
+    onTakeRef.current = onTake;
+
+    const start = useCallback(() => {
+        if (recorder.isRecording()) return;
+        const { tempo, timeSignature } = useSequenceStore.getState().sequence;
+        const countInMs = RECORD_COUNT_IN_BARS * ticksToMs(ticksPerMeasure(timeSignature), tempo);
+        timingRef.current = {
+            tempo,
+            origin: restartMetronome() + countInMs,
+            grid,
+            swingTolerance,
+        };
+        recorder.start();
+        setIsRecording(true);
+    }, [recorder, restartMetronome, grid, swingTolerance]);
+
+    const stop = useCallback(() => {
+        if (!recorder.isRecording()) return;
+        const events = recorder.stop(performance.now());
+        setIsRecording(false);
+        const timing = timingRef.current;
+        if (!timing || events.length === 0) return;
+        onTakeRef.current(buildSegmentsFromEvents(events, timing.grid, timing));
+    }, [recorder]);
+
+    const handleNote = useCallback((event: TrackedNoteEvent) => {
+        if (event.type === 'on') recorder.noteOn(event.note, event.time, event.velocity);
+        else recorder.noteOff(event.note, event.time);
+    }, [recorder]);
+
+    return {
+        isRecording,
+        start,
+        stop,
+        handleNote,
+        grid,
+        setGrid,
+        swingTolerance,
+        setSwingTolerance,
+    };
+};
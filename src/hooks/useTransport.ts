@@ -0,0 +1,93 @@
+/**
+ * React hook binding the transport to the sequence store
+ *
+ * The store stays the single source of truth: play/pause/stop and
+ * seekToCard are store actions, and this hook makes the transport follow
+ * them. The transport in turn writes the playback position back, and
+ * stops the store when it runs off the end. Beats (including count-in)
+ * go to `onBeat`, usually the metronome.
+ */
+
+import { useState, useEffect, useRef } from 'react';
+import { createTransport } from '../lib/transport';
+import type { BeatEvent, Transport } from '../lib/transport';
+import type { NoteOutput } from '../lib/noteOutput';
+import { useSequenceStore } from '../stores/useSequenceStore';
+import type { Card, Sequence, TrackId } from '../types';
+
+/** Play the active track, with every other track as accompaniment */
+const loadTracks = (transport: Transport, sequence: Sequence, activeTrackId: TrackId) => {
+    const { tracks, tempo, timeSignature, loop } = sequence;
+    const accompaniment: Card[][] = Object.keys(tracks)
+        .filter((trackId) => trackId !== activeTrackId)
+        .map((trackId) => tracks[trackId]);
+    transport.load(tracks[activeTrackId] ?? [], tempo, timeSignature, loop, accompaniment);
+};
+
+export const useTransport = (output: NoteOutput | null, onBeat?: (beat: BeatEvent) => void): Transport => {
+    const outputRef = useRef(output);
+    outputRef.current = output;
+    const onBeatRef = useRef(onBeat);
+    onBeatRef.current = onBeat;
+
+    // Tick of the last position the transport reported, to tell its own
+    // updates apart from seeks requested through the store
+    const reportedTickRef = useRef(0);
+
+    const [transport] = useState(() => createTransport({
+        getOutput: () => outputRef.current,
+        onPosition: (position) => {
+            reportedTickRef.current = position.tick;
+            // Clear loop/ramp fields the transport left out rather than keep stale ones
+            useSequenceStore.getState().setPlaybackPosition({ loopPass: undefined, tempo: undefined, ...position });
+        },
+        onBeat: (beat) => onBeatRef.current?.(beat),
+        onEnd: () => useSequenceStore.getState().stop(),
+    }));
+
+    useEffect(() => {
+        const { sequence, activeTrackId, practice } = useSequenceStore.getState();
+        transport.setPractice(practice);
+        loadTracks(transport, sequence, activeTrackId);
+
+        const unsubscribe = useSequenceStore.subscribe((state, prev) => {
+            if (state.practice !== prev.practice) {
+                transport.setPractice(state.practice);
+            }
+
+            if (state.sequence !== prev.sequence || state.activeTrackId !== prev.activeTrackId) {
+                loadTracks(transport, state.sequence, state.activeTrackId);
+            }
+
+            if (state.playbackState !== prev.playbackState) {
+                switch (state.playbackState) {
+                    case 'playing':
+                        transport.play();
+                        // Nothing to play: fall straight back to stopped
+                        if (!transport.isPlaying()) useSequenceStore.getState().stop();
+                        break;
+                    case 'paused':
+                        transport.pause();
+                        break;
+                    case 'stopped':
+                        transport.stop();
+                        reportedTickRef.current = 0;
+                        break;
+                }
+            } else if (
+                state.playbackPosition !== prev.playbackPosition
+                && state.playbackPosition.tick !== reportedTickRef.current
+            ) {
+                reportedTickRef.current = state.playbackPosition.tick;
+                transport.seek(state.playbackPosition.tick);
+            }
+        });
+
+        return () => {
+            unsubscribe();
+            transport.stop();
+        };
+    }, [transport]);
+
+    return transport;
+};
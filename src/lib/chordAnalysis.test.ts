@@ -22,6 +22,7 @@ import {
     normalizeIntervals,
     analyzeChord,
     CHORD_PATTERNS,
+    getPatternVoicing,
 } from './chordAnalysis';
 
 // =============================================================================
@@ -336,6 +337,21 @@ describe('getChordToneWithTension', () => {
         });
     });
 
+    describe('diminished chords', () => {
+        it('spells the b5 and the dim7\'s bb7 on their own letters', () => {
+            expect(getChordToneWithTension(6, 0, 'dim7', 6)).toBe('Gb');
+            expect(getChordToneWithTension(9, 0, 'dim7', 9)).toBe('Bbb');
+            expect(getChordToneWithTension(6, 0, 'm7b5', 18)).toBe('Gb');
+            // Ebdim7: Eb Gb Bbb Dbb
+            expect(getChordToneWithTension(9, 3, 'dim7')).toBe('Bbb');
+            expect(getChordToneWithTension(0, 3, 'dim7')).toBe('Dbb');
+        });
+
+        it('keeps the sixth of other chords', () => {
+            expect(getChordToneWithTension(9, 0, 'min6')).toBe('A');
+        });
+    });
+
     it('passes through non-ambiguous intervals unchanged', () => {
         expect(getChordToneWithTension(0, 0, 'any')).toBe('C');   // Root
         expect(getChordToneWithTension(4, 0, 'any')).toBe('E');   // Major 3rd
@@ -439,6 +455,26 @@ describe('CHORD_PATTERNS', () => {
 // BASIC CHORD RECOGNITION - TRIADS
 // =============================================================================
 
+describe('getPatternVoicing', () => {
+    it('voices a pattern in close position from the root', () => {
+        expect(getPatternVoicing(0, 'Maj7')).toEqual(midiChord('C3', 'E3', 'G3', 'B3'));
+        expect(getPatternVoicing(7, 'm', 60)).toEqual(midiChord('G4', 'Bb4', 'D5'));
+    });
+
+    it('keeps the root at or above the lowest note', () => {
+        expect(getPatternVoicing(3, '7', 50)).toEqual(midiChord('Eb3', 'G3', 'Bb3', 'Db4'));
+    });
+
+    it('round-trips through analyzeChord', () => {
+        expect(analyzeChord(getPatternVoicing(10, 'min7')!)?.display).toBe('Bbmin7');
+        expect(analyzeChord(getPatternVoicing(2, 'sus4')!)?.display).toBe('Dsus4');
+    });
+
+    it('returns null for unknown qualities', () => {
+        expect(getPatternVoicing(0, 'nope')).toBeNull();
+    });
+});
+
 describe('analyzeChord - Triads', () => {
     describe('Major triads', () => {
         it('recognizes C major triad', () => {
@@ -147,49 +147,6 @@ export const shouldPreferFlat = (rootPitchClass: number): boolean => {
 // TENSION SPELLING
 // =============================================================================
 
-interface TensionSpelling {
-    [interval: number]: { natural: string; sharp: string; flat: string };
-}
-
-/** Get sharp spelling of a scale degree */
-const getSharpSpelling = (rootPitchClass: number, scaleDegree: number): string => {
-    const baseNote = ROOT_SPELLING[rootPitchClass].scale[scaleDegree];
-    if (baseNote.includes('b')) {
-        return baseNote.replace('b', '');
-    } else if (baseNote.includes('#')) {
-        return baseNote + '#';
-    } else {
-        return baseNote + '#';
-    }
-};
-
-/** Get tension spellings for a root pitch class */
-const getTensionSpellings = (rootPitchClass: number): TensionSpelling => {
-    const spellings: TensionSpelling = {
-        1: { // b9
-            natural: ROOT_SPELLING[rootPitchClass].scale[1],
-            sharp: ROOT_SPELLING[rootPitchClass].scale[1],
-            flat: ROOT_SPELLING[rootPitchClass].scale[1]
-        },
-        3: { // #9 or b3
-            natural: ROOT_SPELLING[rootPitchClass].scale[3],
-            sharp: getSharpSpelling(rootPitchClass, 2),
-            flat: ROOT_SPELLING[rootPitchClass].scale[3]
-        },
-        6: { // #11 or b5
-            natural: ROOT_SPELLING[rootPitchClass].scale[6],
-            sharp: getSharpSpelling(rootPitchClass, 5),
-            flat: ROOT_SPELLING[rootPitchClass].scale[6]
-        },
-        8: { // b13 or #5
-            natural: ROOT_SPELLING[rootPitchClass].scale[8],
-            sharp: getSharpSpelling(rootPitchClass, 7),
-            flat: ROOT_SPELLING[rootPitchClass].scale[8]
-        }
-    };
-    return spellings;
-};
-
 /**
  * Determine tension quality from pattern name and/or actual interval.
  * When actualInterval is provided, use octave-aware logic for accurate disambiguation.
@@ -206,9 +163,9 @@ const getTensionQuality = (
             return 'natural';
         }
         if (interval === 6) {
+            if (patternName.includes('b5') || patternName.includes('dim')) return 'flat';
             if (actualInterval >= 17) return 'sharp';
             if (patternName.includes('#11')) return 'sharp';
-            if (patternName.includes('b5')) return 'flat';
             return 'flat';
         }
         if (interval === 8) {
@@ -224,8 +181,8 @@ const getTensionQuality = (
         return 'natural';
     }
     if (interval === 6) {
+        if (patternName.includes('b5') || patternName.includes('dim')) return 'flat';
         if (patternName.includes('#11')) return 'sharp';
-        if (patternName.includes('b5')) return 'flat';
         return 'natural';
     }
     if (interval === 8) {
@@ -237,9 +194,29 @@ const getTensionQuality = (
     return 'natural';
 };
 
+const LETTERS = ['C', 'D', 'E', 'F', 'G', 'A', 'B'];
+const LETTER_PITCH_CLASSES = [0, 2, 4, 5, 7, 9, 11];
+
 /**
- * Spell a chord tone with tension awareness.
- * When actualInterval is provided (from MIDI octave analysis), use it for accurate #/b disambiguation.
+ * Letters above the root a chord tone is written on: 1 for a second or
+ * ninth, 2 for a third, and so on. The tension quality settles the
+ * intervals with two names (#9 or b3, #11 or b5, #5 or b13), and a dim7's
+ * sixth semitone above the fifth is its bb7.
+ */
+const getChordToneSteps = (interval: number, patternName: string, actualInterval?: number): number => {
+    const sharp = () => getTensionQuality(patternName, interval, actualInterval) === 'sharp';
+    if (interval === 3) return sharp() ? 1 : 2;  // #9 or b3
+    if (interval === 6) return sharp() ? 3 : 4;  // #11 or b5
+    if (interval === 8) return sharp() ? 4 : 5;  // #5 or b13
+    if (interval === 9) return patternName.includes('dim7') ? 6 : 5;  // bb7 or 6
+    return [0, 1, 1, 2, 2, 3, 4, 4, 5, 5, 6, 6][interval];
+};
+
+/**
+ * Spell a chord tone with tension awareness: on the letter its interval
+ * names above the root (the dim7's bb7 is Bbb over C), then the
+ * accidental that makes it sound. When actualInterval is provided (from
+ * MIDI octave analysis), use it for accurate #/b disambiguation.
  */
 export const getChordToneWithTension = (
     pitchClass: number,
@@ -248,19 +225,10 @@ export const getChordToneWithTension = (
     actualInterval?: number
 ): string => {
     const interval = ((pitchClass - rootPitchClass) % 12 + 12) % 12;
-
-    if (![1, 3, 6, 8].includes(interval)) {
-        return ROOT_SPELLING[rootPitchClass].scale[interval];
-    }
-
-    const quality = getTensionQuality(patternName, interval, actualInterval);
-    const spellings = getTensionSpellings(rootPitchClass);
-
-    if (spellings[interval]) {
-        return spellings[interval][quality];
-    }
-
-    return ROOT_SPELLING[rootPitchClass].scale[interval];
+    const rootLetter = LETTERS.indexOf(ROOT_SPELLING[rootPitchClass].scale[0][0]);
+    const letter = (rootLetter + getChordToneSteps(interval, patternName, actualInterval)) % 7;
+    const alteration = ((pitchClass - LETTER_PITCH_CLASSES[letter]) % 12 + 18) % 12 - 6;
+    return LETTERS[letter] + (alteration > 0 ? '#'.repeat(alteration) : 'b'.repeat(-alteration));
 };
 
 // =============================================================================
@@ -439,6 +407,7 @@ export const CHORD_PATTERNS: ChordPattern[] = [
     // Altered dominants with multiple alterations
     { name: '13b9', intervals: normalizeIntervals([0, 4, 7, 10, 13, 21]), priority: 66, allowOmit5th: true },
     { name: '13#9', intervals: normalizeIntervals([0, 4, 7, 10, 15, 21]), priority: 66, allowOmit5th: true },
+    { name: '13#11', intervals: normalizeIntervals([0, 4, 7, 10, 14, 18, 21]), priority: 66, allowOmit5th: true },
     { name: '7b9#11', intervals: normalizeIntervals([0, 4, 7, 10, 13, 18]), priority: 58, allowOmit5th: true },
     { name: '7#9#11', intervals: normalizeIntervals([0, 4, 7, 10, 15, 18]), priority: 58, allowOmit5th: true },
     { name: '7b9b13', intervals: normalizeIntervals([0, 4, 7, 10, 13, 20]), priority: 58 },
@@ -525,6 +494,21 @@ export const CHORD_PATTERNS: ChordPattern[] = [
     { name: '5', intervals: [0, 7], priority: 20 },
 ];
 
+/**
+ * Close-position voicing of a named pattern, root at or above `lowestMidi`.
+ * Returns null if the quality isn't a known pattern name.
+ */
+export const getPatternVoicing = (
+    rootPitchClass: number,
+    quality: string,
+    lowestMidi: number = 48
+): number[] | null => {
+    const pattern = CHORD_PATTERNS.find(p => p.name === quality);
+    if (!pattern) return null;
+    const rootMidi = lowestMidi + ((rootPitchClass - lowestMidi) % 12 + 12) % 12;
+    return pattern.intervals.map(i => rootMidi + i);
+};
+
 // =============================================================================
 // MAIN ANALYSIS FUNCTION
 // =============================================================================
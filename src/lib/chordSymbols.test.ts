@@ -0,0 +1,112 @@
+/**
+ * Tests for reading chord symbols: the names analysis displays, common
+ * alternative spellings, errors with their positions, and voicings.
+ */
+
+import { describe, it, expect } from 'vitest';
+import { chordSymbolName, parseChordSymbol, voiceChordSymbol } from './chordSymbols';
+import type { ChordSymbol } from './chordSymbols';
+import { CHORD_PATTERNS, analyzeChord, getPatternVoicing } from './chordAnalysis';
+
+const parsed = (text: string): ChordSymbol | undefined => parseChordSymbol(text).symbol;
+
+describe('parseChordSymbol', () => {
+    it('reads the examples', () => {
+        expect(parsed('Bb13#11/D')).toEqual({ root: 'Bb', quality: '13#11', bass: 'D' });
+        expect(parsed('F#m7b5')).toEqual({ root: 'F#', quality: 'm7b5' });
+        expect(parsed('C6/9')).toEqual({ root: 'C', quality: '6/9' });
+        expect(parsed('Ebmaj7(#5)')).toEqual({ root: 'Eb', quality: 'Maj7#5' });
+        expect(parsed('G7alt')).toEqual({ root: 'G', quality: '7alt' });
+    });
+
+    it('reads every display name analysis gives back to its root, quality and bass', () => {
+        CHORD_PATTERNS.forEach(({ name }) => {
+            for (let root = 0; root < 12; root++) {
+                const analysis = analyzeChord(getPatternVoicing(root, name)!)!;
+                const symbol = parsed(analysis.display);
+
+                expect(symbol, analysis.display).toBeDefined();
+                expect(chordSymbolName(symbol!)).toBe(analysis.display);
+                expect(symbol).toMatchObject({ root: analysis.root, quality: analysis.quality });
+                expect(symbol!.rootless ?? false).toBe(analysis.isRootless ?? false);
+            }
+        });
+    });
+
+    it('reads rootless and slash displays', () => {
+        expect(parsed('D#min7 (rootless)')).toEqual({ root: 'D#', quality: 'min7', rootless: true });
+        expect(parsed('C/E')).toEqual({ root: 'C', quality: '', bass: 'E' });
+        expect(parsed('Cmin6/9/Bb')).toEqual({ root: 'C', quality: 'min6/9', bass: 'Bb' });
+        expect(parsed('  Ab7 / Gb ')).toEqual({ root: 'Ab', quality: '7', bass: 'Gb' });
+    });
+
+    it('understands the common spellings of each quality', () => {
+        const qualities = (texts: string[]) => texts.map((text) => parsed(text)?.quality);
+
+        expect(qualities(['Cmaj7', 'CMaj7', 'CM7', 'CΔ', 'CΔ7', 'C∆7', 'CMA7'])).toEqual(Array(7).fill('Maj7'));
+        expect(qualities(['Cm', 'Cmin', 'Cmi', 'C-', 'C−'])).toEqual(Array(5).fill('m'));
+        expect(qualities(['Cm7', 'Cmin7', 'C-7', 'Cmi7'])).toEqual(Array(4).fill('min7'));
+        expect(qualities(['Cø', 'Cø7', 'CØ7', 'Cm7(b5)', 'C-7b5', 'Cmin7(-5)'])).toEqual(Array(6).fill('m7b5'));
+        expect(qualities(['C°', 'Co', 'Cdim'])).toEqual(Array(3).fill('dim'));
+        expect(qualities(['C°7', 'Co7', 'Cdim7'])).toEqual(Array(3).fill('dim7'));
+        expect(qualities(['C+', 'Caug', 'C(#5)'])).toEqual(Array(3).fill('aug'));
+        expect(qualities(['C+7', 'Caug7', 'C7#5', 'C7+5', 'C7(#5)'])).toEqual(Array(5).fill('7#5'));
+        expect(qualities(['CmMaj7', 'Cm(maj7)', 'C-Δ7', 'CminMaj7', 'CmM7'])).toEqual(Array(5).fill('minMaj7'));
+        expect(qualities(['C69', 'C6/9', 'C6(add9)'])).toEqual(Array(3).fill('6/9'));
+        expect(qualities(['Cm6/9', 'Cm69', 'Cmin6/9'])).toEqual(Array(3).fill('min6/9'));
+        expect(qualities(['C7(b9,#11)', 'C7b9#11', 'C7(#11 b9)', 'C7-9+11'])).toEqual(Array(4).fill('7b9#11'));
+        expect(qualities(['Csus', 'Csus4'])).toEqual(['sus4', 'sus4']);
+        expect(qualities(['C7sus', 'C7sus4', 'C9sus4', 'CMaj7sus2', 'C13sus4']))
+            .toEqual(['7sus4', '7sus4', '9sus4', 'Maj7sus2', '13sus4']);
+        expect(qualities(['Cadd9', 'C(add9)', 'Cm(add9)', 'Cadd#11', 'C(add b3)']))
+            .toEqual(['add9', 'add9', 'madd9', 'add#11', '(add b3)']);
+        expect(qualities(['C7(9)', 'C7(13)', 'Cm7(11)', 'CΔ9', 'CM13', 'Calt', 'C5', 'C']))
+            .toEqual(['9', '13', 'min11', 'Maj9', 'Maj13', '7alt', '5', '']);
+    });
+
+    it('takes typeset accidentals on the root and bass', () => {
+        expect(parsed('B♭7/A♭')).toEqual({ root: 'Bb', quality: '7', bass: 'Ab' });
+        expect(parsed('F♯m7♭5')).toEqual({ root: 'F#', quality: 'm7b5' });
+    });
+
+    it('reports what went wrong and where', () => {
+        expect(parseChordSymbol('').error).toEqual({ message: 'Expected a root note, A to G', position: 0 });
+        expect(parseChordSymbol('  H7').error).toEqual({ message: 'Expected a root note, A to G', position: 2 });
+        expect(parseChordSymbol('C7x').error).toEqual({ message: 'Unexpected "x"', position: 2 });
+        expect(parseChordSymbol('Cm7(b5').error).toEqual({ message: 'Unclosed "("', position: 3 });
+        expect(parseChordSymbol('C7b5)').error).toEqual({ message: 'Unexpected ")"', position: 4 });
+        expect(parseChordSymbol('C7/').error).toEqual({ message: 'Expected a bass note, A to G', position: 3 });
+        expect(parseChordSymbol('C7b4').error).toEqual({ message: 'Cannot alter the 4', position: 2 });
+        expect(parseChordSymbol('Ebdim9').error).toEqual({ message: 'No chord pattern for "dim9"', position: 2 });
+    });
+});
+
+describe('voiceChordSymbol', () => {
+    it('voices a symbol in close position from the chosen register', () => {
+        const { notes, analysis } = voiceChordSymbol(parsed('Ebmaj7(#5)')!, 60);
+
+        expect(notes).toEqual([63, 67, 71, 74]);
+        expect(analysis).toMatchObject({ root: 'Eb', quality: 'Maj7#5', bass: 'Eb', display: 'EbMaj7#5', detectedRootPitchClass: 3 });
+    });
+
+    it('puts a slash bass in the octave below and leaves a rootless root out', () => {
+        expect(voiceChordSymbol(parsed('Bb13#11/D')!).notes[0]).toBe(38);
+        expect(voiceChordSymbol(parsed('Bb13#11/D')!).analysis.display).toBe('Bb13#11/D');
+        expect(voiceChordSymbol(parsed('C/C')!).notes).toEqual([48, 52, 55]);
+
+        const rootless = voiceChordSymbol(parsed('D#min7 (rootless)')!);
+        expect(rootless.notes).toEqual([54, 58, 61]);
+        expect(rootless.analysis).toMatchObject({ isRootless: true, display: 'D#min7 (rootless)' });
+    });
+
+    it('voices symbols analysis reads back the same', () => {
+        ['F#m7b5', 'G7alt', 'AbMaj7', 'Dmin7', 'Esus4'].forEach((text) => {
+            const { notes, analysis } = voiceChordSymbol(parsed(text)!);
+            expect(analyzeChord(notes)?.display).toBe(analysis.display);
+        });
+    });
+
+    it('refuses a quality no pattern names', () => {
+        expect(() => voiceChordSymbol({ root: 'C', quality: 'dim9' })).toThrow('Cannot voice "Cdim9"');
+    });
+});
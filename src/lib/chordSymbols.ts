@@ -0,0 +1,350 @@
+/**
+ * Chord symbols
+ *
+ * Reads written chord names, the inverse of analysis: "Bb13#11/D",
+ * "F#m7b5", "C6/9", "Ebmaj7(#5)", "G7alt". A symbol reads to a root, a
+ * quality from CHORD_PATTERNS and an optional slash bass, and can be voiced
+ * as notes with its analysis. Analysis's own display names read back
+ * exactly, respelled tensions included; common alternative spellings
+ * (maj7, Δ, M7; min, -, m; ø; °; +) are understood too.
+ */
+
+import type { ChordAnalysis } from '../types';
+import { CHORD_PATTERNS, getPatternVoicing } from './chordAnalysis';
+import { pitchClassOf } from './spelling';
+
+// =============================================================================
+// SYMBOLS
+// =============================================================================
+
+export interface ChordSymbol {
+    /** Root with ASCII accidentals, e.g. "Bb" */
+    root: string;
+    /** A CHORD_PATTERNS name, e.g. "m7b5", or one analysis respelled, e.g. "7(add b3)" */
+    quality: string;
+    /** Bass note of a slash chord */
+    bass?: string;
+    /** Marked "(rootless)", as analysis names a voicing without its root */
+    rootless?: boolean;
+}
+
+/** Why a symbol couldn't be read, and where in the text */
+export interface ChordSymbolError {
+    message: string;
+    /** Index of the character the problem starts at */
+    position: number;
+}
+
+export type ChordSymbolParse =
+    | { symbol: ChordSymbol; error?: undefined }
+    | { symbol?: undefined; error: ChordSymbolError };
+
+/** The symbol written as analysis displays it, e.g. "Bb13#11/D" */
+export const chordSymbolName = ({ root, quality, bass, rootless }: ChordSymbol): string =>
+    `${root}${quality}${rootless ? ' (rootless)' : ''}${bass ? `/${bass}` : ''}`;
+
+// =============================================================================
+// PARSING
+// =============================================================================
+
+const PATTERN_NAMES = new Set(CHORD_PATTERNS.map((pattern) => pattern.name));
+
+/** How analysis may respell a quality's third by its voicing: #9 as b3, or a b3 above a major third as #9 */
+const thirdRespellings = (name: string): string[] => {
+    if (name.includes('#9')) {
+        if (name.includes('7')) return [name.replace('#9', '(add b3)')];
+        const respelled = name.replace('#9', 'b3').replace('add', '(add ');
+        return [respelled.includes('(add ') && !respelled.endsWith(')') ? `${respelled})` : respelled];
+    }
+    if (name.includes('m')) return [];
+    if (name === '') return ['add#9'];
+    return /^(?:add|Maj)/.test(name) || name === '7' ? [`${name}(#9)`] : [];
+};
+
+/** Every quality analysis can name, with the pattern it sounds as; b5 and #11 trade places too */
+const ANALYSIS_QUALITIES = new Map(CHORD_PATTERNS.map(({ name }) => [name, name]));
+CHORD_PATTERNS.forEach(({ name }) => {
+    [name, ...thirdRespellings(name)].forEach((quality) => {
+        [quality, quality.replace('b5', '#11'), quality.replace('#11', 'b5')].forEach((respelled) => {
+            if (!ANALYSIS_QUALITIES.has(respelled)) ANALYSIS_QUALITIES.set(respelled, name);
+        });
+    });
+});
+
+/** Typeset characters read as their ASCII forms; each stays one character, so positions hold */
+const TYPESET: Record<string, string> = {
+    '♯': '#',
+    '♭': 'b',
+    '∆': 'Δ',
+    '−': '-',
+    '–': '-',
+    'Ø': 'ø',
+    'º': '°',
+    '˚': '°',
+};
+
+const NOTE_NAME = /^[A-G](?:##|bb|#|b)?/;
+const ROOTLESS = /\s*\(rootless\)\s*$/;
+/** A slash needs a note after it, so the "/9" of "6/9" is no bass */
+const SLASH_BASS = /\/\s*([A-G](?:##|bb|#|b)?)\s*$/;
+
+/** Triad words, tried in order (so "maj" is never read as "m" + "aj") */
+const TRIAD_WORDS: [word: string, triad: Triad][] = [
+    ['min', 'minor'], ['mi', 'minor'], ['-', 'minor'],
+    ['dim', 'diminished'], ['°', 'diminished'], ['o', 'diminished'],
+    ['ø', 'halfDiminished'],
+    ['aug', 'augmented'], ['+', 'augmented'],
+    ['m', 'minor'],
+];
+const MAJOR_SEVENTH_WORDS = ['maj', 'Maj', 'MA', 'Ma', 'M', 'Δ'];
+const MAJOR_WORD = /^(?:maj|Maj|MA|Ma)/;
+
+/** Degrees a written alteration can raise or lower */
+const ALTERABLE_DEGREES = new Set([5, 9, 11, 13]);
+
+type Triad = 'major' | 'minor' | 'diminished' | 'halfDiminished' | 'augmented' | 'power';
+
+/** What a symbol says about its chord, before it is named as a pattern */
+interface SymbolChord {
+    triad: Triad;
+    seventh: 'minor' | 'major' | 'diminished' | null;
+    /** Highest natural extension stacked on the seventh */
+    extension: number | null;
+    sixth: '6' | '6/9' | null;
+    sus: 'sus2' | 'sus4' | null;
+    /** Altered degrees, e.g. "b9", "#11" */
+    alterations: string[];
+    /** Tones added to a chord without a seventh, e.g. "9", "#11", "b3" */
+    adds: string[];
+    alt: boolean;
+}
+
+const degreeOf = (tone: string): number => parseInt(tone.replace(/^[#b]/, ''), 10);
+
+/**
+ * The CHORD_PATTERNS name for what a symbol says, following the names'
+ * own conventions: "min" before a number but "m" alone, "Maj" for the
+ * major seventh, alterations lowest degree first. May name no pattern.
+ */
+const patternName = (chord: SymbolChord): string => {
+    const { triad, sus, alt } = chord;
+    let { seventh, extension, sixth } = chord;
+    const alterations = [...chord.alterations];
+    let adds = [...chord.adds];
+
+    // A sixth with the ninth added is the six-nine
+    if (sixth && adds.includes('9')) {
+        sixth = '6/9';
+        adds = adds.filter((tone) => tone !== '9');
+    }
+
+    // Natural tones added over a seventh extend it; altered ones alter it
+    if (seventh || alt) {
+        adds.forEach((tone) => {
+            if (/^\d+$/.test(tone)) extension = Math.max(extension ?? 0, degreeOf(tone));
+            else alterations.push(tone);
+        });
+        adds = [];
+    }
+    if (triad === 'halfDiminished') {
+        seventh = 'minor';
+        alterations.push('b5');
+    }
+    if (triad === 'augmented' && (seventh || alt)) alterations.push('#5');
+    if (alt) seventh = seventh ?? 'minor';
+    alterations.sort((a, b) => degreeOf(a) - degreeOf(b));
+    const altered = alterations.join('') + (alt ? 'alt' : '');
+    const sevenths = String(extension ?? 7);
+
+    if (triad === 'power') return '5';
+    if (triad === 'diminished') return seventh === 'diminished' && !extension ? 'dim7' : seventh ? `dim${sevenths}` : 'dim';
+    if (triad === 'augmented' && !seventh) return altered ? `aug${altered}` : 'aug';
+
+    if (triad === 'minor' || triad === 'halfDiminished') {
+        if (seventh === 'minor' && alterations.includes('b5')) {
+            return `m${sevenths}b5${alterations.filter((tone) => tone !== 'b5').join('')}`;
+        }
+        if (seventh === 'major') return `minMaj${sevenths}${altered}`;
+        if (seventh) return `min${sevenths}${altered}`;
+        if (sixth) return `min${sixth}${altered}`;
+        if (adds.length === 1 && !altered) return adds[0] === '3' ? 'm(add 3)' : `madd${adds[0]}`;
+        return `m${altered}`;
+    }
+
+    // Major, with or without a suspension
+    const head = seventh === 'major' ? `Maj${sevenths}` : seventh ? sevenths : sixth ?? '';
+    if (seventh || sixth) return head + (sus ?? '') + altered;
+    if (adds.length === 1 && !sus && !altered) return adds[0] === 'b3' ? '(add b3)' : `add${adds[0]}`;
+    if (alterations.length === 1 && !sus && !adds.length) {
+        if (alterations[0] === '#5') return 'aug';
+        return `(${alterations[0]})`;
+    }
+    return (sus ?? '') + altered + adds.map((tone) => `add${tone}`).join('');
+};
+
+/**
+ * Read a chord symbol. Whitespace around it is ignored; anything else
+ * that isn't part of a symbol, or a symbol no pattern names, is an error
+ * at the character where reading stopped.
+ */
+export const parseChordSymbol = (text: string): ChordSymbolParse => {
+    const source = text.replace(/[♯♭∆−–Øº˚]/g, (c) => TYPESET[c]);
+    const fail = (message: string, position: number): ChordSymbolParse => ({ error: { message, position } });
+
+    const start = source.length - source.trimStart().length;
+    let end = source.trimEnd().length;
+    const root = NOTE_NAME.exec(source.slice(start))?.[0];
+    if (!root) return fail('Expected a root note, A to G', start);
+
+    const rootless = ROOTLESS.exec(source.slice(0, end));
+    if (rootless) end = rootless.index;
+    const slash = SLASH_BASS.exec(source.slice(0, end));
+    const bass = slash?.[1];
+    if (slash) end = slash.index;
+
+    const bodyStart = start + root.length;
+    const body = source.slice(bodyStart, end);
+    const symbol = (quality: string): ChordSymbolParse => ({
+        symbol: { root, quality, ...(bass && { bass }), ...(rootless && { rootless: true }) },
+    });
+    if (ANALYSIS_QUALITIES.has(body)) return symbol(body);
+
+    const chord: SymbolChord = {
+        triad: 'major',
+        seventh: null,
+        extension: null,
+        sixth: null,
+        sus: null,
+        alterations: [],
+        adds: [],
+        alt: false,
+    };
+    let offset = 0;
+    const rest = () => body.slice(offset);
+    const take = (pattern: RegExp): RegExpExecArray | null => {
+        const match = pattern.exec(rest());
+        if (match) offset += match[0].length;
+        return match;
+    };
+
+    // Triad, then the major seventh's marker, then the chord's number
+    const triadWord = MAJOR_WORD.test(body) ? undefined : TRIAD_WORDS.find(([word]) => body.startsWith(word));
+    if (triadWord) {
+        chord.triad = triadWord[1];
+        offset += triadWord[0].length;
+    }
+    const majorWord = MAJOR_SEVENTH_WORDS.find((word) => rest().startsWith(word));
+    if (majorWord) offset += majorWord.length;
+    const number = take(/^(?:6\/9|69|6|7|9|11|13|5)/)?.[0];
+
+    if (number === '6' || number === '6/9' || number === '69') {
+        chord.sixth = number === '6' ? '6' : '6/9';
+    } else if (number === '5') {
+        if (triadWord || majorWord) return fail('Expected 6, 7, 9, 11 or 13', bodyStart + offset - 1);
+        chord.triad = 'power';
+    } else if (number) {
+        chord.seventh = majorWord ? 'major' : chord.triad === 'diminished' ? 'diminished' : 'minor';
+        if (number !== '7') chord.extension = parseInt(number, 10);
+    } else if (majorWord === 'Δ') {
+        chord.seventh = 'major';
+    }
+
+    // Suspensions, alterations and added tones, in any order, bracketed or not
+    let bracket: number | null = null;
+    while (offset < body.length) {
+        const at = bodyStart + offset;
+        if (take(/^[\s,]+/)) continue;
+        if (rest()[0] === '(') {
+            if (bracket !== null) return fail('Unexpected "("', at);
+            bracket = at;
+            offset++;
+            continue;
+        }
+        if (rest()[0] === ')') {
+            if (bracket === null) return fail('Unexpected ")"', at);
+            bracket = null;
+            offset++;
+            continue;
+        }
+        if (take(/^alt/)) {
+            chord.alt = true;
+            continue;
+        }
+        const sus = take(/^sus([24]?)/);
+        if (sus) {
+            chord.sus = sus[1] === '2' ? 'sus2' : 'sus4';
+            continue;
+        }
+        if (take(/^(?:maj|Maj|M|Δ)7?/)) {
+            chord.seventh = 'major';
+            continue;
+        }
+        const add = take(/^add\s*([#b+-]?)(\d+)/);
+        if (add) {
+            chord.adds.push(`${add[1] === '+' ? '#' : add[1] === '-' ? 'b' : add[1]}${add[2]}`);
+            continue;
+        }
+        const tone = take(/^([#b+-])(\d+)/);
+        if (tone) {
+            if (!ALTERABLE_DEGREES.has(parseInt(tone[2], 10))) return fail(`Cannot alter the ${tone[2]}`, at);
+            chord.alterations.push(`${tone[1] === '+' || tone[1] === '#' ? '#' : 'b'}${tone[2]}`);
+            continue;
+        }
+        const natural = take(/^(?:9|11|13)/);
+        if (natural) {
+            chord.adds.push(natural[0]);
+            continue;
+        }
+        if (rest()[0] === '/') return fail('Expected a bass note, A to G', at + 1);
+        return fail(`Unexpected "${text[at]}"`, at);
+    }
+    if (bracket !== null) return fail('Unclosed "("', bracket);
+
+    const quality = patternName(chord);
+    if (!PATTERN_NAMES.has(quality)) return fail(`No chord pattern for "${text.slice(bodyStart, end)}"`, bodyStart);
+    return symbol(quality);
+};
+
+// =============================================================================
+// VOICING
+// =============================================================================
+
+/**
+ * A close-position voicing of a symbol with the root at or above
+ * `lowestMidi` (a rootless symbol leaves the root out), and a slash bass
+ * in the octave below. The analysis names the chord as the symbol does.
+ */
+export const voiceChordSymbol = (
+    symbol: ChordSymbol,
+    lowestMidi: number = 48
+): { notes: number[]; analysis: ChordAnalysis } => {
+    const { root, quality, bass, rootless } = symbol;
+    const rootPitchClass = pitchClassOf(root);
+    const soundsAs = ANALYSIS_QUALITIES.get(quality);
+    const pattern = rootPitchClass === null || soundsAs === undefined
+        ? null
+        : getPatternVoicing(rootPitchClass, soundsAs, lowestMidi);
+    if (rootPitchClass === null || !pattern) throw new Error(`Cannot voice "${chordSymbolName(symbol)}"`);
+
+    const bassPitchClass = bass ? pitchClassOf(bass) : rootPitchClass;
+    if (bassPitchClass === null) throw new Error(`Cannot voice "${chordSymbolName(symbol)}"`);
+    const upper = rootless && pattern.length > 2 ? pattern.slice(1) : pattern;
+    const slash = bassPitchClass !== rootPitchClass;
+    const notes = slash
+        ? [lowestMidi - 12 + ((bassPitchClass - lowestMidi) % 12 + 12) % 12, ...upper]
+        : upper;
+
+    return {
+        notes,
+        analysis: {
+            root,
+            quality,
+            bass: slash ? bass! : root,
+            display: chordSymbolName({ root, quality, ...(slash && { bass }), ...(rootless && { rootless }) }),
+            intervals: pattern.map((note) => note - pattern[0]),
+            detectedRootPitchClass: rootPitchClass,
+            ...(rootless && { isRootless: true }),
+            actualIntervals: notes.map((note) => note - pattern[0]),
+        },
+    };
+};
@@ -0,0 +1,18 @@
+/**
+ * Tests for naming exported files.
+ */
+
+import { describe, it, expect } from 'vitest';
+import { fileNameFor } from './download';
+import { createSequence } from '../types';
+
+describe('fileNameFor', () => {
+    it('names the file after the sequence, without characters file systems refuse', () => {
+        expect(fileNameFor(createSequence('Étude: no. 1/2'), 'mid')).toBe('Étude- no. 1-2.mid');
+        expect(fileNameFor(createSequence('Blue / Green'), 'musicxml')).toBe('Blue - Green.musicxml');
+    });
+
+    it('falls back to Untitled for a blank name', () => {
+        expect(fileNameFor(createSequence('  '), 'mid')).toBe('Untitled.mid');
+    });
+});
@@ -0,0 +1,23 @@
+/**
+ * Download
+ *
+ * Hands generated files (MIDI, MusicXML) to the browser as a download,
+ * named after their sequence.
+ */
+
+import type { Sequence } from '../types';
+
+/** File name for a sequence's export, e.g. ("Blue / Green", "mid") to "Blue - Green.mid" */
+export const fileNameFor = (sequence: Sequence, extension: string): string =>
+    `${sequence.name.trim().replace(/[\\/:*?"<>|]+/g, '-') || 'Untitled'}.${extension}`;
+
+/** Save `data` under `fileName` through a temporary link */
+export const downloadFile = (data: BlobPart, fileName: string, type: string): void => {
+    const url = URL.createObjectURL(new Blob([data], { type }));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = fileName;
+    link.click();
+    // Let the click start the download before the URL goes
+    setTimeout(() => URL.revokeObjectURL(url), 0);
+};
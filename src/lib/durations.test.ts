@@ -0,0 +1,74 @@
+/**
+ * Tests for composing durations and writing tick spans as notes.
+ */
+
+import { describe, it, expect } from 'vitest';
+import { cycleDots, durationsForTicks, findDuration, toggleTuplet, withBase } from './durations';
+import { DURATION_INFO, PPQ } from '../types';
+import type { Duration } from '../types';
+
+describe('DURATION_INFO', () => {
+    it('derives every tick count from the base, dots and tuplet', () => {
+        const baseTicks = { w: PPQ * 4, h: PPQ * 2, q: PPQ, '8': PPQ / 2, '16': PPQ / 4, '32': PPQ / 8 };
+
+        (Object.keys(DURATION_INFO) as Duration[]).forEach((d) => {
+            const { base, dots, tuplet, ppq, beats } = DURATION_INFO[d];
+            const dotted = baseTicks[base] * (2 - 1 / 2 ** dots);
+            const expected = tuplet ? (dotted * tuplet.inSpaceOf) / tuplet.notes : dotted;
+            expect(ppq).toBe(expected);
+            expect(Number.isInteger(ppq)).toBe(true);
+            expect(beats).toBeCloseTo(ppq / PPQ);
+        });
+    });
+});
+
+describe('composing', () => {
+    it('finds values by base, dots and tuplet', () => {
+        expect(findDuration('q', 1)).toBe('qd');
+        expect(findDuration('8', 0, 3)).toBe('8t3');
+        expect(findDuration('16', 0, 5)).toBe('16t5');
+        expect(findDuration('32', 1)).toBeUndefined();
+    });
+
+    it('keeps dots and tuplets when changing the base where it can', () => {
+        expect(withBase('qd', 'h')).toBe('hd');
+        expect(withBase('8t3', 'q')).toBe('qt3');
+        expect(withBase('qdd', 'w')).toBe('w');
+    });
+
+    it('cycles dots, skipping counts a value does not have', () => {
+        expect(cycleDots('q')).toBe('qd');
+        expect(cycleDots('qd')).toBe('qdd');
+        expect(cycleDots('qdd')).toBe('q');
+        expect(cycleDots('w')).toBe('wd');
+        expect(cycleDots('wd')).toBe('w');
+        expect(cycleDots('32')).toBe('32');
+        expect(cycleDots('8t3')).toBe('8d');
+    });
+
+    it('toggles tuplets on and off', () => {
+        expect(toggleTuplet('8', 3)).toBe('8t3');
+        expect(toggleTuplet('8t3', 3)).toBe('8');
+        expect(toggleTuplet('8d', 5)).toBe('8t5');
+        expect(toggleTuplet('w', 3)).toBe('w');
+    });
+});
+
+describe('durationsForTicks', () => {
+    it('writes a span in the fewest, plainest notes, longest first', () => {
+        expect(durationsForTicks(1440)).toEqual(['hd']);
+        expect(durationsForTicks(1920 + 480 + 120)).toEqual(['w', 'q', '16']);
+        expect(durationsForTicks(1200)).toEqual(['h', '8']);
+        expect(durationsForTicks(0)).toEqual([]);
+    });
+
+    it('reaches for tuplets only when plain notes cannot add up', () => {
+        expect(durationsForTicks(400)).toEqual(['8', '8t3']);
+        expect(durationsForTicks(480)).toEqual(['q']);
+    });
+
+    it('cuts an unwritable span back to plain notes', () => {
+        expect(durationsForTicks(490)).toEqual(['q']);
+        expect(durationsForTicks(30)).toEqual([]);
+    });
+});
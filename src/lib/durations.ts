@@ -0,0 +1,100 @@
+/**
+ * Durations
+ *
+ * Composes note values from a base value, dots and a tuplet, and writes
+ * arbitrary tick spans as notes. DURATION_INFO is the one table of ticks,
+ * so playback, notation and export always agree on a card's length.
+ */
+
+import { DURATION_INFO } from '../types';
+import type { BaseDuration, Duration } from '../types';
+
+// =============================================================================
+// COMPOSING
+// =============================================================================
+
+/** Undotted note values, longest first */
+export const BASE_DURATIONS: BaseDuration[] = ['w', 'h', 'q', '8', '16', '32'];
+
+/** Every duration, longest first */
+export const DURATIONS_BY_LENGTH = (Object.keys(DURATION_INFO) as Duration[])
+    .sort((a, b) => DURATION_INFO[b].ppq - DURATION_INFO[a].ppq);
+
+/** The duration with this base, dot count and tuplet, if there is one */
+export const findDuration = (base: BaseDuration, dots: number = 0, tupletNotes?: number): Duration | undefined => {
+    return DURATIONS_BY_LENGTH.find((d) => {
+        const info = DURATION_INFO[d];
+        return info.base === base && info.dots === dots && info.tuplet?.notes === tupletNotes;
+    });
+};
+
+/** Move to another base, keeping the dots or tuplet where that value exists */
+export const withBase = (duration: Duration, base: BaseDuration): Duration => {
+    const { dots, tuplet } = DURATION_INFO[duration];
+    return findDuration(base, dots, tuplet?.notes) ?? base;
+};
+
+/** Next dot count the base allows, wrapping back to none; a tuplet is dropped */
+export const cycleDots = (duration: Duration): Duration => {
+    const { base, dots } = DURATION_INFO[duration];
+    for (let next = dots + 1; next <= 2; next++) {
+        const dotted = findDuration(base, next);
+        if (dotted) return dotted;
+    }
+    return base;
+};
+
+/**
+ * Switch a tuplet (3 or 5) on or off for the duration's base; dots are
+ * dropped. Unchanged when the base has no such tuplet.
+ */
+export const toggleTuplet = (duration: Duration, notes: number): Duration => {
+    const { base, tuplet } = DURATION_INFO[duration];
+    if (tuplet?.notes === notes) return base;
+    return findDuration(base, 0, notes) ?? duration;
+};
+
+// =============================================================================
+// WRITING TICK SPANS
+// =============================================================================
+
+/** How awkward a piece is to read: plain notes first, then dots, tuplets last */
+const pieceCost = (duration: Duration): number => {
+    const { dots, tuplet } = DURATION_INFO[duration];
+    if (tuplet) return 3;
+    return dots === 0 ? 1 : dots === 1 ? 1.25 : 2;
+};
+
+/**
+ * Durations that add up to `ticks` in the fewest, plainest pieces, longest
+ * first. When no combination is exact, the span is cut back to whole 32nds
+ * and the rest dropped.
+ */
+export const durationsForTicks = (ticks: number): Duration[] => {
+    const total = Math.max(0, Math.round(ticks));
+    const cost = new Array<number>(total + 1).fill(Infinity);
+    const last = new Array<Duration | null>(total + 1).fill(null);
+    cost[0] = 0;
+
+    for (let t = 1; t <= total; t++) {
+        DURATIONS_BY_LENGTH.forEach((d) => {
+            const ppq = DURATION_INFO[d].ppq;
+            if (ppq > t) return;
+            const c = cost[t - ppq] + pieceCost(d);
+            if (c < cost[t]) {
+                cost[t] = c;
+                last[t] = d;
+            }
+        });
+    }
+
+    let t = total;
+    if (cost[t] === Infinity) t -= t % DURATION_INFO['32'].ppq;
+    const durations: Duration[] = [];
+    while (t > 0) {
+        const d = last[t] as Duration;
+        durations.push(d);
+        t -= DURATION_INFO[d].ppq;
+    }
+    return durations.sort((a, b) => DURATION_INFO[b].ppq - DURATION_INFO[a].ppq);
+};
@@ -0,0 +1,200 @@
+/**
+ * Offline Web Audio stub
+ *
+ * An AudioContextLike that renders nothing but records every node, connection
+ * and parameter automation, with a clock that tests advance by hand. Param
+ * curves can be evaluated at any time to check envelopes without audio.
+ */
+
+import type {
+    AudioContextLike,
+    AudioNodeLike,
+    AudioParamLike,
+    GainNodeLike,
+    OscillatorNodeLike,
+    SynthWaveform,
+} from '../types';
+
+// =============================================================================
+// PARAMS
+// =============================================================================
+
+/** One scheduled automation event */
+export type FakeParamEvent =
+    | { type: 'set'; value: number; time: number }
+    | { type: 'linear'; value: number; time: number }
+    | { type: 'exponential'; value: number; time: number }
+    | { type: 'target'; value: number; time: number; timeConstant: number };
+
+export class FakeAudioParam implements AudioParamLike {
+    value: number;
+    /** Scheduled events in time order (cancelled ones removed) */
+    readonly events: FakeParamEvent[] = [];
+
+    constructor(defaultValue: number) {
+        this.value = defaultValue;
+    }
+
+    private schedule(event: FakeParamEvent): this {
+        const index = this.events.findIndex((e) => e.time > event.time);
+        if (index === -1) this.events.push(event);
+        else this.events.splice(index, 0, event);
+        return this;
+    }
+
+    setValueAtTime(value: number, time: number): this {
+        return this.schedule({ type: 'set', value, time });
+    }
+
+    linearRampToValueAtTime(value: number, time: number): this {
+        return this.schedule({ type: 'linear', value, time });
+    }
+
+    exponentialRampToValueAtTime(value: number, time: number): this {
+        return this.schedule({ type: 'exponential', value, time });
+    }
+
+    setTargetAtTime(value: number, time: number, timeConstant: number): this {
+        return this.schedule({ type: 'target', value, time, timeConstant });
+    }
+
+    cancelScheduledValues(time: number): this {
+        for (let i = this.events.length - 1; i >= 0; i--) {
+            if (this.events[i].time >= time) this.events.splice(i, 1);
+        }
+        return this;
+    }
+
+    /** Evaluate the automation curve at `time`, following the Web Audio rules */
+    valueAt(time: number): number {
+        let value = this.value;
+        let lastTime = 0;
+
+        for (let i = 0; i < this.events.length; i++) {
+            const event = this.events[i];
+
+            if (event.time > time) {
+                // A ramp that ends in the future is partway through
+                if (event.type === 'linear' || event.type === 'exponential') {
+                    const progress = (time - lastTime) / (event.time - lastTime);
+                    return event.type === 'linear'
+                        ? value + (event.value - value) * progress
+                        : value * Math.pow(event.value / value, progress);
+                }
+                return value;
+            }
+
+            if (event.type === 'target') {
+                // Approach the target until the next event (or `time`) takes over
+                const next = this.events[i + 1];
+                const end = next && next.time <= time ? next.time : time;
+                value = event.value + (value - event.value) * Math.exp(-(end - event.time) / event.timeConstant);
+                lastTime = end;
+            } else {
+                value = event.value;
+                lastTime = event.time;
+            }
+        }
+        return value;
+    }
+}
+
+// =============================================================================
+// NODES
+// =============================================================================
+
+export class FakeAudioNode implements AudioNodeLike {
+    /** Nodes this one currently feeds */
+    connections: AudioNodeLike[] = [];
+
+    connect(destination: AudioNodeLike): AudioNodeLike {
+        this.connections.push(destination);
+        return destination;
+    }
+
+    disconnect(): void {
+        this.connections = [];
+    }
+}
+
+export class FakeGainNode extends FakeAudioNode implements GainNodeLike {
+    readonly gain = new FakeAudioParam(1);
+}
+
+export class FakeOscillatorNode extends FakeAudioNode implements OscillatorNodeLike {
+    type: SynthWaveform | 'custom' = 'sine';
+    readonly frequency = new FakeAudioParam(440);
+    readonly detune = new FakeAudioParam(0);
+    onended: ((event: Event) => unknown) | null = null;
+    startTime: number | null = null;
+    stopTime: number | null = null;
+    /** True once the context clock has passed stopTime and onended fired */
+    ended = false;
+
+    constructor(private readonly context: FakeAudioContext) {
+        super();
+    }
+
+    start(when: number = this.context.currentTime): void {
+        this.startTime = when;
+    }
+
+    stop(when: number = this.context.currentTime): void {
+        this.stopTime = when;
+    }
+}
+
+// =============================================================================
+// CONTEXT
+// =============================================================================
+
+export class FakeAudioContext implements AudioContextLike {
+    currentTime = 0;
+    state: 'suspended' | 'running' | 'closed';
+    readonly destination = new FakeAudioNode();
+    /** Every oscillator created, in creation order */
+    readonly oscillators: FakeOscillatorNode[] = [];
+    /** Every gain node created, in creation order */
+    readonly gains: FakeGainNode[] = [];
+
+    constructor({ suspended = false }: { suspended?: boolean } = {}) {
+        this.state = suspended ? 'suspended' : 'running';
+    }
+
+    resume(): Promise<void> {
+        this.state = 'running';
+        return Promise.resolve();
+    }
+
+    close(): Promise<void> {
+        this.state = 'closed';
+        return Promise.resolve();
+    }
+
+    createGain(): FakeGainNode {
+        const node = new FakeGainNode();
+        this.gains.push(node);
+        return node;
+    }
+
+    createOscillator(): FakeOscillatorNode {
+        const node = new FakeOscillatorNode(this);
+        this.oscillators.push(node);
+        return node;
+    }
+
+    /** Move the clock forward, firing onended for oscillators that stopped */
+    advance(seconds: number): void {
+        this.currentTime += seconds;
+        this.oscillators.forEach((osc) => {
+            if (osc.ended || osc.stopTime === null || osc.stopTime > this.currentTime) return;
+            osc.ended = true;
+            osc.onended?.(new Event('ended'));
+        });
+    }
+
+    /** Oscillators started and not yet ended */
+    sounding(): FakeOscillatorNode[] {
+        return this.oscillators.filter((osc) => osc.startTime !== null && !osc.ended);
+    }
+}
@@ -0,0 +1,172 @@
+/**
+ * In-memory Web MIDI implementation
+ *
+ * A MIDIAccess that tests (or a demo page) can drive directly: inputs emit
+ * scripted messages, outputs record what was sent, and devices can be
+ * hot-plugged and unplugged to exercise connection handling.
+ */
+
+import type {
+    MIDIAccess,
+    MIDIConnectionEvent,
+    MIDIInput,
+    MIDIMessageEvent,
+    MIDIOutput,
+    MIDIPortConnectionState,
+    MIDIPortDeviceState,
+} from '../types';
+
+// =============================================================================
+// PORTS
+// =============================================================================
+
+export interface FakePortOptions {
+    id: string;
+    name?: string;
+    manufacturer?: string;
+}
+
+/** One step of a scripted performance */
+export interface FakeMIDIScriptStep {
+    /** performance.now()-style timestamp for the message */
+    time: number;
+    data: number[];
+}
+
+export class FakeMIDIInput implements MIDIInput {
+    readonly type = 'input' as const;
+    readonly id: string;
+    readonly name: string | null;
+    readonly manufacturer: string | null;
+    state: MIDIPortDeviceState = 'connected';
+    connection: MIDIPortConnectionState = 'open';
+    onmidimessage: ((event: MIDIMessageEvent) => void) | null = null;
+
+    constructor({ id, name, manufacturer }: FakePortOptions) {
+        this.id = id;
+        this.name = name ?? id;
+        this.manufacturer = manufacturer ?? null;
+    }
+
+    /** Deliver raw bytes as if the device sent them (ignored while unplugged) */
+    emit(data: number[], time: number = performance.now()): void {
+        if (this.state !== 'connected') return;
+        this.onmidimessage?.({ data: new Uint8Array(data), timeStamp: time });
+    }
+
+    noteOn(note: number, velocity: number = 100, channel: number = 1, time?: number): void {
+        this.emit([0x90 | (channel - 1), note, velocity], time);
+    }
+
+    noteOff(note: number, velocity: number = 0, channel: number = 1, time?: number): void {
+        this.emit([0x80 | (channel - 1), note, velocity], time);
+    }
+
+    controlChange(controller: number, value: number, channel: number = 1, time?: number): void {
+        this.emit([0xb0 | (channel - 1), controller, value], time);
+    }
+
+    /** Signed bend, -8192 to 8191 */
+    pitchBend(value: number, channel: number = 1, time?: number): void {
+        const raw = Math.max(0, Math.min(16383, value + 8192));
+        this.emit([0xe0 | (channel - 1), raw & 0x7f, raw >> 7], time);
+    }
+
+    /** Emit every step in order */
+    playScript(script: FakeMIDIScriptStep[]): void {
+        script.forEach((step) => this.emit(step.data, step.time));
+    }
+}
+
+export class FakeMIDIOutput implements MIDIOutput {
+    readonly type = 'output' as const;
+    readonly id: string;
+    readonly name: string | null;
+    readonly manufacturer: string | null;
+    state: MIDIPortDeviceState = 'connected';
+    connection: MIDIPortConnectionState = 'open';
+
+    /** Everything sent to this port, in order */
+    readonly sent: { data: number[]; timestamp?: number }[] = [];
+
+    constructor({ id, name, manufacturer }: FakePortOptions) {
+        this.id = id;
+        this.name = name ?? id;
+        this.manufacturer = manufacturer ?? null;
+    }
+
+    send = (data: number[] | Uint8Array, timestamp?: number): void => {
+        if (this.state !== 'connected') {
+            throw new Error(`Output ${this.id} is disconnected`);
+        }
+        this.sent.push({ data: Array.from(data), timestamp });
+    };
+
+    clearSent(): void {
+        this.sent.length = 0;
+    }
+}
+
+// =============================================================================
+// ACCESS
+// =============================================================================
+
+export class FakeMIDIAccess implements MIDIAccess {
+    readonly inputs = new Map<string, FakeMIDIInput>();
+    readonly outputs = new Map<string, FakeMIDIOutput>();
+    readonly sysexEnabled = false;
+    onstatechange: ((event: MIDIConnectionEvent) => void) | null = null;
+
+    constructor(options: { inputs?: FakePortOptions[]; outputs?: FakePortOptions[] } = {}) {
+        options.inputs?.forEach((port) => this.inputs.set(port.id, new FakeMIDIInput(port)));
+        options.outputs?.forEach((port) => this.outputs.set(port.id, new FakeMIDIOutput(port)));
+    }
+
+    /** Look up an input, failing loudly in tests if it doesn't exist */
+    input(id: string): FakeMIDIInput {
+        const port = this.inputs.get(id);
+        if (!port) throw new Error(`No fake input with id ${id}`);
+        return port;
+    }
+
+    /** Look up an output, failing loudly in tests if it doesn't exist */
+    output(id: string): FakeMIDIOutput {
+        const port = this.outputs.get(id);
+        if (!port) throw new Error(`No fake output with id ${id}`);
+        return port;
+    }
+
+    /** Hot-plug a new input and fire statechange */
+    addInput(options: FakePortOptions): FakeMIDIInput {
+        const port = new FakeMIDIInput(options);
+        this.inputs.set(port.id, port);
+        this.onstatechange?.({ port });
+        return port;
+    }
+
+    /** Hot-plug a new output and fire statechange */
+    addOutput(options: FakePortOptions): FakeMIDIOutput {
+        const port = new FakeMIDIOutput(options);
+        this.outputs.set(port.id, port);
+        this.onstatechange?.({ port });
+        return port;
+    }
+
+    /** Disconnect a device; it stays in the maps with state 'disconnected', like browsers do */
+    unplug(id: string): void {
+        const port = this.inputs.get(id) ?? this.outputs.get(id);
+        if (!port || port.state === 'disconnected') return;
+        port.state = 'disconnected';
+        port.connection = 'closed';
+        this.onstatechange?.({ port });
+    }
+
+    /** Reconnect a previously unplugged device */
+    replug(id: string): void {
+        const port = this.inputs.get(id) ?? this.outputs.get(id);
+        if (!port || port.state === 'connected') return;
+        port.state = 'connected';
+        port.connection = 'open';
+        this.onstatechange?.({ port });
+    }
+}
@@ -0,0 +1,83 @@
+/**
+ * Tests for dividing cards between the treble and bass staves.
+ */
+
+import { describe, it, expect } from 'vitest';
+import { ledgerLines, shiftHandSplit, splitCards, splitHands } from './handSplit';
+
+describe('ledgerLines', () => {
+    it('counts lines beyond the staff on either side', () => {
+        expect(ledgerLines([60], 'treble')).toBe(1);
+        expect(ledgerLines([57], 'treble')).toBe(2);
+        expect(ledgerLines([64, 77], 'treble')).toBe(0);
+        expect(ledgerLines([81], 'treble')).toBe(1);
+        expect(ledgerLines([60], 'bass')).toBe(1);
+        expect(ledgerLines([40], 'bass')).toBe(1);
+        expect(ledgerLines([], 'bass')).toBe(0);
+    });
+});
+
+describe('splitHands', () => {
+    it('splits an open voicing at the split point', () => {
+        expect(splitHands([48, 52, 55, 60, 64, 67])).toEqual({ treble: [60, 64, 67], bass: [48, 52, 55] });
+    });
+
+    it('keeps a close voicing above middle C in one hand', () => {
+        expect(splitHands([62, 65, 69, 72])).toEqual({ treble: [62, 65, 69, 72], bass: [] });
+    });
+
+    it('hands notes past the left hand\'s reach to the right', () => {
+        // E2 to B3 is too wide for one hand, so the top of the chord moves up
+        expect(splitHands([40, 47, 52, 56, 59])).toEqual({ treble: [56, 59], bass: [40, 47, 52] });
+    });
+
+    it('follows the split point', () => {
+        expect(splitHands([48, 55, 59, 64], { splitPoint: 60 }).bass).toEqual([48, 55, 59]);
+        expect(splitHands([48, 55, 59, 64], { splitPoint: 57 }).bass).toEqual([48, 55]);
+        expect(splitHands([48, 55, 59, 64], { splitPoint: 50 }).bass).toEqual([48]);
+    });
+
+    it('keeps voices on the staff they were on', () => {
+        const chord = [57, 60, 64];
+
+        expect(splitHands(chord).bass).toEqual([57]);
+        // The left hand was playing around middle C, so C stays with it
+        expect(splitHands(chord, { previous: { treble: [], bass: [48, 55, 59] } })).toEqual({
+            treble: [64],
+            bass: [57, 60],
+        });
+    });
+
+    it('takes a manual split as given', () => {
+        expect(splitHands([48, 52, 55, 60], { override: 53 })).toEqual({ treble: [55, 60], bass: [48, 52] });
+        expect(splitHands([48, 52], { override: 40 })).toEqual({ treble: [48, 52], bass: [] });
+    });
+});
+
+describe('splitCards', () => {
+    it('splits each card against the last one with notes', () => {
+        const cards = [
+            { notes: [48, 55, 59] },
+            { notes: [] },
+            { notes: [57, 60, 64] },
+            { notes: [57, 60, 64], handSplit: 58 },
+        ];
+
+        expect(splitCards(cards)).toEqual([
+            { treble: [], bass: [48, 55, 59] },
+            { treble: [], bass: [] },
+            { treble: [64], bass: [57, 60] },
+            { treble: [60, 64], bass: [57] },
+        ]);
+    });
+});
+
+describe('shiftHandSplit', () => {
+    it('moves the boundary one note either way', () => {
+        const split = { treble: [64], bass: [57, 60] };
+
+        expect(shiftHandSplit(split, -1)).toBe(60);
+        expect(shiftHandSplit(split, 1)).toBe(65);
+        expect(shiftHandSplit({ treble: [60, 64], bass: [] }, -1)).toBe(60);
+    });
+});
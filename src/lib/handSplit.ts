@@ -0,0 +1,162 @@
+/**
+ * Hand split
+ *
+ * Decides which notes of each card go on the treble staff and which on
+ * the bass. Rather than cutting at a fixed note, every split of the
+ * sorted notes is scored on ledger lines, hand span, distance from the
+ * preferred split point and voice continuity with the previous card, and
+ * the cheapest wins. A card's manual split overrides all of that.
+ */
+
+import type { Card } from '../types';
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+/** A card's notes by staff, each low to high */
+export interface HandSplit {
+    treble: number[];
+    bass: number[];
+}
+
+export interface HandSplitOptions {
+    /** MIDI note the split leans toward: notes below it prefer the bass */
+    splitPoint?: number;
+    /** The previous card's split, to keep voices on their staff */
+    previous?: HandSplit;
+    /** Manual split: notes below this MIDI note go to the bass, no questions asked */
+    override?: number;
+}
+
+/** Middle C */
+export const DEFAULT_SPLIT_POINT = 60;
+
+// =============================================================================
+// COSTS
+// =============================================================================
+
+/** Per ledger line the furthest note of a hand needs, above or below its staff */
+const LEDGER_COST = 2;
+/** Widest a hand comfortably reaches, in semitones (a major ninth) */
+const MAX_SPAN = 14;
+/** Per semitone beyond that */
+const SPAN_COST = 4;
+/** Most notes one hand plays */
+const MAX_NOTES_PER_HAND = 5;
+/** Per note beyond that */
+const CROWDING_COST = 10;
+/** Per semitone a note sits on the far side of the split point */
+const SPLIT_POINT_COST = 1;
+/** Per note that leaves the staff its nearest neighbour in the previous card was on */
+const CONTINUITY_COST = 1.5;
+/** Nearest neighbour that counts as the same voice, in semitones */
+const CONTINUITY_RANGE = 4;
+
+/** Staff positions (diatonic steps from C-1) of each staff's outer lines */
+const STAFF_LINES = {
+    treble: { bottom: 30, top: 38 }, // E4, F5
+    bass: { bottom: 18, top: 26 }, // G2, A3
+};
+
+/** Letter index of each pitch class as written with sharps */
+const SHARP_STEPS = [0, 0, 1, 1, 2, 3, 3, 4, 4, 5, 5, 6];
+
+/** Diatonic staff position of a MIDI note, assuming sharps */
+export const staffStep = (midi: number): number => (Math.floor(midi / 12) - 1) * 7 + SHARP_STEPS[midi % 12];
+
+/** Ledger lines a chord needs on a staff: the furthest note above plus the furthest below */
+export const ledgerLines = (notes: number[], staff: keyof typeof STAFF_LINES): number => {
+    if (notes.length === 0) return 0;
+    const { bottom, top } = STAFF_LINES[staff];
+    const steps = notes.map(staffStep);
+    const below = Math.max(0, Math.floor((bottom - Math.min(...steps)) / 2));
+    const above = Math.max(0, Math.floor((Math.max(...steps) - top) / 2));
+    return below + above;
+};
+
+const handCost = (notes: number[], staff: keyof typeof STAFF_LINES): number => {
+    if (notes.length === 0) return 0;
+    const span = notes[notes.length - 1] - notes[0];
+    return LEDGER_COST * ledgerLines(notes, staff)
+        + SPAN_COST * Math.max(0, span - MAX_SPAN)
+        + CROWDING_COST * Math.max(0, notes.length - MAX_NOTES_PER_HAND);
+};
+
+/** Notes that change staff from their nearest neighbour in the previous card */
+const continuityBreaks = (split: HandSplit, previous: HandSplit): number => {
+    const before = [
+        ...previous.treble.map((midi) => ({ midi, treble: true })),
+        ...previous.bass.map((midi) => ({ midi, treble: false })),
+    ];
+    if (before.length === 0) return 0;
+
+    const count = (notes: number[], treble: boolean) => notes.filter((midi) => {
+        const nearest = before.reduce((a, b) => (Math.abs(b.midi - midi) < Math.abs(a.midi - midi) ? b : a));
+        return Math.abs(nearest.midi - midi) <= CONTINUITY_RANGE && nearest.treble !== treble;
+    }).length;
+    return count(split.treble, true) + count(split.bass, false);
+};
+
+// =============================================================================
+// SPLITTING
+// =============================================================================
+
+/** Divide a chord between the staves */
+export const splitHands = (notes: number[], options: HandSplitOptions = {}): HandSplit => {
+    const { splitPoint = DEFAULT_SPLIT_POINT, previous, override } = options;
+    const sorted = [...notes].sort((a, b) => a - b);
+
+    if (override !== undefined) {
+        return { treble: sorted.filter((n) => n >= override), bass: sorted.filter((n) => n < override) };
+    }
+
+    // The fixed cut, which wins ties
+    const fixedSplit = sorted.filter((n) => n < splitPoint).length;
+
+    let best: HandSplit = { treble: sorted, bass: [] };
+    let bestCost = Infinity;
+    let bestDistance = Infinity;
+
+    // The bass takes the lowest k notes
+    for (let k = 0; k <= sorted.length; k++) {
+        const split = { treble: sorted.slice(k), bass: sorted.slice(0, k) };
+        const pastSplitPoint = split.treble.reduce((sum, n) => sum + Math.max(0, splitPoint - n), 0)
+            + split.bass.reduce((sum, n) => sum + Math.max(0, n - splitPoint + 1), 0);
+        const cost = handCost(split.treble, 'treble')
+            + handCost(split.bass, 'bass')
+            + SPLIT_POINT_COST * pastSplitPoint
+            + (previous ? CONTINUITY_COST * continuityBreaks(split, previous) : 0);
+
+        const distance = Math.abs(k - fixedSplit);
+        if (cost < bestCost || (cost === bestCost && distance < bestDistance)) {
+            best = split;
+            bestCost = cost;
+            bestDistance = distance;
+        }
+    }
+    return best;
+};
+
+/** Split every card in order, each against the one before; rests split to nothing */
+export const splitCards = (
+    cards: Pick<Card, 'notes' | 'handSplit'>[],
+    splitPoint: number = DEFAULT_SPLIT_POINT
+): HandSplit[] => {
+    let previous: HandSplit | undefined;
+    return cards.map((card) => {
+        const split = splitHands(card.notes, { splitPoint, previous, override: card.handSplit });
+        if (card.notes.length > 0) previous = split;
+        return split;
+    });
+};
+
+/**
+ * The manual split that moves the boundary of a card's `split` one note:
+ * down hands the bass's top note to the treble, up the reverse.
+ */
+export const shiftHandSplit = (split: HandSplit, direction: 1 | -1): number => {
+    const sorted = [...split.bass, ...split.treble];
+    const count = Math.max(0, Math.min(sorted.length, split.bass.length + direction));
+    return count < sorted.length ? sorted[count] : sorted[sorted.length - 1] + 1;
+};
@@ -0,0 +1,71 @@
+/**
+ * Tests for chord symbol typesetting parts and roman numeral analysis.
+ */
+
+import { describe, it, expect } from 'vitest';
+import { chordSymbolParts, romanNumeral } from './harmony';
+import { analyzeChord } from './chordAnalysis';
+import { chordDisplay } from './spelling';
+
+const numeral = (notes: number[], key: string, display?: string) => romanNumeral(analyzeChord(notes)!, key, display);
+
+describe('chordSymbolParts', () => {
+    it('raises extensions and alterations', () => {
+        expect(chordSymbolParts('G7')).toEqual({ root: 'G', quality: '', extensions: '7' });
+        expect(chordSymbolParts('Bm7b5')).toEqual({ root: 'B', quality: 'm', extensions: '7b5' });
+        expect(chordSymbolParts('EbMaj9#11')).toEqual({ root: 'Eb', quality: 'Maj', extensions: '9#11' });
+        expect(chordSymbolParts('Csus4')).toEqual({ root: 'C', quality: 'sus4', extensions: '' });
+        expect(chordSymbolParts('F#min6/9')).toEqual({ root: 'F#', quality: 'min', extensions: '6/9' });
+    });
+
+    it('separates a slash bass and drops the rootless note', () => {
+        expect(chordSymbolParts('G7/B')).toEqual({ root: 'G', quality: '', extensions: '7', bass: 'B' });
+        expect(chordSymbolParts('Dbm(add 3)/Fb')).toEqual({ root: 'Db', quality: 'm', extensions: '(add 3)', bass: 'Fb' });
+        expect(chordSymbolParts('A9 (rootless)')).toEqual({ root: 'A', quality: '', extensions: '9' });
+    });
+});
+
+describe('romanNumeral', () => {
+    it('reads diatonic chords with their function', () => {
+        expect(numeral([55, 59, 62, 65], 'C')).toEqual({ numeral: 'V7', function: 'D' });
+        expect(numeral([50, 53, 57, 60], 'C')).toEqual({ numeral: 'ii7', function: 'S' });
+        expect(numeral([47, 50, 53, 57], 'C')).toEqual({ numeral: 'viiø7', function: 'D' });
+        expect(numeral([48, 52, 55, 59], 'C')).toEqual({ numeral: 'IM7', function: 'T' });
+    });
+
+    it('reads relative to the sequence key', () => {
+        expect(numeral([46, 50, 53, 56], 'Eb')).toEqual({ numeral: 'V7', function: 'D' });
+        expect(numeral([48, 51, 55], 'Eb')).toEqual({ numeral: 'vi', function: 'T' });
+    });
+
+    it('spells the root as the key does', () => {
+        // D#7 in E major, not Eb7; Gb7 in Db major, not F#7
+        expect(numeral([63, 67, 70, 73], 'E')).toEqual({ numeral: 'V7/iii', function: 'D' });
+        expect(numeral([54, 58, 61, 64], 'Db')).toEqual({ numeral: 'IV7', function: 'S' });
+
+        // and agrees with the display the staff labels it with
+        const notes = [63, 67, 70, 73];
+        const analysis = analyzeChord(notes)!;
+        expect(romanNumeral(analysis, 'E', chordDisplay(notes, analysis, undefined, 'E'))?.numeral).toBe('V7/iii');
+    });
+
+    it('writes inversions as figures', () => {
+        expect(numeral([52, 55, 60], 'C')?.numeral).toBe('I6');
+        expect(numeral([55, 60, 64], 'C')?.numeral).toBe('I64');
+        expect(numeral([47, 53, 55, 62], 'C')?.numeral).toBe('V65');
+    });
+
+    it('reads secondary dominants', () => {
+        expect(numeral([45, 49, 52, 55], 'C')).toEqual({ numeral: 'V7/ii', function: 'D' });
+        expect(numeral([52, 56, 59, 62], 'C')).toEqual({ numeral: 'V7/vi', function: 'D' });
+        expect(numeral([48, 52, 55, 58], 'C')?.numeral).toBe('V7/IV');
+        expect(numeral([50, 54, 57], 'C')?.numeral).toBe('V/V');
+    });
+
+    it('marks chromatic roots by their spelling', () => {
+        expect(numeral([46, 50, 53], 'C')).toEqual({ numeral: 'bVII', function: 'S' });
+        expect(numeral([56, 60, 63], 'C')).toEqual({ numeral: 'bVI', function: 'S' });
+        // The same chord respelled as G# major
+        expect(numeral([56, 60, 63], 'C', 'G#')).toEqual({ numeral: '#V', function: null });
+    });
+});
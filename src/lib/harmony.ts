@@ -0,0 +1,147 @@
+/**
+ * Harmony labels
+ *
+ * Breaks a chord's display name into the parts a chord symbol typesets
+ * differently (extensions raised, slash bass), and reads a chord as a
+ * roman numeral with its harmonic function in the sequence's key.
+ */
+
+import type { ChordAnalysis } from '../types';
+import { keyTonic, parseName, pitchClassOf, rootNameInKey } from './spelling';
+
+// =============================================================================
+// CHORD SYMBOLS
+// =============================================================================
+
+export interface ChordSymbolParts {
+    root: string;
+    /** Written at full size after the root: m, dim, aug, Maj, sus4... */
+    quality: string;
+    /** Written raised: 7, 9, b9#11, (add b3) */
+    extensions: string;
+    /** Bass note of a slash chord */
+    bass?: string;
+}
+
+const NOTE_NAME = /^[A-G](?:##|bb|#|b)?/;
+const SLASH_BASS = /\/([A-G](?:##|bb|#|b)?)$/;
+const FULL_SIZE_QUALITY = /^(?:minMaj|Maj|min|dim|aug|sus[24]|quartal\d?|m(?!aj))?/;
+
+/** Split a display name such as "Ebm7b5/A" into symbol parts; "(rootless)" is dropped */
+export const chordSymbolParts = (display: string): ChordSymbolParts => {
+    let rest = display.replace(/\s*\(rootless\)/, '');
+    const root = NOTE_NAME.exec(rest)?.[0] ?? '';
+    rest = rest.slice(root.length);
+
+    const slash = SLASH_BASS.exec(rest);
+    if (slash) rest = rest.slice(0, slash.index);
+
+    const quality = FULL_SIZE_QUALITY.exec(rest)?.[0] ?? '';
+    return {
+        root,
+        quality,
+        extensions: rest.slice(quality.length),
+        ...(slash && { bass: slash[1] }),
+    };
+};
+
+// =============================================================================
+// ROMAN NUMERALS
+// =============================================================================
+
+/** Tonic, subdominant or dominant */
+export type HarmonicFunction = 'T' | 'S' | 'D';
+
+export interface RomanNumeral {
+    /** e.g. "V7", "ii65", "viiø7", "bVII", "V7/ii" */
+    numeral: string;
+    function: HarmonicFunction | null;
+}
+
+const LETTERS = 'CDEFGAB';
+/** Semitones above the tonic of each major-scale degree (also each letter's pitch class) */
+const MAJOR_SCALE = [0, 2, 4, 5, 7, 9, 11];
+const DEGREES = ['I', 'II', 'III', 'IV', 'V', 'VI', 'VII'];
+
+/** Diatonic triads of the major key: minor on ii, iii and vi, diminished on vii */
+const MINOR_DEGREES = new Set([1, 2, 5]);
+
+/** Function of each diatonic degree */
+const DEGREE_FUNCTIONS: HarmonicFunction[] = ['T', 'S', 'T', 'S', 'D', 'T', 'D'];
+
+/** Function of the common flattened degrees borrowed from the minor: bII, bIII, bVI, bVII */
+const FLAT_DEGREE_FUNCTIONS: Record<number, HarmonicFunction> = { 1: 'S', 2: 'T', 5: 'S', 6: 'S' };
+
+/** Figure for a chord's type: "", "7", "M7", "°", "°7", "ø7" or "+" */
+const chordFigure = (intervals: number[]): { figure: string; minor: boolean; dominant: boolean } => {
+    const has = (i: number) => intervals.includes(i);
+    const minor = has(3) && !has(4);
+
+    if (minor && has(6) && !has(7)) {
+        if (has(10)) return { figure: 'ø7', minor, dominant: false };
+        return { figure: has(9) ? '°7' : '°', minor, dominant: false };
+    }
+    if (has(4) && has(8) && !has(7)) return { figure: has(10) ? '+7' : '+', minor, dominant: false };
+    if (has(11)) return { figure: 'M7', minor, dominant: false };
+    if (has(10)) return { figure: '7', minor, dominant: has(4) };
+    return { figure: '', minor, dominant: has(4) && has(7) };
+};
+
+/** Inversion figures: a seventh chord's replace its "7", a triad's are appended */
+const invert = (figure: string, bassInterval: number): string => {
+    // 1: third in the bass, 2: fifth, 3: seventh
+    const position = [0, 0, 0, 1, 1, 0, 2, 2, 2, 3, 3, 3][bassInterval];
+    if (figure.endsWith('7')) {
+        if (position === 0) return figure;
+        return figure.slice(0, -1) + ['', '65', '43', '42'][position];
+    }
+    return position === 1 ? `${figure}6` : position === 2 ? `${figure}64` : figure;
+};
+
+/**
+ * Read a chord as a roman numeral in a major key. The root's spelling sets
+ * the degree (G# is #V in C, Ab is bVI), so pass the display name after any
+ * enharmonic overrides; without one the root is spelled as the key spells
+ * it (D#, not Eb, in E major). Dominant chords that resolve to a diatonic chord
+ * other than I are read as secondary dominants (V7/ii).
+ */
+export const romanNumeral = (
+    analysis: ChordAnalysis,
+    keySignature: string,
+    display?: string
+): RomanNumeral | null => {
+    const parts = chordSymbolParts(display ?? analysis.display);
+    const root = parseName(display === undefined ? rootNameInKey(analysis, keySignature) : parts.root);
+    const tonicName = keyTonic(keySignature);
+    const tonic = parseName(tonicName);
+    if (!root || !tonic) return null;
+
+    const degree = (LETTERS.indexOf(root.letter) - LETTERS.indexOf(tonic.letter) + 7) % 7;
+    const tonicPitchClass = pitchClassOf(tonicName)!;
+    const semitones = (analysis.detectedRootPitchClass - tonicPitchClass + 12) % 12;
+    const alteration = ((semitones - MAJOR_SCALE[degree]) % 12 + 18) % 12 - 6;
+
+    const { figure, minor, dominant } = chordFigure(analysis.intervals);
+    const bassPitchClass = parts.bass ? pitchClassOf(parts.bass) : null;
+    const inverted = bassPitchClass === null
+        ? figure
+        : invert(figure, (bassPitchClass - analysis.detectedRootPitchClass + 12) % 12);
+
+    // Secondary dominant: a major or dominant-seventh chord on a diatonic
+    // degree where the key has none, a fifth above its target
+    const target = (degree + 3) % 7;
+    const isDiatonicChord = figure === '7' ? degree === 4 : !MINOR_DEGREES.has(degree) && degree !== 6;
+    if (alteration === 0 && dominant && !isDiatonicChord && target >= 1 && target <= 5) {
+        const targetNumeral = MINOR_DEGREES.has(target) ? DEGREES[target].toLowerCase() : DEGREES[target];
+        return { numeral: `V${inverted}/${targetNumeral}`, function: 'D' };
+    }
+
+    const accidental = alteration > 0 ? '#'.repeat(alteration) : 'b'.repeat(-alteration);
+    const numeral = minor ? DEGREES[degree].toLowerCase() : DEGREES[degree];
+    return {
+        numeral: `${accidental}${numeral}${inverted}`,
+        function: alteration === 0
+            ? DEGREE_FUNCTIONS[degree]
+            : alteration === -1 ? FLAT_DEGREE_FUNCTIONS[degree] ?? null : null,
+    };
+};
@@ -0,0 +1,138 @@
+/**
+ * Tests for metronome accent patterns, subdivisions and the standalone clock.
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import {
+    accentPattern,
+    beatGrouping,
+    clicksForBeat,
+    CLICK_NOTES,
+    createMetronome,
+    DEFAULT_METRONOME_SETTINGS,
+    formatGrouping,
+} from './metronome';
+import type { NoteOutput } from './noteOutput';
+import type { BeatEvent } from './transport';
+
+const beatEvent = (beat: number, overrides: Partial<BeatEvent> = {}): BeatEvent => ({
+    time: 1000,
+    beat,
+    durationMs: 600,
+    isDownbeat: beat === 0,
+    isCountIn: false,
+    ...overrides,
+});
+
+describe('accent patterns', () => {
+    it('counts every beat in simple meters', () => {
+        expect(beatGrouping([4, 4])).toEqual([1, 1, 1, 1]);
+        expect(beatGrouping([3, 8])).toEqual([1, 1, 1]);
+        expect(accentPattern([3, 4])).toEqual(['downbeat', 'beat', 'beat']);
+        expect(formatGrouping([4, 4])).toBe('');
+    });
+
+    it('groups compound meters in threes', () => {
+        expect(beatGrouping([6, 8])).toEqual([3, 3]);
+        expect(beatGrouping([12, 8])).toEqual([3, 3, 3, 3]);
+        expect(accentPattern([6, 8])).toEqual(['downbeat', 'subdivision', 'subdivision', 'beat', 'subdivision', 'subdivision']);
+    });
+
+    it('groups odd eighth meters as twos closed by a three', () => {
+        expect(beatGrouping([7, 8])).toEqual([2, 2, 3]);
+        expect(beatGrouping([5, 8])).toEqual([2, 3]);
+        expect(formatGrouping([7, 8])).toBe('2+2+3');
+        expect(accentPattern([7, 8])).toEqual([
+            'downbeat', 'subdivision', 'beat', 'subdivision', 'beat', 'subdivision', 'subdivision',
+        ]);
+    });
+});
+
+describe('clicksForBeat', () => {
+    it('splits simple-meter beats evenly by the subdivision', () => {
+        const clicks = clicksForBeat(beatEvent(0), accentPattern([4, 4]), 3);
+
+        expect(clicks.map((c) => [c.time, c.level])).toEqual([
+            [1000, 'downbeat'],
+            [1200, 'subdivision'],
+            [1400, 'subdivision'],
+        ]);
+    });
+
+    it('clicks the beat units inside a group only when subdividing', () => {
+        const pattern = accentPattern([6, 8]);
+
+        expect(clicksForBeat(beatEvent(1), pattern, 1)).toEqual([]);
+        expect(clicksForBeat(beatEvent(1), pattern, 2).map((c) => c.level)).toEqual(['subdivision']);
+        // A group start is a single click: its beat units are the subdivision
+        expect(clicksForBeat(beatEvent(3), pattern, 2).map((c) => c.level)).toEqual(['beat']);
+    });
+});
+
+describe('createMetronome', () => {
+    beforeEach(() => {
+        vi.useFakeTimers();
+        vi.setSystemTime(0);
+    });
+
+    afterEach(() => {
+        vi.useRealTimers();
+    });
+
+    const setup = () => {
+        const log: string[] = [];
+        const output: NoteOutput = {
+            noteOn: (note, velocity, time) => log.push(`on ${note} v${velocity} @${time ?? 'now'}`),
+            noteOff: () => {},
+            allNotesOff: () => log.push('panic'),
+        };
+        const metronome = createMetronome({ getOutput: () => output, now: () => Date.now() });
+        metronome.setSettings({ ...DEFAULT_METRONOME_SETTINGS, enabled: true, volume: 1 });
+        return { log, metronome };
+    };
+
+    it('runs its own clock with the downbeat accented', () => {
+        const { log, metronome } = setup();
+        metronome.setMeter(120, [3, 4]);
+
+        metronome.start();
+        vi.advanceTimersByTime(1500);
+        metronome.stop();
+
+        expect(log).toEqual([
+            `on ${CLICK_NOTES.downbeat} v120 @now`,
+            `on ${CLICK_NOTES.beat} v90 @500`,
+            `on ${CLICK_NOTES.beat} v90 @1000`,
+            `on ${CLICK_NOTES.downbeat} v120 @1500`,
+        ]);
+        expect(metronome.isRunning()).toBe(false);
+    });
+
+    it('paces 6/8 by eighths and follows tempo changes', () => {
+        const { log, metronome } = setup();
+        metronome.setMeter(60, [6, 8]);
+        metronome.setSettings({ ...DEFAULT_METRONOME_SETTINGS, enabled: true, volume: 1, subdivision: 2 });
+
+        metronome.start();
+        vi.advanceTimersByTime(1000);
+        // Eighths are 500 ms at 60 quarter notes per minute, then 250 ms at
+        // 120 from the first beat not yet under way
+        metronome.setMeter(120, [6, 8]);
+        vi.advanceTimersByTime(1000);
+        metronome.stop();
+
+        expect(log.map((line) => line.split('@')[1])).toEqual(['now', '500', '1000', '1500', '1750', '2000']);
+        expect(log[3]).toBe(`on ${CLICK_NOTES.beat} v90 @1500`);
+    });
+
+    it('stays silent when off but still clicks count-ins', () => {
+        const { log, metronome } = setup();
+        metronome.setSettings({ ...DEFAULT_METRONOME_SETTINGS, enabled: false, volume: 1, subdivision: 4 });
+
+        metronome.beat(beatEvent(0));
+        expect(log).toEqual([]);
+
+        metronome.beat(beatEvent(0, { isCountIn: true }));
+        expect(log).toEqual([`on ${CLICK_NOTES.downbeat} v120 @1000`]);
+    });
+});
@@ -0,0 +1,230 @@
+/**
+ * Metronome
+ *
+ * Click patterns derived from the time signature, and a lookahead clock for
+ * clicking without the transport (Free Play). During playback the
+ * transport's beats are fed through the same `beat()`, so the click stays
+ * locked to the music across seeks, loops and tempo ramps.
+ *
+ * Clicks are notes on a NoteOutput: General MIDI wood blocks on the
+ * percussion channel, or the built-in synth's click voice.
+ */
+
+import { ticksPerBeat, ticksToMs } from './timeline';
+import { LOOKAHEAD_MS, SCHEDULER_INTERVAL_MS } from './transport';
+import type { BeatEvent } from './transport';
+import type { NoteOutput } from './noteOutput';
+import type { TimeSignature } from '../types';
+
+// =============================================================================
+// PATTERNS
+// =============================================================================
+
+/** How strongly a click sounds */
+export type ClickLevel = 'downbeat' | 'beat' | 'subdivision';
+
+/**
+ * Beat units per felt beat. Compound meters group in threes (6/8 is two
+ * dotted quarters); odd eighth meters group in twos with a closing three
+ * (7/8 is 2+2+3). Everything else counts every beat unit.
+ */
+export const beatGrouping = ([beats, beatUnit]: TimeSignature): number[] => {
+    if (beatUnit >= 8 && beats > 3) {
+        if (beats % 3 === 0) return Array(beats / 3).fill(3);
+        if (beats % 2 === 1) return [...Array((beats - 3) / 2).fill(2), 3];
+    }
+    return Array(beats).fill(1);
+};
+
+/** Click level for each beat unit of a measure */
+export const accentPattern = (timeSignature: TimeSignature): ClickLevel[] => {
+    const levels: ClickLevel[] = [];
+    beatGrouping(timeSignature).forEach((size) => {
+        for (let i = 0; i < size; i++) {
+            levels.push(i > 0 ? 'subdivision' : levels.length === 0 ? 'downbeat' : 'beat');
+        }
+    });
+    return levels;
+};
+
+/** Grouping as musicians write it, e.g. "2+2+3" (empty for simple meters) */
+export const formatGrouping = (timeSignature: TimeSignature): string => {
+    const groups = beatGrouping(timeSignature);
+    return groups.some((size) => size > 1) ? groups.join('+') : '';
+};
+
+export interface Click {
+    time: number;
+    level: ClickLevel;
+    /** Beat within the measure the click belongs to */
+    beat: number;
+}
+
+/**
+ * Clicks for one beat. `subdivision` splits each beat into that many
+ * clicks; in grouped meters the beat units already subdivide the felt
+ * beat, so they are clicked instead.
+ */
+export const clicksForBeat = (event: BeatEvent, pattern: ClickLevel[], subdivision: number): Click[] => {
+    const level = pattern[event.beat] ?? 'beat';
+    if (level === 'subdivision') {
+        return subdivision > 1 ? [{ time: event.time, level, beat: event.beat }] : [];
+    }
+
+    const clicks: Click[] = [{ time: event.time, level, beat: event.beat }];
+    const isGrouped = pattern.indexOf('subdivision') !== -1;
+    if (!isGrouped) {
+        for (let i = 1; i < subdivision; i++) {
+            clicks.push({ time: event.time + (i * event.durationMs) / subdivision, level: 'subdivision', beat: event.beat });
+        }
+    }
+    return clicks;
+};
+
+// =============================================================================
+// SOUND
+// =============================================================================
+
+/** General MIDI channel for percussion */
+export const METRONOME_MIDI_CHANNEL = 10;
+
+/** GM Hi Wood Block on the downbeat, Low Wood Block otherwise */
+export const CLICK_NOTES: Record<ClickLevel, number> = {
+    downbeat: 76,
+    beat: 77,
+    subdivision: 77,
+};
+
+const CLICK_VELOCITIES: Record<ClickLevel, number> = {
+    downbeat: 120,
+    beat: 90,
+    subdivision: 50,
+};
+
+const CLICK_LENGTH_MS = 50;
+
+// =============================================================================
+// METRONOME
+// =============================================================================
+
+export interface MetronomeSettings {
+    enabled: boolean;
+    /** Clicks per beat, 1-4 */
+    subdivision: number;
+    /** 0-1 */
+    volume: number;
+}
+
+export const DEFAULT_METRONOME_SETTINGS: MetronomeSettings = {
+    enabled: false,
+    subdivision: 1,
+    volume: 0.8,
+};
+
+export interface MetronomeOptions {
+    /** Read on every click so the output can change while running */
+    getOutput: () => NoteOutput | null;
+    /** Every click, one lookahead window early */
+    onClick?: (click: Click) => void;
+    now?: () => number;
+    lookaheadMs?: number;
+    intervalMs?: number;
+}
+
+export interface Metronome {
+    /** Click one beat (from the transport or the standalone clock) */
+    beat: (event: BeatEvent) => void;
+    setSettings: (settings: MetronomeSettings) => void;
+    setMeter: (tempo: number, timeSignature: TimeSignature) => void;
+    /** (Re)start the standalone clock with a downbeat at `at` (default now) */
+    start: (at?: number) => void;
+    stop: () => void;
+    isRunning: () => boolean;
+}
+
+export const createMetronome = ({
+    getOutput,
+    onClick,
+    now = () => performance.now(),
+    lookaheadMs = LOOKAHEAD_MS,
+    intervalMs = SCHEDULER_INTERVAL_MS,
+}: MetronomeOptions): Metronome => {
+    let settings = DEFAULT_METRONOME_SETTINGS;
+    let tempo = 120;
+    let timeSignature: TimeSignature = [4, 4];
+    let pattern = accentPattern(timeSignature);
+
+    let timer: ReturnType<typeof setInterval> | null = null;
+    /** Time and bar position of the next standalone beat */
+    let nextBeatTime = 0;
+    let nextBeatIndex = 0;
+
+    const beatMs = () => ticksToMs(ticksPerBeat(timeSignature), tempo);
+
+    const sound = (click: Click) => {
+        const output = getOutput();
+        const velocity = Math.round(CLICK_VELOCITIES[click.level] * settings.volume);
+        if (output && velocity > 0) {
+            const note = CLICK_NOTES[click.level];
+            const at = now();
+            output.noteOn(note, velocity, click.time > at ? click.time : undefined);
+            output.noteOff(note, Math.max(at, click.time) + CLICK_LENGTH_MS);
+        }
+        onClick?.(click);
+    };
+
+    const beat = (event: BeatEvent) => {
+        // Count-ins click whether or not the metronome is on
+        if (!settings.enabled && !event.isCountIn) return;
+        clicksForBeat(event, pattern, event.isCountIn ? 1 : settings.subdivision).forEach(sound);
+    };
+
+    const pump = () => {
+        const limit = now() + lookaheadMs;
+        while (nextBeatTime <= limit) {
+            const durationMs = beatMs();
+            beat({
+                time: nextBeatTime,
+                beat: nextBeatIndex,
+                durationMs,
+                isDownbeat: nextBeatIndex === 0,
+                isCountIn: false,
+            });
+            nextBeatTime += durationMs;
+            nextBeatIndex = (nextBeatIndex + 1) % timeSignature[0];
+        }
+    };
+
+    const stop = () => {
+        if (timer !== null) clearInterval(timer);
+        timer = null;
+    };
+
+    return {
+        beat,
+
+        setSettings: (next) => {
+            settings = next;
+        },
+
+        setMeter: (nextTempo, nextTimeSignature) => {
+            tempo = nextTempo;
+            timeSignature = nextTimeSignature;
+            pattern = accentPattern(nextTimeSignature);
+            // The beat under way keeps its length; later ones follow the new tempo
+            nextBeatIndex %= nextTimeSignature[0];
+        },
+
+        start: (at = now()) => {
+            stop();
+            nextBeatTime = at;
+            nextBeatIndex = 0;
+            timer = setInterval(pump, intervalMs);
+            pump();
+        },
+
+        stop,
+
+        isRunning: () => timer !== null,
+    };
+};
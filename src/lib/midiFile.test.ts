@@ -0,0 +1,239 @@
+/**
+ * Tests for writing Standard MIDI Files, byte for byte, reading them back
+ * and turning what they play into cards.
+ */
+
+import { describe, it, expect } from 'vitest';
+import { midiFileToSequence, readMidiFile, variableLength, writeMidiFile } from './midiFile';
+import type { MidiFile } from './midiFile';
+import { analyzeChord } from './chordAnalysis';
+import { createCard, createRestCard, createSequence } from '../types';
+import type { Sequence } from '../types';
+
+const hex = (bytes: ArrayLike<number>): string =>
+    Array.from(bytes, (byte) => byte.toString(16).padStart(2, '0')).join(' ');
+
+describe('variableLength', () => {
+    it('encodes the examples from the SMF specification', () => {
+        expect(hex(variableLength(0))).toBe('00');
+        expect(hex(variableLength(0x7f))).toBe('7f');
+        expect(hex(variableLength(0x80))).toBe('81 00');
+        expect(hex(variableLength(0x2000))).toBe('c0 00');
+        expect(hex(variableLength(0x3fff))).toBe('ff 7f');
+        expect(hex(variableLength(0x4000))).toBe('81 80 00');
+        expect(hex(variableLength(0x0fffffff))).toBe('ff ff ff 7f');
+    });
+});
+
+describe('writeMidiFile', () => {
+    it('writes a single track with its chord symbols and rests as gaps', () => {
+        const sequence: Sequence = {
+            ...createSequence('Test'),
+            keySignature: 'F',
+            tracks: {
+                master: [
+                    createCard([60, 64, 67], 'q', analyzeChord([60, 64, 67]) ?? undefined),
+                    createRestCard('q'),
+                    createCard([62], '8'),
+                ],
+            },
+        };
+
+        expect(hex(writeMidiFile(sequence))).toBe([
+            // Header: type 1, two tracks, 480 ticks to the quarter
+            '4d 54 68 64 00 00 00 06 00 01 00 02 01 e0',
+            // Conductor: name, 120 BPM, 4/4, one flat, a marker, end at 1200
+            '4d 54 72 6b 00 00 00 27',
+            '00 ff 03 04 54 65 73 74',
+            '00 ff 51 03 07 a1 20',
+            '00 ff 58 04 04 02 18 08',
+            '00 ff 59 02 ff 00',
+            '00 ff 06 01 43',
+            '89 30 ff 2f 00',
+            // Both hands: name, chord text, the chord, a rest, D for an eighth
+            '4d 54 72 6b 00 00 00 3a',
+            '00 ff 03 0a 42 6f 74 68 20 68 61 6e 64 73',
+            '00 ff 01 01 43',
+            '00 90 3c 64 00 90 40 64 00 90 43 64',
+            '83 60 80 3c 40 00 80 40 40 00 80 43 40',
+            '83 60 90 3e 64',
+            '81 70 80 3e 40',
+            '00 ff 2f 00',
+        ].join(' '));
+    });
+
+    it('writes hand tracks on their own channels with their recorded expression', () => {
+        const sequence: Sequence = {
+            ...createSequence('Hands'),
+            tempo: 90,
+            timeSignature: [3, 4],
+            keySignature: 'D',
+            tracks: {
+                rightHand: [createCard([72], 'h', undefined, { velocities: [90] })],
+                leftHand: [
+                    createCard([48, 55], 'q', undefined, { velocities: [70, 60], onsets: [0, 20] }),
+                    createRestCard('q'),
+                ],
+            },
+        };
+
+        expect(hex(writeMidiFile(sequence))).toBe([
+            '4d 54 68 64 00 00 00 06 00 01 00 03 01 e0',
+            // 666667 microseconds to the quarter, 3/4, two sharps
+            '4d 54 72 6b 00 00 00 23',
+            '00 ff 03 05 48 61 6e 64 73',
+            '00 ff 51 03 0a 2c 2b',
+            '00 ff 58 04 03 02 18 08',
+            '00 ff 59 02 02 00',
+            '87 40 ff 2f 00',
+            // Right hand on channel 1
+            '4d 54 72 6b 00 00 00 1b',
+            '00 ff 03 0a 52 69 67 68 74 20 68 61 6e 64',
+            '00 90 48 5a',
+            '87 40 80 48 40',
+            '00 ff 2f 00',
+            // Left hand on channel 2: G rolled 20ms (14 ticks) late, the
+            // closing rest kept by the end of the track
+            '4d 54 72 6b 00 00 00 23',
+            '00 ff 03 09 4c 65 66 74 20 68 61 6e 64',
+            '00 91 30 46',
+            '0e 91 37 3c',
+            '83 52 81 30 40 00 81 37 40',
+            '83 60 ff 2f 00',
+        ].join(' '));
+    });
+
+    it('writes an empty sequence as a conductor and an empty track', () => {
+        const bytes = writeMidiFile(createSequence());
+
+        expect(hex(bytes.slice(10, 12))).toBe('00 02');
+        expect(hex(bytes.slice(-4))).toBe('00 ff 2f 00');
+    });
+});
+
+/** A type-0 file around one track's event bytes, at 96 ticks to the quarter */
+const typeZero = (events: number[]): Uint8Array => Uint8Array.from([
+    0x4d, 0x54, 0x68, 0x64, 0, 0, 0, 6, 0, 0, 0, 1, 0, 96,
+    0x4d, 0x54, 0x72, 0x6b, 0, 0, 0, events.length, ...events,
+]);
+
+describe('readMidiFile', () => {
+    it('reads back what writeMidiFile writes', () => {
+        const sequence: Sequence = {
+            ...createSequence('Round trip'),
+            tempo: 90,
+            timeSignature: [6, 8],
+            keySignature: 'Eb',
+            tracks: {
+                rightHand: [createCard([72, 76], 'qd', undefined, { velocities: [80, 70] })],
+                leftHand: [createRestCard('8'), createCard([48], 'q')],
+            },
+        };
+        const file = readMidiFile(writeMidiFile(sequence));
+
+        expect(file).toMatchObject({ format: 1, ppq: 480, timeSignature: [6, 8], keySignature: 'Eb' });
+        expect(file.tempo).toBeCloseTo(90, 3);
+        expect(file.tracks.map((track) => track.name)).toEqual(['Round trip', 'Right hand', 'Left hand']);
+        expect(file.tracks[1].notes).toEqual([
+            { note: 72, velocity: 80, channel: 0, tick: 0, length: 720 },
+            { note: 76, velocity: 70, channel: 0, tick: 0, length: 720 },
+        ]);
+        expect(file.tracks[2].notes).toEqual([{ note: 48, velocity: 100, channel: 1, tick: 240, length: 480 }]);
+    });
+
+    it('follows running status and treats a zero-velocity note-on as a note-off', () => {
+        const file = readMidiFile(typeZero([
+            0x00, 0xff, 0x51, 0x03, 0x09, 0x27, 0xc0, // 100 BPM
+            0x00, 0x92, 0x3c, 0x50, // C on channel 3...
+            0x00, 0x40, 0x50, // ...and E, by running status
+            0x60, 0x3c, 0x00, // C released a quarter later
+            0x00, 0xc2, 0x05, // a program change takes one data byte
+            0x30, 0x82, 0x40, 0x00, // E released an eighth after that
+            0x00, 0xff, 0x2f, 0x00,
+        ]));
+
+        expect(file.format).toBe(0);
+        expect(file.tempo).toBeCloseTo(100, 3);
+        expect(file.tracks[0].notes).toEqual([
+            { note: 60, velocity: 80, channel: 2, tick: 0, length: 96 },
+            { note: 64, velocity: 80, channel: 2, tick: 0, length: 144 },
+        ]);
+    });
+
+    it('ends notes left sounding with their track', () => {
+        const file = readMidiFile(typeZero([0x00, 0x90, 0x3c, 0x40, 0x81, 0x40, 0xff, 0x2f, 0x00]));
+
+        expect(file.tracks[0].notes[0].length).toBe(192);
+    });
+
+    it('refuses files it can\'t read, saying where', () => {
+        expect(() => readMidiFile(Uint8Array.from([1, 2, 3]))).toThrow('Not a MIDI file (byte 0)');
+        expect(() => readMidiFile(typeZero([0x00, 0x3c, 0x40]))).toThrow('no status before it (byte 23)');
+        expect(() => readMidiFile(typeZero([0x00, 0x90, 0x3c]))).toThrow('Track ends inside an event');
+
+        const typeTwo = typeZero([0x00, 0xff, 0x2f, 0x00]);
+        typeTwo[9] = 2;
+        expect(() => readMidiFile(typeTwo)).toThrow('Type 2 MIDI files aren\'t supported');
+    });
+});
+
+describe('midiFileToSequence', () => {
+    /** One track of notes at 480 ticks to the quarter and 120 BPM */
+    const fileOf = (notes: [note: number, tick: number, length: number][]): MidiFile => ({
+        format: 1,
+        ppq: 480,
+        tempo: 120,
+        timeSignature: [3, 4],
+        tracks: [{ notes: notes.map(([note, tick, length]) => ({ note, velocity: 90, channel: 0, tick, length })) }],
+    });
+
+    it('makes a chord of notes struck together and a rest of a gap', () => {
+        const sequence = midiFileToSequence(fileOf([
+            [60, 0, 480], [64, 6, 470], [67, 12, 460],
+            [62, 960, 240], [65, 960, 240], [69, 960, 240],
+        ]), { name: 'Voicings' });
+        const cards = sequence.tracks.master;
+
+        expect(sequence).toMatchObject({ name: 'Voicings', tempo: 120, timeSignature: [3, 4] });
+        expect(cards.map((c) => c.notes)).toEqual([[60, 64, 67], [], [62, 65, 69]]);
+        expect(cards.map((c) => c.duration)).toEqual(['q', 'q', '8']);
+        expect(cards.map((c) => c.analysis?.display)).toEqual(['C', undefined, 'Dm']);
+        expect(cards[0].velocities).toEqual([90, 90, 90]);
+    });
+
+    it('snaps sloppy timing to the grid', () => {
+        const sequence = midiFileToSequence(fileOf([
+            [60, 30, 450], [64, 500, 400], [67, 950, 500],
+        ]), { grid: '8' });
+
+        expect(sequence.tracks.master.map((c) => [c.notes[0], c.duration])).toEqual([
+            [60, 'q'], [64, 'q'], [67, 'q'],
+        ]);
+    });
+
+    it('leaves the drum channel out of the chords', () => {
+        const file = fileOf([[60, 0, 480], [64, 0, 480], [67, 0, 480]]);
+        file.tracks.push({
+            name: 'Drums',
+            notes: [[36, 0], [42, 0], [42, 240], [38, 480]].map(([note, tick]) => ({ note, velocity: 100, channel: 9, tick, length: 60 })),
+        });
+        const cards = midiFileToSequence(file).tracks.master;
+
+        expect(cards.map((c) => c.notes)).toEqual([[60, 64, 67]]);
+        expect(cards[0].analysis?.display).toBe('C');
+    });
+
+    it('brings back the cards of an exported sequence', () => {
+        const notes = [[48, 55, 64, 67], [50, 57, 65, 72], [43, 55, 59, 65]];
+        const original: Sequence = {
+            ...createSequence('Cadence'),
+            tracks: { master: notes.map((chord, i) => createCard(chord, i === 2 ? 'h' : 'q')) },
+        };
+        const imported = midiFileToSequence(readMidiFile(writeMidiFile(original)));
+
+        expect(imported.name).toBe('Cadence');
+        expect(imported.tracks.master.map((c) => [c.notes, c.duration])).toEqual([
+            [notes[0], 'q'], [notes[1], 'q'], [notes[2], 'h'],
+        ]);
+    });
+});
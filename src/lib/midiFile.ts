@@ -0,0 +1,363 @@
+/**
+ * MIDI files
+ *
+ * Writes a sequence as a Standard MIDI File: type 1 at PPQ 480. The first
+ * track (the conductor) carries the tempo, the time and key signatures and
+ * a marker for each chord; after it comes one track per sequence track with
+ * its notes, and its chord symbols as text. Rests are simply gaps between
+ * notes.
+ *
+ * Reads type 0 and 1 files back, and turns what they play into cards the
+ * way a timed take is: notes struck together become one chord, onsets and
+ * lengths snap to a grid, and gaps become rests.
+ */
+
+import { MASTER_TRACK, PPQ, createSequence, phraseSegmentToCard } from '../types';
+import type { Card, Duration, Sequence, TimeSignature } from '../types';
+import { DEFAULT_VELOCITY, clampVelocity } from './noteOutput';
+import { buildSegmentsFromEvents } from './recording';
+import type { RecordedNote } from './recording';
+import { keyFifths, keyWithFifths } from './spelling';
+import { buildTimeline, msToTicks, ticksToMs } from './timeline';
+import { trackLabel } from './tracks';
+
+// =============================================================================
+// CONSTANTS
+// =============================================================================
+
+const NOTE_OFF = 0x80;
+const NOTE_ON = 0x90;
+const PROGRAM_CHANGE = 0xc0;
+const CHANNEL_PRESSURE = 0xd0;
+const SYSEX = 0xf0;
+const SYSEX_CONTINUATION = 0xf7;
+const META = 0xff;
+
+/** Meta event types */
+const TEXT = 0x01;
+const TRACK_NAME = 0x03;
+const MARKER = 0x06;
+const END_OF_TRACK = 0x2f;
+const SET_TEMPO = 0x51;
+const TIME_SIGNATURE = 0x58;
+const KEY_SIGNATURE = 0x59;
+
+/** Release velocity sent with every note-off */
+const RELEASE_VELOCITY = 64;
+
+/** General MIDI keeps channel 10 (index 9) for drums */
+const DRUM_CHANNEL = 9;
+
+// =============================================================================
+// ENCODING
+// =============================================================================
+
+/** A delta time or length as a variable-length quantity: 7 bits a byte, most significant first */
+export const variableLength = (value: number): number[] => {
+    const bytes = [value & 0x7f];
+    let rest = Math.floor(value / 0x80);
+    while (rest > 0) {
+        bytes.unshift((rest & 0x7f) | 0x80);
+        rest = Math.floor(rest / 0x80);
+    }
+    return bytes;
+};
+
+const uint16 = (value: number): number[] => [(value >> 8) & 0xff, value & 0xff];
+
+const uint32 = (value: number): number[] => [
+    (value >>> 24) & 0xff,
+    (value >> 16) & 0xff,
+    (value >> 8) & 0xff,
+    value & 0xff,
+];
+
+const ascii = (text: string): number[] => Array.from(text, (char) => char.charCodeAt(0));
+
+const chunk = (type: string, data: number[]): number[] => [...ascii(type), ...uint32(data.length), ...data];
+
+/** An event at a tick; at the same tick, lower `order` comes first */
+interface TrackEvent {
+    tick: number;
+    order: number;
+    data: number[];
+}
+
+/** Meta events, then note-offs, then note-ons at any one tick, so repeated notes re-strike cleanly */
+const ORDER = { meta: 0, off: 1, on: 2 } as const;
+
+const metaEvent = (tick: number, type: number, data: number[]): TrackEvent => ({
+    tick,
+    order: ORDER.meta,
+    data: [META, type, ...variableLength(data.length), ...data],
+});
+
+const textEvent = (tick: number, type: number, text: string): TrackEvent =>
+    metaEvent(tick, type, Array.from(new TextEncoder().encode(text)));
+
+/** An MTrk chunk of the events in time order, closed at `endTick` or the last event */
+const trackChunk = (events: TrackEvent[], endTick: number): number[] => {
+    const sorted = [...events].sort((a, b) => a.tick - b.tick || a.order - b.order);
+    const data: number[] = [];
+    let tick = 0;
+    sorted.forEach((event) => {
+        data.push(...variableLength(event.tick - tick), ...event.data);
+        tick = event.tick;
+    });
+    data.push(...variableLength(Math.max(0, endTick - tick)), META, END_OF_TRACK, 0);
+    return chunk('MTrk', data);
+};
+
+// =============================================================================
+// WRITING
+// =============================================================================
+
+/** Chord symbol events at the start of each analysed card */
+const chordEvents = (cards: Card[], type: number): TrackEvent[] =>
+    buildTimeline(cards).entries.flatMap(({ cardIndex, startTick }) => {
+        const { isRest, analysis } = cards[cardIndex];
+        return !isRest && analysis ? [textEvent(startTick, type, analysis.display)] : [];
+    });
+
+/** Tempo, time and key signature, with the first track's chords as markers */
+const conductorTrack = (sequence: Sequence, endTick: number): number[] => {
+    const { tempo, timeSignature, keySignature = 'C', name } = sequence;
+    const [beats, beatUnit] = timeSignature;
+    const microsPerQuarter = Math.round(60000000 / tempo);
+    const [firstTrack = []] = Object.values(sequence.tracks);
+    return trackChunk([
+        textEvent(0, TRACK_NAME, name),
+        metaEvent(0, SET_TEMPO, uint32(microsPerQuarter).slice(1)),
+        // A click every beat at 24 clocks to the quarter; eight 32nds to the quarter
+        metaEvent(0, TIME_SIGNATURE, [beats, Math.log2(beatUnit), 96 / beatUnit, 8]),
+        metaEvent(0, KEY_SIGNATURE, [keyFifths(keySignature) & 0xff, 0]),
+        ...chordEvents(firstTrack, MARKER),
+    ], endTick);
+};
+
+/**
+ * One sequence track's notes on `channel`. Recorded onsets are converted
+ * at the sequence tempo and kept inside their card, as in playback.
+ */
+const noteTrack = (cards: Card[], name: string, channel: number, tempo: number): number[] => {
+    const timeline = buildTimeline(cards);
+    const events: TrackEvent[] = [textEvent(0, TRACK_NAME, name), ...chordEvents(cards, TEXT)];
+    timeline.entries.forEach(({ cardIndex, startTick, endTick }) => {
+        const card = cards[cardIndex];
+        if (card.isRest) return;
+        card.notes.forEach((note, i) => {
+            const onset = Math.round(msToTicks(card.onsets?.[i] ?? 0, tempo));
+            const velocity = clampVelocity(card.velocities?.[i] ?? DEFAULT_VELOCITY);
+            events.push({
+                tick: Math.min(startTick + onset, endTick - 1),
+                order: ORDER.on,
+                data: [NOTE_ON | channel, note, velocity],
+            });
+            events.push({ tick: endTick, order: ORDER.off, data: [NOTE_OFF | channel, note, RELEASE_VELOCITY] });
+        });
+    });
+    return trackChunk(events, timeline.totalTicks);
+};
+
+/**
+ * The sequence as a type-1 Standard MIDI File. Sequence tracks follow the
+ * conductor track in order, each on its own channel from 1 up (skipping
+ * the drum channel), named for its hand.
+ */
+export const writeMidiFile = (sequence: Sequence): Uint8Array<ArrayBuffer> => {
+    const tracks = Object.entries(sequence.tracks);
+    const endTick = Math.max(0, ...tracks.map(([, cards]) => buildTimeline(cards).totalTicks));
+    const channels = Array.from({ length: 16 }, (_, i) => i).filter((channel) => channel !== DRUM_CHANNEL);
+
+    const bytes = [
+        ...chunk('MThd', [...uint16(1), ...uint16(tracks.length + 1), ...uint16(PPQ)]),
+        ...conductorTrack(sequence, endTick),
+        ...tracks.flatMap(([trackId, cards], i) =>
+            noteTrack(cards, trackLabel(trackId), channels[i % channels.length], sequence.tempo)
+        ),
+    ];
+    return Uint8Array.from(bytes);
+};
+
+// =============================================================================
+// READING
+// =============================================================================
+
+/** A note read from a file, timed in the file's ticks */
+export interface MidiFileNote {
+    note: number;
+    velocity: number;
+    channel: number;
+    tick: number;
+    /** Ticks until its note-off, or the end of its track */
+    length: number;
+}
+
+export interface MidiFileTrack {
+    name?: string;
+    notes: MidiFileNote[];
+}
+
+/** What a MIDI file holds that cards can use */
+export interface MidiFile {
+    format: number;
+    /** Ticks to the quarter note */
+    ppq: number;
+    /** The file's first tempo, BPM */
+    tempo?: number;
+    timeSignature?: TimeSignature;
+    /** Major key with the file's key signature (a minor key reads as its relative major) */
+    keySignature?: string;
+    tracks: MidiFileTrack[];
+}
+
+const readError = (message: string, offset: number): Error => new Error(`${message} (byte ${offset})`);
+
+/** Read one MTrk chunk's events, noting the file-wide meta events in `file` */
+const readTrack = (bytes: Uint8Array, start: number, end: number, file: MidiFile): MidiFileTrack => {
+    const track: MidiFileTrack = { notes: [] };
+    // Notes sounding, by channel and key, oldest first
+    const sounding = new Map<number, MidiFileNote[]>();
+    let offset = start;
+    let tick = 0;
+    let runningStatus = 0;
+
+    const byte = (): number => {
+        if (offset >= end) throw readError('Track ends inside an event', offset);
+        return bytes[offset++];
+    };
+    const quantity = (): number => {
+        let value = 0;
+        for (let i = 0; i < 4; i++) {
+            const next = byte();
+            value = value * 0x80 + (next & 0x7f);
+            if (!(next & 0x80)) return value;
+        }
+        throw readError('Variable-length quantity over four bytes', offset);
+    };
+    const take = (length: number): Uint8Array => {
+        if (offset + length > end) throw readError('Event runs past the end of its track', offset);
+        offset += length;
+        return bytes.subarray(offset - length, offset);
+    };
+
+    while (offset < end) {
+        tick += quantity();
+        let status = bytes[offset];
+        if (status & 0x80) offset++;
+        // Running status: a data byte repeats the last channel message's status
+        else if (runningStatus) status = runningStatus;
+        else throw readError('Data byte with no status before it', offset);
+
+        if (status === META) {
+            const type = byte();
+            const data = take(quantity());
+            if (type === END_OF_TRACK) break;
+            if (type === TRACK_NAME) track.name ??= new TextDecoder().decode(data);
+            if (type === SET_TEMPO && data.length === 3) {
+                file.tempo ??= 60000000 / ((data[0] << 16) | (data[1] << 8) | data[2]);
+            }
+            if (type === TIME_SIGNATURE && data.length >= 2) file.timeSignature ??= [data[0], 2 ** data[1]];
+            if (type === KEY_SIGNATURE && data.length >= 1) file.keySignature ??= keyWithFifths((data[0] << 24) >> 24);
+        } else if (status === SYSEX || status === SYSEX_CONTINUATION) {
+            take(quantity());
+        } else if (status < SYSEX) {
+            runningStatus = status;
+            const kind = status & 0xf0;
+            const channel = status & 0x0f;
+            const key = byte();
+            const value = kind === PROGRAM_CHANGE || kind === CHANNEL_PRESSURE ? 0 : byte();
+            const id = channel * 128 + key;
+            if (kind === NOTE_ON && value > 0) {
+                const note: MidiFileNote = { note: key, velocity: value, channel, tick, length: 0 };
+                track.notes.push(note);
+                sounding.set(id, [...(sounding.get(id) ?? []), note]);
+            } else if (kind === NOTE_OFF || kind === NOTE_ON) {
+                // A note-on at velocity 0 is a note-off
+                const note = sounding.get(id)?.shift();
+                if (note) note.length = tick - note.tick;
+            }
+        } else {
+            throw readError(`Unexpected status 0x${status.toString(16)}`, offset - 1);
+        }
+    }
+
+    // Notes never released end with their track
+    sounding.forEach((notes) => notes.forEach((note) => { note.length = tick - note.tick; }));
+    return track;
+};
+
+/**
+ * Read a type 0 or type 1 Standard MIDI File. Throws on anything else, or
+ * on a malformed file, naming the byte where reading stopped.
+ */
+export const readMidiFile = (bytes: Uint8Array): MidiFile => {
+    const text = (at: number) => String.fromCharCode(...bytes.subarray(at, at + 4));
+    const uint16At = (at: number) => (bytes[at] << 8) | bytes[at + 1];
+    const uint32At = (at: number) => ((bytes[at] << 24) | (bytes[at + 1] << 16) | (bytes[at + 2] << 8) | bytes[at + 3]) >>> 0;
+
+    if (bytes.length < 14 || text(0) !== 'MThd') throw readError('Not a MIDI file', 0);
+    const format = uint16At(8);
+    const trackCount = uint16At(10);
+    const division = uint16At(12);
+    if (format > 1) throw readError(`Type ${format} MIDI files aren't supported`, 8);
+    if (division & 0x8000) throw readError('Timecode-based MIDI files aren\'t supported', 12);
+    if (division === 0) throw readError('No ticks to the quarter note', 12);
+
+    const file: MidiFile = { format, ppq: division, tracks: [] };
+    // Chunks of other types are skipped, as the format asks
+    let offset = 8 + uint32At(4);
+    while (file.tracks.length < trackCount && offset + 8 <= bytes.length) {
+        const start = offset + 8;
+        const end = start + uint32At(offset + 4);
+        if (end > bytes.length) throw readError(`${text(offset)} chunk runs past the end of the file`, offset);
+        if (text(offset) === 'MTrk') file.tracks.push(readTrack(bytes, start, end, file));
+        offset = end;
+    }
+    if (file.tracks.length < trackCount) {
+        throw readError(`Expected ${trackCount} tracks but found ${file.tracks.length}`, offset);
+    }
+    return file;
+};
+
+// =============================================================================
+// IMPORTING
+// =============================================================================
+
+export interface MidiImportOptions {
+    /** Smallest step onsets and lengths snap to */
+    grid?: Duration;
+    /** Name for the sequence when none of the file's tracks is named */
+    name?: string;
+}
+
+/**
+ * Cards for everything a file plays, all tracks together on the master
+ * track (split it into hands afterwards if wanted), leaving out the drum
+ * channel's hits. The notes are
+ * quantized as a timed take at the file's tempo: notes struck within a
+ * fraction of a grid step are one chord, each analysed, with rests for the
+ * gaps. Tempo, time and key signature come from the file, defaulting as a
+ * new sequence does.
+ */
+export const midiFileToSequence = (file: MidiFile, { grid = '16', name }: MidiImportOptions = {}): Sequence => {
+    const base = createSequence(file.tracks.find((track) => track.name)?.name ?? name ?? 'Imported');
+    const tempo = Math.round(file.tempo ?? base.tempo);
+    const toMs = (ticks: number) => ticksToMs((ticks * PPQ) / file.ppq, tempo);
+    const pitched = file.tracks.flatMap((track) => track.notes).filter((note) => note.channel !== DRUM_CHANNEL);
+    const events: RecordedNote[] = pitched.map((note) => ({
+        note: note.note,
+        velocity: note.velocity,
+        time: toMs(note.tick),
+        offTime: toMs(note.tick + note.length),
+    }));
+    const segments = buildSegmentsFromEvents(events, grid, { tempo, origin: 0, grid, swingTolerance: 0 });
+
+    return {
+        ...base,
+        tempo,
+        timeSignature: file.timeSignature ?? base.timeSignature,
+        ...(file.keySignature && { keySignature: file.keySignature }),
+        tracks: { [MASTER_TRACK]: segments.map(phraseSegmentToCard) },
+    };
+};
@@ -0,0 +1,129 @@
+/**
+ * Tests for MIDI output: message bytes, channel routing, panic and
+ * disconnected ports.
+ */
+
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { createMIDINoteOutput, CC_ALL_NOTES_OFF } from './midiOutput';
+import { playChord } from './noteOutput';
+import { FakeMIDIOutput } from './fakeMIDIAccess';
+
+const sentBytes = (port: FakeMIDIOutput) => port.sent.map((message) => message.data);
+
+describe('createMIDINoteOutput', () => {
+    it('sends note-on and note-off on channel 1 by default', () => {
+        const port = new FakeMIDIOutput({ id: 'synth' });
+        const output = createMIDINoteOutput(port);
+
+        output.noteOn(60, 90);
+        output.noteOff(60);
+
+        expect(sentBytes(port)).toEqual([
+            [0x90, 60, 90],
+            [0x80, 60, 0],
+        ]);
+    });
+
+    it('encodes the channel in the status byte', () => {
+        const port = new FakeMIDIOutput({ id: 'synth' });
+        createMIDINoteOutput(port, 10).noteOn(36);
+
+        expect(sentBytes(port)).toEqual([[0x99, 36, 100]]);
+    });
+
+    it('clamps velocity so a note-on never turns into a note-off', () => {
+        const port = new FakeMIDIOutput({ id: 'synth' });
+        const output = createMIDINoteOutput(port);
+
+        output.noteOn(60, 0);
+        output.noteOn(62, 200);
+
+        expect(sentBytes(port)).toEqual([
+            [0x90, 60, 1],
+            [0x90, 62, 127],
+        ]);
+    });
+
+    it('passes scheduled timestamps through to the port', () => {
+        const port = new FakeMIDIOutput({ id: 'synth' });
+        createMIDINoteOutput(port).noteOn(60, 100, 1500);
+
+        expect(port.sent[0].timestamp).toBe(1500);
+    });
+
+    it('panics with note-offs for sounding notes and CC 123 on every channel', () => {
+        const port = new FakeMIDIOutput({ id: 'synth' });
+        const output = createMIDINoteOutput(port, 2);
+
+        output.noteOn(60);
+        output.noteOn(64);
+        output.noteOff(60);
+        port.clearSent();
+        output.allNotesOff();
+
+        const bytes = sentBytes(port);
+        expect(bytes[0]).toEqual([0x81, 64, 0]);
+        expect(bytes.slice(1)).toHaveLength(16);
+        bytes.slice(1).forEach((data, ch) => {
+            expect(data).toEqual([0xb0 | ch, CC_ALL_NOTES_OFF, 0]);
+        });
+    });
+
+    it('repeats the panic after notes still queued for the future', () => {
+        const port = new FakeMIDIOutput({ id: 'synth' });
+        const output = createMIDINoteOutput(port, 1, () => 1000);
+
+        output.noteOn(60, 100, 1080);
+        port.clearSent();
+        output.allNotesOff();
+
+        const late = port.sent.filter((message) => message.timestamp === 1080);
+        expect(late[0].data).toEqual([0x80, 60, 0]);
+        expect(late).toHaveLength(17);
+    });
+
+    it('drops messages while the port is disconnected', () => {
+        const port = new FakeMIDIOutput({ id: 'synth' });
+        const output = createMIDINoteOutput(port);
+        port.state = 'disconnected';
+
+        expect(() => {
+            output.noteOn(60);
+            output.allNotesOff();
+        }).not.toThrow();
+        expect(port.sent).toEqual([]);
+    });
+});
+
+describe('playChord', () => {
+    afterEach(() => {
+        vi.useRealTimers();
+    });
+
+    it('releases the chord after the given length', () => {
+        vi.useFakeTimers();
+        const port = new FakeMIDIOutput({ id: 'synth' });
+        playChord(createMIDINoteOutput(port), [60, 64, 67], 1000);
+
+        expect(sentBytes(port)).toHaveLength(3);
+        vi.advanceTimersByTime(999);
+        expect(sentBytes(port)).toHaveLength(3);
+        vi.advanceTimersByTime(1);
+        expect(sentBytes(port).slice(3)).toEqual([
+            [0x80, 60, 0],
+            [0x80, 64, 0],
+            [0x80, 67, 0],
+        ]);
+    });
+
+    it('can be cut short, releasing only once', () => {
+        vi.useFakeTimers();
+        const port = new FakeMIDIOutput({ id: 'synth' });
+        const release = playChord(createMIDINoteOutput(port), [60, 64], 1000);
+
+        release();
+        vi.advanceTimersByTime(1000);
+
+        expect(sentBytes(port)).toHaveLength(4);
+    });
+});
@@ -0,0 +1,63 @@
+/**
+ * MIDI Output
+ *
+ * NoteOutput implementation that sends channel messages to an external
+ * synth or DAW through a Web MIDI output port.
+ */
+
+import { clampVelocity, DEFAULT_VELOCITY } from './noteOutput';
+import type { NoteOutput } from './noteOutput';
+import type { MIDIOutput } from '../types';
+
+/** Controller number for "All Notes Off" */
+export const CC_ALL_NOTES_OFF = 123;
+
+/**
+ * Create a note output bound to a port and channel (1-16).
+ * Sends are dropped while the port is disconnected instead of throwing.
+ * `now` is the clock timestamps are on (default performance.now).
+ */
+export const createMIDINoteOutput = (
+    port: MIDIOutput,
+    channel: number = 1,
+    now: () => number = () => performance.now()
+): NoteOutput => {
+    const channelBits = (Math.max(1, Math.min(16, channel)) - 1) & 0x0f;
+    const sounding = new Set<number>();
+    // Latest timestamp handed to the port; messages up to here may still be queued
+    let latestScheduled = 0;
+
+    const send = (data: number[], time?: number) => {
+        if (port.state !== 'connected') return;
+        if (time !== undefined) latestScheduled = Math.max(latestScheduled, time);
+        port.send(data, time);
+    };
+
+    return {
+        noteOn: (note, velocity = DEFAULT_VELOCITY, time) => {
+            sounding.add(note);
+            send([0x90 | channelBits, note, clampVelocity(velocity)], time);
+        },
+
+        noteOff: (note, time) => {
+            sounding.delete(note);
+            send([0x80 | channelBits, note, 0], time);
+        },
+
+        allNotesOff: () => {
+            port.clear?.();
+            // Note-ons already queued for the future would outlive an immediate
+            // panic, so repeat it once the queue has drained
+            const times: (number | undefined)[] = latestScheduled > now() ? [undefined, latestScheduled] : [undefined];
+            times.forEach((time) => {
+                // Explicit note-offs first: not every synth honours CC 123
+                sounding.forEach((note) => send([0x80 | channelBits, note, 0], time));
+                for (let ch = 0; ch < 16; ch++) {
+                    send([0xb0 | ch, CC_ALL_NOTES_OFF, 0], time);
+                }
+            });
+            sounding.clear();
+            latestScheduled = 0;
+        },
+    };
+};
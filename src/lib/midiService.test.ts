@@ -0,0 +1,251 @@
+/**
+ * Tests for the MIDI service: message parsing, subscription fan-out,
+ * per-device filtering and hot-plugged inputs.
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import { parseMIDIMessage, createMIDIService, describeMIDIError } from './midiService';
+import type { MIDIEvent } from './midiService';
+import { FakeMIDIAccess } from './fakeMIDIAccess';
+
+// =============================================================================
+// PARSING
+// =============================================================================
+
+describe('parseMIDIMessage', () => {
+    it('parses note on with channel and velocity', () => {
+        expect(parseMIDIMessage([0x92, 60, 100], 'kbd', 5)).toEqual({
+            type: 'noteOn', note: 60, velocity: 100, channel: 3, deviceId: 'kbd', timestamp: 5,
+        });
+    });
+
+    it('treats note on with velocity 0 as note off', () => {
+        expect(parseMIDIMessage([0x90, 60, 0], 'kbd', 0)?.type).toBe('noteOff');
+    });
+
+    it('parses note off with release velocity', () => {
+        const event = parseMIDIMessage([0x8f, 64, 40], 'kbd', 0);
+        expect(event).toMatchObject({ type: 'noteOff', note: 64, velocity: 40, channel: 16 });
+    });
+
+    it('parses control change', () => {
+        expect(parseMIDIMessage([0xb0, 64, 127], 'kbd', 0)).toMatchObject({
+            type: 'controlChange', controller: 64, value: 127, channel: 1,
+        });
+    });
+
+    it('parses pitch bend as a signed 14-bit value', () => {
+        expect(parseMIDIMessage([0xe0, 0x00, 0x40], 'kbd', 0)).toMatchObject({ type: 'pitchBend', value: 0 });
+        expect(parseMIDIMessage([0xe0, 0x00, 0x00], 'kbd', 0)).toMatchObject({ value: -8192 });
+        expect(parseMIDIMessage([0xe0, 0x7f, 0x7f], 'kbd', 0)).toMatchObject({ value: 8191 });
+    });
+
+    it('ignores unsupported and malformed messages', () => {
+        expect(parseMIDIMessage([0xf8], 'kbd', 0)).toBeNull();
+        expect(parseMIDIMessage([0xd0, 20], 'kbd', 0)).toBeNull();
+        expect(parseMIDIMessage(null, 'kbd', 0)).toBeNull();
+    });
+});
+
+describe('describeMIDIError', () => {
+    it('maps known error names to status messages', () => {
+        expect(describeMIDIError({ name: 'SecurityError' })).toBe('MIDI access denied - check permissions');
+        expect(describeMIDIError({ name: 'AbortError' })).toBe('MIDI access request was aborted');
+        expect(describeMIDIError({ message: 'boom' })).toBe('MIDI error: boom');
+    });
+});
+
+// =============================================================================
+// SERVICE
+// =============================================================================
+
+describe('createMIDIService', () => {
+    const setup = () => {
+        const access = new FakeMIDIAccess({ inputs: [{ id: 'kbd' }, { id: 'pad' }] });
+        const service = createMIDIService(access);
+        return { access, service, kbd: access.input('kbd'), pad: access.input('pad') };
+    };
+
+    it('delivers parsed events from every input', () => {
+        const { service, kbd, pad } = setup();
+        const events: MIDIEvent[] = [];
+        service.subscribe((e) => events.push(e));
+
+        kbd.noteOn(60, 90, 1, 1);
+        pad.noteOn(36, 110, 10, 2);
+
+        expect(events.map((e) => e.deviceId)).toEqual(['kbd', 'pad']);
+        expect(events[1]).toMatchObject({ type: 'noteOn', note: 36, channel: 10, timestamp: 2 });
+    });
+
+    it('filters events by device when subscribing', () => {
+        const { service, kbd, pad } = setup();
+        const listener = vi.fn();
+        service.subscribe(listener, { deviceId: 'pad' });
+
+        kbd.noteOn(60);
+        pad.noteOn(36);
+
+        expect(listener).toHaveBeenCalledTimes(1);
+        expect(listener.mock.calls[0][0].deviceId).toBe('pad');
+    });
+
+    it('stops delivering after unsubscribe', () => {
+        const { service, kbd } = setup();
+        const listener = vi.fn();
+        const unsubscribe = service.subscribe(listener);
+
+        unsubscribe();
+        kbd.noteOn(60);
+
+        expect(listener).not.toHaveBeenCalled();
+    });
+
+    it('round-trips pitch bend through the fake device', () => {
+        const { service, kbd } = setup();
+        const listener = vi.fn();
+        service.subscribe(listener);
+
+        kbd.pitchBend(-1000);
+
+        expect(listener).toHaveBeenCalledWith(expect.objectContaining({ type: 'pitchBend', value: -1000 }));
+    });
+
+    it('attaches to inputs that are hot-plugged later', () => {
+        const { access, service } = setup();
+        const listener = vi.fn();
+        const portListener = vi.fn();
+        service.subscribe(listener);
+        service.subscribePorts(portListener);
+
+        const late = access.addInput({ id: 'late', name: 'Loopback' });
+        late.noteOn(62, 80);
+
+        expect(portListener).toHaveBeenCalledWith({ port: late });
+        expect(listener).toHaveBeenCalledWith(expect.objectContaining({ deviceId: 'late', note: 62 }));
+    });
+
+    it('reports unplugged devices to port listeners', () => {
+        const { access, service, kbd } = setup();
+        const portListener = vi.fn();
+        service.subscribePorts(portListener);
+
+        access.unplug('kbd');
+
+        expect(portListener).toHaveBeenCalledTimes(1);
+        expect(kbd.state).toBe('disconnected');
+        expect(service.getInputs()).toHaveLength(2);
+    });
+
+    it('detaches handlers on dispose', () => {
+        const { access, service, kbd } = setup();
+
+        service.dispose();
+
+        expect(kbd.onmidimessage).toBeNull();
+        expect(access.onstatechange).toBeNull();
+    });
+});
+
+describe('input device settings', () => {
+    const setup = () => {
+        const access = new FakeMIDIAccess({
+            inputs: [
+                { id: 'kbd', name: 'Controller', manufacturer: 'Acme' },
+                { id: 'pad', name: 'Drum Pad' },
+            ],
+        });
+        const service = createMIDIService(access);
+        const events: MIDIEvent[] = [];
+        service.subscribe((e) => events.push(e));
+        return { access, service, events, kbd: access.input('kbd'), pad: access.input('pad') };
+    };
+
+    it('lists inputs with state and default settings', () => {
+        const { service } = setup();
+
+        expect(service.getDevices()).toEqual([
+            { id: 'kbd', name: 'Controller', manufacturer: 'Acme', state: 'connected', enabled: true, channels: null },
+            { id: 'pad', name: 'Drum Pad', manufacturer: null, state: 'connected', enabled: true, channels: null },
+        ]);
+    });
+
+    it('ignores disabled inputs', () => {
+        const { service, events, kbd, pad } = setup();
+
+        service.configureInput('pad', { enabled: false });
+        kbd.noteOn(60);
+        pad.noteOn(36);
+
+        expect(events.map((e) => e.deviceId)).toEqual(['kbd']);
+    });
+
+    it('only passes channels in the filter', () => {
+        const { service, events, kbd } = setup();
+
+        service.configureInput('kbd', { channels: [2, 3] });
+        kbd.noteOn(60, 100, 1);
+        kbd.noteOn(61, 100, 2);
+        kbd.noteOn(62, 100, 3);
+        kbd.noteOn(63, 100, 16);
+
+        expect(events.map((e) => e.type === 'noteOn' && e.note)).toEqual([61, 62]);
+    });
+
+    it('releases held notes and pedal when a device is unplugged', () => {
+        const { access, events, kbd } = setup();
+
+        kbd.noteOn(60);
+        kbd.noteOn(64);
+        kbd.controlChange(64, 127);
+        events.length = 0;
+        access.unplug('kbd');
+
+        expect(events).toEqual([
+            expect.objectContaining({ type: 'noteOff', note: 60, deviceId: 'kbd' }),
+            expect.objectContaining({ type: 'noteOff', note: 64, deviceId: 'kbd' }),
+            expect.objectContaining({ type: 'controlChange', controller: 64, value: 0 }),
+        ]);
+    });
+
+    it('does not re-release notes that were already let go', () => {
+        const { access, events, kbd } = setup();
+
+        kbd.noteOn(60);
+        kbd.noteOff(60);
+        events.length = 0;
+        access.unplug('kbd');
+
+        expect(events).toEqual([]);
+    });
+
+    it('releases notes on channels that get filtered out', () => {
+        const { service, events, kbd } = setup();
+
+        kbd.noteOn(60, 100, 1);
+        kbd.noteOn(48, 100, 2);
+        events.length = 0;
+        service.configureInput('kbd', { channels: [2] });
+
+        expect(events).toEqual([expect.objectContaining({ type: 'noteOff', note: 60, channel: 1 })]);
+    });
+
+    it('notifies device listeners on hot-plug and settings changes', () => {
+        const { access, service } = setup();
+        const listener = vi.fn();
+        service.subscribeDevices(listener);
+
+        access.unplug('pad');
+        expect(listener).toHaveBeenLastCalledWith(expect.arrayContaining([
+            expect.objectContaining({ id: 'pad', state: 'disconnected' }),
+        ]));
+
+        service.configureInput('kbd', { enabled: false });
+        expect(listener).toHaveBeenLastCalledWith(expect.arrayContaining([
+            expect.objectContaining({ id: 'kbd', enabled: false }),
+        ]));
+
+        access.replug('pad');
+        expect(listener).toHaveBeenCalledTimes(3);
+    });
+});
@@ -0,0 +1,332 @@
+/**
+ * MIDI Service
+ *
+ * Framework-agnostic wrapper around a Web MIDI `MIDIAccess`.
+ * Parses raw input messages into typed events and fans them out to
+ * subscribers, optionally filtered per input device. The access object
+ * is injected so the whole pipeline can be driven by a fake device in tests.
+ */
+
+import type {
+    MIDIAccess,
+    MIDIInput,
+    MIDIMessageEvent,
+    MIDIConnectionEvent,
+    MIDIOutput,
+    MIDIPort,
+    MIDIPortDeviceState,
+} from '../types';
+
+// =============================================================================
+// EVENTS
+// =============================================================================
+
+/** Controller number of the sustain (damper) pedal */
+export const CC_SUSTAIN = 64;
+
+interface MIDIEventBase {
+    /** ID of the input port the message arrived on */
+    deviceId: string;
+    /** MIDI channel, 1-16 */
+    channel: number;
+    /** High-resolution timestamp (same clock as performance.now()) */
+    timestamp: number;
+}
+
+export interface NoteOnEvent extends MIDIEventBase {
+    type: 'noteOn';
+    note: number;
+    velocity: number;
+}
+
+export interface NoteOffEvent extends MIDIEventBase {
+    type: 'noteOff';
+    note: number;
+    velocity: number;
+}
+
+export interface ControlChangeEvent extends MIDIEventBase {
+    type: 'controlChange';
+    controller: number;
+    value: number;
+}
+
+export interface PitchBendEvent extends MIDIEventBase {
+    type: 'pitchBend';
+    /** Signed bend amount, -8192 to 8191 (0 = center) */
+    value: number;
+}
+
+export type MIDIEvent = NoteOnEvent | NoteOffEvent | ControlChangeEvent | PitchBendEvent;
+
+export type MIDIEventListener = (event: MIDIEvent) => void;
+
+/**
+ * Parse a raw channel message into a typed event.
+ * Returns null for messages we don't handle (sysex, clock, aftertouch, ...).
+ * Note On with velocity 0 is reported as Note Off, per the MIDI spec.
+ */
+export const parseMIDIMessage = (
+    data: ArrayLike<number> | null | undefined,
+    deviceId: string,
+    timestamp: number
+): MIDIEvent | null => {
+    if (!data || data.length < 2) return null;
+
+    const status = data[0];
+    const command = status & 0xf0;
+    const channel = (status & 0x0f) + 1;
+    const data1 = data[1];
+    const data2 = data.length > 2 ? data[2] : 0;
+    const base = { deviceId, channel, timestamp };
+
+    switch (command) {
+        case 0x90:
+            if (data2 > 0) {
+                return { ...base, type: 'noteOn', note: data1, velocity: data2 };
+            }
+            return { ...base, type: 'noteOff', note: data1, velocity: 0 };
+        case 0x80:
+            return { ...base, type: 'noteOff', note: data1, velocity: data2 };
+        case 0xb0:
+            return { ...base, type: 'controlChange', controller: data1, value: data2 };
+        case 0xe0:
+            return { ...base, type: 'pitchBend', value: ((data2 << 7) | data1) - 8192 };
+        default:
+            return null;
+    }
+};
+
+// =============================================================================
+// ACCESS HELPERS
+// =============================================================================
+
+/** Turn a requestMIDIAccess rejection into a user-facing status message */
+export const describeMIDIError = (err: { name?: string; message?: string }): string => {
+    if (err.name === 'SecurityError') return 'MIDI access denied - check permissions';
+    if (err.name === 'AbortError') return 'MIDI access request was aborted';
+    return `MIDI error: ${err.message || 'Unknown error'}`;
+};
+
+// =============================================================================
+// INPUT DEVICES
+// =============================================================================
+
+/** Per-input routing settings */
+export interface MIDIInputSettings {
+    /** Disabled inputs are ignored entirely */
+    enabled: boolean;
+    /** Channels (1-16) to listen on, or null for all channels (omni) */
+    channels: number[] | null;
+}
+
+/** Snapshot of a port for device pickers */
+export interface MIDIPortInfo {
+    id: string;
+    name: string;
+    manufacturer: string | null;
+    state: MIDIPortDeviceState;
+}
+
+/** Input port snapshot including its routing settings */
+export interface MIDIInputInfo extends MIDIPortInfo, MIDIInputSettings {}
+
+/** Describe any port for display */
+export const getPortInfo = (port: MIDIPort): MIDIPortInfo => ({
+    id: port.id,
+    name: port.name || port.id,
+    manufacturer: port.manufacturer,
+    state: port.state,
+});
+
+const DEFAULT_INPUT_SETTINGS: MIDIInputSettings = { enabled: true, channels: null };
+
+const acceptsEvent = (settings: MIDIInputSettings, channel: number): boolean => {
+    if (!settings.enabled) return false;
+    return settings.channels === null || settings.channels.includes(channel);
+};
+
+// =============================================================================
+// SERVICE
+// =============================================================================
+
+export interface MIDISubscribeOptions {
+    /** Only deliver events from this input port */
+    deviceId?: string;
+}
+
+export interface MIDIService {
+    /** The underlying access object */
+    readonly access: MIDIAccess;
+
+    /** Listen for parsed input events. Returns an unsubscribe function. */
+    subscribe: (listener: MIDIEventListener, options?: MIDISubscribeOptions) => () => void;
+
+    /** Listen for port connection changes. Returns an unsubscribe function. */
+    subscribePorts: (listener: (event: MIDIConnectionEvent) => void) => () => void;
+
+    /** Listen for changes to the input device list or its settings */
+    subscribeDevices: (listener: (devices: MIDIInputInfo[]) => void) => () => void;
+
+    /** Currently known input ports */
+    getInputs: () => MIDIInput[];
+
+    /** Currently known output ports */
+    getOutputs: () => MIDIOutput[];
+
+    /** Currently known input ports with their routing settings */
+    getDevices: () => MIDIInputInfo[];
+
+    /**
+     * Enable/disable an input or change its channel filter.
+     * Notes held on the device that no longer pass the filter are released.
+     */
+    configureInput: (id: string, settings: Partial<MIDIInputSettings>) => void;
+
+    /** Detach all handlers from the access object and drop subscribers */
+    dispose: () => void;
+}
+
+/**
+ * Create a MIDI service bound to an access object.
+ * Attaches message handlers to every input, and to inputs that connect later.
+ * When an input disappears (or is filtered out) mid-chord, synthetic note-off
+ * and sustain-off events are dispatched so nothing stays stuck.
+ */
+export const createMIDIService = (access: MIDIAccess): MIDIService => {
+    const listeners = new Set<{ listener: MIDIEventListener; deviceId?: string }>();
+    const portListeners = new Set<(event: MIDIConnectionEvent) => void>();
+    const deviceListeners = new Set<(devices: MIDIInputInfo[]) => void>();
+    const settings = new Map<string, MIDIInputSettings>();
+
+    // What each device is currently holding, so it can be released on unplug
+    const heldNotes = new Map<string, Map<string, { channel: number; note: number }>>();
+    const heldSustain = new Map<string, Set<number>>();
+
+    const getSettings = (id: string): MIDIInputSettings => settings.get(id) ?? DEFAULT_INPUT_SETTINGS;
+
+    const dispatch = (event: MIDIEvent) => {
+        listeners.forEach((entry) => {
+            if (entry.deviceId && entry.deviceId !== event.deviceId) return;
+            entry.listener(event);
+        });
+    };
+
+    const trackHeld = (event: MIDIEvent) => {
+        if (event.type === 'noteOn' || event.type === 'noteOff') {
+            const notes = heldNotes.get(event.deviceId) ?? new Map();
+            const key = `${event.channel}:${event.note}`;
+            if (event.type === 'noteOn') notes.set(key, { channel: event.channel, note: event.note });
+            else notes.delete(key);
+            heldNotes.set(event.deviceId, notes);
+        } else if (event.type === 'controlChange' && event.controller === CC_SUSTAIN) {
+            const channels = heldSustain.get(event.deviceId) ?? new Set();
+            if (event.value >= 64) channels.add(event.channel);
+            else channels.delete(event.channel);
+            heldSustain.set(event.deviceId, channels);
+        }
+    };
+
+    /** Release held notes/pedals on a device whose channel no longer passes `keep` */
+    const releaseHeld = (deviceId: string, keep: (channel: number) => boolean) => {
+        const timestamp = performance.now();
+        const notes = heldNotes.get(deviceId);
+        notes?.forEach(({ channel, note }, key) => {
+            if (keep(channel)) return;
+            notes.delete(key);
+            dispatch({ type: 'noteOff', note, velocity: 0, channel, deviceId, timestamp });
+        });
+        const sustained = heldSustain.get(deviceId);
+        sustained?.forEach((channel) => {
+            if (keep(channel)) return;
+            sustained.delete(channel);
+            dispatch({ type: 'controlChange', controller: CC_SUSTAIN, value: 0, channel, deviceId, timestamp });
+        });
+    };
+
+    const attach = (input: MIDIInput) => {
+        input.onmidimessage = (msg: MIDIMessageEvent) => {
+            const timestamp = typeof msg.timeStamp === 'number' ? msg.timeStamp : performance.now();
+            const event = parseMIDIMessage(msg.data, input.id, timestamp);
+            if (!event || !acceptsEvent(getSettings(input.id), event.channel)) return;
+            trackHeld(event);
+            dispatch(event);
+        };
+    };
+
+    const getInputs = (): MIDIInput[] => Array.from(access.inputs.values());
+
+    const getOutputs = (): MIDIOutput[] => Array.from(access.outputs.values());
+
+    const getDevices = (): MIDIInputInfo[] => getInputs().map((input) => ({
+        ...getPortInfo(input),
+        ...getSettings(input.id),
+    }));
+
+    const notifyDevices = () => {
+        const devices = getDevices();
+        deviceListeners.forEach((listener) => listener(devices));
+    };
+
+    getInputs().forEach(attach);
+
+    access.onstatechange = (e: MIDIConnectionEvent) => {
+        if (!e.port) return;
+        if (e.port.type === 'input') {
+            if (e.port.state === 'connected') {
+                attach(e.port);
+            } else {
+                releaseHeld(e.port.id, () => false);
+            }
+            notifyDevices();
+        }
+        portListeners.forEach((listener) => listener(e));
+    };
+
+    return {
+        access,
+
+        subscribe: (listener, options = {}) => {
+            const entry = { listener, deviceId: options.deviceId };
+            listeners.add(entry);
+            return () => {
+                listeners.delete(entry);
+            };
+        },
+
+        subscribePorts: (listener) => {
+            portListeners.add(listener);
+            return () => {
+                portListeners.delete(listener);
+            };
+        },
+
+        subscribeDevices: (listener) => {
+            deviceListeners.add(listener);
+            return () => {
+                deviceListeners.delete(listener);
+            };
+        },
+
+        getInputs,
+        getOutputs,
+        getDevices,
+
+        configureInput: (id, update) => {
+            const next = { ...getSettings(id), ...update };
+            settings.set(id, next);
+            releaseHeld(id, (channel) => acceptsEvent(next, channel));
+            notifyDevices();
+        },
+
+        dispose: () => {
+            listeners.clear();
+            portListeners.clear();
+            deviceListeners.clear();
+            access.onstatechange = null;
+            getInputs().forEach((input) => {
+                input.onmidimessage = null;
+            });
+        },
+    };
+};
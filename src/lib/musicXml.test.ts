@@ -0,0 +1,406 @@
+/**
+ * Tests for writing sequences as MusicXML: the whole document for a small
+ * sequence, then the pieces that vary — ties over bar lines, chord symbols,
+ * hand tracks and spelling. Then reading lead sheets back into cards.
+ */
+
+import { describe, it, expect } from 'vitest';
+import { musicXmlToSequence, readMusicXml, writeMusicXml } from './musicXml';
+import { analyzeChord } from './chordAnalysis';
+import { createCard, createRestCard, createSequence } from '../types';
+import type { Card, Sequence } from '../types';
+
+const chord = (notes: number[], duration: Card['duration'], overrides?: Record<number, string>): Card => ({
+    ...createCard(notes, duration, analyzeChord(notes) ?? undefined),
+    ...(overrides && { enharmonicOverrides: overrides }),
+});
+
+const sequenceOf = (cards: Card[], changes: Partial<Sequence> = {}): Sequence => ({
+    ...createSequence('Test'),
+    tracks: { master: cards },
+    ...changes,
+});
+
+/** The elements between `<measure number="n">` and its close */
+const measureXml = (xml: string, number: number): string => {
+    const start = xml.indexOf(`<measure number="${number}">`);
+    return xml.slice(start, xml.indexOf('</measure>', start));
+};
+
+/** Count of non-overlapping matches of `text` */
+const count = (xml: string, text: string): number => xml.split(text).length - 1;
+
+describe('writeMusicXml', () => {
+    it('writes a whole document for one chord across both staves', () => {
+        const sequence = sequenceOf([chord([48, 64, 67], 'w')], { name: 'Song & Dance', keySignature: 'G', tempo: 96 });
+
+        expect(writeMusicXml(sequence)).toBe(`<?xml version="1.0" encoding="UTF-8"?>
+<!DOCTYPE score-partwise PUBLIC "-//Recordare//DTD MusicXML 4.0 Partwise//EN" "http://www.musicxml.org/dtds/partwise.dtd">
+<score-partwise version="4.0">
+  <work>
+    <work-title>Song &amp; Dance</work-title>
+  </work>
+  <part-list>
+    <score-part id="P1">
+      <part-name>Piano</part-name>
+    </score-part>
+  </part-list>
+  <part id="P1">
+    <measure number="1">
+      <attributes>
+        <divisions>480</divisions>
+        <key>
+          <fifths>1</fifths>
+        </key>
+        <time>
+          <beats>4</beats>
+          <beat-type>4</beat-type>
+        </time>
+        <staves>2</staves>
+        <clef number="1">
+          <sign>G</sign>
+          <line>2</line>
+        </clef>
+        <clef number="2">
+          <sign>F</sign>
+          <line>4</line>
+        </clef>
+      </attributes>
+      <direction placement="above">
+        <direction-type>
+          <metronome>
+            <beat-unit>quarter</beat-unit>
+            <per-minute>96</per-minute>
+          </metronome>
+        </direction-type>
+        <sound tempo="96"/>
+      </direction>
+      <harmony>
+        <root>
+          <root-step>C</root-step>
+        </root>
+        <kind text="">major</kind>
+      </harmony>
+      <note>
+        <pitch>
+          <step>E</step>
+          <octave>4</octave>
+        </pitch>
+        <duration>1920</duration>
+        <voice>1</voice>
+        <type>whole</type>
+        <staff>1</staff>
+      </note>
+      <note>
+        <chord/>
+        <pitch>
+          <step>G</step>
+          <octave>4</octave>
+        </pitch>
+        <duration>1920</duration>
+        <voice>1</voice>
+        <type>whole</type>
+        <staff>1</staff>
+      </note>
+      <backup>
+        <duration>1920</duration>
+      </backup>
+      <note>
+        <pitch>
+          <step>C</step>
+          <octave>3</octave>
+        </pitch>
+        <duration>1920</duration>
+        <voice>2</voice>
+        <type>whole</type>
+        <staff>2</staff>
+      </note>
+      <barline location="right">
+        <bar-style>light-heavy</bar-style>
+      </barline>
+    </measure>
+  </part>
+</score-partwise>
+`);
+    });
+
+    it('ties a card across the bar line and names its chord only once', () => {
+        const xml = writeMusicXml(sequenceOf([
+            chord([60, 64, 67], 'h'),
+            chord([65, 69, 72], 'w'),
+            createRestCard('h'),
+        ]));
+
+        const first = measureXml(xml, 1);
+        const second = measureXml(xml, 2);
+        expect(count(first, '<harmony>')).toBe(2);
+        expect(count(second, '<harmony>')).toBe(0);
+        expect(count(first, '<tie type="start"/>')).toBe(3);
+        expect(count(first, '<tied type="start"/>')).toBe(3);
+        expect(count(second, '<tie type="stop"/>')).toBe(3);
+        expect(second).toContain('<rest/>');
+        expect(count(xml, '<barline')).toBe(1);
+    });
+
+    it('writes dots and tuplets with their sounding duration', () => {
+        const xml = writeMusicXml(sequenceOf([
+            chord([60], 'qd'),
+            chord([62], '8'),
+            chord([64], '8t3'),
+            chord([65], '8t3'),
+            chord([67], '8t3'),
+            createRestCard('q'),
+        ]));
+
+        expect(xml).toContain('<duration>720</duration>');
+        expect(xml).toContain('<type>quarter</type>\n        <dot/>');
+        // Three triplet notes on the treble staff, three triplet rests on the bass
+        expect(count(xml, '<duration>160</duration>')).toBe(6);
+        expect(count(xml, '<actual-notes>3</actual-notes>')).toBe(6);
+        expect(xml).toContain('<normal-notes>2</normal-notes>');
+    });
+
+    it('writes slash chords, alterations and added tones as harmony', () => {
+        const xml = writeMusicXml(sequenceOf([
+            chord([52, 60, 67], 'q'),
+            chord([55, 59, 65, 70], 'q'),
+            chord([58, 62, 65, 69], 'h'),
+        ], { keySignature: 'F' }));
+
+        expect(xml).toContain([
+            '<harmony>',
+            '        <root>',
+            '          <root-step>C</root-step>',
+            '        </root>',
+            '        <kind text="">major</kind>',
+            '        <bass>',
+            '          <bass-step>E</bass-step>',
+            '        </bass>',
+            '      </harmony>',
+        ].join('\n'));
+        expect(xml).toContain('<kind text="7#9">dominant</kind>');
+        expect(xml).toContain([
+            '<degree>',
+            '          <degree-value>9</degree-value>',
+            '          <degree-alter>1</degree-alter>',
+            '          <degree-type>add</degree-type>',
+            '        </degree>',
+        ].join('\n'));
+        expect(xml).toContain('<root-step>B</root-step>\n          <root-alter>-1</root-alter>');
+        expect(xml).toContain('<kind text="Maj7">major-seventh</kind>');
+    });
+
+    it('leaves unnamed clusters without a chord symbol', () => {
+        const cluster = createCard([60, 61, 62], 'w', {
+            root: 'C',
+            quality: '',
+            bass: 'C',
+            display: 'C C# D',
+            intervals: [0, 1, 2],
+            detectedRootPitchClass: 0,
+        });
+
+        expect(writeMusicXml(sequenceOf([cluster]))).not.toContain('<harmony>');
+    });
+
+    it('spells notes as the staff does, overrides included', () => {
+        const xml = writeMusicXml(sequenceOf([chord([63, 67, 70], 'w', { 63: 'D#' })], { keySignature: 'Bb' }));
+
+        expect(xml).toContain('<step>D</step>\n          <alter>1</alter>\n          <octave>4</octave>');
+        expect(xml).toContain('<root-step>D</root-step>\n          <root-alter>1</root-alter>');
+        expect(xml).toContain('<fifths>-2</fifths>');
+    });
+
+    it('names the chord as the key spells the notes under it', () => {
+        const xml = writeMusicXml(sequenceOf([chord([63, 67, 70, 73], 'w')], { keySignature: 'E' }));
+
+        expect(measureXml(xml, 1)).toContain(`<harmony>
+        <root>
+          <root-step>D</root-step>
+          <root-alter>1</root-alter>
+        </root>
+        <kind text="7">dominant</kind>
+      </harmony>
+      <note>
+        <pitch>
+          <step>D</step>
+          <alter>1</alter>
+          <octave>4</octave>
+        </pitch>`);
+        expect(xml).toContain('<step>F</step>\n          <alter>2</alter>');
+    });
+
+    it('puts hand tracks on their staves and rests a staff whose track has ended', () => {
+        const xml = writeMusicXml({
+            ...createSequence('Hands'),
+            timeSignature: [3, 4],
+            tracks: {
+                rightHand: [chord([72], 'hd'), chord([74], 'hd')],
+                leftHand: [chord([48], 'hd')],
+            },
+        });
+
+        const second = measureXml(xml, 2);
+        expect(measureXml(xml, 1)).toContain('<step>C</step>\n          <octave>3</octave>');
+        expect(second).toContain('<step>D</step>\n          <octave>5</octave>');
+        expect(second).toContain([
+            '<note>',
+            '        <rest measure="yes"/>',
+            '        <duration>1440</duration>',
+            '        <voice>2</voice>',
+            '        <staff>2</staff>',
+            '      </note>',
+        ].join('\n'));
+    });
+
+    it('writes an empty sequence as one measure of rest on each staff', () => {
+        const xml = writeMusicXml(createSequence('Empty'));
+
+        expect(count(xml, '<measure ')).toBe(1);
+        expect(count(xml, '<rest measure="yes"/>')).toBe(2);
+    });
+});
+
+// =============================================================================
+// READING
+// =============================================================================
+
+const score = (measures: string, attributes = '<divisions>2</divisions><time><beats>4</beats><beat-type>4</beat-type></time>') => `<?xml version="1.0" encoding="UTF-8"?>
+<!DOCTYPE score-partwise PUBLIC "-//Recordare//DTD MusicXML 4.0 Partwise//EN" "http://www.musicxml.org/dtds/partwise.dtd">
+<score-partwise version="4.0">
+  <movement-title>Lead Sheet</movement-title>
+  <part-list><score-part id="P1"><part-name>Voice</part-name></score-part></part-list>
+  <part id="P1">
+    <measure number="1"><attributes>${attributes}</attributes>${measures}
+  </part>
+</score-partwise>`;
+
+const note = (step: string, octave: number, duration: number, extra = '') =>
+    `<note><pitch><step>${step}</step><octave>${octave}</octave></pitch><duration>${duration}</duration>${extra}</note>`;
+
+const harmony = (root: string, kind: string, extra = '') =>
+    `<harmony><root><root-step>${root[0]}</root-step>${root[1] === 'b' ? '<root-alter>-1</root-alter>' : ''}</root>`
+    + `<kind>${kind}</kind>${extra}</harmony>`;
+
+/** Each card as its notes (or "rest") and duration */
+const describeCards = (sequence: Sequence) =>
+    sequence.tracks.master.map((card) => `${card.isRest ? 'rest' : card.notes.join(',')} ${card.duration}`);
+
+describe('readMusicXml', () => {
+    it('reads notes, ties, chord symbols, tempo and signatures', () => {
+        const read = readMusicXml(score(`
+      <direction><direction-type><metronome><beat-unit>half</beat-unit><per-minute>60</per-minute></metronome></direction-type></direction>
+      ${harmony('Bb', 'major-seventh')}
+      ${note('D', 4, 4)}
+      ${harmony('E', 'dominant', '<offset>2</offset><bass><bass-step>G</bass-step><bass-alter>1</bass-alter></bass>')}
+      ${note('F', 4, 4, '<tie type="start"/>')}
+    </measure>
+    <measure number="2">
+      ${note('F', 4, 2, '<tie type="stop"/>')}
+      <note><rest/><duration>6</duration></note>
+    </measure>`, '<divisions>2</divisions><key><fifths>-2</fifths></key><time><beats>4</beats><beat-type>4</beat-type></time>'));
+
+        expect(read.title).toBe('Lead Sheet');
+        expect(read.tempo).toBe(120);
+        expect(read.timeSignature).toEqual([4, 4]);
+        expect(read.keySignature).toBe('Bb');
+        expect(read.measures).toEqual([1920, 1920]);
+        expect(read.notes).toEqual([
+            { note: 62, tick: 0, length: 960 },
+            { note: 65, tick: 960, length: 1440 },
+        ]);
+        expect(read.harmonies).toEqual([
+            { tick: 0, root: 'Bb', kind: 'major-seventh', degrees: [] },
+            { tick: 1440, root: 'E', kind: 'dominant', bass: 'G#', degrees: [] },
+        ]);
+    });
+
+    it('stacks chord notes and follows backup and forward between voices', () => {
+        const read = readMusicXml(score(`
+      ${note('C', 4, 8)}
+      ${note('E', 4, 8, '<chord/>')}
+      <backup><duration>8</duration></backup>
+      <forward><duration>4</duration></forward>
+      ${note('G', 3, 4)}
+      <note><grace/><pitch><step>A</step><octave>3</octave></pitch></note>
+    </measure>`));
+
+        expect(read.notes).toEqual([
+            { note: 60, tick: 0, length: 1920 },
+            { note: 64, tick: 0, length: 1920 },
+            { note: 55, tick: 960, length: 960 },
+        ]);
+    });
+
+    it('refuses documents that are not partwise scores', () => {
+        expect(() => readMusicXml('<score-timewise/>')).toThrow('Timewise MusicXML scores aren\'t supported');
+        expect(() => readMusicXml('<svg/>')).toThrow('Not a MusicXML score');
+        expect(() => readMusicXml('<score-partwise/>')).toThrow('The score has no parts');
+        expect(() => readMusicXml('<score-partwise><part>')).toThrow('Unclosed <part>');
+    });
+});
+
+describe('musicXmlToSequence', () => {
+    it('voices chord symbols that have only a melody under them', () => {
+        const sequence = musicXmlToSequence(readMusicXml(score(`
+      ${harmony('D', 'minor-seventh')}
+      ${note('F', 5, 4)}
+      ${harmony('G', 'dominant')}
+      ${note('B', 4, 4)}
+    </measure>
+    <measure number="2">
+      ${harmony('C', 'major-seventh')}
+      ${note('E', 5, 8)}
+    </measure>`)));
+
+        expect(describeCards(sequence)).toEqual(['50,53,57,60 h', '55,59,62,65 h', '48,52,55,59 w']);
+        expect(sequence.tracks.master.map((card) => card.analysis?.display)).toEqual(['Dmin7', 'G7', 'CMaj7']);
+        expect(sequence.name).toBe('Lead Sheet');
+    });
+
+    it('keeps written chords and the symbol\'s spelling, bass and alterations', () => {
+        const sequence = musicXmlToSequence(readMusicXml(score(`
+      ${harmony('C', 'major')}
+      ${note('C', 4, 2)}
+      ${note('E', 4, 2, '<chord/>')}
+      ${note('G', 4, 2, '<chord/>')}
+      ${note('A', 4, 2)}
+      ${note('C', 5, 2, '<chord/>')}
+      ${harmony('Bb', 'dominant', '<bass><bass-step>D</bass-step></bass><degree><degree-value>9</degree-value><degree-alter>1</degree-alter><degree-type>add</degree-type></degree>')}
+      ${note('D', 5, 4)}
+    </measure>`)), { register: 60 });
+
+        expect(describeCards(sequence)).toEqual(['60,64,67 q', '69,72 q', '50,70,73,74,77,80 h']);
+        expect(sequence.tracks.master[2].analysis).toMatchObject({ root: 'Bb', quality: '7#9', bass: 'D', display: 'Bb7#9/D' });
+    });
+
+    it('pads a pickup, takes notes before the first symbol as written and rests for N.C.', () => {
+        const sequence = musicXmlToSequence(readMusicXml(score(`
+      ${note('G', 4, 2)}
+    </measure>
+    <measure number="2">
+      ${harmony('C', 'major')}
+      ${note('E', 4, 6)}
+      <harmony><root><root-step>C</root-step></root><kind>none</kind></harmony>
+      <note><rest/><duration>2</duration></note>
+    </measure>`)), { name: 'Unused' });
+
+        expect(describeCards(sequence)).toEqual(['rest hd', '67 q', '48,52,55 hd', 'rest q']);
+    });
+
+    it('reads back a written sequence with its durations, measures and tempo', () => {
+        const written = sequenceOf([
+            chord([60, 64, 67], 'hd'),
+            chord([62, 65, 69], 'h'),
+            createRestCard('q'),
+            chord([59, 62, 67], '8t3'),
+            chord([60, 64, 67], '8t3'),
+            chord([62, 65, 71], '8t3'),
+            chord([60, 67, 76], 'h'),
+        ], { tempo: 84, timeSignature: [3, 4], keySignature: 'D' });
+        const read = musicXmlToSequence(readMusicXml(writeMusicXml(written)));
+
+        expect(read).toMatchObject({ name: 'Test', tempo: 84, timeSignature: [3, 4], keySignature: 'D' });
+        expect(describeCards(read)).toEqual(describeCards(written));
+    });
+});
@@ -0,0 +1,637 @@
+/**
+ * MusicXML
+ *
+ * Writes a sequence as a MusicXML 4.0 partwise score for notation
+ * software: one piano part on a grand staff, barred by the time signature,
+ * with every note spelled as the staff spells it, chord symbols as
+ * `<harmony>`, and the tempo. Cards that cross a bar line are written as
+ * tied notes, the same pieces StaffRenderer draws.
+ *
+ * Reads partwise scores back, lead sheets especially: the notes, the chord
+ * symbols, tempo, time and key signature, turned into chord cards with a
+ * voicing for every symbol that has no chord written under it.
+ */
+
+import { DURATION_INFO, MASTER_TRACK, PPQ, createCard, createRestCard, createSequence } from '../types';
+import type { BaseDuration, Card, ChordAnalysis, Duration, Sequence, TimeSignature } from '../types';
+import { analyzeChord } from './chordAnalysis';
+import { voiceChordSymbol } from './chordSymbols';
+import { durationsForTicks } from './durations';
+import { chordSymbolParts } from './harmony';
+import { chordDisplay, keyFifths, keyWithFifths, parseName, spellNotes, spelledPitch } from './spelling';
+import { groupMeasures } from './staffLayout';
+import type { Measure, MeasureEntry } from './staffLayout';
+import { ticksPerMeasure } from './timeline';
+import { grandStaffCards, grandStaffTracks, trackIds } from './tracks';
+import type { StaffCards } from './tracks';
+import { childElement, childElements, parseXml, textOf, writeXml, xmlElement } from './xml';
+import type { XmlElement } from './xml';
+
+// =============================================================================
+// HARMONY
+// =============================================================================
+
+/** A chord tone added to, altered in or taken from a chord's kind */
+export type HarmonyDegree = [value: number, alter: number, type: 'add' | 'alter' | 'subtract'];
+
+interface HarmonyKind {
+    kind: string;
+    degrees?: HarmonyDegree[];
+}
+
+/**
+ * Our chord qualities as MusicXML kinds, with the degrees the kind leaves
+ * out. Added degrees are measured from a dominant chord, so an added 7
+ * is a minor seventh.
+ */
+const HARMONY_KINDS: Record<string, HarmonyKind> = {
+    '': { kind: 'major' },
+    'm': { kind: 'minor' },
+    'dim': { kind: 'diminished' },
+    'aug': { kind: 'augmented' },
+    'sus2': { kind: 'suspended-second' },
+    'sus4': { kind: 'suspended-fourth' },
+    '5': { kind: 'power' },
+    '(#11)': { kind: 'major', degrees: [[5, 0, 'subtract'], [11, 1, 'add']] },
+    '(b5)': { kind: 'major', degrees: [[5, -1, 'alter']] },
+    '(add b3)': { kind: 'major', degrees: [[3, -1, 'add']] },
+    'm(add 3)': { kind: 'minor', degrees: [[3, 0, 'add']] },
+    '6': { kind: 'major-sixth' },
+    'min6': { kind: 'minor-sixth' },
+    '6/9': { kind: 'major-sixth', degrees: [[9, 0, 'add']] },
+    'min6/9': { kind: 'minor-sixth', degrees: [[9, 0, 'add']] },
+    'add9': { kind: 'major', degrees: [[9, 0, 'add']] },
+    'madd9': { kind: 'minor', degrees: [[9, 0, 'add']] },
+    'add11': { kind: 'major', degrees: [[11, 0, 'add']] },
+    'madd11': { kind: 'minor', degrees: [[11, 0, 'add']] },
+    'add#11': { kind: 'major', degrees: [[11, 1, 'add']] },
+    'add#9': { kind: 'major', degrees: [[9, 1, 'add']] },
+    'Maj7': { kind: 'major-seventh' },
+    'min7': { kind: 'minor-seventh' },
+    '7': { kind: 'dominant' },
+    'dim7': { kind: 'diminished-seventh' },
+    'm7b5': { kind: 'half-diminished' },
+    'minMaj7': { kind: 'major-minor' },
+    'Maj7#5': { kind: 'major-seventh', degrees: [[5, 1, 'alter']] },
+    '7#5': { kind: 'augmented-seventh' },
+    '7b5': { kind: 'dominant', degrees: [[5, -1, 'alter']] },
+    '7sus4': { kind: 'suspended-fourth', degrees: [[7, 0, 'add']] },
+    '7sus2': { kind: 'suspended-second', degrees: [[7, 0, 'add']] },
+    'Maj7sus4': { kind: 'suspended-fourth', degrees: [[7, 1, 'add']] },
+    'Maj7sus2': { kind: 'suspended-second', degrees: [[7, 1, 'add']] },
+    'Maj7#11': { kind: 'major-seventh', degrees: [[11, 1, 'add']] },
+    '7#11': { kind: 'dominant', degrees: [[11, 1, 'add']] },
+    'Maj7#9': { kind: 'major-seventh', degrees: [[9, 1, 'add']] },
+    '7#9': { kind: 'dominant', degrees: [[9, 1, 'add']] },
+    '7b9': { kind: 'dominant', degrees: [[9, -1, 'add']] },
+    '7#5#9': { kind: 'augmented-seventh', degrees: [[9, 1, 'add']] },
+    '7#5b9': { kind: 'augmented-seventh', degrees: [[9, -1, 'add']] },
+    '7b5b9': { kind: 'dominant', degrees: [[5, -1, 'alter'], [9, -1, 'add']] },
+    '7b5#9': { kind: 'dominant', degrees: [[5, -1, 'alter'], [9, 1, 'add']] },
+    '7b13': { kind: 'dominant', degrees: [[13, -1, 'add']] },
+    '7b9#11': { kind: 'dominant', degrees: [[9, -1, 'add'], [11, 1, 'add']] },
+    '7#9#11': { kind: 'dominant', degrees: [[9, 1, 'add'], [11, 1, 'add']] },
+    '7b9b13': { kind: 'dominant', degrees: [[9, -1, 'add'], [13, -1, 'add']] },
+    '7#9b13': { kind: 'dominant', degrees: [[9, 1, 'add'], [13, -1, 'add']] },
+    '7alt': { kind: 'dominant', degrees: [[5, -1, 'alter'], [9, -1, 'add'], [9, 1, 'add']] },
+    'm9b5': { kind: 'half-diminished', degrees: [[9, 0, 'add']] },
+    'm11b5': { kind: 'half-diminished', degrees: [[9, 0, 'add'], [11, 0, 'add']] },
+    'm7b5(11)': { kind: 'half-diminished', degrees: [[11, 0, 'add']] },
+    'Maj9': { kind: 'major-ninth' },
+    '9': { kind: 'dominant-ninth' },
+    'min9': { kind: 'minor-ninth' },
+    'minMaj9': { kind: 'major-minor', degrees: [[9, 0, 'add']] },
+    '9sus4': { kind: 'suspended-fourth', degrees: [[7, 0, 'add'], [9, 0, 'add']] },
+    'Maj9#11': { kind: 'major-ninth', degrees: [[11, 1, 'add']] },
+    '9#11': { kind: 'dominant-ninth', degrees: [[11, 1, 'add']] },
+    'Maj11': { kind: 'major-11th' },
+    '11': { kind: 'dominant-11th' },
+    'min11': { kind: 'minor-11th' },
+    'Maj13': { kind: 'major-13th' },
+    '13': { kind: 'dominant-13th' },
+    'min13': { kind: 'minor-13th' },
+    '13sus4': { kind: 'suspended-fourth', degrees: [[7, 0, 'add'], [9, 0, 'add'], [13, 0, 'add']] },
+    '13b9': { kind: 'dominant-13th', degrees: [[9, -1, 'alter']] },
+    '13#9': { kind: 'dominant-13th', degrees: [[9, 1, 'alter']] },
+    '13#11': { kind: 'dominant-13th', degrees: [[11, 1, 'alter']] },
+};
+
+/** A root or bass as its step and alter elements, e.g. `root-step` and `root-alter` */
+const stepElements = (prefix: string, name: string): XmlElement[] => {
+    const parsed = parseName(name);
+    if (!parsed) return [];
+    return [
+        xmlElement(`${prefix}-step`, [parsed.letter]),
+        ...(parsed.alteration !== 0 ? [xmlElement(`${prefix}-alter`, [parsed.alteration])] : []),
+    ];
+};
+
+/**
+ * The chord symbol of an analysed card, spelled as the staff labels it and
+ * its notes (D#7 over D# F## A# C# in E major). Null for a cluster with no
+ * chord name (its display is a list of notes).
+ */
+const harmonyElement = (card: Card, analysis: ChordAnalysis, keySignature: string): XmlElement | null => {
+    const display = chordDisplay(card.notes, analysis, card.enharmonicOverrides, keySignature);
+    const { root, quality, extensions, bass } = chordSymbolParts(display);
+    const unnamed = analysis.quality === '' && /\s/.test(display.replace(/\s*\(rootless\)/, ''));
+    if (unnamed || !parseName(root)) return null;
+
+    const { kind, degrees = [] } = HARMONY_KINDS[analysis.quality] ?? { kind: 'other' };
+    return xmlElement('harmony', [
+        xmlElement('root', stepElements('root', root)),
+        xmlElement('kind', [kind], { text: quality + extensions }),
+        bass && xmlElement('bass', stepElements('bass', bass)),
+        ...degrees.map(([value, alter, type]) => xmlElement('degree', [
+            xmlElement('degree-value', [value]),
+            xmlElement('degree-alter', [alter]),
+            xmlElement('degree-type', [type]),
+        ])),
+    ]);
+};
+
+// =============================================================================
+// NOTES
+// =============================================================================
+
+const NOTE_TYPES: Record<BaseDuration, string> = {
+    w: 'whole',
+    h: 'half',
+    q: 'quarter',
+    '8': 'eighth',
+    '16': '16th',
+    '32': '32nd',
+};
+
+const CLEFS = [
+    { sign: 'G', line: 2, hand: 'treble' },
+    { sign: 'F', line: 4, hand: 'bass' },
+] as const;
+
+/** Written value of a piece: type, dots and any tuplet ratio */
+const durationElements = (duration: Duration) => {
+    const { base, dots, tuplet } = DURATION_INFO[duration];
+    return {
+        type: xmlElement('type', [NOTE_TYPES[base]]),
+        dots: Array.from({ length: dots }, () => xmlElement('dot')),
+        timeModification: tuplet && xmlElement('time-modification', [
+            xmlElement('actual-notes', [tuplet.notes]),
+            xmlElement('normal-notes', [tuplet.inSpaceOf]),
+        ]),
+    };
+};
+
+/**
+ * One piece of a card on one staff: a chord of notes, or a rest when the
+ * staff has none of the card's notes. Staff 1 is voice 1, staff 2 voice 2.
+ */
+const pieceElements = (entry: MeasureEntry, hands: StaffCards['hands'], staff: number, keySignature: string) => {
+    const { card, cardIndex, duration, tiedFromPrevious, tiesToNext } = entry;
+    const { type, dots, timeModification } = durationElements(duration);
+    const common = (content: XmlElement[], chord: boolean, ties: XmlElement[], tied: XmlElement[]) => xmlElement('note', [
+        chord && xmlElement('chord'),
+        ...content,
+        xmlElement('duration', [DURATION_INFO[duration].ppq]),
+        ...ties,
+        xmlElement('voice', [staff]),
+        type,
+        ...dots,
+        timeModification,
+        xmlElement('staff', [staff]),
+        tied.length > 0 && xmlElement('notations', tied),
+    ]);
+
+    const notes = card.isRest ? [] : hands[cardIndex][CLEFS[staff - 1].hand];
+    if (notes.length === 0) return [common([xmlElement('rest')], false, [], [])];
+
+    // Spell against the whole card, as the staff does, so chord tones read alike on both staves
+    const sorted = [...card.notes].sort((a, b) => a - b);
+    const names = spellNotes(sorted, {
+        analysis: card.analysis,
+        enharmonicOverrides: card.enharmonicOverrides,
+        keySignature,
+    });
+    const tieTypes = [...(tiedFromPrevious ? ['stop'] : []), ...(tiesToNext ? ['start'] : [])];
+    return notes.map((midi, i) => {
+        const { letter, alteration, octave } = spelledPitch(midi, names[sorted.indexOf(midi)]);
+        const pitch = xmlElement('pitch', [
+            xmlElement('step', [letter]),
+            alteration !== 0 && xmlElement('alter', [alteration]),
+            xmlElement('octave', [octave]),
+        ]);
+        return common(
+            [pitch],
+            i > 0,
+            tieTypes.map((tieType) => xmlElement('tie', [], { type: tieType })),
+            tieTypes.map((tieType) => xmlElement('tied', [], { type: tieType }))
+        );
+    });
+};
+
+/** A staff's whole measure of rest, where its track has ended */
+const measureRest = (measureTicks: number, staff: number): XmlElement => xmlElement('note', [
+    xmlElement('rest', [], { measure: 'yes' }),
+    xmlElement('duration', [measureTicks]),
+    xmlElement('voice', [staff]),
+    xmlElement('staff', [staff]),
+]);
+
+// =============================================================================
+// WRITING
+// =============================================================================
+
+/**
+ * The sequence as a MusicXML 4.0 partwise document. The staves show what
+ * StaffRenderer shows for the sequence's first track: hand tracks each on
+ * their staff, otherwise the track split between the staves by register.
+ * Chord symbols come from the treble staff's cards.
+ */
+export const writeMusicXml = (sequence: Sequence): string => {
+    const { timeSignature, tempo, name } = sequence;
+    const keySignature = sequence.keySignature ?? 'C';
+    const layout = grandStaffTracks(trackIds(sequence)[0] ?? MASTER_TRACK);
+    const staves = grandStaffCards(sequence.tracks, layout, sequence.handSplitPoint);
+    const trebleMeasures = groupMeasures(staves[0].cards, timeSignature);
+    const staffMeasures: Measure[][] = [
+        trebleMeasures,
+        staves[1].cards === staves[0].cards ? trebleMeasures : groupMeasures(staves[1].cards, timeSignature),
+    ];
+    const measureTicks = ticksPerMeasure(timeSignature);
+    const count = Math.max(1, ...staffMeasures.map((measures) => measures.length));
+
+    const staffElements = (index: number, staff: number): { elements: XmlElement[]; ticks: number } => {
+        const measure = staffMeasures[staff - 1][index];
+        if (!measure || measure.entries.length === 0) return { elements: [measureRest(measureTicks, staff)], ticks: measureTicks };
+        const elements = measure.entries.flatMap((entry) => {
+            const { card } = entry;
+            const harmony = staff === 1 && !entry.tiedFromPrevious && !card.isRest && card.analysis
+                ? harmonyElement(card, card.analysis, keySignature)
+                : null;
+            return [...(harmony ? [harmony] : []), ...pieceElements(entry, staves[staff - 1].hands, staff, keySignature)];
+        });
+        return { elements, ticks: measure.filledTicks };
+    };
+
+    const measures = Array.from({ length: count }, (_, index) => {
+        const treble = staffElements(index, 1);
+        const bass = staffElements(index, 2);
+        return xmlElement('measure', [
+            index === 0 && xmlElement('attributes', [
+                xmlElement('divisions', [PPQ]),
+                xmlElement('key', [xmlElement('fifths', [keyFifths(keySignature)])]),
+                xmlElement('time', [
+                    xmlElement('beats', [timeSignature[0]]),
+                    xmlElement('beat-type', [timeSignature[1]]),
+                ]),
+                xmlElement('staves', [2]),
+                ...CLEFS.map(({ sign, line }, i) => xmlElement('clef', [
+                    xmlElement('sign', [sign]),
+                    xmlElement('line', [line]),
+                ], { number: i + 1 })),
+            ]),
+            index === 0 && xmlElement('direction', [
+                xmlElement('direction-type', [
+                    xmlElement('metronome', [
+                        xmlElement('beat-unit', ['quarter']),
+                        xmlElement('per-minute', [tempo]),
+                    ]),
+                ]),
+                xmlElement('sound', [], { tempo }),
+            ], { placement: 'above' }),
+            ...treble.elements,
+            xmlElement('backup', [xmlElement('duration', [treble.ticks])]),
+            ...bass.elements,
+            index === count - 1 && xmlElement('barline', [
+                xmlElement('bar-style', ['light-heavy']),
+            ], { location: 'right' }),
+        ], { number: index + 1 });
+    });
+
+    const score = xmlElement('score-partwise', [
+        xmlElement('work', [xmlElement('work-title', [name])]),
+        xmlElement('part-list', [
+            xmlElement('score-part', [xmlElement('part-name', ['Piano'])], { id: 'P1' }),
+        ]),
+        xmlElement('part', measures, { id: 'P1' }),
+    ], { version: '4.0' });
+
+    return writeXml(score, [
+        '<!DOCTYPE score-partwise PUBLIC "-//Recordare//DTD MusicXML 4.0 Partwise//EN" '
+            + '"http://www.musicxml.org/dtds/partwise.dtd">',
+    ]);
+};
+
+// =============================================================================
+// READING
+// =============================================================================
+
+/** A note read from a score, timed in ticks from the start of its first measure */
+export interface MusicXmlNote {
+    note: number;
+    tick: number;
+    /** Ticks it sounds, tied notes included */
+    length: number;
+}
+
+/** A chord symbol read from a score */
+export interface MusicXmlHarmony {
+    tick: number;
+    /** Root as written, e.g. "Bb" */
+    root: string;
+    /** MusicXML kind, e.g. "minor-seventh"; "none" for N.C. */
+    kind: string;
+    bass?: string;
+    degrees: HarmonyDegree[];
+}
+
+/** What a score holds that cards can use */
+export interface MusicXmlScore {
+    title?: string;
+    /** The score's first tempo, quarter notes per minute */
+    tempo?: number;
+    timeSignature?: TimeSignature;
+    /** Major key with the score's first key signature */
+    keySignature?: string;
+    /** Ticks in each measure of the first part; a pickup only as long as its notes */
+    measures: number[];
+    notes: MusicXmlNote[];
+    harmonies: MusicXmlHarmony[];
+}
+
+const STEP_PITCH_CLASSES: Record<string, number> = { C: 0, D: 2, E: 4, F: 5, G: 7, A: 9, B: 11 };
+
+/** Quarter notes in a metronome's beat unit */
+const BEAT_UNITS: Record<string, number> = { whole: 4, half: 2, quarter: 1, eighth: 0.5, '16th': 0.25 };
+
+const numberOf = (element: XmlElement | undefined): number | undefined => {
+    const value = parseFloat(textOf(element));
+    return Number.isFinite(value) ? value : undefined;
+};
+
+/** A note name from a step and alter, e.g. ("B", -1) to "Bb" */
+const stepName = (step: string, alter: number): string =>
+    step + (alter > 0 ? '#' : 'b').repeat(Math.abs(Math.round(alter)));
+
+/** Name of the `prefix-step` and `prefix-alter` pair in `element`, e.g. the root of a harmony */
+const stepNameIn = (element: XmlElement | undefined, prefix: string): string | undefined => {
+    const step = textOf(element && childElement(element, `${prefix}-step`));
+    if (!(step in STEP_PITCH_CLASSES)) return undefined;
+    return stepName(step, numberOf(childElement(element!, `${prefix}-alter`)) ?? 0);
+};
+
+/** Quarter notes per minute of a `<metronome>`, if it gives a plain beat unit */
+const metronomeTempo = (metronome: XmlElement): number | undefined => {
+    const perMinute = numberOf(childElement(metronome, 'per-minute'));
+    const unit = BEAT_UNITS[textOf(childElement(metronome, 'beat-unit'))];
+    if (!perMinute || !unit) return undefined;
+    return perMinute * unit * (2 - 1 / 2 ** childElements(metronome, 'beat-unit-dot').length);
+};
+
+const readHarmony = (harmony: XmlElement, tick: number): MusicXmlHarmony | null => {
+    const root = stepNameIn(childElement(harmony, 'root'), 'root');
+    const kind = textOf(childElement(harmony, 'kind')) || 'major';
+    // A harmony given only as a function or numeral has no root to voice
+    if (!root && kind !== 'none') return null;
+    const bass = stepNameIn(childElement(harmony, 'bass'), 'bass');
+    const degrees = childElements(harmony, 'degree').map((degree): HarmonyDegree => {
+        const type = textOf(childElement(degree, 'degree-type'));
+        return [
+            numberOf(childElement(degree, 'degree-value')) ?? 0,
+            numberOf(childElement(degree, 'degree-alter')) ?? 0,
+            type === 'alter' || type === 'subtract' ? type : 'add',
+        ];
+    });
+    return { tick, root: root ?? '', kind, ...(bass && { bass }), degrees };
+};
+
+/**
+ * Read one part's notes and chord symbols into `score`, measure by measure.
+ * The first part read lays out the measures; later ones follow it.
+ */
+const readPart = (part: XmlElement, score: MusicXmlScore, laysOutMeasures: boolean) => {
+    let divisions = 1;
+    let measureStart = 0;
+    // Latest note of each pitch, for a tie to carry on
+    const latest = new Map<number, MusicXmlNote>();
+
+    childElements(part, 'measure').forEach((measure, index) => {
+        let position = 0;
+        let end = 0;
+        let chordTick = 0;
+        const ticksOf = (element: XmlElement | undefined) =>
+            Math.round(((numberOf(element) ?? 0) * PPQ) / divisions);
+        const readSound = (sound: XmlElement | undefined) => {
+            const tempo = parseFloat(sound?.attributes.tempo ?? '');
+            if (score.tempo === undefined && tempo > 0) score.tempo = tempo;
+        };
+
+        measure.children.forEach((child) => {
+            if (typeof child === 'string') return;
+            switch (child.name) {
+                case 'attributes': {
+                    divisions = numberOf(childElement(child, 'divisions')) ?? divisions;
+                    const fifths = numberOf(childElement(childElement(child, 'key') ?? child, 'fifths'));
+                    if (score.keySignature === undefined && fifths !== undefined) score.keySignature = keyWithFifths(fifths);
+                    const time = childElement(child, 'time');
+                    const beats = Number(textOf(time && childElement(time, 'beats')));
+                    const beatType = Number(textOf(time && childElement(time, 'beat-type')));
+                    if (!score.timeSignature && beats > 0 && beatType > 0) score.timeSignature = [beats, beatType];
+                    break;
+                }
+                case 'direction': {
+                    const metronome = childElements(child, 'direction-type')
+                        .map((type) => childElement(type, 'metronome'))
+                        .find(Boolean);
+                    readSound(childElement(child, 'sound'));
+                    if (score.tempo === undefined && metronome) score.tempo = metronomeTempo(metronome);
+                    break;
+                }
+                case 'sound':
+                    readSound(child);
+                    break;
+                case 'harmony': {
+                    const harmony = readHarmony(child, measureStart + position + ticksOf(childElement(child, 'offset')));
+                    if (harmony) score.harmonies.push(harmony);
+                    break;
+                }
+                case 'backup':
+                    position -= ticksOf(childElement(child, 'duration'));
+                    break;
+                case 'forward':
+                    position += ticksOf(childElement(child, 'duration'));
+                    break;
+                case 'note': {
+                    // Grace and cue notes take no time of their own
+                    if (childElement(child, 'grace') || childElement(child, 'cue')) break;
+                    const length = ticksOf(childElement(child, 'duration'));
+                    if (!childElement(child, 'chord')) {
+                        chordTick = position;
+                        position += length;
+                    }
+                    const pitch = childElement(child, 'pitch');
+                    const step = textOf(pitch && childElement(pitch, 'step'));
+                    const octave = numberOf(pitch && childElement(pitch, 'octave'));
+                    if (!pitch || !(step in STEP_PITCH_CLASSES) || octave === undefined) break;
+
+                    const note = (octave + 1) * 12 + STEP_PITCH_CLASSES[step]
+                        + Math.round(numberOf(childElement(pitch, 'alter')) ?? 0);
+                    const tick = measureStart + chordTick;
+                    const previous = latest.get(note);
+                    const tiedOn = childElements(child, 'tie').some((tie) => tie.attributes.type === 'stop');
+                    // Ticks rounded from awkward divisions may miss by one
+                    if (tiedOn && previous && Math.abs(previous.tick + previous.length - tick) <= 1) {
+                        previous.length += length;
+                    } else {
+                        const read = { note, tick, length };
+                        score.notes.push(read);
+                        latest.set(note, read);
+                    }
+                    break;
+                }
+            }
+            end = Math.max(end, position);
+        });
+
+        if (laysOutMeasures) {
+            // An empty measure is a full bar of rest
+            score.measures.push(end > 0 ? end : ticksPerMeasure(score.timeSignature ?? [4, 4]));
+        }
+        measureStart += score.measures[index] ?? end;
+    });
+};
+
+/**
+ * Read a partwise MusicXML document. Every part's notes and chord symbols
+ * are read; tempo, time and key signature are the first the score gives.
+ * Throws for text that isn't a partwise score.
+ */
+export const readMusicXml = (text: string): MusicXmlScore => {
+    const root = parseXml(text);
+    if (root.name === 'score-timewise') throw new Error('Timewise MusicXML scores aren\'t supported');
+    if (root.name !== 'score-partwise') throw new Error(`Not a MusicXML score (the document is <${root.name}>)`);
+
+    const parts = childElements(root, 'part');
+    if (parts.length === 0) throw new Error('The score has no parts');
+    const work = childElement(root, 'work');
+    const title = textOf(work && childElement(work, 'work-title')) || textOf(childElement(root, 'movement-title'));
+    const score: MusicXmlScore = { ...(title && { title }), measures: [], notes: [], harmonies: [] };
+    parts.forEach((part, i) => readPart(part, score, i === 0));
+    return score;
+};
+
+// =============================================================================
+// IMPORTING
+// =============================================================================
+
+export interface MusicXmlImportOptions {
+    /** Lowest root of a voicing made from a chord symbol (slash basses go an octave below) */
+    register?: number;
+    /** Name for the sequence when the score has no title */
+    name?: string;
+}
+
+/** Kinds our table leaves out, as the chord each sounds like from its root */
+const OTHER_KIND_QUALITIES: Record<string, string> = {
+    Neapolitan: '',
+    Italian: '7',
+    French: '7b5',
+    German: '7',
+    Tristan: 'm7b5',
+    pedal: '5',
+};
+
+/** Degrees compared by value and alter; adding a tone and altering it read alike */
+const degreeKey = (degrees: HarmonyDegree[]): string =>
+    degrees.map(([value, alter, type]) => `${type === 'subtract' ? '-' : ''}${value}${alter}`).sort().join();
+
+/**
+ * Our quality for a kind and its degrees: the table entry that writes
+ * exactly those, else the kind's plain entry, so an alteration we have no
+ * pattern for is dropped rather than the chord.
+ */
+const harmonyQuality = (kind: string, degrees: HarmonyDegree[]): string => {
+    const entries = Object.entries(HARMONY_KINDS).filter(([, entry]) => entry.kind === kind);
+    const exact = entries.find(([, entry]) => degreeKey(entry.degrees ?? []) === degreeKey(degrees));
+    const plain = entries.find(([, entry]) => !entry.degrees);
+    return (exact ?? plain)?.[0] ?? OTHER_KIND_QUALITIES[kind] ?? '';
+};
+
+/**
+ * A chord symbol voiced by `voiceChordSymbol` with the root at or above
+ * `register`, and its analysis as the symbol names it. Null for N.C.
+ */
+const harmonyChord = (harmony: MusicXmlHarmony, register: number): { notes: number[]; analysis: ChordAnalysis } | null => {
+    if (harmony.kind === 'none' || !parseName(harmony.root)) return null;
+    const quality = harmonyQuality(harmony.kind, harmony.degrees);
+    return voiceChordSymbol({ root: harmony.root, quality, ...(harmony.bass && { bass: harmony.bass }) }, register);
+};
+
+/** Cards of the given notes that add up to `ticks` (rests when there are none) */
+const cardsFor = (notes: number[], ticks: number, analysis?: ChordAnalysis): Card[] =>
+    durationsForTicks(ticks).map((duration) =>
+        notes.length > 0 ? createCard(notes, duration, analysis) : createRestCard(duration)
+    );
+
+/**
+ * The notes written from `from` to `to` as cards: notes struck together
+ * are one card, held until the next strike or their release, with rests
+ * for the gaps.
+ */
+const writtenCards = (notes: MusicXmlNote[], from: number, to: number): Card[] => {
+    const struck = notes.filter((note) => note.tick >= from && note.tick < to);
+    const onsets = [...new Set(struck.map((note) => note.tick))].sort((a, b) => a - b);
+    const cards: Card[] = [];
+    let cursor = from;
+    onsets.forEach((onset, i) => {
+        const together = struck.filter((note) => note.tick === onset);
+        const release = Math.min(onsets[i + 1] ?? to, Math.max(...together.map((note) => note.tick + note.length)));
+        if (release <= onset) return;
+        const pitches = [...new Set(together.map((note) => note.note))].sort((a, b) => a - b);
+        cards.push(...cardsFor([], onset - cursor), ...cardsFor(pitches, release - onset, analyzeChord(pitches) ?? undefined));
+        cursor = release;
+    });
+    return [...cards, ...cardsFor([], to - cursor)];
+};
+
+/**
+ * Cards for a score, on the master track. Each chord symbol holds until
+ * the next: where chords (two or more notes struck together) are written
+ * under it they become the cards, otherwise the symbol's own voicing does,
+ * for as long as it holds; N.C. is a rest. Before the first symbol, or in
+ * a score without any, the notes are taken as written. A pickup is padded
+ * with rests to a full measure so the bar lines fall where the score has
+ * them. Spans that no single duration fits become several cards.
+ */
+export const musicXmlToSequence = (score: MusicXmlScore, { register = 48, name }: MusicXmlImportOptions = {}): Sequence => {
+    const base = createSequence(score.title ?? name ?? 'Imported');
+    const timeSignature = score.timeSignature ?? base.timeSignature;
+    const pickup = score.measures.length > 0 ? Math.max(0, ticksPerMeasure(timeSignature) - score.measures[0]) : 0;
+    const end = pickup + score.measures.reduce((sum, ticks) => sum + ticks, 0);
+    const notes = score.notes.map((note) => ({ ...note, tick: note.tick + pickup }));
+    // The last symbol written at a tick is the one that holds
+    const harmonies = [...new Map(score.harmonies.map((h) => [Math.max(0, h.tick + pickup), h])).entries()]
+        .sort(([a], [b]) => a - b)
+        .filter(([tick]) => tick < end);
+    const pitchesAt = new Map<number, Set<number>>();
+    notes.forEach((note) => pitchesAt.set(note.tick, (pitchesAt.get(note.tick) ?? new Set()).add(note.note)));
+    const chordTicks = [...pitchesAt].filter(([, pitches]) => pitches.size > 1).map(([tick]) => tick);
+
+    const cards = writtenCards(notes, 0, harmonies[0]?.[0] ?? end);
+    harmonies.forEach(([from, harmony], i) => {
+        const to = harmonies[i + 1]?.[0] ?? end;
+        if (chordTicks.some((tick) => tick >= from && tick < to)) {
+            cards.push(...writtenCards(notes, from, to));
+            return;
+        }
+        const chord = harmonyChord(harmony, register);
+        cards.push(...(chord ? cardsFor(chord.notes, to - from, chord.analysis) : cardsFor([], to - from)));
+    });
+
+    return {
+        ...base,
+        tempo: Math.round(score.tempo ?? base.tempo),
+        timeSignature,
+        ...(score.keySignature && { keySignature: score.keySignature }),
+        tracks: { [MASTER_TRACK]: cards },
+    };
+};
@@ -0,0 +1,47 @@
+/**
+ * Note Output
+ *
+ * The sink that playback, the virtual keyboard and training prompts send
+ * notes to. Implementations route to an external MIDI port or a built-in
+ * synth; callers don't care which.
+ */
+
+/** Anything that can sound notes */
+export interface NoteOutput {
+    /** Start a note. `time` is a performance.now() timestamp; omit to play immediately. */
+    noteOn: (note: number, velocity?: number, time?: number) => void;
+    /** Stop a note. `time` as for noteOn. */
+    noteOff: (note: number, time?: number) => void;
+    /** Panic: silence everything this output has started */
+    allNotesOff: () => void;
+}
+
+/** Velocity used when the source has none (virtual keyboard, prompts) */
+export const DEFAULT_VELOCITY = 100;
+
+/** Clamp a velocity to the valid 1-127 note-on range */
+export const clampVelocity = (velocity: number): number => {
+    return Math.max(1, Math.min(127, Math.round(velocity)));
+};
+
+/**
+ * Sound a chord for a fixed length, e.g. a training prompt.
+ * Returns a function that cuts the chord short.
+ */
+export const playChord = (
+    output: NoteOutput,
+    notes: number[],
+    durationMs: number,
+    velocity: number = DEFAULT_VELOCITY
+): (() => void) => {
+    notes.forEach((note) => output.noteOn(note, velocity));
+    let released = false;
+    const release = () => {
+        if (released) return;
+        released = true;
+        clearTimeout(timer);
+        notes.forEach((note) => output.noteOff(note));
+    };
+    const timer = setTimeout(release, durationMs);
+    return release;
+};
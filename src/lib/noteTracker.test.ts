@@ -0,0 +1,213 @@
+/**
+ * End-to-end tests for the input pipeline:
+ * fake device -> MIDI service -> note tracker -> pedal recorder -> chord analysis.
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { FakeMIDIAccess } from './fakeMIDIAccess';
+import { createMIDIService } from './midiService';
+import { createNoteTracker } from './noteTracker';
+import { buildSegmentsFromEvents, PEDAL_CLUSTER_GAP_MS } from './recording';
+import type { RecordedNote } from './recording';
+import { analyzeChord } from './chordAnalysis';
+
+const SUSTAIN_DOWN = [0xb0, 64, 127];
+const SUSTAIN_UP = [0xb0, 64, 0];
+
+function setup() {
+    const access = new FakeMIDIAccess({ inputs: [{ id: 'kbd', name: 'Controller' }] });
+    const takes: RecordedNote[][] = [];
+    const onChange = vi.fn();
+    const tracker = createNoteTracker({ onChange, onRecord: (events) => takes.push(events) });
+    createMIDIService(access).subscribe(tracker.handleEvent);
+    return { access, kbd: access.input('kbd'), tracker, takes, onChange };
+}
+
+describe('createNoteTracker', () => {
+    beforeEach(() => {
+        vi.useFakeTimers();
+    });
+
+    afterEach(() => {
+        vi.useRealTimers();
+    });
+
+    describe('held notes', () => {
+        it('tracks note on/off from the device', () => {
+            const { kbd, tracker } = setup();
+
+            kbd.noteOn(60);
+            kbd.noteOn(64);
+            kbd.noteOn(67);
+            kbd.noteOff(64);
+
+            expect(tracker.getState().activeNotes).toEqual([60, 67]);
+        });
+
+        it('treats a repeated note on as a single held note', () => {
+            const { kbd, tracker, onChange } = setup();
+
+            kbd.noteOn(60);
+            kbd.noteOn(60);
+
+            expect(tracker.getState().activeNotes).toEqual([60]);
+            expect(onChange).toHaveBeenCalledTimes(1);
+        });
+
+        it('detects the chord currently held', () => {
+            const { kbd, tracker } = setup();
+
+            // Eb7: Eb G Bb Db
+            [63, 67, 70, 73].forEach((note) => kbd.noteOn(note));
+
+            expect(analyzeChord(tracker.getState().activeNotes)?.display).toBe('Eb7');
+        });
+
+        it('releases a chord when its device is unplugged mid-chord', () => {
+            const { access, kbd, tracker } = setup();
+
+            [60, 64, 67].forEach((note) => kbd.noteOn(note));
+            access.unplug('kbd');
+
+            expect(tracker.getState().activeNotes).toEqual([]);
+        });
+
+        it('keeps a note held by another source when one device goes away', () => {
+            const { access, kbd, tracker } = setup();
+            const loopback = access.addInput({ id: 'daw', name: 'DAW Loopback' });
+
+            kbd.noteOn(60);
+            loopback.noteOn(60);
+            tracker.noteOn(72, 0);
+            access.unplug('kbd');
+
+            expect(tracker.getState().activeNotes).toEqual([60, 72]);
+            loopback.noteOff(60);
+            expect(tracker.getState().activeNotes).toEqual([72]);
+        });
+
+        it('reports strikes and releases with their times', () => {
+            const access = new FakeMIDIAccess({ inputs: [{ id: 'kbd', name: 'Controller' }] });
+            const onNote = vi.fn();
+            const tracker = createNoteTracker({ onNote });
+            createMIDIService(access).subscribe(tracker.handleEvent);
+            const kbd = access.input('kbd');
+
+            kbd.noteOn(60, 90, 1, 10);
+            tracker.noteOn(60, 20);
+            kbd.noteOff(60, 0, 1, 30);
+            tracker.noteOff(60, undefined, 40);
+
+            // The release only counts once the last source lets go
+            expect(onNote.mock.calls.map(([event]) => event)).toEqual([
+                { type: 'on', note: 60, time: 10, velocity: 90 },
+                { type: 'on', note: 60, time: 20, velocity: undefined },
+                { type: 'off', note: 60, time: 40 },
+            ]);
+        });
+
+        it('releases everything on reset', () => {
+            const { kbd, tracker } = setup();
+
+            kbd.noteOn(60);
+            kbd.emit(SUSTAIN_DOWN);
+            tracker.reset();
+
+            expect(tracker.getState()).toEqual({ activeNotes: [], isPedalDown: false });
+        });
+    });
+
+    describe('pedal recording', () => {
+        it('records a chord played while the pedal is held', () => {
+            const { kbd, tracker, takes } = setup();
+
+            kbd.playScript([
+                { time: 0, data: SUSTAIN_DOWN },
+                { time: 10, data: [0x90, 62, 90] },
+                { time: 20, data: [0x90, 65, 90] },
+                { time: 30, data: [0x90, 69, 90] },
+                { time: 40, data: [0x90, 72, 90] },
+                { time: 500, data: SUSTAIN_UP },
+            ]);
+
+            expect(tracker.getState().isPedalDown).toBe(false);
+            expect(takes).toHaveLength(1);
+            const [segment] = buildSegmentsFromEvents(takes[0], 'q');
+            expect(segment.notes).toEqual([62, 65, 69, 72]);
+            expect(segment.analysis?.display).toBe('Dmin7');
+        });
+
+        it('snapshots the chord already held when the pedal goes down', () => {
+            const { kbd, takes } = setup();
+
+            kbd.noteOn(60, 100, 1, 0);
+            kbd.noteOn(64, 100, 1, 0);
+            kbd.noteOn(67, 100, 1, 0);
+            kbd.controlChange(64, 127, 1, 50);
+            kbd.controlChange(64, 0, 1, 60);
+
+            expect(takes[0].map((e) => e.note)).toEqual([60, 64, 67]);
+        });
+
+        it('ignores repeated pedal-down values from continuous pedals', () => {
+            const { kbd, takes } = setup();
+
+            kbd.controlChange(64, 100, 1, 0);
+            kbd.noteOn(60, 100, 1, 5);
+            kbd.controlChange(64, 120, 1, 6);
+            kbd.controlChange(64, 0, 1, 7);
+
+            expect(takes).toEqual([[{ note: 60, time: 5, velocity: 100 }]]);
+        });
+
+        it('splits consecutive chords held under one pedal into separate takes', () => {
+            const { kbd, takes } = setup();
+
+            kbd.controlChange(64, 127, 1, 0);
+            [60, 64, 67].forEach((note) => kbd.noteOn(note, 100, 1, 10));
+            vi.advanceTimersByTime(PEDAL_CLUSTER_GAP_MS);
+            [65, 69, 72].forEach((note) => kbd.noteOn(note, 100, 1, 1000));
+            kbd.controlChange(64, 0, 1, 1100);
+
+            const chords = takes.flatMap((take) => buildSegmentsFromEvents(take, 'q'));
+            expect(chords.map((c) => c.analysis?.display)).toEqual(['C', 'F']);
+        });
+
+        it('does not record without the pedal', () => {
+            const { kbd, takes } = setup();
+
+            kbd.noteOn(60);
+            kbd.noteOff(60);
+            vi.runAllTimers();
+
+            expect(takes).toEqual([]);
+        });
+
+        it('records virtual keyboard input alongside hardware', () => {
+            const { kbd, tracker, takes } = setup();
+
+            kbd.controlChange(64, 127, 1, 0);
+            tracker.noteOn(60, 1);
+            kbd.noteOn(64, 100, 1, 2);
+            kbd.controlChange(64, 0, 1, 3);
+
+            expect(takes[0].map((e) => e.note)).toEqual([60, 64]);
+        });
+
+        it('keeps the velocity and roll of a recorded chord', () => {
+            const { kbd, takes } = setup();
+
+            // Held bass note struck before the pedal, then a rolled upper voicing
+            kbd.noteOn(48, 70, 1, 0);
+            kbd.controlChange(64, 127, 1, 10);
+            kbd.noteOn(64, 96, 1, 20);
+            kbd.noteOn(67, 40, 1, 55);
+            kbd.controlChange(64, 0, 1, 400);
+
+            const [segment] = buildSegmentsFromEvents(takes[0], 'q');
+            expect(segment.notes).toEqual([48, 64, 67]);
+            expect(segment.velocities).toEqual([70, 96, 40]);
+            expect(segment.onsets).toEqual([0, 10, 45]);
+        });
+    });
+});
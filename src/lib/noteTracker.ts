@@ -0,0 +1,132 @@
+/**
+ * Note Tracker
+ *
+ * Turns a stream of MIDI events into "what is being played right now":
+ * the set of held notes and the sustain pedal state, with pedal takes
+ * forwarded to the recorder. Kept free of React so the full
+ * device -> service -> tracker -> recorder pipeline is unit-testable.
+ */
+
+import { CC_SUSTAIN } from './midiService';
+import type { MIDIEvent } from './midiService';
+import { DEFAULT_VELOCITY } from './noteOutput';
+import { createPedalRecorder } from './recording';
+import type { RecordedNote } from './recording';
+
+export interface NoteTrackerState {
+    /** Held notes in press order, deduplicated */
+    activeNotes: number[];
+    isPedalDown: boolean;
+}
+
+export interface NoteTrackerOptions {
+    /** Called whenever activeNotes or isPedalDown change */
+    onChange?: (state: NoteTrackerState) => void;
+    /** Called with the note-ons captured during each pedal take */
+    onRecord?: (events: RecordedNote[]) => void;
+    /** Every strike, and every release that has a time (for timed recording) */
+    onNote?: (event: TrackedNoteEvent) => void;
+}
+
+export interface TrackedNoteEvent {
+    type: 'on' | 'off';
+    note: number;
+    time: number;
+    velocity?: number;
+}
+
+/** Source id used for notes that don't come from a MIDI device (on-screen keyboard) */
+export const VIRTUAL_SOURCE = 'virtual';
+
+export interface NoteTracker {
+    handleEvent: (event: MIDIEvent) => void;
+    noteOn: (note: number, time: number, source?: string, velocity?: number) => void;
+    /** `time` is needed for the release to reach onNote */
+    noteOff: (note: number, source?: string, time?: number) => void;
+    getState: () => NoteTrackerState;
+    /** Release everything and abandon any take in progress */
+    reset: () => void;
+}
+
+export const createNoteTracker = ({ onChange, onRecord, onNote }: NoteTrackerOptions = {}): NoteTracker => {
+    let state: NoteTrackerState = { activeNotes: [], isPedalDown: false };
+    // A note stays active while any source (device or virtual keyboard) holds it
+    const holders = new Map<number, Set<string>>();
+    // Latest strike velocity of each held note, to seed pedal takes
+    const velocities = new Map<number, number>();
+    const recorder = createPedalRecorder((events) => onRecord?.(events));
+
+    const update = (next: Partial<NoteTrackerState>) => {
+        state = { ...state, ...next };
+        onChange?.(state);
+    };
+
+    const noteOn = (note: number, time: number, source: string = VIRTUAL_SOURCE, velocity?: number) => {
+        const sources = holders.get(note) ?? new Set<string>();
+        sources.add(source);
+        holders.set(note, sources);
+        if (velocity !== undefined) velocities.set(note, velocity);
+        if (!state.activeNotes.includes(note)) {
+            update({ activeNotes: [...state.activeNotes, note] });
+        }
+        recorder.noteOn(note, time, velocity);
+        onNote?.({ type: 'on', note, time, velocity });
+    };
+
+    const noteOff = (note: number, source: string = VIRTUAL_SOURCE, time?: number) => {
+        const sources = holders.get(note);
+        sources?.delete(source);
+        if (sources && sources.size > 0) return;
+        holders.delete(note);
+        velocities.delete(note);
+        if (state.activeNotes.includes(note)) {
+            update({ activeNotes: state.activeNotes.filter((n) => n !== note) });
+            if (time !== undefined) onNote?.({ type: 'off', note, time });
+        }
+    };
+
+    const setPedal = (pedalDown: boolean, time: number) => {
+        if (pedalDown === state.isPedalDown) return;
+        update({ isPedalDown: pedalDown });
+        if (pedalDown) {
+            // Start a take with the current chord snapshot (if any)
+            recorder.pedalDown(
+                state.activeNotes,
+                time,
+                state.activeNotes.map((note) => velocities.get(note) ?? DEFAULT_VELOCITY)
+            );
+        } else {
+            recorder.pedalUp();
+        }
+    };
+
+    return {
+        handleEvent: (event) => {
+            switch (event.type) {
+                case 'noteOn':
+                    noteOn(event.note, event.timestamp, event.deviceId, event.velocity);
+                    break;
+                case 'noteOff':
+                    noteOff(event.note, event.deviceId, event.timestamp);
+                    break;
+                case 'controlChange':
+                    if (event.controller === CC_SUSTAIN) {
+                        setPedal(event.value >= 64, event.timestamp);
+                    }
+                    break;
+            }
+        },
+
+        noteOn,
+        noteOff,
+
+        getState: () => state,
+
+        reset: () => {
+            recorder.reset();
+            holders.clear();
+            velocities.clear();
+            update({ activeNotes: [], isPedalDown: false });
+        },
+    };
+};
@@ -0,0 +1,275 @@
+/**
+ * Tests for pedal recording (cluster segmentation and the pedal-driven
+ * buffer/flush cycle) and for quantized timed recording.
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import {
+    buildSegmentsFromEvents,
+    createPedalRecorder,
+    createTimedRecorder,
+    nearestDuration,
+    PEDAL_CLUSTER_GAP_MS,
+    quantizeTicks,
+    restsForTicks,
+} from './recording';
+import type { RecordingTiming } from './recording';
+
+describe('buildSegmentsFromEvents', () => {
+    it('returns nothing for an empty take', () => {
+        expect(buildSegmentsFromEvents([], 'q')).toEqual([]);
+    });
+
+    it('groups near-simultaneous notes into one analyzed chord', () => {
+        const segments = buildSegmentsFromEvents([
+            { note: 64, time: 10 },
+            { note: 60, time: 0 },
+            { note: 67, time: 20 },
+        ], 'h');
+
+        expect(segments).toHaveLength(1);
+        expect(segments[0].type).toBe('chord');
+        expect(segments[0].notes).toEqual([60, 64, 67]);
+        expect(segments[0].duration).toBe('h');
+        expect(segments[0].analysis?.display).toBe('C');
+    });
+
+    it('splits clusters on gaps longer than the cluster gap', () => {
+        const segments = buildSegmentsFromEvents([
+            { note: 60, time: 0 },
+            { note: 64, time: 5 },
+            { note: 67, time: 10 },
+            { note: 62, time: 10 + PEDAL_CLUSTER_GAP_MS + 1 },
+            { note: 65, time: 15 + PEDAL_CLUSTER_GAP_MS + 1 },
+            { note: 69, time: 20 + PEDAL_CLUSTER_GAP_MS + 1 },
+        ], 'q');
+
+        expect(segments.map((s) => s.notes)).toEqual([[60, 64, 67], [62, 65, 69]]);
+    });
+
+    it('classifies slow evenly spaced notes as a scale', () => {
+        const segments = buildSegmentsFromEvents([
+            { note: 60, time: 0 },
+            { note: 62, time: 150 },
+            { note: 64, time: 300 },
+        ], 'q');
+
+        expect(segments).toHaveLength(1);
+        expect(segments[0].type).toBe('scale');
+        expect(segments[0].analysis).toBeUndefined();
+    });
+
+    it('keeps each note\'s first-strike velocity and onset, aligned with sorted notes', () => {
+        const [segment] = buildSegmentsFromEvents([
+            { note: 67, time: 1030, velocity: 50 },
+            { note: 60, time: 1000, velocity: 90 },
+            { note: 64, time: 1012, velocity: 72 },
+            { note: 60, time: 1040, velocity: 20 },
+        ], 'q');
+
+        expect(segment.notes).toEqual([60, 64, 67]);
+        expect(segment.velocities).toEqual([90, 72, 50]);
+        expect(segment.onsets).toEqual([0, 12, 30]);
+    });
+
+    it('omits velocities when a note has none', () => {
+        const [segment] = buildSegmentsFromEvents([
+            { note: 60, time: 0, velocity: 90 },
+            { note: 64, time: 5 },
+        ], 'q');
+
+        expect(segment.velocities).toBeUndefined();
+        expect(segment.onsets).toEqual([0, 5]);
+    });
+});
+
+describe('createPedalRecorder', () => {
+    beforeEach(() => {
+        vi.useFakeTimers();
+    });
+
+    afterEach(() => {
+        vi.useRealTimers();
+    });
+
+    it('ignores notes while the pedal is up', () => {
+        const onFlush = vi.fn();
+        const recorder = createPedalRecorder(onFlush);
+
+        recorder.noteOn(60, 0);
+        recorder.pedalUp();
+
+        expect(onFlush).not.toHaveBeenCalled();
+    });
+
+    it('seeds the take with held notes and flushes on pedal up', () => {
+        const onFlush = vi.fn();
+        const recorder = createPedalRecorder(onFlush);
+
+        recorder.pedalDown([60, 64], 100);
+        recorder.noteOn(67, 110);
+        expect(recorder.isRecording()).toBe(true);
+        recorder.pedalUp();
+
+        expect(onFlush).toHaveBeenCalledWith([
+            { note: 60, time: 100 },
+            { note: 64, time: 100 },
+            { note: 67, time: 110 },
+        ]);
+        expect(recorder.isRecording()).toBe(false);
+    });
+
+    it('seeds held notes with their velocities', () => {
+        const onFlush = vi.fn();
+        const recorder = createPedalRecorder(onFlush);
+
+        recorder.pedalDown([60, 64], 100, [80, 60]);
+        recorder.noteOn(67, 110, 45);
+        recorder.pedalUp();
+
+        expect(onFlush).toHaveBeenCalledWith([
+            { note: 60, time: 100, velocity: 80 },
+            { note: 64, time: 100, velocity: 60 },
+            { note: 67, time: 110, velocity: 45 },
+        ]);
+    });
+
+    it('flushes after an idle gap while the pedal stays down', () => {
+        const onFlush = vi.fn();
+        const recorder = createPedalRecorder(onFlush);
+
+        recorder.pedalDown([], 0);
+        recorder.noteOn(60, 0);
+        vi.advanceTimersByTime(PEDAL_CLUSTER_GAP_MS - 1);
+        expect(onFlush).not.toHaveBeenCalled();
+        vi.advanceTimersByTime(1);
+        expect(onFlush).toHaveBeenCalledTimes(1);
+
+        // Still recording: the next chord starts a new batch
+        recorder.noteOn(62, 500);
+        recorder.pedalUp();
+        expect(onFlush).toHaveBeenLastCalledWith([{ note: 62, time: 500 }]);
+    });
+
+    it('drops the buffer on reset', () => {
+        const onFlush = vi.fn();
+        const recorder = createPedalRecorder(onFlush);
+
+        recorder.pedalDown([60], 0);
+        recorder.reset();
+        vi.runAllTimers();
+        recorder.pedalUp();
+
+        expect(onFlush).not.toHaveBeenCalled();
+    });
+});
+
+describe('quantization', () => {
+    it('snaps ticks to the nearest grid step', () => {
+        expect([0, 100, 130, 239, 250, 370].map((t) => quantizeTicks(t, 240))).toEqual([0, 0, 240, 240, 240, 480]);
+    });
+
+    it('pulls late swung off-beats back to the straight off-beat', () => {
+        // Triplet swing puts the off-beat eighth at 320 ticks instead of 240
+        expect(quantizeTicks(320, 240)).toBe(240);
+        expect(quantizeTicks(370, 240)).toBe(480);
+        expect(quantizeTicks(370, 240, 1 / 3)).toBe(240);
+        expect(quantizeTicks(120, 240, 1 / 3)).toBe(0);
+    });
+
+    it('picks the nearest duration that fits', () => {
+        expect(nearestDuration(500)).toBe('q');
+        expect(nearestDuration(1500)).toBe('hd');
+        expect(nearestDuration(1500, 1400)).toBe('h');
+        expect(nearestDuration(10)).toBe('32');
+    });
+
+    it('only picks tuplet durations on a tuplet grid', () => {
+        expect(nearestDuration(160)).toBe('16d');
+        expect(nearestDuration(160, Infinity, true)).toBe('8t3');
+    });
+
+    it('fills a gap with rests, longest first', () => {
+        expect(restsForTicks(1920 + 480 + 120)).toEqual(['w', 'q', '16']);
+        expect(restsForTicks(720)).toEqual(['qd']);
+        expect(restsForTicks(30)).toEqual([]);
+    });
+});
+
+describe('buildSegmentsFromEvents with timing', () => {
+    // 120 BPM: a quarter is 500 ms, an eighth 250 ms
+    const timing: RecordingTiming = { tempo: 120, origin: 1000, grid: '8', swingTolerance: 0 };
+
+    it('derives card durations from onsets and releases, with rests for gaps', () => {
+        const segments = buildSegmentsFromEvents([
+            // Half-note C major on the downbeat, slightly late
+            { note: 60, time: 1030, offTime: 1990 },
+            { note: 64, time: 1040, offTime: 1980 },
+            { note: 67, time: 1035, offTime: 2000 },
+            // Staccato G on the "and" of beat 3, then a whole-note F on the next bar
+            { note: 67, time: 2250, offTime: 2380 },
+            { note: 65, time: 3010, offTime: 5000 },
+        ], 'q', timing);
+
+        expect(segments.map((s) => [s.type, s.duration, s.notes])).toEqual([
+            ['chord', 'h', [60, 64, 67]],
+            ['rest', '8', []],
+            ['chord', '8', [67]],
+            ['rest', 'q', []],
+            ['chord', 'w', [65]],
+        ]);
+        expect(segments[0].analysis?.display).toBe('C');
+        expect(segments[0].onsets).toEqual([0, 10, 5]);
+    });
+
+    it('starts with rests when the first chord comes after the downbeat', () => {
+        const segments = buildSegmentsFromEvents([{ note: 60, time: 2000, offTime: 2500 }], 'q', timing);
+
+        expect(segments.map((s) => [s.type, s.duration])).toEqual([['rest', 'h'], ['chord', 'q']]);
+    });
+
+    it('caps a chord held into the next one at the next onset', () => {
+        const segments = buildSegmentsFromEvents([
+            { note: 60, time: 1000, offTime: 1800 },
+            { note: 62, time: 1250, offTime: 1500 },
+        ], 'q', timing);
+
+        expect(segments.map((s) => [s.type, s.duration])).toEqual([['chord', '8'], ['chord', '8']]);
+    });
+
+    it('keeps swung eighths as straight eighths within the tolerance', () => {
+        // Heavily swung eighths: on-beats at 0 and 500 ms, off-beat at 385 ms
+        const swung = [
+            { note: 60, time: 1000, offTime: 1300 },
+            { note: 62, time: 1385, offTime: 1480 },
+            { note: 64, time: 1500, offTime: 1750 },
+        ];
+
+        const straight = buildSegmentsFromEvents(swung, 'q', timing);
+        const tolerant = buildSegmentsFromEvents(swung, 'q', { ...timing, swingTolerance: 1 / 3 });
+
+        // Without tolerance the off-beat snaps onto the next beat and merges with it
+        expect(straight.map((s) => s.notes)).toEqual([[60], [], [62, 64]]);
+        expect(tolerant.map((s) => [s.duration, s.notes])).toEqual([['8', [60]], ['8', [62]], ['8', [64]]]);
+    });
+});
+
+describe('createTimedRecorder', () => {
+    it('captures strikes with their release times', () => {
+        const recorder = createTimedRecorder();
+
+        recorder.noteOn(59, 0);
+        recorder.start();
+        recorder.noteOn(60, 100, 90);
+        recorder.noteOn(64, 110);
+        recorder.noteOff(60, 400);
+        recorder.noteOn(60, 500);
+
+        expect(recorder.stop(900)).toEqual([
+            { note: 60, time: 100, velocity: 90, offTime: 400 },
+            { note: 64, time: 110, velocity: undefined, offTime: 900 },
+            { note: 60, time: 500, velocity: undefined, offTime: 900 },
+        ]);
+        expect(recorder.isRecording()).toBe(false);
+    });
+});
@@ -0,0 +1,375 @@
+/**
+ * Recording
+ *
+ * Sustain-pedal driven capture of played notes. While the pedal is held,
+ * note-ons are buffered and flushed either on pedal-up or after an idle gap,
+ * then grouped into chord/scale segments by inter-onset timing.
+ *
+ * Timed recording instead captures a whole take against the metronome and
+ * quantizes each chord's onset and length to a grid, so card durations
+ * (and rests between chords) come from how the music was actually played.
+ */
+
+import { analyzeChord } from './chordAnalysis';
+import { DURATIONS_BY_LENGTH, durationsForTicks } from './durations';
+import { msToTicks, ticksToMs } from './timeline';
+import { DURATION_INFO } from '../types';
+import type { Duration, PhraseSegment } from '../types';
+
+// =============================================================================
+// CONSTANTS
+// =============================================================================
+
+/** Silence (ms) that closes a cluster of notes */
+export const PEDAL_CLUSTER_GAP_MS = 220;
+
+/** Average inter-onset interval (ms) below which a cluster counts as a chord */
+export const CHORD_IOI_THRESHOLD_MS = 110;
+
+// =============================================================================
+// SEGMENTATION
+// =============================================================================
+
+/** A note-on captured during recording */
+export interface RecordedNote {
+    note: number;
+    time: number;
+    /** Note-on velocity (1-127), when the source reports one */
+    velocity?: number;
+    /** Release time, when known (timed recording) */
+    offTime?: number;
+}
+
+/** The beat grid a timed take is measured against */
+export interface RecordingTiming {
+    /** Quarter notes per minute */
+    tempo: number;
+    /** Time of the take's first downbeat */
+    origin: number;
+    /** Smallest step onsets and lengths snap to */
+    grid: Duration;
+    /**
+     * How late (as a fraction of a grid step) an off-beat may land and still
+     * count as the straight off-beat: 0 for straight playing, 1/3 for
+     * triplet swing.
+     */
+    swingTolerance: number;
+}
+
+/** Split time-sorted note-ons wherever the gap between two exceeds `gapMs` */
+const clusterByGap = (sortedEvents: RecordedNote[], gapMs: number): RecordedNote[][] => {
+    const clusters: RecordedNote[][] = [];
+    let currentCluster: RecordedNote[] = [sortedEvents[0]];
+
+    for (let i = 1; i < sortedEvents.length; i++) {
+        const ev = sortedEvents[i];
+        const prev = sortedEvents[i - 1];
+        if (ev.time - prev.time > gapMs) {
+            clusters.push(currentCluster);
+            currentCluster = [ev];
+        } else {
+            currentCluster.push(ev);
+        }
+    }
+    clusters.push(currentCluster);
+    return clusters;
+};
+
+/** Sorted notes of a cluster with each note's first-strike velocity and onset */
+const describeCluster = (clusterEvents: RecordedNote[]) => {
+    const notes = Array.from(new Set(clusterEvents.map(e => e.note))).sort((a, b) => a - b);
+    // Events are time-sorted, so find() gives each note's first strike
+    const firstStrikes = notes.map(note => clusterEvents.find(e => e.note === note)!);
+    const clusterStart = clusterEvents[0].time;
+    const hasVelocities = firstStrikes.every(e => e.velocity !== undefined);
+    return {
+        notes,
+        ...(hasVelocities ? { velocities: firstStrikes.map(e => e.velocity!) } : {}),
+        onsets: firstStrikes.map(e => Math.round(e.time - clusterStart)),
+    };
+};
+
+/**
+ * Split recorded note-ons into clusters separated by PEDAL_CLUSTER_GAP_MS
+ * and classify each as a chord (near-simultaneous) or a scale run.
+ * Each segment keeps the velocity and onset (ms after the cluster's first
+ * note) of every note's first strike; velocities are omitted unless every
+ * note has one.
+ *
+ * With `timing`, the take is quantized instead: every cluster is a chord
+ * whose duration comes from its snapped onset and release, and gaps become
+ * rest segments (see buildTimedSegments). `duration` is then unused.
+ */
+export const buildSegmentsFromEvents = (
+    events: RecordedNote[],
+    duration: Duration,
+    timing?: RecordingTiming
+): PhraseSegment[] => {
+    if (events.length === 0) return [];
+    if (timing) return buildTimedSegments(events, timing);
+
+    const sortedEvents = [...events].sort((a, b) => a.time - b.time);
+    const clusters = clusterByGap(sortedEvents, PEDAL_CLUSTER_GAP_MS);
+
+    const segments: PhraseSegment[] = [];
+    clusters.forEach(clusterEvents => {
+        const { notes: uniqueNotes, ...expression } = describeCluster(clusterEvents);
+        if (uniqueNotes.length === 0) return;
+
+        let totalIOI = 0;
+        for (let i = 1; i < clusterEvents.length; i++) {
+            totalIOI += clusterEvents[i].time - clusterEvents[i - 1].time;
+        }
+        const avgIOI = clusterEvents.length > 1 ? totalIOI / (clusterEvents.length - 1) : 0;
+        const timeSpan = clusterEvents[clusterEvents.length - 1].time - clusterEvents[0].time;
+        const isChord = avgIOI < CHORD_IOI_THRESHOLD_MS || timeSpan < PEDAL_CLUSTER_GAP_MS * 0.6;
+
+        segments.push({
+            type: isChord ? 'chord' : 'scale',
+            notes: uniqueNotes,
+            timestamp: Date.now(),
+            analysis: isChord ? analyzeChord(uniqueNotes) || undefined : undefined,
+            duration,
+            ...expression,
+        });
+    });
+
+    return segments;
+};
+
+// =============================================================================
+// QUANTIZATION
+// =============================================================================
+
+/**
+ * Snap a tick position to the grid. Off-beats (odd grid steps) are looked
+ * for `swingTolerance` of a step later than straight, so swung playing
+ * lands on the straight off-beat rather than the next on-beat.
+ */
+export const quantizeTicks = (ticks: number, gridTicks: number, swingTolerance: number = 0): number => {
+    const pair = gridTicks * 2;
+    const pairStart = Math.floor(ticks / pair) * pair;
+    const within = ticks - pairStart;
+    const offBeat = gridTicks * (1 + Math.max(0, Math.min(0.5, swingTolerance)));
+
+    if (within < offBeat / 2) return pairStart;
+    if (within < offBeat + (pair - offBeat) / 2) return pairStart + gridTicks;
+    return pairStart + pair;
+};
+
+/**
+ * The duration closest to `ticks` that fits in `maxTicks` (ties go to the
+ * longer one). Tuplet values are only considered when playing on a tuplet grid.
+ */
+export const nearestDuration = (ticks: number, maxTicks: number = Infinity, allowTuplets: boolean = false): Duration => {
+    const candidates = DURATIONS_BY_LENGTH.filter(d => allowTuplets || !DURATION_INFO[d].tuplet);
+    const fitting = candidates.filter(d => DURATION_INFO[d].ppq <= maxTicks);
+    if (fitting.length === 0) return candidates[candidates.length - 1];
+    return fitting.reduce((best, d) =>
+        Math.abs(DURATION_INFO[d].ppq - ticks) < Math.abs(DURATION_INFO[best].ppq - ticks) ? d : best
+    );
+};
+
+/** Rests that add up to `ticks`, longest first (see durationsForTicks) */
+export const restsForTicks = (ticks: number): Duration[] => durationsForTicks(ticks);
+
+const restSegment = (duration: Duration): PhraseSegment => ({
+    type: 'rest',
+    notes: [],
+    timestamp: Date.now(),
+    duration,
+});
+
+/**
+ * Quantize a timed take. Chords are clustered by a window of a third of a
+ * grid step (so quick changes aren't merged), onsets snap to the grid, and each
+ * chord lasts from its onset to its snapped release, capped by the next
+ * chord and rounded to the nearest Duration. Leftover time before the next
+ * chord, and before the first one, is filled with rests.
+ */
+const buildTimedSegments = (events: RecordedNote[], timing: RecordingTiming): PhraseSegment[] => {
+    const gridTicks = DURATION_INFO[timing.grid].ppq;
+    const onTupletGrid = Boolean(DURATION_INFO[timing.grid].tuplet);
+    const gapMs = Math.min(PEDAL_CLUSTER_GAP_MS, ticksToMs(gridTicks, timing.tempo) / 3);
+    const toTicks = (time: number) => Math.max(0, msToTicks(time - timing.origin, timing.tempo));
+    const snap = (time: number) => quantizeTicks(toTicks(time), gridTicks, timing.swingTolerance);
+
+    const sortedEvents = [...events].sort((a, b) => a.time - b.time);
+
+    // Chords that snap to the same grid step are played as one
+    const chords: { onset: number; release: number; events: RecordedNote[] }[] = [];
+    clusterByGap(sortedEvents, gapMs).forEach(clusterEvents => {
+        const onset = snap(clusterEvents[0].time);
+        const releases = clusterEvents.map(e => e.offTime ?? e.time);
+        const release = snap(Math.max(...releases));
+        const previous = chords[chords.length - 1];
+        if (previous && onset <= previous.onset) {
+            previous.events.push(...clusterEvents);
+            previous.release = Math.max(previous.release, release);
+        } else {
+            chords.push({ onset, release, events: clusterEvents });
+        }
+    });
+
+    const segments: PhraseSegment[] = restsForTicks(chords[0].onset).map(restSegment);
+    chords.forEach((chord, i) => {
+        const next = chords[i + 1];
+        const span = next ? next.onset - chord.onset : Infinity;
+        const held = Math.min(span, Math.max(gridTicks, chord.release - chord.onset));
+        const duration = nearestDuration(held, span, onTupletGrid);
+        const { notes, ...expression } = describeCluster(chord.events);
+
+        segments.push({
+            type: 'chord',
+            notes,
+            timestamp: Date.now(),
+            analysis: analyzeChord(notes) || undefined,
+            duration,
+            ...expression,
+        });
+        if (next) segments.push(...restsForTicks(span - DURATION_INFO[duration].ppq).map(restSegment));
+    });
+
+    return segments;
+};
+
+// =============================================================================
+// PEDAL RECORDER
+// =============================================================================
+
+export interface PedalRecorder {
+    /** Feed a note-on; buffered only while the pedal is down */
+    noteOn: (note: number, time: number, velocity?: number) => void;
+    /**
+     * Pedal pressed: start a take, seeded with the notes currently held.
+     * `heldVelocities` is parallel to `heldNotes`.
+     */
+    pedalDown: (heldNotes: number[], time: number, heldVelocities?: number[]) => void;
+    /** Pedal released: flush whatever was captured */
+    pedalUp: () => void;
+    isRecording: () => boolean;
+    /** Drop the buffer and cancel the idle timer without flushing */
+    reset: () => void;
+}
+
+/**
+ * Create a pedal recorder. `onFlush` receives the buffered note-ons
+ * whenever a take ends (pedal up or PEDAL_CLUSTER_GAP_MS of silence).
+ */
+export const createPedalRecorder = (onFlush: (events: RecordedNote[]) => void): PedalRecorder => {
+    let buffer: RecordedNote[] = [];
+    let isDown = false;
+    let timer: ReturnType<typeof setTimeout> | null = null;
+
+    const clearTimer = () => {
+        if (timer !== null) {
+            clearTimeout(timer);
+            timer = null;
+        }
+    };
+
+    const flush = () => {
+        clearTimer();
+        if (buffer.length === 0) return;
+        const events = buffer;
+        buffer = [];
+        onFlush(events);
+    };
+
+    const scheduleIdleFlush = () => {
+        if (!isDown || buffer.length === 0) return;
+        clearTimer();
+        timer = setTimeout(flush, PEDAL_CLUSTER_GAP_MS);
+    };
+
+    return {
+        noteOn: (note, time, velocity) => {
+            if (!isDown) return;
+            buffer.push({ note, time, velocity });
+            scheduleIdleFlush();
+        },
+
+        pedalDown: (heldNotes, time, heldVelocities) => {
+            clearTimer();
+            buffer = heldNotes.map((note, i) => ({ note, time, velocity: heldVelocities?.[i] }));
+            isDown = true;
+            scheduleIdleFlush();
+        },
+
+        pedalUp: () => {
+            isDown = false;
+            flush();
+        },
+
+        isRecording: () => isDown,
+
+        reset: () => {
+            clearTimer();
+            buffer = [];
+            isDown = false;
+        },
+    };
+};
+
+// =============================================================================
+// TIMED RECORDER
+// =============================================================================
+
+export interface TimedRecorder {
+    /** Begin a take; notes from before this are ignored */
+    start: () => void;
+    noteOn: (note: number, time: number, velocity?: number) => void;
+    noteOff: (note: number, time: number) => void;
+    /** End the take, releasing held notes at `time`, and return its notes */
+    stop: (time: number) => RecordedNote[];
+    isRecording: () => boolean;
+}
+
+/**
+ * Capture a whole take with note-on and release times, for
+ * buildSegmentsFromEvents with a RecordingTiming. The pedal is ignored:
+ * a chord lasts as long as its keys are held.
+ */
+export const createTimedRecorder = (): TimedRecorder => {
+    let take: RecordedNote[] = [];
+    // Latest strike of each held note, waiting for its release
+    const held = new Map<number, RecordedNote>();
+    let isRecording = false;
+
+    const release = (note: number, time: number) => {
+        const strike = held.get(note);
+        if (!strike) return;
+        strike.offTime = time;
+        held.delete(note);
+    };
+
+    return {
+        start: () => {
+            take = [];
+            held.clear();
+            isRecording = true;
+        },
+
+        noteOn: (note, time, velocity) => {
+            if (!isRecording) return;
+            release(note, time);
+            const strike: RecordedNote = { note, time, velocity };
+            take.push(strike);
+            held.set(note, strike);
+        },
+
+        noteOff: (note, time) => {
+            if (isRecording) release(note, time);
+        },
+
+        stop: (time) => {
+            Array.from(held.keys()).forEach((note) => release(note, time));
+            isRecording = false;
+            const events = take;
+            take = [];
+            return events;
+        },
+
+        isRecording: () => isRecording,
+    };
+};
@@ -0,0 +1,126 @@
+/**
+ * Tests for the render cache and list windowing, including render-count
+ * benchmarks over a long session: edits must redraw a bounded number of
+ * measures however long the sequence grows.
+ */
+
+import { describe, it, expect } from 'vitest';
+import { contentHash, createRenderCache, visibleRange } from './renderCache';
+import { groupMeasures, measureRenderKeys } from './staffLayout';
+import { splitCards } from './handSplit';
+import { analyzeChord } from './chordAnalysis';
+import { createCard } from '../types';
+import type { Card, Duration } from '../types';
+
+/** A long session: 300 cards cycling through a few voicings and lengths */
+const longSession = (): Card[] => {
+    const voicings = [[48, 55, 64, 67], [50, 57, 65, 72], [43, 55, 59, 65], [48, 52, 60, 67]];
+    const durations: Duration[] = ['q', '8', '8', 'h', 'q'];
+    return Array.from({ length: 300 }, (_, i) => {
+        const notes = voicings[i % voicings.length];
+        return createCard(notes, durations[i % durations.length], analyzeChord(notes) ?? undefined);
+    });
+};
+
+/** Draw the staff the way StaffRenderer does, returning how many measures were rendered */
+const drawStaff = (
+    cache: ReturnType<typeof createRenderCache<string>>,
+    cards: Card[],
+    playingIndex: number | null = null
+): number => {
+    const before = cache.stats().renders;
+    const measures = groupMeasures(cards, [4, 4]);
+    const keys = measureRenderKeys(measures, splitCards(cards), playingIndex);
+    keys.forEach((key) => cache.get(key, () => key));
+    cache.retain(keys);
+    return cache.stats().renders - before;
+};
+
+describe('contentHash', () => {
+    it('hashes equal content equally', () => {
+        expect(contentHash({ notes: [60, 64], d: 'q' })).toBe(contentHash({ notes: [60, 64], d: 'q' }));
+        expect(contentHash({ notes: [60, 64] })).not.toBe(contentHash({ notes: [60, 65] }));
+        expect(contentHash(null)).toMatch(/^[0-9a-f]{8}$/);
+    });
+});
+
+describe('createRenderCache', () => {
+    it('renders each key once and evicts what a redraw no longer uses', () => {
+        const evicted: string[] = [];
+        const cache = createRenderCache<string>((entry) => evicted.push(entry));
+
+        cache.get('a', () => 'A');
+        expect(cache.get('a', () => 'again')).toBe('A');
+        cache.get('b', () => 'B');
+        cache.retain(['b']);
+
+        expect(evicted).toEqual(['A']);
+        expect(cache.stats()).toEqual({ renders: 2, hits: 1, size: 1 });
+
+        cache.clear();
+        expect(evicted).toEqual(['A', 'B']);
+    });
+});
+
+describe('staff render counts', () => {
+    it('redraws only the measures an edit touches', () => {
+        const cache = createRenderCache<string>();
+        const cards = longSession();
+        const measureCount = groupMeasures(cards, [4, 4]).length;
+
+        expect(drawStaff(cache, cards)).toBe(measureCount);
+        expect(drawStaff(cache, cards)).toBe(0);
+
+        // Respelling a note: its measure, and the next for courtesy accidentals
+        const edited = cards.map((card, i) => (i === 150 ? { ...card, enharmonicOverrides: { 64: 'Fb' } } : card));
+        expect(drawStaff(cache, edited)).toBeLessThanOrEqual(2);
+
+        // Recording another chord only touches the end
+        expect(drawStaff(cache, [...edited, createCard([48, 55, 64], 'q')])).toBeLessThanOrEqual(2);
+        expect(cache.stats().size).toBe(groupMeasures([...edited, createCard([48, 55, 64], 'q')], [4, 4]).length);
+    });
+
+    it('redraws at most two measures per step of the playback cursor', () => {
+        const cache = createRenderCache<string>();
+        const cards = longSession();
+        drawStaff(cache, cards);
+
+        // Through the middle of the piece
+        let rendered = 0;
+        for (let playing = 100; playing < 140; playing++) {
+            const count = drawStaff(cache, cards, playing);
+            expect(count).toBeLessThanOrEqual(2);
+            rendered += count;
+        }
+        // Each measure is redrawn when the cursor enters and when it leaves
+        const crossed = new Set(groupMeasures(cards, [4, 4])
+            .filter((m) => m.entries.some((e) => e.cardIndex >= 100 && e.cardIndex < 140))
+            .map((m) => m.index));
+        expect(rendered).toBeLessThanOrEqual(crossed.size * 2);
+    });
+});
+
+describe('visibleRange', () => {
+    const range = (scrollOffset: number, count = 300) => visibleRange({
+        scrollOffset,
+        viewportSize: 1200,
+        itemSize: 168,
+        count,
+        leading: 24,
+        overscan: 4,
+    });
+
+    it('covers the view plus the overscan', () => {
+        expect(range(0)).toEqual({ start: 0, end: 11 });
+        expect(range(168 * 100 + 24)).toEqual({ start: 96, end: 112 });
+        expect(range(168 * 300)).toEqual({ start: 295, end: 300 });
+        expect(range(0, 0)).toEqual({ start: 0, end: 0 });
+    });
+
+    it('keeps the mounted card count bounded however long the list', () => {
+        for (let offset = 0; offset < 168 * 300; offset += 97) {
+            const { start, end } = range(offset);
+            expect(end - start).toBeLessThanOrEqual(Math.ceil(1200 / 168) + 1 + 8);
+        }
+    });
+});
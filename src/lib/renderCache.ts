@@ -0,0 +1,114 @@
+/**
+ * Render cache
+ *
+ * Keeps expensive renders (a measure's SVG, say) under a hash of
+ * everything that went into them, so a redraw rebuilds only what changed
+ * and reuses the rest. Also the windowing maths for lists too long to
+ * render whole.
+ */
+
+// =============================================================================
+// HASHING
+// =============================================================================
+
+/** FNV-1a over a value's JSON: equal content, equal hash */
+export const contentHash = (value: unknown): string => {
+    const text = JSON.stringify(value) ?? '';
+    let hash = 0x811c9dc5;
+    for (let i = 0; i < text.length; i++) {
+        hash ^= text.charCodeAt(i);
+        hash = Math.imul(hash, 0x01000193);
+    }
+    return (hash >>> 0).toString(16).padStart(8, '0');
+};
+
+// =============================================================================
+// CACHE
+// =============================================================================
+
+export interface RenderCacheStats {
+    /** Entries rendered since the cache was made */
+    renders: number;
+    /** Lookups answered from the cache */
+    hits: number;
+    size: number;
+}
+
+export interface RenderCache<T> {
+    /** The entry for `key`, rendering it first if it isn't cached */
+    get: (key: string, render: () => T) => T;
+    /** Evict every entry whose key isn't in `keys`, after a redraw */
+    retain: (keys: Iterable<string>) => void;
+    clear: () => void;
+    stats: () => RenderCacheStats;
+}
+
+/** `onEvict` is called with each entry dropped, e.g. to detach its element */
+export const createRenderCache = <T>(onEvict?: (entry: T) => void): RenderCache<T> => {
+    const entries = new Map<string, T>();
+    let renders = 0;
+    let hits = 0;
+
+    return {
+        get: (key, render) => {
+            const cached = entries.get(key);
+            if (cached !== undefined) {
+                hits++;
+                return cached;
+            }
+            renders++;
+            const entry = render();
+            entries.set(key, entry);
+            return entry;
+        },
+        retain: (keys) => {
+            const kept = new Set(keys);
+            entries.forEach((entry, key) => {
+                if (kept.has(key)) return;
+                entries.delete(key);
+                onEvict?.(entry);
+            });
+        },
+        clear: () => {
+            entries.forEach((entry) => onEvict?.(entry));
+            entries.clear();
+        },
+        stats: () => ({ renders, hits, size: entries.size }),
+    };
+};
+
+// =============================================================================
+// WINDOWING
+// =============================================================================
+
+export interface WindowOptions {
+    /** How far the list is scrolled, in pixels */
+    scrollOffset: number;
+    /** Visible length of the list, in pixels */
+    viewportSize: number;
+    /** Length of one item including its gap */
+    itemSize: number;
+    count: number;
+    /** Space before the first item */
+    leading?: number;
+    /** Items kept either side of the visible ones, so scrolling doesn't flash */
+    overscan?: number;
+}
+
+/** Items worth rendering in a scrolled list of equal items: `start` to `end`, exclusive */
+export const visibleRange = ({
+    scrollOffset,
+    viewportSize,
+    itemSize,
+    count,
+    leading = 0,
+    overscan = 3,
+}: WindowOptions): { start: number; end: number } => {
+    if (count === 0 || itemSize <= 0) return { start: 0, end: 0 };
+    const first = Math.floor((scrollOffset - leading) / itemSize);
+    const last = Math.ceil((scrollOffset - leading + viewportSize) / itemSize);
+    return {
+        start: Math.max(0, Math.min(count, first - overscan)),
+        end: Math.max(0, Math.min(count, last + overscan)),
+    };
+};
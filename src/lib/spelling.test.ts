@@ -0,0 +1,212 @@
+/**
+ * Tests for note spelling and courtesy accidentals.
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+    chordDisplay,
+    courtesyAccidentals,
+    enharmonicSpellings,
+    keyAlterations,
+    nextOverride,
+    spellNotes,
+    stepInKey,
+    toVexKey,
+    vexKeysFor,
+} from './spelling';
+import { analyzeChord } from './chordAnalysis';
+
+/** Notes with the analysis the app would cache for them */
+const chord = (notes: number[]) => ({ notes, analysis: analyzeChord(notes) ?? undefined });
+
+describe('toVexKey', () => {
+    it('writes accidentals and keeps the octave with the letter', () => {
+        expect(toVexKey(63, 'Eb')).toBe('eb/4');
+        expect(toVexKey(67, 'F##')).toBe('f##/4');
+        expect(toVexKey(57, 'Bbb')).toBe('bbb/3');
+        expect(toVexKey(60, 'B#')).toBe('b#/3');
+        expect(toVexKey(59, 'Cb')).toBe('cb/4');
+    });
+
+    it('rejects names it cannot read', () => {
+        expect(() => toVexKey(60, 'H')).toThrow();
+    });
+});
+
+describe('keyAlterations', () => {
+    it('reads sharps and flats from the key', () => {
+        expect(keyAlterations('D')).toMatchObject({ F: 1, C: 1, G: 0 });
+        expect(keyAlterations('Eb')).toMatchObject({ B: -1, E: -1, A: -1, D: 0 });
+        expect(Object.values(keyAlterations('C'))).toEqual([0, 0, 0, 0, 0, 0, 0]);
+        expect(Object.values(keyAlterations('Unknown'))).toEqual([0, 0, 0, 0, 0, 0, 0]);
+    });
+});
+
+describe('spellNotes', () => {
+    it('spells a chord from its root rather than always sharp', () => {
+        const { notes, analysis } = chord([63, 67, 70, 73]);
+
+        expect(spellNotes(notes, { analysis })).toEqual(['Eb', 'G', 'Bb', 'Db']);
+        expect(vexKeysFor(notes, { analysis })).toEqual(['eb/4', 'g/4', 'bb/4', 'db/5']);
+    });
+
+    it('tells a #9 from a b3 by voicing', () => {
+        // C7#9: the D# sits above the E
+        const { notes, analysis } = chord([48, 52, 58, 63]);
+
+        expect(spellNotes(notes, { analysis })).toEqual(['C', 'E', 'Bb', 'D#']);
+    });
+
+    it('writes double sharps and flats where the chord needs them', () => {
+        // D#7 in E major: the third is F##
+        const { notes, analysis } = chord([63, 67, 70, 73]);
+        expect(spellNotes(notes, { analysis, keySignature: 'E' })).toEqual(['D#', 'F##', 'A#', 'C#']);
+        expect(vexKeysFor(notes, { analysis, keySignature: 'E' })[1]).toBe('f##/4');
+
+        // Dbm in Gb major: the third is Fb
+        const minor = chord([61, 64, 68]);
+        expect(spellNotes(minor.notes, { analysis: minor.analysis, keySignature: 'Gb' })).toEqual(['Db', 'Fb', 'Ab']);
+    });
+
+    it('spells diminished chords in stacked thirds', () => {
+        const dim7 = chord([60, 63, 66, 69]);
+        expect(dim7.analysis!.quality).toBe('dim7');
+        expect(spellNotes(dim7.notes, { analysis: dim7.analysis })).toEqual(['C', 'Eb', 'Gb', 'Bbb']);
+
+        const halfDiminished = chord([60, 63, 66, 70]);
+        expect(halfDiminished.analysis!.quality).toBe('m7b5');
+        expect(spellNotes(halfDiminished.notes, { analysis: halfDiminished.analysis })).toEqual(['C', 'Eb', 'Gb', 'Bb']);
+    });
+
+    it('lets the key choose between enharmonic roots', () => {
+        const { notes, analysis } = chord([66, 70, 73]);
+
+        expect(spellNotes(notes, { analysis, keySignature: 'D' })).toEqual(['F#', 'A#', 'C#']);
+        expect(spellNotes(notes, { analysis, keySignature: 'Db' })).toEqual(['Gb', 'Bb', 'Db']);
+    });
+
+    it('honours overrides that sound the right pitch', () => {
+        const { notes, analysis } = chord([60, 64, 67]);
+
+        expect(spellNotes(notes, { analysis, enharmonicOverrides: { 60: 'B#', 64: 'Fb' } })).toEqual(['B#', 'Fb', 'G']);
+        expect(vexKeysFor(notes, { analysis, enharmonicOverrides: { 60: 'B#' } })[0]).toBe('b#/3');
+        // An override naming another pitch is ignored
+        expect(spellNotes(notes, { analysis, enharmonicOverrides: { 64: 'F#' } })).toEqual(['C', 'E', 'G']);
+    });
+
+    it('follows the key when there is no analysis', () => {
+        expect(spellNotes([61, 63, 66], { keySignature: 'A' })).toEqual(['C#', 'D#', 'F#']);
+        expect(spellNotes([61, 63, 66], { keySignature: 'Bb' })).toEqual(['Db', 'Eb', 'Gb']);
+        // A natural outside the key stays natural
+        expect(spellNotes([65], { keySignature: 'G' })).toEqual(['F']);
+        expect(spellNotes([59, 64], { keySignature: 'Cb' })).toEqual(['Cb', 'Fb']);
+    });
+});
+
+describe('respelling', () => {
+    it('lists every spelling, plainest first', () => {
+        expect(enharmonicSpellings(68)).toEqual(['G#', 'Ab']);
+        expect(enharmonicSpellings(67)).toEqual(['G', 'F##', 'Abb']);
+        expect(enharmonicSpellings(60)).toEqual(['C', 'B#', 'Dbb']);
+    });
+
+    it('cycles a note through its spellings and back to automatic', () => {
+        const { notes, analysis } = chord([60, 64, 67]);
+        const context = { analysis };
+
+        const first = nextOverride(notes, 67, context);
+        expect(first).toBe('F##');
+        const second = nextOverride(notes, 67, { ...context, enharmonicOverrides: { 67: first! } });
+        expect(second).toBe('Abb');
+        expect(nextOverride(notes, 67, { ...context, enharmonicOverrides: { 67: second! } })).toBeNull();
+    });
+
+    it('starts the cycle from the spelling the card already shows', () => {
+        const { notes, analysis } = chord([68, 72, 75]);
+
+        expect(spellNotes(notes, { analysis })[0]).toBe('Ab');
+        expect(nextOverride(notes, 68, { analysis })).toBe('G#');
+        expect(nextOverride(notes, 68, { analysis, enharmonicOverrides: { 68: 'G#' } })).toBeNull();
+        expect(nextOverride(notes, 61, { analysis })).toBeNull();
+    });
+});
+
+describe('chordDisplay', () => {
+    it('renames the chord after its root or bass is respelled', () => {
+        const { notes, analysis } = chord([56, 60, 63, 66]);
+        expect(analysis!.display).toBe('Ab7');
+
+        expect(chordDisplay(notes, analysis!)).toBe('Ab7');
+        expect(chordDisplay(notes, analysis!, { 56: 'G#' })).toBe('G#7');
+        // Other notes do not change the name
+        expect(chordDisplay(notes, analysis!, { 63: 'D#' })).toBe('Ab7');
+    });
+
+    it('respells the bass of an inversion', () => {
+        const { notes, analysis } = chord([52, 60, 67]);
+        expect(analysis!.display).toBe('C/E');
+
+        expect(chordDisplay(notes, analysis!, { 52: 'Fb' })).toBe('C/Fb');
+    });
+
+    it('names the chord as the key spells its notes', () => {
+        const sharp = chord([63, 67, 70, 73]);
+        expect(spellNotes(sharp.notes, { analysis: sharp.analysis, keySignature: 'E' })).toEqual(['D#', 'F##', 'A#', 'C#']);
+        expect(chordDisplay(sharp.notes, sharp.analysis!, undefined, 'E')).toBe('D#7');
+
+        const flat = chord([54, 58, 61, 64]);
+        expect(spellNotes(flat.notes, { analysis: flat.analysis, keySignature: 'Db' })).toEqual(['Gb', 'Bb', 'Db', 'Fb']);
+        expect(chordDisplay(flat.notes, flat.analysis!, undefined, 'Db')).toBe('Gb7');
+
+        // The bass of an inversion follows too
+        const inversion = chord([58, 66, 73]);
+        expect(chordDisplay(inversion.notes, inversion.analysis!, undefined, 'Db')).toBe('Gb/Bb');
+    });
+});
+
+describe('courtesyAccidentals', () => {
+    it('reminds the reader after an alteration in the previous bar', () => {
+        expect(courtesyAccidentals([['f/4'], ['f/4']], 'C', [['f#/4']])).toEqual([
+            { chord: 0, key: 0, accidental: 'n' },
+        ]);
+        // In D major an F natural in the last bar is followed by a courtesy sharp
+        expect(courtesyAccidentals([['a/4', 'f#/4']], 'D', [['f/4']])).toEqual([
+            { chord: 0, key: 1, accidental: '#' },
+        ]);
+    });
+
+    it('reminds the reader after an alteration in another octave', () => {
+        expect(courtesyAccidentals([['f#/4'], ['f/5']], 'C')).toEqual([{ chord: 1, key: 0, accidental: 'n' }]);
+        // Notes of one chord do not remind each other
+        expect(courtesyAccidentals([['f#/4', 'f/5']], 'C')).toEqual([]);
+    });
+
+    it('leaves notes that follow the key undisturbed', () => {
+        expect(courtesyAccidentals([['c/4', 'e/4', 'g/4']], 'C', [['c/4', 'e/4', 'g/4']])).toEqual([]);
+        // Held through the bar line with the same alteration
+        expect(courtesyAccidentals([['f#/4']], 'C', [['f#/4']])).toEqual([]);
+        // Strict rules already mark an explicit change
+        expect(courtesyAccidentals([['f#/4'], ['f/4']], 'C')).toEqual([]);
+    });
+});
+
+describe('stepInKey', () => {
+    it('moves along the key\'s scale', () => {
+        expect(stepInKey(60, 1, 'C')).toBe(62);
+        expect(stepInKey(64, 1, 'C')).toBe(65);
+        expect(stepInKey(60, -2, 'C')).toBe(57);
+        expect(stepInKey(62, 2, 'D')).toBe(66);
+        expect(stepInKey(63, -1, 'Eb')).toBe(62);
+    });
+
+    it('lands a note outside the scale on the next scale note', () => {
+        expect(stepInKey(61, 1, 'C')).toBe(62);
+        expect(stepInKey(61, -1, 'C')).toBe(60);
+    });
+
+    it('stops at the MIDI range', () => {
+        expect(stepInKey(127, 1, 'C')).toBeNull();
+        expect(stepInKey(0, -1, 'C')).toBeNull();
+        expect(stepInKey(60, 0, 'C')).toBe(60);
+    });
+});
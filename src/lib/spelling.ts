@@ -0,0 +1,363 @@
+/**
+ * Note spelling
+ *
+ * Names each note of a card for notation: from the chord's root and
+ * quality via chord analysis, nudged toward the key signature, with any
+ * per-note enharmonic override taking precedence. Also works out the
+ * courtesy accidentals a measure needs beyond the strict rules.
+ */
+
+import type { ChordAnalysis } from '../types';
+import { ROOT_SPELLING, getChordToneWithTension } from './chordAnalysis';
+
+// =============================================================================
+// NOTE NAMES
+// =============================================================================
+
+const LETTERS = ['C', 'D', 'E', 'F', 'G', 'A', 'B'];
+const LETTER_PITCH_CLASSES: Record<string, number> = { C: 0, D: 2, E: 4, F: 5, G: 7, A: 9, B: 11 };
+
+/** Alteration in semitones of a spelled name's accidentals */
+const alterationOf = (accidentals: string): number =>
+    [...accidentals].reduce((sum, c) => sum + (c === '#' ? 1 : c === 'b' ? -1 : 0), 0);
+
+/** Letter and alteration of a name such as "Eb", "F##" or "Bbb" */
+export const parseName = (name: string): { letter: string; alteration: number } | null => {
+    const match = /^([A-Ga-g])(#{0,2}|b{0,2})$/.exec(name.trim());
+    if (!match) return null;
+    return { letter: match[1].toUpperCase(), alteration: alterationOf(match[2]) };
+};
+
+/** Pitch class a name sounds, e.g. "Cb" to 11; null for anything but a note name */
+export const pitchClassOf = (name: string): number | null => {
+    const parsed = parseName(name);
+    return parsed ? (LETTER_PITCH_CLASSES[parsed.letter] + parsed.alteration + 12) % 12 : null;
+};
+
+/** Alteration of `letter` that sounds `pitchClass`, or null past a double sharp or flat */
+const alterationFor = (letter: string, pitchClass: number): number | null => {
+    const alteration = ((pitchClass - LETTER_PITCH_CLASSES[letter]) % 12 + 18) % 12 - 6;
+    return Math.abs(alteration) <= 2 ? alteration : null;
+};
+
+const formatName = (letter: string, alteration: number): string =>
+    letter + (alteration > 0 ? '#'.repeat(alteration) : 'b'.repeat(-alteration));
+
+/** Move a name `steps` letters up or down, keeping its pitch class */
+const shiftLetter = (name: string, steps: number, pitchClass: number): string => {
+    const parsed = parseName(name);
+    if (!parsed || steps === 0) return name;
+    const letter = LETTERS[(LETTERS.indexOf(parsed.letter) + steps + 70) % 7];
+    const alteration = alterationFor(letter, pitchClass);
+    return alteration === null ? name : formatName(letter, alteration);
+};
+
+/** A note as written: letter, alteration and the letter's octave */
+export interface SpelledPitch {
+    letter: string;
+    alteration: number;
+    octave: number;
+}
+
+/** MIDI note and its spelled name as a written pitch, e.g. (59, "Cb") to Cb4 */
+export const spelledPitch = (midi: number, name: string): SpelledPitch => {
+    const parsed = parseName(name);
+    if (!parsed) throw new Error(`Cannot spell MIDI note ${midi} as "${name}"`);
+    // The octave belongs to the letter, so B#3 and Cb4 cross the C boundary
+    return { ...parsed, octave: Math.floor((midi - parsed.alteration) / 12) - 1 };
+};
+
+/** MIDI note and its spelled name to a VexFlow key, e.g. (59, "Cb") to "cb/4" */
+export const toVexKey = (midi: number, name: string): string => {
+    const { letter, alteration, octave } = spelledPitch(midi, name);
+    return `${formatName(letter, alteration).toLowerCase()}/${octave}`;
+};
+
+// =============================================================================
+// KEY SIGNATURES
+// =============================================================================
+
+/** Sharps (positive) or flats (negative) in each major key */
+const KEY_FIFTHS: Record<string, number> = {
+    C: 0, G: 1, D: 2, A: 3, E: 4, B: 5, 'F#': 6, 'C#': 7,
+    F: -1, Bb: -2, Eb: -3, Ab: -4, Db: -5, Gb: -6, Cb: -7,
+};
+
+const SHARP_ORDER = ['F', 'C', 'G', 'D', 'A', 'E', 'B'];
+
+/** The tonic of a major key spec; unknown keys read as C major */
+export const keyTonic = (keySignature: string): string => (keySignature in KEY_FIFTHS ? keySignature : 'C');
+
+/** Sharps (positive) or flats (negative) in a major key's signature; unknown keys read as C major */
+export const keyFifths = (keySignature: string): number => KEY_FIFTHS[keySignature] ?? 0;
+
+/** The major key with a signature of `fifths` sharps (or flats, negative); C past seven */
+export const keyWithFifths = (fifths: number): string =>
+    Object.keys(KEY_FIFTHS).find((key) => KEY_FIFTHS[key] === fifths) ?? 'C';
+
+/** Alteration the key signature gives each letter; unknown keys read as C major */
+export const keyAlterations = (keySignature: string): Record<string, number> => {
+    const fifths = keyFifths(keySignature);
+    const order = fifths >= 0 ? SHARP_ORDER : [...SHARP_ORDER].reverse();
+    return Object.fromEntries(
+        LETTERS.map((letter) => [letter, order.indexOf(letter) < Math.abs(fifths) ? Math.sign(fifths) : 0])
+    );
+};
+
+/** The key's own name for a pitch class, if it is diatonic */
+const diatonicName = (pitchClass: number, keySignature: string): string | null => {
+    const alterations = keyAlterations(keySignature);
+    const letter = LETTERS.find((l) => alterationFor(l, pitchClass) === alterations[l]);
+    return letter ? formatName(letter, alterations[letter]) : null;
+};
+
+/**
+ * The note `steps` scale steps from `midi` in the key's major scale, as
+ * dragging a notehead up or down the staff moves it. A note outside the
+ * scale lands on the nearest scale note in the direction of travel. Null
+ * past either end of the MIDI range.
+ */
+export const stepInKey = (midi: number, steps: number, keySignature: string): number | null => {
+    const direction = Math.sign(steps);
+    let note = midi;
+    for (let i = 0; i < Math.abs(steps); i++) {
+        do {
+            note += direction;
+        } while (note >= 0 && note <= 127 && !diatonicName(((note % 12) + 12) % 12, keySignature));
+    }
+    return note >= 0 && note <= 127 ? note : null;
+};
+
+/**
+ * Spelling without a chord: diatonic notes as the key has them, then
+ * naturals, then sharps (or flats in a flat key)
+ */
+const spellInKey = (pitchClass: number, keySignature: string): string => {
+    const diatonic = diatonicName(pitchClass, keySignature);
+    if (diatonic) return diatonic;
+    const natural = LETTERS.find((l) => alterationFor(l, pitchClass) === 0);
+    if (natural) return natural;
+    const direction = (KEY_FIFTHS[keySignature] ?? 0) < 0 ? -1 : 1;
+    return formatName(LETTERS.find((l) => alterationFor(l, pitchClass) === direction)!, direction);
+};
+
+// =============================================================================
+// SPELLING CARDS
+// =============================================================================
+
+export interface SpellingContext {
+    /** The card's chord analysis; without one notes follow the key */
+    analysis?: ChordAnalysis;
+    /** Names chosen by hand, by MIDI note */
+    enharmonicOverrides?: Record<number, string>;
+    /** Active major key (VexFlow spec); C major when absent */
+    keySignature?: string;
+}
+
+/** A note's override, normalised, if it names the note's pitch */
+const overrideFor = (midi: number, overrides?: Record<number, string>): string | null => {
+    const override = parseName(overrides?.[midi] ?? '');
+    if (!override || alterationFor(override.letter, midi % 12) !== override.alteration) return null;
+    return formatName(override.letter, override.alteration);
+};
+
+/**
+ * Interval above the root for each pitch class, as analysis measured it:
+ * the compound interval where there is one, so a #9 voiced above the
+ * third is told from a b3.
+ */
+const actualIntervalsByPitchClass = (notes: number[], analysis: ChordAnalysis): Map<number, number> => {
+    const sorted = [...notes].sort((a, b) => a - b);
+    const byPitchClass = new Map<number, number>();
+    if (!analysis.actualIntervals || analysis.actualIntervals.length !== sorted.length) return byPitchClass;
+
+    sorted.forEach((midi, i) => {
+        const interval = analysis.actualIntervals![i];
+        const seen = byPitchClass.get(midi % 12);
+        if (seen === undefined || (seen <= 12 && interval > 12)) {
+            byPitchClass.set(midi % 12, interval);
+        }
+    });
+    return byPitchClass;
+};
+
+/**
+ * The root's name under the key: a root diatonic to the key takes the
+ * key's spelling (D# in E major, Eb in Bb), anything else keeps the name
+ * analysis chose.
+ */
+export const rootNameInKey = (analysis: ChordAnalysis, keySignature: string): string => {
+    const rootPitchClass = analysis.detectedRootPitchClass;
+    return diatonicName(rootPitchClass, keySignature) ?? analysis.root;
+};
+
+/**
+ * Name each note (parallel to `notes`), e.g. ["Eb", "G", "Bb", "Db"].
+ * Overrides win when they sound the right pitch; chord tones are spelled
+ * from the root and quality, tensions included; notes of an unanalysed
+ * card follow the key signature.
+ */
+export const spellNotes = (notes: number[], context: SpellingContext = {}): string[] => {
+    const { analysis, enharmonicOverrides, keySignature = 'C' } = context;
+
+    let chordTone: ((midi: number) => string) | null = null;
+    if (analysis) {
+        const rootPitchClass = analysis.detectedRootPitchClass;
+        const intervals = actualIntervalsByPitchClass(notes, analysis);
+        const rootName = rootNameInKey(analysis, keySignature);
+        // Chord tones come spelled against the table's own root; move them
+        // onto the chosen root's letter (Eb7 as D#7 gives D# F## A# C#)
+        const tableRoot = parseName(ROOT_SPELLING[rootPitchClass].scale[0]);
+        const root = parseName(rootName);
+        const steps = tableRoot && root ? LETTERS.indexOf(root.letter) - LETTERS.indexOf(tableRoot.letter) : 0;
+
+        chordTone = (midi) => {
+            const pitchClass = midi % 12;
+            const name = getChordToneWithTension(pitchClass, rootPitchClass, analysis.quality, intervals.get(pitchClass));
+            return shiftLetter(name, steps, pitchClass);
+        };
+    }
+
+    return notes.map((midi) =>
+        overrideFor(midi, enharmonicOverrides)
+        ?? (chordTone ? chordTone(midi) : spellInKey(midi % 12, keySignature))
+    );
+};
+
+/** VexFlow keys for a card's notes (parallel to `notes`) */
+export const vexKeysFor = (notes: number[], context: SpellingContext = {}): string[] => {
+    const names = spellNotes(notes, context);
+    return notes.map((midi, i) => toVexKey(midi, names[i]));
+};
+
+/**
+ * The chord's display name spelled as its notes are: the root and bass
+ * follow the key (D#7 in E major, not Eb7) and any override, e.g. "Ab7"
+ * once the G# of a G#7 has been overridden to Ab.
+ */
+export const chordDisplay = (
+    notes: number[],
+    analysis: ChordAnalysis,
+    enharmonicOverrides?: Record<number, string>,
+    keySignature: string = 'C'
+): string => {
+    const names = spellNotes(notes, { analysis, enharmonicOverrides, keySignature });
+    const sorted = notes.map((midi, i) => ({ midi, name: names[i] })).sort((a, b) => a.midi - b.midi);
+    let display = analysis.display;
+
+    // A rootless voicing has no root note to read the name from
+    const root = sorted.find(({ midi }) => midi % 12 === analysis.detectedRootPitchClass)?.name
+        ?? rootNameInKey(analysis, keySignature);
+    if (display.startsWith(analysis.root)) display = root + display.slice(analysis.root.length);
+
+    const bassSuffix = `/${analysis.bass}`;
+    if (sorted.length > 0 && display.endsWith(bassSuffix)) {
+        display = `${display.slice(0, -bassSuffix.length)}/${sorted[0].name}`;
+    }
+
+    return display;
+};
+
+// =============================================================================
+// RESPELLING
+// =============================================================================
+
+/**
+ * Every name a MIDI note can be written as: naturals and single
+ * accidentals first, then double, sharps before flats (G#, Ab; G, F##, Abb).
+ */
+export const enharmonicSpellings = (midi: number): string[] => {
+    const pitchClass = midi % 12;
+    return LETTERS
+        .map((letter) => ({ letter, alteration: alterationFor(letter, pitchClass) }))
+        .filter((s): s is { letter: string; alteration: number } => s.alteration !== null)
+        .sort((a, b) => Math.abs(a.alteration) - Math.abs(b.alteration) || b.alteration - a.alteration)
+        .map(({ letter, alteration }) => formatName(letter, alteration));
+};
+
+/**
+ * The override that moves one note of a card to its next spelling, or null
+ * when the next spelling is the one the card would get anyway (so cycling
+ * all the way round clears the override).
+ */
+export const nextOverride = (notes: number[], midi: number, context: SpellingContext = {}): string | null => {
+    const index = notes.indexOf(midi);
+    if (index === -1) return null;
+    const current = spellNotes(notes, context)[index];
+    const automatic = spellNotes(notes, { ...context, enharmonicOverrides: undefined })[index];
+
+    const spellings = enharmonicSpellings(midi);
+    const next = spellings[(spellings.indexOf(current) + 1) % spellings.length];
+    return next === automatic ? null : next;
+};
+
+// =============================================================================
+// COURTESY ACCIDENTALS
+// =============================================================================
+
+/** A reminder accidental on one key of one chord in a measure */
+export interface CourtesyAccidental {
+    /** Index of the chord within the measure */
+    chord: number;
+    /** Index of the key within the chord */
+    key: number;
+    /** VexFlow accidental: "n", "#", "##", "b" or "bb" */
+    accidental: string;
+}
+
+const accidentalFor = (alteration: number): string =>
+    alteration === 0 ? 'n' : alteration > 0 ? '#'.repeat(alteration) : 'b'.repeat(-alteration);
+
+/** Letter, octave and alteration of a VexFlow key such as "f#/4" */
+const parseVexKey = (key: string): { step: string; letter: string; alteration: number } => {
+    const [name, octave] = key.split('/');
+    const letter = name[0].toUpperCase();
+    return { step: `${letter}${octave}`, letter, alteration: alterationOf(name.slice(1)) };
+};
+
+/**
+ * Cautionary accidentals for one staff of a measure, given each chord's
+ * VexFlow keys. Strict rules (which VexFlow applies) only cancel an
+ * alteration at the same pitch in the same bar; a reader also expects a
+ * reminder when a note returns to the key after
+ *   - the same note was altered in the previous bar, or
+ *   - the same letter was altered in another octave earlier in this bar.
+ * Only the first return of each note gets one.
+ */
+export const courtesyAccidentals = (
+    chords: string[][],
+    keySignature: string,
+    previousMeasure: string[][] = []
+): CourtesyAccidental[] => {
+    const alterations = keyAlterations(keySignature);
+
+    // Alterations still in the reader's mind from the previous bar
+    const carried = new Map<string, number>();
+    previousMeasure.flat().forEach((key) => {
+        const { step, alteration } = parseVexKey(key);
+        carried.set(step, alteration);
+    });
+
+    const written = new Map<string, number>();
+    const writtenByLetter = new Map<string, Set<number>>();
+    const courtesies: CourtesyAccidental[] = [];
+
+    chords.forEach((keys, chord) => {
+        const parsed = keys.map(parseVexKey);
+        parsed.forEach(({ step, letter, alteration }, key) => {
+            if (written.has(step) || alteration !== alterations[letter]) return;
+            const previous = carried.get(step);
+            const otherOctaves = writtenByLetter.get(letter);
+            const wasAltered = (previous !== undefined && previous !== alteration)
+                || [...(otherOctaves ?? [])].some((a) => a !== alteration);
+            if (wasAltered) courtesies.push({ chord, key, accidental: accidentalFor(alteration) });
+        });
+        // A chord's notes sound together, so they only affect later chords
+        parsed.forEach(({ step, letter, alteration }) => {
+            written.set(step, alteration);
+            writtenByLetter.set(letter, new Set([...(writtenByLetter.get(letter) ?? []), alteration]));
+        });
+    });
+
+    return courtesies;
+};
@@ -0,0 +1,58 @@
+/**
+ * Tests for hit-testing the drawn staff and retuning a dragged note.
+ */
+
+import { describe, it, expect } from 'vitest';
+import { offsetTargets, retuneCard, targetAt } from './staffEditing';
+
+const targets = {
+    chords: [
+        { cardId: 'a', x: 100, y: 0, width: 20, height: 200 },
+        { cardId: 'b', x: 140, y: 0, width: 20, height: 200 },
+    ],
+    heads: [
+        { cardId: 'a', midi: 64, x: 102, y: 60, width: 12, height: 10 },
+        { cardId: 'a', midi: 67, x: 102, y: 50, width: 12, height: 10 },
+    ],
+};
+
+describe('targetAt', () => {
+    it('finds a notehead before its chord', () => {
+        expect(targetAt(targets, 108, 65)).toEqual({ kind: 'head', target: targets.heads[0] });
+        expect(targetAt(targets, 108, 52)?.target).toMatchObject({ midi: 67 });
+    });
+
+    it('falls back to the chord column, then to nothing', () => {
+        expect(targetAt(targets, 108, 150)).toEqual({ kind: 'chord', target: targets.chords[0] });
+        expect(targetAt(targets, 150, 65)).toEqual({ kind: 'chord', target: targets.chords[1] });
+        expect(targetAt(targets, 130, 65)).toBeNull();
+    });
+
+    it('hit-tests targets moved to the staff\'s coordinates', () => {
+        const moved = offsetTargets(targets, 200, 40);
+
+        expect(targetAt(moved, 308, 105)?.target).toMatchObject({ cardId: 'a', midi: 64 });
+        expect(targetAt(moved, 108, 65)).toBeNull();
+    });
+});
+
+describe('retuneCard', () => {
+    it('moves a note in place and analyses the chord again', () => {
+        const updates = retuneCard({ notes: [60, 64, 67] }, 64, 63);
+
+        expect(updates?.notes).toEqual([60, 63, 67]);
+        expect(updates?.analysis?.display).toBe('Cm');
+        expect(updates?.enharmonicOverrides).toBeUndefined();
+    });
+
+    it('drops the moved note\'s spelling override only', () => {
+        const updates = retuneCard({ notes: [60, 63, 68], enharmonicOverrides: { 63: 'D#', 68: 'G#' } }, 63, 64);
+
+        expect(updates?.enharmonicOverrides).toEqual({ 68: 'G#' });
+    });
+
+    it('refuses to merge two notes or move one the card lacks', () => {
+        expect(retuneCard({ notes: [60, 64, 67] }, 64, 67)).toBeNull();
+        expect(retuneCard({ notes: [60, 64, 67] }, 62, 63)).toBeNull();
+    });
+});
@@ -0,0 +1,86 @@
+/**
+ * Staff editing
+ *
+ * What the pointer can reach on the drawn staff (noteheads and chord
+ * columns), which one a point lands on, and the card edit a notehead
+ * dragged to another pitch makes. Free of VexFlow and the DOM: the
+ * renderer supplies the rectangles.
+ */
+
+import type { Card } from '../types';
+import { analyzeChord } from './chordAnalysis';
+
+// =============================================================================
+// TARGETS
+// =============================================================================
+
+interface Rect {
+    x: number;
+    y: number;
+    width: number;
+    height: number;
+}
+
+/** The full height of one written piece of a card, both staves */
+export interface ChordTarget extends Rect {
+    cardId: string;
+}
+
+/** One drawn notehead */
+export interface NoteheadTarget extends Rect {
+    cardId: string;
+    midi: number;
+}
+
+export interface StaffTargets {
+    chords: ChordTarget[];
+    heads: NoteheadTarget[];
+}
+
+export type StaffHit =
+    | { kind: 'head'; target: NoteheadTarget }
+    | { kind: 'chord'; target: ChordTarget };
+
+const contains = (rect: Rect, x: number, y: number) =>
+    x >= rect.x && x <= rect.x + rect.width && y >= rect.y && y <= rect.y + rect.height;
+
+/** Move every target by an offset, e.g. from a measure's own origin to the staff's */
+export const offsetTargets = ({ chords, heads }: StaffTargets, dx: number, dy: number): StaffTargets => ({
+    chords: chords.map((chord) => ({ ...chord, x: chord.x + dx, y: chord.y + dy })),
+    heads: heads.map((head) => ({ ...head, x: head.x + dx, y: head.y + dy })),
+});
+
+/** What's under a point: a notehead first, then the chord column around it */
+export const targetAt = ({ chords, heads }: StaffTargets, x: number, y: number): StaffHit | null => {
+    const head = heads.find((target) => contains(target, x, y));
+    if (head) return { kind: 'head', target: head };
+    const chord = chords.find((target) => contains(target, x, y));
+    return chord ? { kind: 'chord', target: chord } : null;
+};
+
+// =============================================================================
+// EDITS
+// =============================================================================
+
+/**
+ * The updates that move one of a card's notes to another pitch, keeping
+ * its place (and velocity) in the card. The chord is analysed afresh and
+ * the old note's spelling override dropped. Null when the card doesn't
+ * have the note or already has the new one.
+ */
+export const retuneCard = (
+    card: Pick<Card, 'notes' | 'enharmonicOverrides'>,
+    from: number,
+    to: number
+): Pick<Card, 'notes' | 'analysis' | 'enharmonicOverrides'> | null => {
+    if (from === to || !card.notes.includes(from) || card.notes.includes(to)) return null;
+    const notes = card.notes.map((note) => (note === from ? to : note));
+
+    const overrides = { ...card.enharmonicOverrides };
+    delete overrides[from];
+    return {
+        notes,
+        analysis: analyzeChord(notes) || undefined,
+        enharmonicOverrides: Object.keys(overrides).length > 0 ? overrides : undefined,
+    };
+};
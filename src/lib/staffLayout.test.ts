@@ -0,0 +1,155 @@
+/**
+ * Tests for measure grouping and system line breaking.
+ */
+
+import { describe, it, expect } from 'vitest';
+import { breakSystems, groupMeasures, measureMinWidth, noteSpacing, tupletGroups } from './staffLayout';
+import { createCard, createRestCard } from '../types';
+import type { Duration } from '../types';
+
+describe('groupMeasures', () => {
+    it('fills measures by DURATION_INFO ticks', () => {
+        const cards = [
+            createCard([60], 'h'),
+            createRestCard('q'),
+            createCard([62], 'q'),
+            createCard([64], '8'),
+            createCard([65], '8'),
+        ];
+
+        const measures = groupMeasures(cards, [4, 4]);
+
+        expect(measures).toHaveLength(2);
+        expect(measures[0].entries.map((e) => [e.cardIndex, e.offset])).toEqual([[0, 0], [1, 960], [2, 1440]]);
+        expect(measures[0].filledTicks).toBe(1920);
+        expect(measures[1].startTick).toBe(1920);
+        expect(measures[1].entries.map((e) => [e.cardIndex, e.offset])).toEqual([[3, 0], [4, 240]]);
+        // The last measure is left open rather than padded
+        expect(measures[1].filledTicks).toBe(480);
+    });
+
+    it('follows the time signature', () => {
+        const cards = [createCard([60], '8'), createCard([62], '8'), createCard([64], '8'), createCard([65], '8')];
+
+        expect(groupMeasures(cards, [3, 8]).map((m) => m.entries.length)).toEqual([3, 1]);
+        expect(groupMeasures(cards, [2, 4]).map((m) => m.entries.length)).toEqual([4]);
+    });
+
+    it('splits a card that crosses the bar line into tied pieces', () => {
+        // A half note on beat 4 of 4/4
+        const cards = [createCard([60], 'h'), createCard([62], 'q'), createCard([64], 'h'), createCard([65], 'q')];
+
+        const measures = groupMeasures(cards, [4, 4]);
+
+        expect(measures.map((m) => m.entries.map((e) => [e.cardIndex, e.offset, e.duration]))).toEqual([
+            [[0, 0, 'h'], [1, 960, 'q'], [2, 1440, 'q']],
+            [[2, 0, 'q'], [3, 480, 'q']],
+        ]);
+        const [before, after] = [measures[0].entries[2], measures[1].entries[0]];
+        expect([before.tiedFromPrevious, before.tiesToNext]).toEqual([false, true]);
+        expect([after.tiedFromPrevious, after.tiesToNext]).toEqual([true, false]);
+        expect(measures[1].entries[1].tiedFromPrevious).toBe(false);
+    });
+
+    it('ties through a whole measure, writing it as one dotted note', () => {
+        // The whole note starts on beat 3 of 3/4 and holds through all of bar 2
+        const cards = [createCard([60], 'h'), createCard([62], 'w'), createCard([64], 'q')];
+
+        const measures = groupMeasures(cards, [3, 4]);
+
+        expect(measures.map((m) => m.entries.map((e) => [e.cardIndex, e.duration]))).toEqual([
+            [[0, 'h'], [1, 'q']],
+            [[1, 'hd']],
+            [[2, 'q']],
+        ]);
+        expect([measures[1].entries[0].tiedFromPrevious, measures[1].entries[0].tiesToNext]).toEqual([true, false]);
+        expect(measures[1].filledTicks).toBe(1440);
+    });
+
+    it('ties within a measure when the remainder needs two notes', () => {
+        const measures = groupMeasures([createCard([60], 'qd'), createCard([62], 'w')], [4, 4]);
+
+        expect(measures.map((m) => m.entries.map((e) => [e.cardIndex, e.offset, e.duration]))).toEqual([
+            [[0, 0, 'qd'], [1, 720, 'h'], [1, 1680, '8']],
+            [[1, 0, 'qd']],
+        ]);
+        expect(measures[0].entries.map((e) => e.tiesToNext)).toEqual([false, true, true]);
+    });
+
+    it('splits rests at the bar line without tying them', () => {
+        const measures = groupMeasures([createCard([60], 'h'), createCard([62], 'q'), createRestCard('h')], [4, 4]);
+
+        expect(measures.map((m) => m.entries.map((e) => e.duration))).toEqual([['h', 'q', 'q'], ['q']]);
+        expect(measures.flatMap((m) => m.entries).some((e) => e.tiedFromPrevious || e.tiesToNext)).toBe(false);
+    });
+
+    it('has no measures without cards', () => {
+        expect(groupMeasures([], [4, 4])).toEqual([]);
+    });
+});
+
+describe('tupletGroups', () => {
+    it('brackets only the triplets that fill a group when one is tied across the bar', () => {
+        // The triplet quarter starts on the last third of beat 4 and is tied into bar 2
+        const cards = [
+            createCard([60], 'h'),
+            createCard([62], 'q'),
+            createCard([64], '8t3'),
+            createCard([65], '8t3'),
+            createCard([67], 'qt3'),
+            createCard([69], '8t3'),
+            createCard([71], 'q'),
+        ];
+
+        const [first, second] = groupMeasures(cards, [4, 4]);
+
+        expect(second.entries.map((e) => e.duration)).toEqual(['8t3', '8t3', 'q']);
+        expect(tupletGroups(first.entries)).toEqual([{ start: 2, end: 5, tuplet: { notes: 3, inSpaceOf: 2 } }]);
+        expect(tupletGroups(second.entries)).toEqual([]);
+    });
+
+    it('groups mixed values of one tuplet and skips a lone piece', () => {
+        const entries = (durations: Duration[]) => groupMeasures(durations.map((d) => createCard([60], d)), [4, 4])[0].entries;
+
+        expect(tupletGroups(entries(['qt3', '8t3', 'q', 'h']))).toEqual([{ start: 0, end: 2, tuplet: { notes: 3, inSpaceOf: 2 } }]);
+        expect(tupletGroups(entries(['q', '8t3', '8', 'h']))).toEqual([]);
+        expect(tupletGroups(entries(['16t5', '16t5', '16t5', '16t5', '16t5', 'q']))).toHaveLength(1);
+    });
+});
+
+describe('spacing', () => {
+    it('gives longer notes more room, but less than proportionally', () => {
+        expect(noteSpacing('8')).toBeGreaterThan(noteSpacing('16'));
+        expect(noteSpacing('w')).toBeGreaterThan(noteSpacing('h'));
+        expect(noteSpacing('w')).toBeLessThan(noteSpacing('16') * 16);
+    });
+
+    it('spaces the written pieces of a split card', () => {
+        const [first, second] = groupMeasures([createCard([60], 'w'), createCard([60], 'w')], [2, 4]);
+
+        expect(measureMinWidth(first)).toBe(measureMinWidth(second));
+        expect(measureMinWidth(first)).toBeGreaterThanOrEqual(noteSpacing('h'));
+    });
+});
+
+describe('breakSystems', () => {
+    const header = (systemIndex: number) => (systemIndex === 0 ? 90 : 60);
+
+    it('wraps measures onto new lines and stretches all but the last', () => {
+        const systems = breakSystems([100, 100, 100, 100, 100], 400, header);
+
+        expect(systems.map((s) => s.measures)).toEqual([[0, 1, 2], [3, 4]]);
+        // Full line: header plus measures scaled to fill the width
+        expect(systems[0].widths.reduce((a, b) => a + b, 0)).toBeCloseTo(400);
+        expect(systems[0].widths[0] - systems[0].widths[1]).toBeCloseTo(90);
+        // Last line keeps natural widths
+        expect(systems[1].widths).toEqual([160, 100]);
+    });
+
+    it('gives an oversized measure its own line', () => {
+        const systems = breakSystems([100, 500, 100], 400, header);
+
+        expect(systems.map((s) => s.measures)).toEqual([[0], [1], [2]]);
+        expect(systems[1].widths).toEqual([560]);
+    });
+});
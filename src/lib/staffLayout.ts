@@ -0,0 +1,252 @@
+/**
+ * Staff layout
+ *
+ * Groups cards into measures on the timeline's tick axis and breaks the
+ * measures into systems (lines of music) that fit the available width.
+ * Pure geometry: StaffRenderer turns the result into VexFlow staves.
+ */
+
+import { DURATION_INFO } from '../types';
+import type { Card, Duration, TimeSignature, TupletRatio } from '../types';
+import { durationsForTicks } from './durations';
+import type { HandSplit } from './handSplit';
+import { contentHash } from './renderCache';
+import { buildTimeline, ticksPerMeasure } from './timeline';
+
+// =============================================================================
+// MEASURES
+// =============================================================================
+
+/**
+ * A piece of a card within one measure. A card that crosses a bar line is
+ * written as tied pieces, one run per measure; the card itself stays a
+ * single event for playback and export.
+ */
+export interface MeasureEntry {
+    card: Card;
+    cardIndex: number;
+    /** Ticks from the start of the measure */
+    offset: number;
+    /** Written length of this piece (the card's own duration when it fits) */
+    duration: Duration;
+    /** Continues the card's previous piece */
+    tiedFromPrevious: boolean;
+    /** Continues into the card's next piece */
+    tiesToNext: boolean;
+}
+
+export interface Measure {
+    index: number;
+    startTick: number;
+    entries: MeasureEntry[];
+    /** Ticks covered by cards (short only in the last measure) */
+    filledTicks: number;
+}
+
+/**
+ * Lay cards into measures of the time signature. Where a card runs past a
+ * bar line it is split at the bar, each side written with the longest
+ * durations that fit, and the pieces tied. Rests split the same way but
+ * are never tied.
+ */
+export const groupMeasures = (cards: Card[], timeSignature: TimeSignature): Measure[] => {
+    const measureTicks = ticksPerMeasure(timeSignature);
+    const { entries, totalTicks } = buildTimeline(cards);
+    const count = Math.ceil(totalTicks / measureTicks);
+
+    const measures: Measure[] = Array.from({ length: count }, (_, index) => ({
+        index,
+        startTick: index * measureTicks,
+        entries: [],
+        filledTicks: 0,
+    }));
+
+    entries.forEach(({ cardIndex, startTick, endTick }) => {
+        const card = cards[cardIndex];
+        const pieces: { measure: Measure; entry: MeasureEntry }[] = [];
+
+        let tick = startTick;
+        while (tick < endTick) {
+            const measure = measures[Math.floor(tick / measureTicks)];
+            const segmentEnd = Math.min(endTick, measure.startTick + measureTicks);
+            const durations = segmentEnd - tick === endTick - startTick
+                ? [card.duration]
+                : durationsForTicks(segmentEnd - tick);
+
+            let offset = tick - measure.startTick;
+            durations.forEach((duration) => {
+                pieces.push({
+                    measure,
+                    entry: { card, cardIndex, offset, duration, tiedFromPrevious: false, tiesToNext: false },
+                });
+                offset += DURATION_INFO[duration].ppq;
+            });
+            measure.filledTicks = Math.max(measure.filledTicks, segmentEnd - measure.startTick);
+            tick = segmentEnd;
+        }
+
+        pieces.forEach(({ measure, entry }, i) => {
+            if (!card.isRest) {
+                entry.tiedFromPrevious = i > 0;
+                entry.tiesToNext = i < pieces.length - 1;
+            }
+            measure.entries.push(entry);
+        });
+    });
+
+    return measures;
+};
+
+/** A run of a measure's pieces bracketed as one tuplet */
+export interface TupletGroup {
+    /** Index of the run's first piece among the measure's entries */
+    start: number;
+    /** Index just past its last piece */
+    end: number;
+    tuplet: TupletRatio;
+}
+
+/**
+ * The tuplet brackets a measure's pieces need: runs of one tuplet that fill
+ * `inSpaceOf` of their shortest plain value, e.g. three 8t3 in the time of
+ * two eighths, or a qt3 and an 8t3. A piece that fills no group, such as
+ * half of a triplet quarter tied over the bar line, stays unbracketed.
+ */
+export const tupletGroups = (entries: MeasureEntry[]): TupletGroup[] => {
+    const groups: TupletGroup[] = [];
+    let start = 0;
+    while (start < entries.length) {
+        const { tuplet } = DURATION_INFO[entries[start].duration];
+        if (!tuplet) {
+            start++;
+            continue;
+        }
+        let end = start;
+        let ticks = 0;
+        let groupTicks = Infinity;
+        while (end < entries.length && ticks < groupTicks) {
+            const info = DURATION_INFO[entries[end].duration];
+            if (info.tuplet?.notes !== tuplet.notes) break;
+            ticks += info.ppq;
+            groupTicks = Math.min(groupTicks, tuplet.inSpaceOf * DURATION_INFO[info.base].ppq);
+            end++;
+        }
+        if (ticks === groupTicks) {
+            groups.push({ start, end, tuplet });
+            start = end;
+        } else {
+            start++;
+        }
+    }
+    return groups;
+};
+
+/** What a measure's written notes depend on: its pieces and their cards as split */
+const measureContent = (measure: Measure, hands: HandSplit[]) =>
+    measure.entries.map(({ card, cardIndex, offset, duration, tiedFromPrevious, tiesToNext }) => [
+        card.id,
+        card.isRest ? [] : card.notes,
+        card.analysis?.display ?? null,
+        card.enharmonicOverrides ?? null,
+        hands[cardIndex] ?? null,
+        offset,
+        duration,
+        tiedFromPrevious,
+        tiesToNext,
+    ]);
+
+/**
+ * A key per measure that changes only when the measure would draw
+ * differently: its cards, how they split, whether one is playing, and the
+ * notes of the measure before (which decide the courtesy accidentals).
+ * Layout (width, place on the line) is left to the caller to add.
+ */
+export const measureRenderKeys = (
+    measures: Measure[],
+    hands: HandSplit[],
+    playingIndex: number | null = null
+): string[] => {
+    const contents = measures.map((measure) => contentHash(measureContent(measure, hands)));
+    return measures.map((measure, i) => {
+        const playing = measure.entries.some((entry) => entry.cardIndex === playingIndex);
+        return [measure.index, contents[i], i > 0 ? contents[i - 1] : '', playing ? 'playing' : ''].join(':');
+    });
+};
+
+// =============================================================================
+// SPACING
+// =============================================================================
+
+/** Horizontal room for a 32nd; each doubling of length adds half again */
+const MIN_NOTE_SPACING = 26;
+
+/** Bar line and padding inside every measure */
+const MEASURE_PADDING = 24;
+
+/** Narrowest measure, so one holding a single short piece stays readable */
+const MIN_MEASURE_WIDTH = 64;
+
+/** Room a card needs, growing logarithmically with its length like engraved spacing */
+export const noteSpacing = (duration: Duration): number => {
+    const doublings = Math.log2(DURATION_INFO[duration].ppq / DURATION_INFO['32'].ppq);
+    return MIN_NOTE_SPACING * (1 + doublings / 2);
+};
+
+/** Narrowest comfortable width of a measure's notes, without any clef or signatures */
+export const measureMinWidth = (measure: Measure): number => {
+    const notes = measure.entries.reduce((sum, { duration }) => sum + noteSpacing(duration), 0);
+    return Math.max(MIN_MEASURE_WIDTH, MEASURE_PADDING + notes);
+};
+
+// =============================================================================
+// SYSTEMS
+// =============================================================================
+
+/** One line of the grand staff */
+export interface StaffSystem {
+    /** Indices of the measures on this line */
+    measures: number[];
+    /** Width of each measure; the first includes the line's header */
+    widths: number[];
+}
+
+/**
+ * Break measures into lines no wider than `lineWidth`. `headerWidth` gives
+ * the room taken by the clef and signatures that open each line. Full lines
+ * are stretched to the line width; the last keeps its natural widths. A
+ * measure too wide for any line gets a line of its own.
+ */
+export const breakSystems = (
+    minWidths: number[],
+    lineWidth: number,
+    headerWidth: (systemIndex: number) => number
+): StaffSystem[] => {
+    const lines: number[][] = [];
+    let line: number[] = [];
+    let used = 0;
+
+    minWidths.forEach((width, index) => {
+        const header = line.length === 0 ? headerWidth(lines.length) : 0;
+        if (line.length > 0 && used + width > lineWidth) {
+            lines.push(line);
+            line = [];
+            used = headerWidth(lines.length);
+        } else {
+            used += header;
+        }
+        line.push(index);
+        used += width;
+    });
+    if (line.length > 0) lines.push(line);
+
+    return lines.map((measures, systemIndex) => {
+        const header = headerWidth(systemIndex);
+        const natural = measures.reduce((sum, index) => sum + minWidths[index], 0);
+        const isLast = systemIndex === lines.length - 1;
+        const scale = !isLast && natural > 0 ? Math.max(1, (lineWidth - header) / natural) : 1;
+        return {
+            measures,
+            widths: measures.map((index, i) => minWidths[index] * scale + (i === 0 ? header : 0)),
+        };
+    });
+};
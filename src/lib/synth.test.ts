@@ -0,0 +1,170 @@
+/**
+ * Tests for the built-in synth, rendered against the offline audio stub.
+ */
+
+import { describe, it, expect } from 'vitest';
+import { createSynthOutput, midiToFrequency, MAX_VOICES, SYNTH_PRESETS } from './synth';
+import { FakeAudioContext } from './fakeAudioContext';
+import type { FakeGainNode } from './fakeAudioContext';
+import { playChord } from './noteOutput';
+
+/** Synth on a fresh offline context whose performance clock reads `clock.now` */
+function setup(options: { presetId?: string; suspended?: boolean } = {}) {
+    const context = new FakeAudioContext({ suspended: options.suspended });
+    const clock = { now: 1000 };
+    const synth = createSynthOutput(context, { presetId: options.presetId, now: () => clock.now });
+    const master = context.gains[0];
+    return { context, clock, synth, master };
+}
+
+/** Envelope gain node of the voice started by the given oscillator */
+const envelopeOf = (context: FakeAudioContext, oscIndex: number): FakeGainNode => {
+    const partialGain = context.oscillators[oscIndex].connections[0] as FakeGainNode;
+    return partialGain.connections[0] as FakeGainNode;
+};
+
+describe('midiToFrequency', () => {
+    it('tunes A4 to 440 Hz with equal-tempered semitones', () => {
+        expect(midiToFrequency(69)).toBe(440);
+        expect(midiToFrequency(81)).toBeCloseTo(880);
+        expect(midiToFrequency(60)).toBeCloseTo(261.63, 2);
+    });
+});
+
+describe('createSynthOutput', () => {
+    it('routes every voice through the master volume to the destination', () => {
+        const { context, synth, master } = setup();
+
+        synth.noteOn(60);
+
+        expect(master.connections).toEqual([context.destination]);
+        expect(envelopeOf(context, 0).connections).toEqual([master]);
+    });
+
+    it('stacks the preset partials at multiples of the note frequency', () => {
+        const { context, synth } = setup({ presetId: 'organ' });
+
+        synth.noteOn(69);
+
+        const organ = SYNTH_PRESETS.find((p) => p.id === 'organ')!;
+        expect(context.oscillators.map((osc) => osc.frequency.value))
+            .toEqual(organ.partials.map((p) => 440 * p.ratio));
+        expect(context.oscillators.every((osc) => osc.startTime === 0)).toBe(true);
+    });
+
+    it('shapes the attack, decay and sustain of the envelope', () => {
+        const { context, synth } = setup({ presetId: 'organ' });
+        const { attack } = SYNTH_PRESETS.find((p) => p.id === 'organ')!.envelope;
+
+        synth.noteOn(60, 127);
+        const gain = envelopeOf(context, 0).gain;
+
+        expect(gain.valueAt(0)).toBe(0);
+        expect(gain.valueAt(attack / 2)).toBeCloseTo(0.1);
+        expect(gain.valueAt(attack)).toBeCloseTo(0.2);
+        // Organ sustains at full level while held
+        expect(gain.valueAt(5)).toBeCloseTo(0.2);
+    });
+
+    it('scales the peak with velocity', () => {
+        const { context, synth } = setup({ presetId: 'organ' });
+
+        synth.noteOn(60, 127);
+        synth.noteOn(64, 64);
+
+        const loud = envelopeOf(context, 0).gain.valueAt(1);
+        const soft = envelopeOf(context, 4).gain.valueAt(1);
+        expect(soft).toBeGreaterThan(0);
+        expect(soft).toBeLessThan(loud / 2);
+    });
+
+    it('releases on note off and tears the voice down once it rings out', () => {
+        const { context, synth } = setup({ presetId: 'organ' });
+
+        synth.noteOn(60);
+        context.advance(1);
+        synth.noteOff(60);
+
+        const gain = envelopeOf(context, 0).gain;
+        expect(synth.getVoiceCount()).toBe(0);
+        expect(gain.valueAt(1.5)).toBeLessThan(0.001);
+
+        context.advance(1);
+        expect(context.sounding()).toEqual([]);
+        expect(context.oscillators[0].connections).toEqual([]);
+    });
+
+    it('schedules performance-clock timestamps on the audio clock', () => {
+        const { context, clock, synth } = setup();
+        context.currentTime = 3;
+
+        synth.noteOn(60, 100, clock.now + 250);
+
+        expect(context.oscillators[0].startTime).toBeCloseTo(3.25);
+    });
+
+    it('retriggers a repeated note instead of stacking voices', () => {
+        const { context, synth } = setup();
+
+        synth.noteOn(60);
+        context.advance(0.1);
+        synth.noteOn(60);
+
+        expect(synth.getVoiceCount()).toBe(1);
+        expect(context.oscillators[0].stopTime).not.toBeNull();
+    });
+
+    it('steals the oldest voice beyond the polyphony limit', () => {
+        const { context, synth } = setup();
+        const partials = SYNTH_PRESETS[0].partials.length;
+
+        for (let i = 0; i <= MAX_VOICES; i++) synth.noteOn(30 + i);
+
+        expect(synth.getVoiceCount()).toBe(MAX_VOICES);
+        expect(context.oscillators[0].stopTime).not.toBeNull();
+        expect(context.oscillators[partials].stopTime).toBeNull();
+    });
+
+    it('silences everything on panic', () => {
+        const { context, synth } = setup();
+
+        playChord(synth, [60, 64, 67], 10000);
+        synth.allNotesOff();
+        context.advance(0.5);
+
+        expect(synth.getVoiceCount()).toBe(0);
+        expect(context.sounding()).toEqual([]);
+    });
+
+    it('cancels a note scheduled for the future without sounding it', () => {
+        const { context, clock, synth } = setup();
+
+        synth.noteOn(60, 100, clock.now + 80);
+        synth.allNotesOff();
+
+        const osc = context.oscillators[0];
+        expect(osc.stopTime).toBe(osc.startTime);
+        expect(envelopeOf(context, 0).gain.valueAt(osc.startTime!)).toBe(0);
+    });
+
+    it('applies preset and volume changes', () => {
+        const { context, synth, master } = setup();
+
+        synth.setPreset('pad');
+        synth.setVolume(0.25);
+        synth.noteOn(60);
+
+        expect(synth.getPreset().id).toBe('pad');
+        expect(context.oscillators[0].type).toBe('triangle');
+        expect(synth.getVolume()).toBe(0.25);
+        expect(master.gain.valueAt(1)).toBeCloseTo(0.25);
+    });
+
+    it('resumes a suspended context on the first note', () => {
+        const { context, synth } = setup({ suspended: true });
+
+        synth.noteOn(60);
+
+        expect(context.state).toBe('running');
+    });
+});
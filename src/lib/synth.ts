@@ -0,0 +1,273 @@
+/**
+ * Built-in Synth
+ *
+ * Small polyphonic Web Audio synth used when no MIDI output is selected.
+ * Each voice is a stack of oscillator partials through an ADSR gain
+ * envelope into a shared master volume. It implements NoteOutput, so
+ * playback and the virtual keyboard can't tell it from a MIDI port.
+ */
+
+import { clampVelocity, DEFAULT_VELOCITY } from './noteOutput';
+import type { NoteOutput } from './noteOutput';
+import type { AudioContextLike, GainNodeLike, OscillatorNodeLike, SynthWaveform } from '../types';
+
+// =============================================================================
+// PRESETS
+// =============================================================================
+
+/** Envelope times in seconds; sustain is a level (0-1) of the peak */
+export interface SynthEnvelope {
+    attack: number;
+    decay: number;
+    sustain: number;
+    release: number;
+}
+
+/** One oscillator in a voice */
+export interface SynthPartial {
+    waveform: SynthWaveform;
+    /** Frequency multiple of the note's fundamental */
+    ratio: number;
+    gain: number;
+    /** Detune in cents */
+    detune?: number;
+}
+
+export interface SynthPreset {
+    id: string;
+    label: string;
+    partials: SynthPartial[];
+    envelope: SynthEnvelope;
+}
+
+export const SYNTH_PRESETS: SynthPreset[] = [
+    {
+        id: 'piano',
+        label: 'Piano',
+        partials: [
+            { waveform: 'triangle', ratio: 1, gain: 0.6 },
+            { waveform: 'sine', ratio: 2, gain: 0.25 },
+            { waveform: 'sine', ratio: 3, gain: 0.08 },
+        ],
+        // No sustain level: the note dies away like a struck string
+        envelope: { attack: 0.004, decay: 2.4, sustain: 0, release: 0.25 },
+    },
+    {
+        id: 'epiano',
+        label: 'Electric Piano',
+        partials: [
+            { waveform: 'sine', ratio: 1, gain: 0.6 },
+            { waveform: 'sine', ratio: 1, gain: 0.25, detune: 6 },
+            { waveform: 'sine', ratio: 4, gain: 0.06 },
+        ],
+        envelope: { attack: 0.005, decay: 1.2, sustain: 0.3, release: 0.4 },
+    },
+    {
+        id: 'organ',
+        label: 'Organ',
+        partials: [
+            { waveform: 'sine', ratio: 1, gain: 0.45 },
+            { waveform: 'sine', ratio: 2, gain: 0.3 },
+            { waveform: 'sine', ratio: 3, gain: 0.15 },
+            { waveform: 'sine', ratio: 4, gain: 0.1 },
+        ],
+        envelope: { attack: 0.01, decay: 0.05, sustain: 1, release: 0.08 },
+    },
+    {
+        id: 'pad',
+        label: 'Soft Pad',
+        partials: [
+            { waveform: 'triangle', ratio: 1, gain: 0.4, detune: -7 },
+            { waveform: 'triangle', ratio: 1, gain: 0.4, detune: 7 },
+            { waveform: 'sine', ratio: 2, gain: 0.1 },
+        ],
+        envelope: { attack: 0.35, decay: 0.6, sustain: 0.7, release: 1.2 },
+    },
+];
+
+export const DEFAULT_SYNTH_PRESET_ID = 'piano';
+
+/** Short woody tick for the metronome; not offered as an instrument */
+export const CLICK_PRESET: SynthPreset = {
+    id: 'click',
+    label: 'Click',
+    partials: [
+        { waveform: 'square', ratio: 2, gain: 0.3 },
+        { waveform: 'sine', ratio: 5.4, gain: 0.4 },
+    ],
+    envelope: { attack: 0.001, decay: 0.03, sustain: 0, release: 0.02 },
+};
+
+// =============================================================================
+// CONSTANTS
+// =============================================================================
+
+/** Voices beyond this steal the oldest one */
+export const MAX_VOICES = 32;
+
+/** Peak gain of a full-velocity voice, leaving headroom for chords */
+const VOICE_GAIN = 0.2;
+
+/** Release (s) used for voice stealing, retriggers and panic */
+const FAST_RELEASE = 0.015;
+
+/** Equal-tempered frequency of a MIDI note (A4 = 440 Hz) */
+export const midiToFrequency = (note: number): number => 440 * Math.pow(2, (note - 69) / 12);
+
+// =============================================================================
+// ENGINE
+// =============================================================================
+
+export interface SynthOutput extends NoteOutput {
+    setPreset: (id: string) => void;
+    getPreset: () => SynthPreset;
+    /** Master volume, 0-1 */
+    setVolume: (volume: number) => void;
+    getVolume: () => number;
+    /** Voices currently held or still in their attack/decay */
+    getVoiceCount: () => number;
+}
+
+export interface SynthOptions {
+    presetId?: string;
+    volume?: number;
+    /** Clock that NoteOutput timestamps are measured on (default performance.now) */
+    now?: () => number;
+}
+
+interface Voice {
+    note: number;
+    startTime: number;
+    envelope: GainNodeLike;
+    release: number;
+    oscillators: OscillatorNodeLike[];
+    partialGains: GainNodeLike[];
+}
+
+const findPreset = (id: string): SynthPreset => {
+    if (id === CLICK_PRESET.id) return CLICK_PRESET;
+    return SYNTH_PRESETS.find((p) => p.id === id) ?? SYNTH_PRESETS[0];
+};
+
+/**
+ * Create a synth on an audio context (realtime or offline).
+ * A suspended context is resumed on the first note, which is always
+ * inside a user gesture for the keyboard and transport.
+ */
+export const createSynthOutput = (
+    context: AudioContextLike,
+    { presetId = DEFAULT_SYNTH_PRESET_ID, volume = 0.8, now = () => performance.now() }: SynthOptions = {}
+): SynthOutput => {
+    let preset = findPreset(presetId);
+    let masterVolume = Math.max(0, Math.min(1, volume));
+    // Sounding voices by note; released voices leave the map but ring out
+    const voices = new Map<number, Voice>();
+
+    const master = context.createGain();
+    master.gain.value = masterVolume;
+    master.connect(context.destination);
+
+    /** Convert a performance.now() timestamp to the audio clock */
+    const toContextTime = (time?: number): number => {
+        if (time === undefined) return context.currentTime;
+        return context.currentTime + Math.max(0, (time - now()) / 1000);
+    };
+
+    const releaseVoice = (voice: Voice, time: number, release: number = voice.release) => {
+        if (voices.get(voice.note) === voice) voices.delete(voice.note);
+        if (time <= voice.startTime && voice.startTime > context.currentTime) {
+            // Scheduled but not yet sounding: cancel it without a blip
+            voice.oscillators.forEach((osc) => osc.stop(voice.startTime));
+            return;
+        }
+        const at = Math.max(time, voice.startTime);
+        const gain = voice.envelope.gain;
+        gain.cancelScheduledValues(at);
+        gain.setTargetAtTime(0, at, release / 3);
+        voice.oscillators.forEach((osc) => osc.stop(at + release));
+    };
+
+    const startVoice = (note: number, velocity: number, startTime: number): Voice => {
+        const { attack, decay, sustain, release } = preset.envelope;
+        const peak = Math.pow(clampVelocity(velocity) / 127, 2) * VOICE_GAIN;
+
+        const envelope = context.createGain();
+        envelope.gain.setValueAtTime(0, startTime);
+        envelope.gain.linearRampToValueAtTime(peak, startTime + attack);
+        envelope.gain.setTargetAtTime(peak * sustain, startTime + attack, decay / 3);
+        envelope.connect(master);
+
+        const frequency = midiToFrequency(note);
+        const partialGains: GainNodeLike[] = [];
+        const oscillators = preset.partials.map((partial) => {
+            const osc = context.createOscillator();
+            osc.type = partial.waveform;
+            osc.frequency.value = frequency * partial.ratio;
+            osc.detune.value = partial.detune ?? 0;
+
+            const partialGain = context.createGain();
+            partialGain.gain.value = partial.gain;
+            osc.connect(partialGain);
+            partialGain.connect(envelope);
+            partialGains.push(partialGain);
+
+            osc.start(startTime);
+            return osc;
+        });
+
+        const voice: Voice = { note, startTime, envelope, release, oscillators, partialGains };
+
+        // Tear the voice's graph down once it has rung out
+        oscillators[oscillators.length - 1].onended = () => {
+            oscillators.forEach((osc) => osc.disconnect());
+            partialGains.forEach((g) => g.disconnect());
+            envelope.disconnect();
+        };
+
+        return voice;
+    };
+
+    return {
+        noteOn: (note, velocity = DEFAULT_VELOCITY, time) => {
+            if (context.state === 'suspended') void context.resume?.();
+            const startTime = toContextTime(time);
+
+            const retriggered = voices.get(note);
+            if (retriggered) releaseVoice(retriggered, startTime, FAST_RELEASE);
+
+            if (voices.size >= MAX_VOICES) {
+                // Map iteration is insertion order, so the first voice is the oldest
+                const oldest = voices.values().next().value as Voice;
+                releaseVoice(oldest, startTime, FAST_RELEASE);
+            }
+
+            voices.set(note, startVoice(note, velocity, startTime));
+        },
+
+        noteOff: (note, time) => {
+            const voice = voices.get(note);
+            if (voice) releaseVoice(voice, toContextTime(time));
+        },
+
+        allNotesOff: () => {
+            const at = context.currentTime;
+            Array.from(voices.values()).forEach((voice) => releaseVoice(voice, at, FAST_RELEASE));
+        },
+
+        setPreset: (id) => {
+            preset = findPreset(id);
+        },
+
+        getPreset: () => preset,
+
+        setVolume: (next) => {
+            masterVolume = Math.max(0, Math.min(1, next));
+            // Short glide so dragging the slider doesn't click
+            master.gain.setTargetAtTime(masterVolume, context.currentTime, 0.015);
+        },
+
+        getVolume: () => masterVolume,
+
+        getVoiceCount: () => voices.size,
+    };
+};
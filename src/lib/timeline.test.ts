@@ -0,0 +1,97 @@
+/**
+ * Tests for timeline layout and tick/time/position conversions.
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+    buildTimeline,
+    cardIndexAtTick,
+    loopTickRange,
+    msToTicks,
+    positionAtTick,
+    resolveLoop,
+    ticksPerBeat,
+    ticksPerMeasure,
+    ticksToMs,
+} from './timeline';
+import { createCard, createRestCard, PPQ } from '../types';
+
+const cards = [
+    createCard([60], 'h'),
+    createRestCard('q'),
+    createCard([62], '8'),
+    createCard([64], 'w'),
+];
+
+describe('buildTimeline', () => {
+    it('lays cards end to end using DURATION_INFO ticks', () => {
+        const timeline = buildTimeline(cards);
+
+        expect(timeline.entries.map((e) => [e.startTick, e.endTick])).toEqual([
+            [0, 960],
+            [960, 1440],
+            [1440, 1680],
+            [1680, 3600],
+        ]);
+        expect(timeline.totalTicks).toBe(3600);
+    });
+
+    it('finds the card at a tick, end-exclusive', () => {
+        const timeline = buildTimeline(cards);
+
+        expect(cardIndexAtTick(timeline, 0)).toBe(0);
+        expect(cardIndexAtTick(timeline, 959)).toBe(0);
+        expect(cardIndexAtTick(timeline, 960)).toBe(1);
+        expect(cardIndexAtTick(timeline, 3599)).toBe(3);
+        expect(cardIndexAtTick(timeline, 3600)).toBe(-1);
+        expect(cardIndexAtTick(buildTimeline([]), 0)).toBe(-1);
+    });
+});
+
+describe('conversions', () => {
+    it('converts ticks and milliseconds at a quarter-note tempo', () => {
+        expect(ticksToMs(PPQ, 120)).toBe(500);
+        expect(ticksToMs(PPQ * 4, 60)).toBe(4000);
+        expect(msToTicks(500, 120)).toBe(PPQ);
+        expect(msToTicks(ticksToMs(123, 97), 97)).toBeCloseTo(123);
+    });
+
+    it('sizes beats by the time signature beat unit', () => {
+        expect(ticksPerBeat([4, 4])).toBe(480);
+        expect(ticksPerBeat([6, 8])).toBe(240);
+        expect(ticksPerMeasure([3, 4])).toBe(1440);
+        expect(ticksPerMeasure([6, 8])).toBe(1440);
+    });
+});
+
+describe('positionAtTick', () => {
+    it('reports card, beat within the measure and measure', () => {
+        const timeline = buildTimeline(cards);
+
+        expect(positionAtTick(timeline, 0, [4, 4])).toEqual({ cardIndex: 0, tick: 0, beat: 0, measure: 0 });
+        expect(positionAtTick(timeline, 1500, [4, 4])).toEqual({ cardIndex: 2, tick: 1500, beat: 3, measure: 0 });
+        expect(positionAtTick(timeline, 1920, [4, 4])).toEqual({ cardIndex: 3, tick: 1920, beat: 0, measure: 1 });
+        expect(positionAtTick(timeline, 1920, [3, 4])).toMatchObject({ beat: 1, measure: 1 });
+    });
+
+    it('stays on the last card past the end', () => {
+        const timeline = buildTimeline(cards);
+
+        expect(positionAtTick(timeline, 5000, [4, 4]).cardIndex).toBe(3);
+    });
+});
+
+describe('loops', () => {
+    it('resolves loop bounds to card indices and ticks, in either order', () => {
+        const loop = { startCardId: cards[2].id, endCardId: cards[1].id, enabled: true };
+
+        expect(resolveLoop(cards, loop)).toEqual({ startIndex: 1, endIndex: 2 });
+        expect(loopTickRange(cards, buildTimeline(cards), loop)).toEqual({ startTick: PPQ * 2, endTick: PPQ * 3.5 });
+    });
+
+    it('ignores disabled loops and loops whose cards are gone', () => {
+        expect(resolveLoop(cards, { startCardId: cards[0].id, endCardId: cards[3].id, enabled: false })).toBeNull();
+        expect(resolveLoop(cards, { startCardId: cards[0].id, endCardId: 'deleted', enabled: true })).toBeNull();
+        expect(resolveLoop(cards, undefined)).toBeNull();
+    });
+});
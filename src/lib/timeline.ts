@@ -0,0 +1,128 @@
+/**
+ * Timeline
+ *
+ * Maps cards onto a tick axis (PPQ ticks per quarter note) and converts
+ * between ticks, milliseconds and musical positions. Tempo is always in
+ * quarter notes per minute, whatever the time signature's beat unit.
+ */
+
+import { DURATION_INFO, PPQ } from '../types';
+import type { Card, LoopRegion, PlaybackPosition, TimeSignature } from '../types';
+
+// =============================================================================
+// CARD LAYOUT
+// =============================================================================
+
+/** Where one card sits on the tick axis */
+export interface TimelineEntry {
+    cardIndex: number;
+    startTick: number;
+    /** Exclusive */
+    endTick: number;
+}
+
+export interface Timeline {
+    entries: TimelineEntry[];
+    totalTicks: number;
+}
+
+/** Lay cards end to end from tick 0 */
+export const buildTimeline = (cards: Card[]): Timeline => {
+    let tick = 0;
+    const entries = cards.map((card, cardIndex) => {
+        const startTick = tick;
+        tick += DURATION_INFO[card.duration].ppq;
+        return { cardIndex, startTick, endTick: tick };
+    });
+    return { entries, totalTicks: tick };
+};
+
+/** Index of the card sounding at `tick`, or -1 outside the timeline */
+export const cardIndexAtTick = (timeline: Timeline, tick: number): number => {
+    const { entries } = timeline;
+    let lo = 0;
+    let hi = entries.length - 1;
+    while (lo <= hi) {
+        const mid = (lo + hi) >> 1;
+        if (tick < entries[mid].startTick) hi = mid - 1;
+        else if (tick >= entries[mid].endTick) lo = mid + 1;
+        else return mid;
+    }
+    return -1;
+};
+
+// =============================================================================
+// LOOPS
+// =============================================================================
+
+/**
+ * Card indices covered by a loop (inclusive), or null when the loop is off
+ * or one of its cards no longer exists. Reversed bounds are normalized.
+ */
+export const resolveLoop = (
+    cards: Card[],
+    loop: LoopRegion | undefined
+): { startIndex: number; endIndex: number } | null => {
+    if (!loop || !loop.enabled) return null;
+    const a = cards.findIndex((c) => c.id === loop.startCardId);
+    const b = cards.findIndex((c) => c.id === loop.endCardId);
+    if (a === -1 || b === -1) return null;
+    return { startIndex: Math.min(a, b), endIndex: Math.max(a, b) };
+};
+
+/** Tick span of a loop (end exclusive), or null when not looping */
+export const loopTickRange = (
+    cards: Card[],
+    timeline: Timeline,
+    loop: LoopRegion | undefined
+): { startTick: number; endTick: number } | null => {
+    const range = resolveLoop(cards, loop);
+    if (!range) return null;
+    return {
+        startTick: timeline.entries[range.startIndex].startTick,
+        endTick: timeline.entries[range.endIndex].endTick,
+    };
+};
+
+// =============================================================================
+// CONVERSIONS
+// =============================================================================
+
+/** Milliseconds spanned by `ticks` at `tempo` BPM */
+export const ticksToMs = (ticks: number, tempo: number): number => {
+    return (ticks * 60000) / (tempo * PPQ);
+};
+
+/** Ticks spanned by `ms` at `tempo` BPM */
+export const msToTicks = (ms: number, tempo: number): number => {
+    return (ms * tempo * PPQ) / 60000;
+};
+
+/** Ticks in one beat of the time signature (an eighth in 6/8) */
+export const ticksPerBeat = ([, beatUnit]: TimeSignature): number => {
+    return (PPQ * 4) / beatUnit;
+};
+
+export const ticksPerMeasure = (timeSignature: TimeSignature): number => {
+    return timeSignature[0] * ticksPerBeat(timeSignature);
+};
+
+/**
+ * Musical position of `tick`. Beat and measure are zero-based, beat within
+ * the measure. Past the end, cardIndex stays on the last card.
+ */
+export const positionAtTick = (
+    timeline: Timeline,
+    tick: number,
+    timeSignature: TimeSignature
+): PlaybackPosition => {
+    const index = cardIndexAtTick(timeline, tick);
+    const beatTicks = ticksPerBeat(timeSignature);
+    const totalBeats = Math.floor(tick / beatTicks);
+    return {
+        cardIndex: index >= 0 ? index : Math.max(0, timeline.entries.length - 1),
+        tick: Math.round(tick),
+        beat: totalBeats % timeSignature[0],
+        measure: Math.floor(totalBeats / timeSignature[0]),
+    };
+};
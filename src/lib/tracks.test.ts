@@ -0,0 +1,86 @@
+/**
+ * Tests for splitting a both-hands track into a track per hand.
+ */
+
+import { describe, it, expect } from 'vitest';
+import { canSplitIntoHands, grandStaffTracks, migrateToHandTracks, splitIntoHands, staffHands } from './tracks';
+import { analyzeChord } from './chordAnalysis';
+import { createCard, createRestCard, createSequence } from '../types';
+import type { Sequence } from '../types';
+
+const withMaster = (sequence: Sequence, cards = [
+    createCard([48, 55, 64, 67], 'h', analyzeChord([48, 55, 64, 67]) ?? undefined),
+    createRestCard('q'),
+    createCard([62, 65, 69], 'q'),
+]): Sequence => ({ ...sequence, tracks: { master: cards } });
+
+describe('splitIntoHands', () => {
+    it('splits each card by register, keeping its rhythm', () => {
+        const { rightHand, leftHand } = splitIntoHands(withMaster(createSequence()).tracks.master);
+
+        expect(rightHand.map((c) => c.notes)).toEqual([[64, 67], [], [62, 65, 69]]);
+        expect(leftHand.map((c) => c.notes)).toEqual([[48, 55], [], []]);
+        expect(rightHand.map((c) => c.duration)).toEqual(['h', 'q', 'q']);
+        expect(leftHand.map((c) => c.isRest)).toEqual([false, true, true]);
+    });
+
+    it('gives each hand its share of the expression and spelling', () => {
+        const card = {
+            ...createCard([48, 64, 67], 'q', undefined, { velocities: [50, 90, 100], onsets: [30, 0, 10] }),
+            enharmonicOverrides: { 48: 'B#', 67: 'Fx' },
+        };
+        const { rightHand, leftHand } = splitIntoHands([card]);
+
+        expect(rightHand[0]).toMatchObject({ velocities: [90, 100], onsets: [0, 10], enharmonicOverrides: { 67: 'Fx' } });
+        expect(leftHand[0]).toMatchObject({ velocities: [50], onsets: [0], enharmonicOverrides: { 48: 'B#' } });
+        expect(rightHand[0].id).not.toBe(card.id);
+    });
+});
+
+describe('migrateToHandTracks', () => {
+    it('replaces the master track with a track per hand', () => {
+        const sequence = withMaster(createSequence());
+        const migrated = migrateToHandTracks(sequence);
+
+        expect(Object.keys(migrated.tracks)).toEqual(['rightHand', 'leftHand']);
+        expect(migrated.tracks.rightHand).toHaveLength(3);
+        expect(canSplitIntoHands(migrated)).toBe(false);
+    });
+
+    it('moves a loop to the same stretch of the right hand', () => {
+        const sequence = withMaster(createSequence());
+        const [first, , last] = sequence.tracks.master;
+        const migrated = migrateToHandTracks({
+            ...sequence,
+            loop: { startCardId: first.id, endCardId: last.id, enabled: true },
+        });
+
+        expect(migrated.loop).toEqual({
+            startCardId: migrated.tracks.rightHand[0].id,
+            endCardId: migrated.tracks.rightHand[2].id,
+            enabled: true,
+        });
+    });
+
+    it('leaves sequences with hand tracks or no master alone', () => {
+        const migrated = migrateToHandTracks(withMaster(createSequence()));
+        expect(migrateToHandTracks(migrated)).toBe(migrated);
+
+        const other = { ...createSequence(), tracks: { melody: [] } };
+        expect(migrateToHandTracks(other)).toBe(other);
+    });
+});
+
+describe('grand staff', () => {
+    it('shows the hand tracks on their own staves while one is active', () => {
+        expect(grandStaffTracks('leftHand')).toEqual({ kind: 'hands', treble: 'rightHand', bass: 'leftHand' });
+        expect(grandStaffTracks('master')).toEqual({ kind: 'split', track: 'master' });
+    });
+
+    it('writes a hand track\'s notes on one staff, low to high', () => {
+        expect(staffHands([createCard([67, 60, 64], 'q'), createRestCard('q')], 'bass')).toEqual([
+            { treble: [], bass: [60, 64, 67] },
+            { treble: [], bass: [] },
+        ]);
+    });
+});
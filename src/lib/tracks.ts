@@ -0,0 +1,157 @@
+/**
+ * Tracks
+ *
+ * Splitting a both-hands track into a track per hand (the migration from
+ * single-track sequences), and which tracks the grand staff draws on which
+ * staff.
+ */
+
+import { LEFT_HAND_TRACK, MASTER_TRACK, RIGHT_HAND_TRACK, createRestCard, generateId } from '../types';
+import type { Card, Sequence, TrackId } from '../types';
+import { analyzeChord } from './chordAnalysis';
+import { DEFAULT_SPLIT_POINT, splitCards } from './handSplit';
+import type { HandSplit } from './handSplit';
+
+// =============================================================================
+// NAMES
+// =============================================================================
+
+const TRACK_LABELS: Record<TrackId, string> = {
+    [MASTER_TRACK]: 'Both hands',
+    [RIGHT_HAND_TRACK]: 'Right hand',
+    [LEFT_HAND_TRACK]: 'Left hand',
+};
+
+/** Display name of a track */
+export const trackLabel = (trackId: TrackId): string => TRACK_LABELS[trackId] ?? trackId;
+
+/** A sequence's tracks in display order */
+export const trackIds = (sequence: Sequence): TrackId[] => Object.keys(sequence.tracks);
+
+// =============================================================================
+// SPLITTING BY HAND
+// =============================================================================
+
+/** The part of a card that plays `notes`, with their share of its recorded expression and spelling */
+const cardPart = (card: Card, notes: number[]): Card => {
+    if (notes.length === 0) return { ...createRestCard(card.duration), createdAt: card.createdAt };
+
+    const indexes = card.notes.flatMap((note, i) => (notes.includes(note) ? [i] : []));
+    const partNotes = indexes.map((i) => card.notes[i]);
+    const onsets = card.onsets && indexes.map((i) => card.onsets![i]);
+    const overrides = card.enharmonicOverrides && Object.fromEntries(
+        Object.entries(card.enharmonicOverrides).filter(([midi]) => notes.includes(Number(midi)))
+    );
+    return {
+        id: generateId(),
+        notes: partNotes,
+        duration: card.duration,
+        isRest: false,
+        analysis: analyzeChord(partNotes) || undefined,
+        ...(overrides && Object.keys(overrides).length > 0 && { enharmonicOverrides: overrides }),
+        ...(card.velocities && { velocities: indexes.map((i) => card.velocities![i]) }),
+        // Onsets count from the part's own first note
+        ...(onsets && { onsets: onsets.map((onset) => onset - Math.min(...onsets)) }),
+        createdAt: card.createdAt,
+    };
+};
+
+/**
+ * Split a both-hands track by register, card for card: the notes each card
+ * puts on the treble staff become the right hand's card, the rest the left
+ * hand's, and a hand with nothing to play rests. Both tracks keep the
+ * original rhythm until they're edited apart.
+ */
+export const splitIntoHands = (
+    cards: Card[],
+    splitPoint: number = DEFAULT_SPLIT_POINT
+): { rightHand: Card[]; leftHand: Card[] } => {
+    const hands = splitCards(cards, splitPoint);
+    return {
+        rightHand: cards.map((card, i) => cardPart(card, card.isRest ? [] : hands[i].treble)),
+        leftHand: cards.map((card, i) => cardPart(card, card.isRest ? [] : hands[i].bass)),
+    };
+};
+
+/** Whether the sequence has a both-hands track and no hand tracks yet */
+export const canSplitIntoHands = ({ tracks }: Sequence): boolean =>
+    MASTER_TRACK in tracks && !(RIGHT_HAND_TRACK in tracks) && !(LEFT_HAND_TRACK in tracks);
+
+/**
+ * Move a single-track sequence onto a track per hand, at the sequence's
+ * split point. A loop over master cards moves to the same stretch of the
+ * right hand. Sequences that already have hand tracks, or no master track,
+ * are returned as they are.
+ */
+export const migrateToHandTracks = (sequence: Sequence): Sequence => {
+    if (!canSplitIntoHands(sequence)) return sequence;
+    const { tracks } = sequence;
+    const master = tracks[MASTER_TRACK];
+
+    const { rightHand, leftHand } = splitIntoHands(master, sequence.handSplitPoint);
+    const others = Object.fromEntries(Object.entries(tracks).filter(([id]) => id !== MASTER_TRACK));
+    const moved = (cardId: string) => rightHand[master.findIndex((card) => card.id === cardId)]?.id;
+    const loop = sequence.loop && moved(sequence.loop.startCardId) && moved(sequence.loop.endCardId)
+        ? { ...sequence.loop, startCardId: moved(sequence.loop.startCardId)!, endCardId: moved(sequence.loop.endCardId)! }
+        : undefined;
+
+    return {
+        ...sequence,
+        tracks: { [RIGHT_HAND_TRACK]: rightHand, [LEFT_HAND_TRACK]: leftHand, ...others },
+        loop,
+        updatedAt: Date.now(),
+    };
+};
+
+// =============================================================================
+// GRAND STAFF
+// =============================================================================
+
+/**
+ * What the grand staff shows: while a hand track is being edited, the right
+ * hand on the treble staff and the left on the bass, each in its own
+ * rhythm; otherwise the active track split between the staves note by note.
+ */
+export type GrandStaffTracks =
+    | { kind: 'split'; track: TrackId }
+    | { kind: 'hands'; treble: TrackId; bass: TrackId };
+
+export const grandStaffTracks = (activeTrackId: TrackId): GrandStaffTracks =>
+    activeTrackId === RIGHT_HAND_TRACK || activeTrackId === LEFT_HAND_TRACK
+        ? { kind: 'hands', treble: RIGHT_HAND_TRACK, bass: LEFT_HAND_TRACK }
+        : { kind: 'split', track: activeTrackId };
+
+/** A hand track's notes all written on one staff, low to high */
+export const staffHands = (cards: Card[], staff: keyof HandSplit): HandSplit[] =>
+    cards.map((card) => {
+        const notes = card.isRest ? [] : [...card.notes].sort((a, b) => a - b);
+        return staff === 'treble' ? { treble: notes, bass: [] } : { treble: [], bass: notes };
+    });
+
+/** One staff's cards, and the notes each writes on it */
+export interface StaffCards {
+    cards: Card[];
+    hands: HandSplit[];
+}
+
+/**
+ * What each staff writes, treble first. Split between the staves, both
+ * share the one track's cards (the same array, so callers can tell).
+ */
+export const grandStaffCards = (
+    tracks: Record<TrackId, Card[]>,
+    layout: GrandStaffTracks,
+    splitPoint: number = DEFAULT_SPLIT_POINT
+): [StaffCards, StaffCards] => {
+    if (layout.kind === 'split') {
+        const cards = tracks[layout.track] ?? [];
+        const hands = splitCards(cards, splitPoint);
+        return [{ cards, hands }, { cards, hands }];
+    }
+    const treble = tracks[layout.treble] ?? [];
+    const bass = tracks[layout.bass] ?? [];
+    return [
+        { cards: treble, hands: staffHands(treble, 'treble') },
+        { cards: bass, hands: staffHands(bass, 'bass') },
+    ];
+};
@@ -0,0 +1,296 @@
+/**
+ * Tests for the lookahead transport: event timing, position reporting,
+ * pause/seek/stop, live edits and practice loops.
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { createTransport, LOOKAHEAD_MS, rampedTempo } from './transport';
+import type { BeatEvent } from './transport';
+import type { NoteOutput } from './noteOutput';
+import { createCard, createRestCard } from '../types';
+import type { Card, LoopRegion, PlaybackPosition } from '../types';
+
+/** NoteOutput that logs calls with their timestamps */
+const createLogOutput = () => {
+    const log: string[] = [];
+    const output: NoteOutput = {
+        noteOn: (note, velocity, time) => log.push(`on ${note} v${velocity} @${time ?? 'now'}`),
+        noteOff: (note, time) => log.push(`off ${note} @${time ?? 'now'}`),
+        allNotesOff: () => log.push('panic'),
+    };
+    return { log, output };
+};
+
+function setup(cards: Card[], tempo: number = 120, loop?: LoopRegion) {
+    const { log, output } = createLogOutput();
+    const positions: PlaybackPosition[] = [];
+    const beats: BeatEvent[] = [];
+    const onEnd = vi.fn();
+    const transport = createTransport({
+        getOutput: () => output,
+        onPosition: (position) => positions.push(position),
+        onBeat: (beat) => beats.push(beat),
+        onEnd,
+        now: () => Date.now(),
+    });
+    transport.load(cards, tempo, [4, 4], loop);
+    return { transport, log, positions, beats, onEnd };
+}
+
+const loopOver = (from: Card, to: Card): LoopRegion => ({ startCardId: from.id, endCardId: to.id, enabled: true });
+
+/** Times of the note-ons for `note` in a log */
+const onTimes = (log: string[], note: number) => log
+    .filter((line) => line.startsWith(`on ${note} `))
+    .map((line) => line.split('@')[1]);
+
+describe('createTransport', () => {
+    beforeEach(() => {
+        vi.useFakeTimers();
+        vi.setSystemTime(0);
+    });
+
+    afterEach(() => {
+        vi.useRealTimers();
+    });
+
+    it('hands note events to the output ahead of time with exact timestamps', () => {
+        const { transport, log } = setup([createCard([60, 64], 'q'), createCard([62], 'q')]);
+
+        transport.play();
+        expect(log).toEqual(['on 60 v100 @now', 'on 64 v100 @now']);
+
+        // The second card is sent one lookahead window early, stamped for 500 ms
+        vi.advanceTimersByTime(500 - LOOKAHEAD_MS);
+        expect(log.slice(2)).toEqual(['off 60 @500', 'off 64 @500', 'on 62 v100 @500']);
+    });
+
+    it('reports card and beat changes and ends after the last card', () => {
+        const { transport, positions, onEnd, log } = setup([createCard([60], 'h'), createCard([62], 'q')]);
+
+        transport.play();
+        vi.advanceTimersByTime(1600);
+
+        expect(positions.map((p) => [p.cardIndex, p.beat])).toEqual([[0, 0], [0, 1], [1, 2]]);
+        expect(onEnd).toHaveBeenCalledTimes(1);
+        expect(transport.isPlaying()).toBe(false);
+        expect(log[log.length - 1]).toBe('off 62 @1500');
+    });
+
+    it('sustains a card written tied across the bar line as one event', () => {
+        // The half note starts on beat 4, so the staff splits it at the bar
+        const { transport, log } = setup([createCard([60], 'h'), createCard([62], 'q'), createCard([64], 'h')]);
+
+        transport.play();
+        vi.advanceTimersByTime(3000);
+
+        expect(log.filter((line) => line.includes(' 64 '))).toEqual(['on 64 v100 @1500', 'off 64 @2500']);
+    });
+
+    it('keeps time through rest cards without sounding them', () => {
+        const { transport, log } = setup([createRestCard('q'), createCard([67], 'q')]);
+
+        transport.play();
+        expect(log).toEqual([]);
+
+        vi.advanceTimersByTime(500);
+        expect(log).toEqual(['on 67 v100 @500']);
+    });
+
+    it('plays accompaniment tracks on their own rhythm until the longest ends', () => {
+        const { transport, log, positions, onEnd } = setup([createCard([72], 'h')]);
+        transport.load([createCard([72], 'h')], 120, [4, 4], undefined, [
+            [createCard([48], 'q'), createCard([55], 'q'), createCard([52], 'h')],
+        ]);
+
+        transport.play();
+        expect(log).toEqual(['on 72 v100 @now', 'on 48 v100 @now']);
+
+        vi.advanceTimersByTime(1000);
+        expect(log.slice(2)).toEqual(['off 48 @500', 'on 55 v100 @500', 'off 72 @1000', 'off 55 @1000', 'on 52 v100 @1000']);
+        expect(onEnd).not.toHaveBeenCalled();
+
+        vi.advanceTimersByTime(1100);
+        expect(log[log.length - 1]).toBe('off 52 @2000');
+        // Positions follow the main track, staying on its last card
+        expect(positions[positions.length - 1].cardIndex).toBe(0);
+        expect(onEnd).toHaveBeenCalledTimes(1);
+    });
+
+    it('replays recorded velocities and rolled onsets', () => {
+        const card = createCard([60, 64, 67], 'q', undefined, {
+            velocities: [90, 70, 50],
+            onsets: [0, 0, 40],
+        });
+        const { transport, log } = setup([card]);
+
+        transport.play();
+
+        expect(log).toEqual(['on 60 v90 @now', 'on 64 v70 @now', 'on 67 v50 @40']);
+    });
+
+    it('pauses in place, silences the output and resumes with the current card', () => {
+        const { transport, log, positions } = setup([createCard([60], 'w')]);
+
+        transport.play();
+        vi.advanceTimersByTime(1000);
+        transport.pause();
+        expect(log).toEqual(['on 60 v100 @now', 'panic']);
+        expect(transport.getTick()).toBe(960);
+
+        vi.advanceTimersByTime(5000);
+        transport.play();
+        expect(log.slice(2)).toEqual(['on 60 v100 @now']);
+        expect(positions[positions.length - 1].tick).toBe(960);
+    });
+
+    it('stop rewinds and skips onEnd', () => {
+        const { transport, log, onEnd } = setup([createCard([60], 'w')]);
+
+        transport.play();
+        transport.stop();
+        vi.advanceTimersByTime(5000);
+
+        expect(log).toEqual(['on 60 v100 @now', 'panic']);
+        expect(onEnd).not.toHaveBeenCalled();
+        expect(transport.getTick()).toBe(0);
+    });
+
+    it('seeks to a card while playing', () => {
+        const { transport, log, positions } = setup([
+            createCard([60], 'q'),
+            createCard([62], 'q'),
+            createCard([64], 'q'),
+        ]);
+
+        transport.play();
+        transport.seekToCard(2);
+
+        expect(log).toEqual(['on 60 v100 @now', 'panic', 'on 64 v100 @now']);
+        expect(positions[positions.length - 1]).toMatchObject({ cardIndex: 2, tick: 960 });
+    });
+
+    it('seeks while stopped so play starts from that card', () => {
+        const { transport, log } = setup([createCard([60], 'q'), createCard([62], 'q')]);
+
+        transport.seekToCard(1);
+        transport.play();
+
+        expect(log).toEqual(['on 62 v100 @now']);
+    });
+
+    it('follows a tempo change mid-playback', () => {
+        const cards = [createCard([60], 'q'), createCard([62], 'q')];
+        const { transport, log } = setup(cards, 120);
+
+        transport.play();
+        vi.advanceTimersByTime(250);
+        // Half a beat left; at 60 BPM that takes 500 ms
+        transport.load(cards, 60, [4, 4]);
+        vi.advanceTimersByTime(500);
+
+        expect(log).toContain('on 62 v100 @750');
+    });
+
+    it('releases a sounding note whose card was deleted', () => {
+        const cards = [createCard([60], 'h'), createCard([62], 'q')];
+        const { transport, log } = setup(cards);
+
+        transport.play();
+        vi.advanceTimersByTime(100);
+        transport.load([cards[1]], 120, [4, 4]);
+
+        expect(log).toContain('off 60 @now');
+    });
+
+    it('does not start with nothing to play', () => {
+        const { transport } = setup([]);
+
+        transport.play();
+
+        expect(transport.isPlaying()).toBe(false);
+    });
+
+    it('wraps a loop seamlessly and never plays past its end', () => {
+        const cards = [createCard([60], 'q'), createCard([62], 'q'), createCard([64], 'q')];
+        const { transport, log, positions, onEnd } = setup(cards, 120, loopOver(cards[0], cards[1]));
+
+        transport.play();
+        vi.advanceTimersByTime(1000 - LOOKAHEAD_MS);
+        expect(log.slice(-3)).toEqual(['on 62 v100 @500', 'off 62 @1000', 'on 60 v100 @1000']);
+
+        vi.advanceTimersByTime(3000);
+        expect(onTimes(log, 60)).toEqual(['now', '1000', '2000', '3000', '4000']);
+        expect(onTimes(log, 64)).toEqual([]);
+        expect(positions.every((p) => p.cardIndex < 2)).toBe(true);
+        expect(positions[positions.length - 1].loopPass).toBe(3);
+        expect(onEnd).not.toHaveBeenCalled();
+        expect(transport.isPlaying()).toBe(true);
+    });
+
+    it('starts inside the loop when the playhead is outside it', () => {
+        const cards = [createCard([60], 'q'), createCard([62], 'q'), createCard([64], 'q')];
+        const { transport, log } = setup(cards, 120, loopOver(cards[1], cards[1]));
+
+        transport.seekToCard(2);
+        transport.play();
+
+        expect(log).toEqual(['on 62 v100 @now']);
+        expect(transport.getTick()).toBe(480);
+    });
+
+    it('counts in before the first note with negative measures', () => {
+        const { transport, log, positions, beats } = setup([createCard([60], 'w')]);
+        transport.setPractice({ countInBars: 1, tempoRamp: null });
+
+        transport.play();
+        expect(positions[0]).toMatchObject({ cardIndex: 0, tick: 0, measure: -1, beat: 0 });
+        expect(log).toEqual([]);
+
+        vi.advanceTimersByTime(2000);
+        expect(beats.map((b) => [b.time, b.beat, b.isCountIn])).toEqual([
+            [0, 0, true],
+            [500, 1, true],
+            [1000, 2, true],
+            [1500, 3, true],
+            [2000, 0, false],
+        ]);
+        expect(log).toEqual(['on 60 v100 @2000']);
+        expect(positions.map((p) => p.measure)).toEqual([-1, -1, -1, -1, 0]);
+    });
+
+    it('speeds the loop up by the ramp until the target tempo', () => {
+        const card = createCard([60], 'q');
+        const { transport, log, positions } = setup([card], 120, loopOver(card, card));
+        transport.setPractice({ countInBars: 0, tempoRamp: { stepBpm: 30, everyLoops: 1, targetTempo: 180 } });
+
+        transport.play();
+        vi.advanceTimersByTime(1600);
+
+        // 500 ms at 120, 400 ms at 150, then 333 ms at the 180 target
+        expect(onTimes(log, 60).map((t) => (t === 'now' ? 0 : Math.round(Number(t))))).toEqual([0, 500, 900, 1233, 1567]);
+        expect(positions[positions.length - 1].tempo).toBe(180);
+    });
+
+    it('computes ramped tempos in whole steps', () => {
+        const practice = { countInBars: 0, tempoRamp: { stepBpm: 5, everyLoops: 2, targetTempo: 100 } };
+
+        expect([0, 1, 2, 3, 4, 40].map((pass) => rampedTempo(90, practice, pass))).toEqual([90, 90, 95, 95, 100, 100]);
+        expect(rampedTempo(90, { countInBars: 0, tempoRamp: null }, 7)).toBe(90);
+    });
+
+    it('drops a queued loop pass when the loop is switched off', () => {
+        const cards = [createCard([60], 'q'), createCard([62], 'q'), createCard([64], 'q')];
+        const { transport, log } = setup(cards, 120, loopOver(cards[0], cards[1]));
+
+        transport.play();
+        vi.advanceTimersByTime(950);
+        expect(log[log.length - 1]).toBe('on 60 v100 @1000');
+
+        transport.load(cards, 120, [4, 4]);
+        vi.advanceTimersByTime(100);
+
+        expect(log).toContain('panic');
+        expect(log[log.length - 1]).toBe('on 64 v100 @1000');
+    });
+});
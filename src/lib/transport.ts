@@ -0,0 +1,521 @@
+/**
+ * Transport
+ *
+ * Tick-based playback clock for a card list. A short timer wakes up every
+ * few milliseconds and hands the output every note event falling inside the
+ * lookahead window, stamped with its exact performance.now() time, so timer
+ * jitter never reaches the audio. Position is derived from the clock, not
+ * from counting timer callbacks.
+ *
+ * Practice features live here too: a loop region that playback wraps
+ * around, a count-in before the first note, and a tempo ramp that speeds
+ * the loop up as it repeats.
+ */
+
+import { DEFAULT_VELOCITY } from './noteOutput';
+import type { NoteOutput } from './noteOutput';
+import {
+    buildTimeline,
+    cardIndexAtTick,
+    loopTickRange,
+    msToTicks,
+    positionAtTick,
+    ticksPerBeat,
+    ticksToMs,
+} from './timeline';
+import type { Timeline } from './timeline';
+import type { Card, LoopRegion, PlaybackPosition, PracticeSettings, TimeSignature } from '../types';
+
+// =============================================================================
+// CONSTANTS
+// =============================================================================
+
+/** How far ahead (ms) note events are handed to the output */
+export const LOOKAHEAD_MS = 100;
+
+/** How often (ms) the scheduler wakes up; must be well under LOOKAHEAD_MS */
+export const SCHEDULER_INTERVAL_MS = 25;
+
+// =============================================================================
+// EVENTS
+// =============================================================================
+
+interface NoteEvent {
+    tick: number;
+    type: 'on' | 'off';
+    note: number;
+    velocity: number;
+}
+
+/** Tick order, note-offs before note-ons at the same tick so repeated notes re-strike cleanly */
+const eventOrder = (a: NoteEvent, b: NoteEvent) => {
+    const typeOrder = (event: NoteEvent) => (event.type === 'off' ? 0 : 1);
+    return a.tick - b.tick || typeOrder(a) - typeOrder(b);
+};
+
+/**
+ * Flatten cards into note events in tick order. Recorded onsets (ms) are
+ * converted at `tempo` and kept inside their card.
+ */
+const buildEvents = (cards: Card[], timeline: Timeline, tempo: number): NoteEvent[] => {
+    const events: NoteEvent[] = [];
+    timeline.entries.forEach(({ cardIndex, startTick, endTick }) => {
+        const card = cards[cardIndex];
+        if (card.isRest) return;
+        card.notes.forEach((note, i) => {
+            const onsetTicks = msToTicks(card.onsets?.[i] ?? 0, tempo);
+            events.push({
+                tick: Math.min(startTick + onsetTicks, endTick - 1),
+                type: 'on',
+                note,
+                velocity: card.velocities?.[i] ?? DEFAULT_VELOCITY,
+            });
+            events.push({ tick: endTick, type: 'off', note, velocity: 0 });
+        });
+    });
+    return events.sort(eventOrder);
+};
+
+/** Index of the first event at `tick` or later (strictly later when `exclusive`) */
+const firstEventAt = (events: NoteEvent[], tick: number, exclusive: boolean = false): number => {
+    let lo = 0;
+    let hi = events.length;
+    while (lo < hi) {
+        const mid = (lo + hi) >> 1;
+        const isBefore = exclusive ? events[mid].tick <= tick : events[mid].tick < tick;
+        if (isBefore) lo = mid + 1;
+        else hi = mid;
+    }
+    return lo;
+};
+
+// =============================================================================
+// TRANSPORT
+// =============================================================================
+
+/** A beat handed out ahead of time, for clicks and count-ins */
+export interface BeatEvent {
+    /** performance.now() time the beat falls on */
+    time: number;
+    /** Beat within the measure, from 0 */
+    beat: number;
+    /** Length of the beat at the current tempo, for subdividing it */
+    durationMs: number;
+    isDownbeat: boolean;
+    isCountIn: boolean;
+}
+
+export interface TransportOptions {
+    /** Read on every event so the output can change mid-playback */
+    getOutput: () => NoteOutput | null;
+    /** Card, beat, measure, loop pass or tempo changed (also fired on play and seek) */
+    onPosition?: (position: PlaybackPosition) => void;
+    /** Every beat, including count-in beats, one lookahead window early */
+    onBeat?: (beat: BeatEvent) => void;
+    /** Playback ran past the last card (not called on stop) */
+    onEnd?: () => void;
+    /** Clock in ms (default performance.now) */
+    now?: () => number;
+    lookaheadMs?: number;
+    intervalMs?: number;
+}
+
+export interface Transport {
+    /**
+     * Set the material to play; safe to call while playing (edits, tempo
+     * changes). Positions and the loop follow `cards`; `accompaniment`
+     * tracks (the other hand, say) sound alongside on their own rhythms.
+     */
+    load: (
+        cards: Card[],
+        tempo: number,
+        timeSignature: TimeSignature,
+        loop?: LoopRegion,
+        accompaniment?: Card[][]
+    ) => void;
+    /** Count-in and tempo ramp; they apply from the next play and loop pass */
+    setPractice: (practice: PracticeSettings) => void;
+    /** Start from `fromTick`, or resume from the current tick */
+    play: (fromTick?: number) => void;
+    /** Stop the clock but keep the position */
+    pause: () => void;
+    /** Stop the clock and rewind to the start */
+    stop: () => void;
+    seek: (tick: number) => void;
+    seekToCard: (cardIndex: number) => void;
+    getTick: () => number;
+    isPlaying: () => boolean;
+}
+
+/** `tick` is reached at `time`, then the clock runs at `tempo` */
+interface Anchor {
+    time: number;
+    tick: number;
+    tempo: number;
+    /** Loop passes completed before this anchor */
+    pass: number;
+}
+
+/** Tempo after `pass` loop passes under a ramp */
+export const rampedTempo = (baseTempo: number, practice: PracticeSettings, pass: number): number => {
+    const ramp = practice.tempoRamp;
+    if (!ramp || ramp.stepBpm <= 0 || ramp.everyLoops <= 0) return baseTempo;
+    const steps = Math.floor(pass / ramp.everyLoops);
+    return Math.max(baseTempo, Math.min(ramp.targetTempo, baseTempo + steps * ramp.stepBpm));
+};
+
+export const createTransport = ({
+    getOutput,
+    onPosition,
+    onBeat,
+    onEnd,
+    now = () => performance.now(),
+    lookaheadMs = LOOKAHEAD_MS,
+    intervalMs = SCHEDULER_INTERVAL_MS,
+}: TransportOptions): Transport => {
+    let cards: Card[] = [];
+    let accompaniment: Card[][] = [];
+    let tempo = 120;
+    let timeSignature: TimeSignature = [4, 4];
+    let loop: LoopRegion | undefined;
+    let practice: PracticeSettings = { countInBars: 0, tempoRamp: null };
+    let timeline: Timeline = buildTimeline([]);
+    let loopRange: { startTick: number; endTick: number } | null = null;
+    let events: NoteEvent[] = [];
+    /** End of the longest track */
+    let totalTicks = 0;
+
+    let timer: ReturnType<typeof setInterval> | null = null;
+    // Clock frames, oldest first. The last one may start in the future when a
+    // loop wrap has already been scheduled inside the lookahead window.
+    let anchors: Anchor[] = [];
+    /** Where playback (re)started; ticks before it are count-in */
+    let startTick = 0;
+    /** Position while stopped/paused */
+    let pausedTick = 0;
+    /** Next event/beat to hand out and the tick scheduling has reached (last frame) */
+    let nextEvent = 0;
+    let nextBeatTick = 0;
+    let scheduledUntil = 0;
+    let lastPosition: PlaybackPosition | null = null;
+    // Every output notes went to this run, so switching outputs can't leave notes hanging
+    const touched = new Set<NoteOutput>();
+    // Notes started and not yet released, with the output they went to
+    const sounding = new Map<number, NoteOutput>();
+
+    const isPlaying = () => timer !== null;
+
+    /** Frame in effect at `time`; older frames are dropped */
+    const frameAt = (time: number): Anchor => {
+        while (anchors.length > 1 && anchors[1].time <= time) anchors.shift();
+        return anchors[0];
+    };
+
+    const lastFrame = () => anchors[anchors.length - 1];
+
+    const tickIn = (frame: Anchor, time: number) => frame.tick + msToTicks(time - frame.time, frame.tempo);
+    const timeIn = (frame: Anchor, tick: number) => frame.time + ticksToMs(tick - frame.tick, frame.tempo);
+
+    const tickAt = (time: number) => tickIn(frameAt(time), time);
+
+    const clampTick = (tick: number) => Math.max(0, Math.min(tick, totalTicks));
+
+    /** Playback stays inside an active loop */
+    const intoLoop = (tick: number) => {
+        if (!loopRange) return tick;
+        return tick >= loopRange.startTick && tick < loopRange.endTick ? tick : loopRange.startTick;
+    };
+
+    /** First beat-grid tick at or after `tick` */
+    const beatAtOrAfter = (tick: number) => {
+        const beatTicks = ticksPerBeat(timeSignature);
+        return Math.ceil(tick / beatTicks - 1e-9) * beatTicks;
+    };
+
+    const positionAt = (time: number): PlaybackPosition => {
+        const frame = frameAt(time);
+        const tick = tickIn(frame, time);
+        let position: PlaybackPosition;
+        if (tick < startTick) {
+            // Count-in: stay on the first card and count measures up to zero
+            const beatsPerBar = timeSignature[0];
+            const beats = Math.floor((tick - startTick) / ticksPerBeat(timeSignature));
+            position = {
+                ...positionAtTick(timeline, startTick, timeSignature),
+                beat: ((beats % beatsPerBar) + beatsPerBar) % beatsPerBar,
+                measure: Math.floor(beats / beatsPerBar),
+            };
+        } else {
+            position = positionAtTick(timeline, tick, timeSignature);
+        }
+        if (loopRange) position.loopPass = frame.pass;
+        if (frame.tempo !== tempo) position.tempo = frame.tempo;
+        return position;
+    };
+
+    const emit = (position: PlaybackPosition, force: boolean = false) => {
+        const changed = !lastPosition
+            || position.cardIndex !== lastPosition.cardIndex
+            || position.beat !== lastPosition.beat
+            || position.measure !== lastPosition.measure
+            || position.loopPass !== lastPosition.loopPass
+            || position.tempo !== lastPosition.tempo;
+        if (!changed && !force) return;
+        lastPosition = position;
+        onPosition?.(position);
+    };
+
+    const send = (event: NoteEvent, time: number | undefined) => {
+        if (event.type === 'off') {
+            sounding.get(event.note)?.noteOff(event.note, time);
+            sounding.delete(event.note);
+            return;
+        }
+        const output = getOutput();
+        if (!output) return;
+        touched.add(output);
+        sounding.set(event.note, output);
+        output.noteOn(event.note, event.velocity, time);
+    };
+
+    const silence = () => {
+        touched.forEach((output) => output.allNotesOff());
+        touched.clear();
+        sounding.clear();
+    };
+
+    /** After an edit, release sounding notes whose note-off is no longer coming */
+    const releaseOrphans = () => {
+        const pending = new Set<number>();
+        for (let i = nextEvent; i < events.length; i++) {
+            if (events[i].type === 'off') pending.add(events[i].note);
+        }
+        sounding.forEach((output, note) => {
+            if (pending.has(note)) return;
+            output.noteOff(note);
+            sounding.delete(note);
+        });
+    };
+
+    /** Start the clock at `tick` after an optional count-in, re-striking a card already under way */
+    const startAt = (tick: number, countInBars: number) => {
+        const at = now();
+        const countInTicks = countInBars * timeSignature[0] * ticksPerBeat(timeSignature);
+        const pass = anchors.length > 0 ? lastFrame().pass : 0;
+        startTick = tick;
+        anchors = [{ time: at, tick: tick - countInTicks, tempo: rampedTempo(tempo, practice, pass), pass }];
+        nextEvent = firstEventAt(events, tick);
+        nextBeatTick = tick - countInTicks;
+        scheduledUntil = tick - countInTicks;
+
+        const index = cardIndexAtTick(timeline, tick);
+        const entry = timeline.entries[index];
+        if (countInTicks === 0 && entry && entry.startTick < tick) {
+            events
+                .filter((e) => e.type === 'on' && e.tick >= entry.startTick && e.tick < tick)
+                .forEach((e) => send(e, undefined));
+        }
+        emit(positionAt(at), true);
+    };
+
+    const finish = () => {
+        if (timer !== null) clearInterval(timer);
+        timer = null;
+        pausedTick = 0;
+        touched.clear();
+        sounding.clear();
+        onEnd?.();
+    };
+
+    /** Hand out note events and beats up to `limitTick` in the last frame */
+    const scheduleUpTo = (limitTick: number, at: number) => {
+        const frame = lastFrame();
+        const endTick = loopRange ? loopRange.endTick : Infinity;
+
+        while (nextEvent < events.length) {
+            const event = events[nextEvent];
+            // The loop's last note-offs fall exactly on its end
+            const inRange = event.tick < endTick || (event.tick === endTick && event.type === 'off');
+            if (event.tick > limitTick || !inRange) break;
+            const time = timeIn(frame, event.tick);
+            send(event, time > at ? time : undefined);
+            nextEvent++;
+        }
+
+        const beatTicks = ticksPerBeat(timeSignature);
+        const beatEnd = loopRange ? loopRange.endTick : totalTicks;
+        while (nextBeatTick <= limitTick && nextBeatTick < beatEnd) {
+            const isCountIn = nextBeatTick < startTick;
+            const beat = isCountIn
+                ? Math.round((nextBeatTick - startTick) / beatTicks)
+                : Math.round(nextBeatTick / beatTicks);
+            const beatInBar = ((beat % timeSignature[0]) + timeSignature[0]) % timeSignature[0];
+            onBeat?.({
+                time: Math.max(at, timeIn(frame, nextBeatTick)),
+                beat: beatInBar,
+                durationMs: ticksToMs(beatTicks, frame.tempo),
+                isDownbeat: beatInBar === 0,
+                isCountIn,
+            });
+            // The first real beat lines up with the bar grid, not the count-in
+            nextBeatTick = isCountIn && nextBeatTick + beatTicks >= startTick
+                ? beatAtOrAfter(startTick)
+                : nextBeatTick + beatTicks;
+        }
+    };
+
+    /** Queue the jump from the loop's end back to its start */
+    const wrap = (at: number) => {
+        if (!loopRange) return;
+        const frame = lastFrame();
+        const pass = frame.pass + 1;
+        anchors.push({
+            // Not in the past, e.g. when a loop is switched on beyond its end
+            time: Math.max(at, timeIn(frame, loopRange.endTick)),
+            tick: loopRange.startTick,
+            tempo: rampedTempo(tempo, practice, pass),
+            pass,
+        });
+        startTick = loopRange.startTick;
+        nextEvent = firstEventAt(events, loopRange.startTick);
+        nextBeatTick = beatAtOrAfter(loopRange.startTick);
+        scheduledUntil = loopRange.startTick;
+    };
+
+    const pump = () => {
+        const at = now();
+        const limit = at + lookaheadMs;
+        for (;;) {
+            const horizon = tickIn(lastFrame(), limit);
+            scheduleUpTo(horizon, at);
+            if (loopRange && horizon >= loopRange.endTick) {
+                wrap(at);
+                continue;
+            }
+            scheduledUntil = Math.max(scheduledUntil, horizon);
+            break;
+        }
+
+        if (!loopRange && tickAt(at) >= totalTicks) {
+            finish();
+            return;
+        }
+        emit(positionAt(at));
+    };
+
+    const halt = () => {
+        if (timer !== null) clearInterval(timer);
+        timer = null;
+        silence();
+    };
+
+    const seek = (tick: number) => {
+        const target = intoLoop(clampTick(tick));
+        if (isPlaying()) {
+            silence();
+            startAt(target, 0);
+            pump();
+        } else {
+            pausedTick = target;
+            startTick = target;
+            emit({ ...positionAtTick(timeline, target, timeSignature), ...(loopRange ? { loopPass: 0 } : {}) }, true);
+        }
+    };
+
+    const rebuild = () => {
+        timeline = buildTimeline(cards);
+        loopRange = loopTickRange(cards, timeline, loop);
+        const others = accompaniment.map((track) => ({ track, timeline: buildTimeline(track) }));
+        events = [
+            ...buildEvents(cards, timeline, tempo),
+            ...others.flatMap((other) => buildEvents(other.track, other.timeline, tempo)),
+        ].sort(eventOrder);
+        totalTicks = Math.max(timeline.totalTicks, ...others.map((other) => other.timeline.totalTicks));
+    };
+
+    return {
+        load: (nextCards, nextTempo, nextTimeSignature, nextLoop, nextAccompaniment = []) => {
+            cards = nextCards;
+            accompaniment = nextAccompaniment;
+            tempo = nextTempo;
+            timeSignature = nextTimeSignature;
+            loop = nextLoop;
+
+            if (!isPlaying()) {
+                rebuild();
+                pausedTick = clampTick(pausedTick);
+                return;
+            }
+
+            const at = now();
+            const frame = frameAt(at);
+            const tick = tickIn(frame, at);
+            const pendingWrap = anchors.length > 1 ? lastFrame() : null;
+            const previousLoop = loopRange;
+            rebuild();
+
+            // Re-anchor so tempo changes take effect from here on
+            const current: Anchor = { time: at, tick, tempo: rampedTempo(tempo, practice, frame.pass), pass: frame.pass };
+            const sameLoop = !!previousLoop && !!loopRange
+                && previousLoop.startTick === loopRange.startTick
+                && previousLoop.endTick === loopRange.endTick;
+
+            if (pendingWrap && previousLoop && !sameLoop) {
+                // The next pass is already queued for a loop that changed: cancel
+                // it and carry on from here
+                silence();
+                anchors = [current];
+                nextEvent = firstEventAt(events, tick, true);
+                // Beats up to the old loop end were handed out already
+                nextBeatTick = beatAtOrAfter(previousLoop.endTick);
+                scheduledUntil = tick;
+                return;
+            }
+
+            anchors = pendingWrap
+                ? [current, { ...pendingWrap, tempo: rampedTempo(tempo, practice, pendingWrap.pass) }]
+                : [current];
+            nextEvent = firstEventAt(events, scheduledUntil, true);
+            releaseOrphans();
+        },
+
+        setPractice: (next) => {
+            practice = next;
+        },
+
+        play: (fromTick) => {
+            if (isPlaying() || totalTicks === 0) return;
+            let tick = clampTick(fromTick ?? pausedTick);
+            if (tick >= totalTicks) tick = 0;
+            anchors = [];
+            startAt(intoLoop(tick), practice.countInBars);
+            timer = setInterval(pump, intervalMs);
+            pump();
+        },
+
+        pause: () => {
+            if (!isPlaying()) return;
+            pausedTick = clampTick(Math.max(startTick, tickAt(now())));
+            halt();
+        },
+
+        stop: () => {
+            halt();
+            anchors = [];
+            pausedTick = 0;
+            startTick = 0;
+            lastPosition = null;
+        },
+
+        seek,
+
+        seekToCard: (cardIndex) => {
+            const entry = timeline.entries[cardIndex];
+            if (entry) seek(entry.startTick);
+        },
+
+        getTick: () => (isPlaying() ? Math.max(startTick, tickAt(now())) : pausedTick),
+
+        isPlaying,
+    };
+};
@@ -0,0 +1,77 @@
+/**
+ * Tests for building, writing and reading XML element trees.
+ */
+
+import { describe, it, expect } from 'vitest';
+import { childElement, childElements, parseXml, textOf, writeXml, xmlElement } from './xml';
+
+describe('writeXml', () => {
+    it('indents nested elements and escapes text and attributes', () => {
+        const root = xmlElement('a', [
+            xmlElement('b', ['x < y & z'], { title: 'say "hi"' }),
+            xmlElement('c', [3, null, false, undefined]),
+            xmlElement('d'),
+        ]);
+
+        expect(writeXml(root, ['<!DOCTYPE a>'])).toBe([
+            '<?xml version="1.0" encoding="UTF-8"?>',
+            '<!DOCTYPE a>',
+            '<a>',
+            '  <b title="say &quot;hi&quot;">x &lt; y &amp; z</b>',
+            '  <c>3</c>',
+            '  <d/>',
+            '</a>',
+            '',
+        ].join('\n'));
+    });
+});
+
+describe('parseXml', () => {
+    it('reads back what writeXml writes', () => {
+        const root = xmlElement('score', [
+            xmlElement('title', ['Rock & Roll']),
+            xmlElement('note', [xmlElement('step', ['C']), xmlElement('octave', [4])], { id: 'n1' }),
+            xmlElement('chord'),
+        ], { version: '4.0' });
+
+        expect(parseXml(writeXml(root, ['<!DOCTYPE score>']))).toEqual(root);
+    });
+
+    it('skips comments, processing instructions and an internal DOCTYPE subset', () => {
+        const root = parseXml(`﻿<?xml version="1.0"?>
+<!DOCTYPE a [ <!ENTITY x "y"> ]>
+<!-- before -->
+<a><?app data?><b>one<!-- inside --> two</b><![CDATA[<raw> & text]]></a>
+<!-- after -->`);
+
+        expect(root.name).toBe('a');
+        expect(textOf(childElement(root, 'b'))).toBe('one two');
+        expect(root.children[1]).toBe('<raw> & text');
+    });
+
+    it('decodes entities in text and single-quoted attributes', () => {
+        const root = parseXml(`<a t='&lt;&#65;&#x42;&apos;'>&amp;&gt;&quot;</a>`);
+
+        expect(root.attributes.t).toBe("<AB'");
+        expect(textOf(root)).toBe('&>"');
+    });
+
+    it('finds child elements by name', () => {
+        const root = parseXml('<a><b>1</b><c/><b>2</b></a>');
+
+        expect(childElements(root, 'b').map((b) => textOf(b))).toEqual(['1', '2']);
+        expect(childElement(root, 'c')?.children).toEqual([]);
+        expect(childElement(root, 'd')).toBeUndefined();
+        expect(textOf(undefined)).toBe('');
+    });
+
+    it('reports where a document stops being well-formed', () => {
+        expect(() => parseXml('<a>\n  <b></c>\n</a>')).toThrow('Expected </b> but found </c> (line 2, column 6)');
+        expect(() => parseXml('<a>\n<b>')).toThrow('Unclosed <b> (line 2, column 1)');
+        expect(() => parseXml('<a x=1/>')).toThrow('Expected a quoted attribute value (line 1, column 6)');
+        expect(() => parseXml('<a>fish & chips</a>')).toThrow('Unescaped "&"');
+        expect(() => parseXml('<a>&nbsp;</a>')).toThrow('Unknown entity "&nbsp;"');
+        expect(() => parseXml('<a/><b/>')).toThrow('Content after the root element (line 1, column 5)');
+        expect(() => parseXml('  ')).toThrow('No root element');
+    });
+});
@@ -0,0 +1,216 @@
+/**
+ * XML
+ *
+ * Just enough XML for the file formats we exchange: building an element
+ * tree, writing it out indented, and reading one back. Reading skips the
+ * declaration, DOCTYPE, comments and processing instructions, and knows
+ * only the predefined and numeric entities.
+ */
+
+// =============================================================================
+// ELEMENTS
+// =============================================================================
+
+export interface XmlElement {
+    name: string;
+    attributes: Record<string, string>;
+    children: XmlNode[];
+}
+
+export type XmlNode = XmlElement | string;
+
+/**
+ * An element. Children that are null, undefined or false are left out, so
+ * optional parts can be written inline; numbers become text.
+ */
+export const xmlElement = (
+    name: string,
+    children: (XmlNode | number | null | undefined | false)[] = [],
+    attributes: Record<string, string | number | undefined> = {}
+): XmlElement => ({
+    name,
+    attributes: Object.fromEntries(
+        Object.entries(attributes)
+            .filter((entry): entry is [string, string | number] => entry[1] !== undefined)
+            .map(([key, value]) => [key, String(value)])
+    ),
+    children: children
+        .filter((child): child is XmlNode | number => child !== null && child !== undefined && child !== false)
+        .map((child) => (typeof child === 'number' ? String(child) : child)),
+});
+
+// =============================================================================
+// WRITING
+// =============================================================================
+
+const escapeText = (text: string): string =>
+    text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+
+const escapeAttribute = (value: string): string => escapeText(value).replace(/"/g, '&quot;');
+
+/** One element and everything in it, two spaces deeper per level; text-only elements stay on one line */
+const writeElement = (element: XmlElement, depth: number): string => {
+    const indent = '  '.repeat(depth);
+    const attributes = Object.entries(element.attributes)
+        .map(([key, value]) => ` ${key}="${escapeAttribute(value)}"`)
+        .join('');
+    const open = `${indent}<${element.name}${attributes}`;
+    if (element.children.length === 0) return `${open}/>`;
+    if (element.children.every((child) => typeof child === 'string')) {
+        return `${open}>${element.children.map((child) => escapeText(child as string)).join('')}</${element.name}>`;
+    }
+    const children = element.children.map((child) =>
+        typeof child === 'string' ? `${indent}  ${escapeText(child)}` : writeElement(child, depth + 1)
+    );
+    return [`${open}>`, ...children, `${indent}</${element.name}>`].join('\n');
+};
+
+/** A document: the XML declaration, then any prolog lines (a DOCTYPE, say), then the root */
+export const writeXml = (root: XmlElement, prolog: string[] = []): string =>
+    ['<?xml version="1.0" encoding="UTF-8"?>', ...prolog, writeElement(root, 0)].join('\n') + '\n';
+
+/** The first child element with this name */
+export const childElement = (element: XmlElement, name: string): XmlElement | undefined =>
+    element.children.find((child): child is XmlElement => typeof child !== 'string' && child.name === name);
+
+/** Every child element with this name, in order */
+export const childElements = (element: XmlElement, name: string): XmlElement[] =>
+    element.children.filter((child): child is XmlElement => typeof child !== 'string' && child.name === name);
+
+/** The element's text, trimmed; empty for a missing element */
+export const textOf = (element: XmlElement | undefined): string =>
+    element ? element.children.filter((child) => typeof child === 'string').join('').trim() : '';
+
+// =============================================================================
+// READING
+// =============================================================================
+
+const ENTITIES: Record<string, string> = { amp: '&', lt: '<', gt: '>', quot: '"', apos: "'" };
+
+const NAME = /[A-Za-z_:][\w.:-]*/g;
+
+/**
+ * The document's root element. Text that is only whitespace between
+ * elements is dropped. Throws on anything not well-formed, with the line
+ * and column.
+ */
+export const parseXml = (text: string): XmlElement => {
+    let offset = 0;
+
+    const parseError = (message: string, at: number = offset): Error => {
+        const before = text.slice(0, at).split('\n');
+        return new Error(`${message} (line ${before.length}, column ${before[before.length - 1].length + 1})`);
+    };
+    const decode = (raw: string, at: number): string =>
+        raw.replace(/&(#x[0-9a-fA-F]+|#\d+|\w+);|&/g, (match, entity: string | undefined) => {
+            if (!entity) throw parseError('Unescaped "&"', at);
+            if (entity.startsWith('#')) {
+                const code = entity[1] === 'x' ? parseInt(entity.slice(2), 16) : parseInt(entity.slice(1), 10);
+                return String.fromCodePoint(code);
+            }
+            if (!(entity in ENTITIES)) throw parseError(`Unknown entity "${match}"`, at);
+            return ENTITIES[entity];
+        });
+    const skipPast = (terminator: string, what: string) => {
+        const end = text.indexOf(terminator, offset);
+        if (end < 0) throw parseError(`Unclosed ${what}`);
+        offset = end + terminator.length;
+    };
+    const skipSpace = () => {
+        while (/\s/.test(text[offset] ?? '')) offset++;
+    };
+    const readName = (): string => {
+        NAME.lastIndex = offset;
+        const match = NAME.exec(text);
+        if (!match || match.index !== offset) throw parseError('Expected a name');
+        offset = NAME.lastIndex;
+        return match[0];
+    };
+    const readAttributeValue = (): string => {
+        const quote = text[offset];
+        if (quote !== '"' && quote !== "'") throw parseError('Expected a quoted attribute value');
+        const end = text.indexOf(quote, offset + 1);
+        if (end < 0) throw parseError('Unclosed attribute value');
+        const value = decode(text.slice(offset + 1, end), offset);
+        offset = end + 1;
+        return value;
+    };
+
+    /** Comments, processing instructions and (before the root) a DOCTYPE */
+    const skipMarkup = (allowDoctype: boolean): boolean => {
+        if (text.startsWith('<!--', offset)) skipPast('-->', 'comment');
+        else if (text.startsWith('<?', offset)) skipPast('?>', 'processing instruction');
+        else if (allowDoctype && text.startsWith('<!DOCTYPE', offset)) {
+            // An internal subset holds markup of its own
+            const subset = text.indexOf('[', offset);
+            const close = text.indexOf('>', offset);
+            if (subset >= 0 && (close < 0 || subset < close)) skipPast(']', 'DOCTYPE');
+            skipPast('>', 'DOCTYPE');
+        } else return false;
+        return true;
+    };
+
+    const readElement = (): XmlElement => {
+        const start = offset;
+        offset++;
+        const name = readName();
+        const attributes: Record<string, string> = {};
+        for (skipSpace(); text[offset] !== '>' && text[offset] !== '/' && offset < text.length; skipSpace()) {
+            const attribute = readName();
+            skipSpace();
+            if (text[offset] !== '=') throw parseError(`Expected "=" after ${attribute}`);
+            offset++;
+            skipSpace();
+            attributes[attribute] = readAttributeValue();
+        }
+        if (text.startsWith('/>', offset)) {
+            offset += 2;
+            return { name, attributes, children: [] };
+        }
+        if (text[offset] !== '>') throw parseError(`Malformed <${name}> tag`);
+        offset++;
+
+        const children: XmlNode[] = [];
+        for (;;) {
+            if (offset >= text.length) throw parseError(`Unclosed <${name}>`, start);
+            if (text.startsWith('</', offset)) {
+                const closingStart = offset;
+                offset += 2;
+                const closing = readName();
+                if (closing !== name) throw parseError(`Expected </${name}> but found </${closing}>`, closingStart);
+                skipSpace();
+                if (text[offset] !== '>') throw parseError(`Malformed </${name}> tag`);
+                offset++;
+                return { name, attributes, children };
+            }
+            if (text.startsWith('<![CDATA[', offset)) {
+                const end = text.indexOf(']]>', offset);
+                if (end < 0) throw parseError('Unclosed CDATA section');
+                children.push(text.slice(offset + 9, end));
+                offset = end + 3;
+            } else if (skipMarkup(false)) {
+                continue;
+            } else if (text[offset] === '<') {
+                children.push(readElement());
+            } else {
+                const end = text.indexOf('<', offset);
+                const raw = text.slice(offset, end < 0 ? text.length : end);
+                if (raw.trim()) children.push(decode(raw, offset));
+                offset += raw.length;
+            }
+        }
+    };
+
+    for (;;) {
+        skipSpace();
+        if (offset >= text.length) throw parseError('No root element');
+        if (skipMarkup(true)) continue;
+        if (text[offset] !== '<') throw parseError('Text before the root element');
+        const root = readElement();
+        for (;;) {
+            skipSpace();
+            if (offset >= text.length) return root;
+            if (!skipMarkup(false)) throw parseError('Content after the root element');
+        }
+    }
+};
@@ -15,8 +15,16 @@ import type {
     PlaybackState,
     PlaybackPosition,
     ChordAnalysis,
+    CardExpression,
+    LoopRegion,
+    PracticeSettings,
+    TempoRamp,
+    TrackId,
 } from '../types';
-import { createCard, createRestCard, createSequence, generateId } from '../types';
+import { MASTER_TRACK, RIGHT_HAND_TRACK, createCard, createRestCard, createSequence, generateId } from '../types';
+import { buildTimeline, positionAtTick } from '../lib/timeline';
+import { DEFAULT_SPLIT_POINT } from '../lib/handSplit';
+import { migrateToHandTracks } from '../lib/tracks';
 
 // =============================================================================
 // STATE INTERFACE
@@ -30,23 +38,51 @@ interface SequenceState {
     sequence: Sequence;
 
     // --- UI State ---
+    /** Track that recording, selection and card edits apply to */
+    activeTrackId: TrackId;
     selectedCardIds: string[];  // Multi-selection: array preserves selection order
     selectionAnchor: string | null;  // For shift+click range selection
+    /** Card under the pointer in either the card strip or the staff */
+    hoveredCardId: string | null;
     recordingDuration: Duration;
 
     // --- Playback State ---
     playbackState: PlaybackState;
     playbackPosition: PlaybackPosition;
 
+    // Practice (session settings, not saved with the sequence)
+    practice: PracticeSettings;
+
     // --- Card CRUD Actions ---
-    addCard: (notes: number[], analysis?: ChordAnalysis) => void;
-    addRestCard: () => void;
-    insertCard: (index: number, notes: number[], analysis?: ChordAnalysis) => void;
+    // Actions that take a track id default to the active track
+    addCard: (notes: number[], analysis?: ChordAnalysis, expression?: CardExpression, trackId?: TrackId) => void;
+    addRestCard: (trackId?: TrackId) => void;
+    /** Append prebuilt cards as one undo step (e.g. a recorded take) */
+    appendCards: (cards: Card[], trackId?: TrackId) => void;
+    insertCard: (
+        index: number,
+        notes: number[],
+        analysis?: ChordAnalysis,
+        expression?: CardExpression,
+        trackId?: TrackId
+    ) => void;
     removeCard: (id: string) => void;
     updateCard: (id: string, updates: Partial<Omit<Card, 'id'>>) => void;
     updateCardDuration: (id: string, duration: Duration) => void;
-    reorderCards: (fromIndex: number, toIndex: number) => void;
-    clearCards: () => void;
+    /** Spell one of a card's notes by hand (e.g. "Ab"); null returns it to automatic spelling */
+    setEnharmonicOverride: (id: string, midi: number, name: string | null) => void;
+    reorderCards: (fromIndex: number, toIndex: number, trackId?: TrackId) => void;
+    clearCards: (trackId?: TrackId) => void;
+
+    // --- Tracks ---
+    /** Switch the track being edited; clears the selection and rewinds */
+    setActiveTrack: (trackId: TrackId) => void;
+    /** Add an empty track and make it active (no-op if the id is taken) */
+    addTrack: (trackId: TrackId) => void;
+    /** Remove a track; a sequence always keeps at least one */
+    removeTrack: (trackId: TrackId) => void;
+    /** Split the both-hands track into right- and left-hand tracks by register */
+    splitIntoHandTracks: () => void;
 
     // --- Selection ---
     selectCard: (id: string, mode?: SelectionMode) => void;
@@ -54,9 +90,12 @@ interface SequenceState {
     clearSelection: () => void;
     selectAll: () => void;
     selectCardByIndex: (index: number, mode?: SelectionMode) => void;
+    setHoveredCard: (id: string | null) => void;
 
     // --- Batch Operations ---
     updateSelectedCardsDuration: (duration: Duration) => void;
+    /** Change each selected card's own duration, e.g. dot it, in one undo step */
+    modifySelectedCardsDuration: (modify: (duration: Duration) => Duration) => void;
     deleteSelectedCards: () => void;
 
     // --- Recording ---
@@ -65,6 +104,8 @@ interface SequenceState {
     // --- Sequence Settings ---
     setTempo: (tempo: number) => void;
     setTimeSignature: (timeSignature: TimeSignature) => void;
+    setKeySignature: (keySignature: string) => void;
+    setHandSplitPoint: (handSplitPoint: number) => void;
     setSequenceName: (name: string) => void;
 
     // --- Playback Controls ---
@@ -72,15 +113,26 @@ interface SequenceState {
     pause: () => void;
     stop: () => void;
     setPlaybackPosition: (position: Partial<PlaybackPosition>) => void;
+    /** Move the playback cursor to the start of a card (the transport follows) */
+    seekToCard: (index: number) => void;
+
+    // Loop & practice
+    setLoop: (loop: LoopRegion | null) => void;
+    /** Loop from the first to the last selected card (by position) */
+    setLoopFromSelection: () => void;
+    setLoopEnabled: (enabled: boolean) => void;
+    setCountInBars: (bars: number) => void;
+    setTempoRamp: (ramp: TempoRamp | null) => void;
 
     // --- Persistence ---
     loadSequence: (sequence: Sequence) => void;
     resetSequence: () => void;
 
     // --- Computed Helpers ---
-    getCards: () => Card[];
+    getCards: (trackId?: TrackId) => Card[];
+    /** Looks in every track */
     getCardById: (id: string) => Card | undefined;
-    getCardByIndex: (index: number) => Card | undefined;
+    getCardByIndex: (index: number, trackId?: TrackId) => Card | undefined;
     getSelectedCards: () => Card[];
     getCardIndex: (id: string) => number;
     isCardSelected: (id: string) => boolean;
@@ -98,6 +150,35 @@ const initialPlaybackPosition: PlaybackPosition = {
     measure: 0,
 };
 
+const initialPractice: PracticeSettings = {
+    countInBars: 0,
+    tempoRamp: null,
+};
+
+const EMPTY_CARDS: Card[] = [];
+
+// =============================================================================
+// TRACK HELPERS
+// =============================================================================
+
+/** The sequence with one track's cards replaced (the track is created if missing) */
+const withTrack = (sequence: Sequence, trackId: TrackId, update: (cards: Card[]) => Card[]): Sequence => ({
+    ...sequence,
+    tracks: { ...sequence.tracks, [trackId]: update(sequence.tracks[trackId] ?? []) },
+    updatedAt: Date.now(),
+});
+
+/** The track holding a card */
+const trackOf = (sequence: Sequence, cardId: string): TrackId | undefined =>
+    Object.keys(sequence.tracks).find((trackId) => sequence.tracks[trackId].some((c) => c.id === cardId));
+
+/** The track to edit after loading a sequence */
+const firstTrack = (sequence: Sequence): TrackId => Object.keys(sequence.tracks)[0] ?? MASTER_TRACK;
+
+/** The active track's cards */
+const activeCards = (state: Pick<SequenceState, 'sequence' | 'activeTrackId'>): Card[] =>
+    state.sequence.tracks[state.activeTrackId] ?? EMPTY_CARDS;
+
 // =============================================================================
 // STORE IMPLEMENTATION
 // =============================================================================
@@ -107,126 +188,153 @@ export const useSequenceStore = create<SequenceState>()(
         (set, get) => ({
             // --- Initial State ---
             sequence: createSequence(),
+            activeTrackId: MASTER_TRACK,
             selectedCardIds: [],
             selectionAnchor: null,
+            hoveredCardId: null,
             recordingDuration: 'q',
             playbackState: 'stopped',
             playbackPosition: initialPlaybackPosition,
+            practice: initialPractice,
 
             // --- Card CRUD ---
 
-            addCard: (notes, analysis) => {
-                const card = createCard(notes, get().recordingDuration, analysis);
-                set((state) => ({
-                    sequence: {
-                        ...state.sequence,
-                        tracks: {
-                            ...state.sequence.tracks,
-                            master: [...state.sequence.tracks.master, card],
-                        },
-                        updatedAt: Date.now(),
-                    },
-                }));
+            addCard: (notes, analysis, expression, trackId = get().activeTrackId) => {
+                const card = createCard(notes, get().recordingDuration, analysis, expression);
+                set((state) => ({ sequence: withTrack(state.sequence, trackId, (cards) => [...cards, card]) }));
             },
 
-            addRestCard: () => {
+            addRestCard: (trackId = get().activeTrackId) => {
                 const card = createRestCard(get().recordingDuration);
+                set((state) => ({ sequence: withTrack(state.sequence, trackId, (cards) => [...cards, card]) }));
+            },
+
+            appendCards: (cards, trackId = get().activeTrackId) => {
+                if (cards.length === 0) return;
+                set((state) => ({ sequence: withTrack(state.sequence, trackId, (existing) => [...existing, ...cards]) }));
+            },
+
+            insertCard: (index, notes, analysis, expression, trackId = get().activeTrackId) => {
+                const card = createCard(notes, get().recordingDuration, analysis, expression);
                 set((state) => ({
-                    sequence: {
-                        ...state.sequence,
-                        tracks: {
-                            ...state.sequence.tracks,
-                            master: [...state.sequence.tracks.master, card],
-                        },
-                        updatedAt: Date.now(),
-                    },
+                    sequence: withTrack(state.sequence, trackId, (cards) => {
+                        const next = [...cards];
+                        next.splice(index, 0, card);
+                        return next;
+                    }),
                 }));
             },
 
-            insertCard: (index, notes, analysis) => {
-                const card = createCard(notes, get().recordingDuration, analysis);
+            removeCard: (id) => {
                 set((state) => {
-                    const cards = [...state.sequence.tracks.master];
-                    cards.splice(index, 0, card);
+                    const trackId = trackOf(state.sequence, id);
+                    if (trackId === undefined) return state;
                     return {
-                        sequence: {
-                            ...state.sequence,
-                            tracks: { ...state.sequence.tracks, master: cards },
-                            updatedAt: Date.now(),
-                        },
+                        sequence: withTrack(state.sequence, trackId, (cards) => cards.filter((c) => c.id !== id)),
+                        // Remove from selection if was selected
+                        selectedCardIds: state.selectedCardIds.filter((cid) => cid !== id),
+                        selectionAnchor: state.selectionAnchor === id ? null : state.selectionAnchor,
                     };
                 });
             },
 
-            removeCard: (id) => {
+            updateCard: (id, updates) => {
                 set((state) => {
-                    const cards = state.sequence.tracks.master.filter((c) => c.id !== id);
+                    const trackId = trackOf(state.sequence, id);
+                    if (trackId === undefined) return state;
                     return {
-                        sequence: {
-                            ...state.sequence,
-                            tracks: { ...state.sequence.tracks, master: cards },
-                            updatedAt: Date.now(),
-                        },
-                        // Remove from selection if was selected
-                        selectedCardIds: state.selectedCardIds.filter((cid) => cid !== id),
-                        selectionAnchor: state.selectionAnchor === id ? null : state.selectionAnchor,
+                        sequence: withTrack(state.sequence, trackId, (cards) =>
+                            cards.map((c) => (c.id === id ? { ...c, ...updates } : c))
+                        ),
                     };
                 });
             },
 
-            updateCard: (id, updates) => {
+            updateCardDuration: (id, duration) => {
+                get().updateCard(id, { duration });
+            },
+
+            setEnharmonicOverride: (id, midi, name) => {
+                const card = get().getCardById(id);
+                if (!card) return;
+                const overrides = { ...card.enharmonicOverrides };
+                if (name) overrides[midi] = name;
+                else delete overrides[midi];
+                get().updateCard(id, {
+                    enharmonicOverrides: Object.keys(overrides).length > 0 ? overrides : undefined,
+                });
+            },
+
+            reorderCards: (fromIndex, toIndex, trackId = get().activeTrackId) => {
                 set((state) => ({
-                    sequence: {
-                        ...state.sequence,
-                        tracks: {
-                            ...state.sequence.tracks,
-                            master: state.sequence.tracks.master.map((c) =>
-                                c.id === id ? { ...c, ...updates } : c
-                            ),
-                        },
-                        updatedAt: Date.now(),
-                    },
+                    sequence: withTrack(state.sequence, trackId, (cards) => {
+                        const next = [...cards];
+                        const [removed] = next.splice(fromIndex, 1);
+                        if (removed) {
+                            next.splice(toIndex, 0, removed);
+                        }
+                        return next;
+                    }),
                 }));
             },
 
-            updateCardDuration: (id, duration) => {
-                get().updateCard(id, { duration });
+            clearCards: (trackId = get().activeTrackId) => {
+                set((state) => ({
+                    sequence: withTrack(state.sequence, trackId, () => []),
+                    selectedCardIds: [],
+                    selectionAnchor: null,
+                }));
             },
 
-            reorderCards: (fromIndex, toIndex) => {
-                set((state) => {
-                    const cards = [...state.sequence.tracks.master];
-                    const [removed] = cards.splice(fromIndex, 1);
-                    if (removed) {
-                        cards.splice(toIndex, 0, removed);
-                    }
-                    return {
-                        sequence: {
-                            ...state.sequence,
-                            tracks: { ...state.sequence.tracks, master: cards },
-                            updatedAt: Date.now(),
-                        },
-                    };
+            // --- Tracks ---
+
+            setActiveTrack: (trackId) => {
+                if (!(trackId in get().sequence.tracks) || trackId === get().activeTrackId) return;
+                // Selections and the cursor belong to one track's cards
+                set({
+                    activeTrackId: trackId,
+                    selectedCardIds: [],
+                    selectionAnchor: null,
+                    hoveredCardId: null,
+                    playbackState: 'stopped',
+                    playbackPosition: initialPlaybackPosition,
                 });
             },
 
-            clearCards: () => {
+            addTrack: (trackId) => {
+                if (!trackId || trackId in get().sequence.tracks) return;
+                set((state) => ({ sequence: withTrack(state.sequence, trackId, () => []) }));
+                get().setActiveTrack(trackId);
+            },
+
+            removeTrack: (trackId) => {
+                const { sequence, activeTrackId } = get();
+                const remaining = Object.keys(sequence.tracks).filter((id) => id !== trackId);
+                if (remaining.length === 0 || remaining.length === Object.keys(sequence.tracks).length) return;
+                if (activeTrackId === trackId) get().setActiveTrack(remaining[0]);
                 set((state) => ({
                     sequence: {
                         ...state.sequence,
-                        tracks: { ...state.sequence.tracks, master: [] },
+                        tracks: Object.fromEntries(
+                            Object.entries(state.sequence.tracks).filter(([id]) => id !== trackId)
+                        ),
                         updatedAt: Date.now(),
                     },
-                    selectedCardIds: [],
-                    selectionAnchor: null,
                 }));
             },
 
+            splitIntoHandTracks: () => {
+                const migrated = migrateToHandTracks(get().sequence);
+                if (migrated === get().sequence) return;
+                set({ sequence: migrated });
+                get().setActiveTrack(RIGHT_HAND_TRACK);
+            },
+
             // --- Selection ---
 
             selectCard: (id, mode = 'replace') => {
                 set((state) => {
-                    const cards = state.sequence.tracks.master;
+                    const cards = activeCards(state);
                     const cardExists = cards.some((c) => c.id === id);
                     if (!cardExists) return state;
 
@@ -288,7 +396,7 @@ export const useSequenceStore = create<SequenceState>()(
 
             selectCards: (ids) => {
                 set((state) => {
-                    const cards = state.sequence.tracks.master;
+                    const cards = activeCards(state);
                     const validIds = ids.filter((id) => cards.some((c) => c.id === id));
                     return {
                         selectedCardIds: validIds,
@@ -303,7 +411,7 @@ export const useSequenceStore = create<SequenceState>()(
 
             selectAll: () => {
                 set((state) => {
-                    const cards = state.sequence.tracks.master;
+                    const cards = activeCards(state);
                     return {
                         selectedCardIds: cards.map((c) => c.id),
                         selectionAnchor: cards.length > 0 ? cards[0].id : null,
@@ -312,13 +420,17 @@ export const useSequenceStore = create<SequenceState>()(
             },
 
             selectCardByIndex: (index, mode = 'replace') => {
-                const cards = get().sequence.tracks.master;
+                const cards = activeCards(get());
                 const card = cards[index];
                 if (card) {
                     get().selectCard(card.id, mode);
                 }
             },
 
+            setHoveredCard: (id) => {
+                if (get().hoveredCardId !== id) set({ hoveredCardId: id });
+            },
+
             // --- Batch Operations ---
 
             updateSelectedCardsDuration: (duration) => {
@@ -327,16 +439,22 @@ export const useSequenceStore = create<SequenceState>()(
                     if (selectedCardIds.length === 0) return state;
 
                     return {
-                        sequence: {
-                            ...state.sequence,
-                            tracks: {
-                                ...state.sequence.tracks,
-                                master: state.sequence.tracks.master.map((c) =>
-                                    selectedCardIds.includes(c.id) ? { ...c, duration } : c
-                                ),
-                            },
-                            updatedAt: Date.now(),
-                        },
+                        sequence: withTrack(state.sequence, state.activeTrackId, (cards) =>
+                            cards.map((c) => (selectedCardIds.includes(c.id) ? { ...c, duration } : c))
+                        ),
+                    };
+                });
+            },
+
+            modifySelectedCardsDuration: (modify) => {
+                set((state) => {
+                    const { selectedCardIds } = state;
+                    if (selectedCardIds.length === 0) return state;
+
+                    return {
+                        sequence: withTrack(state.sequence, state.activeTrackId, (cards) =>
+                            cards.map((c) => (selectedCardIds.includes(c.id) ? { ...c, duration: modify(c.duration) } : c))
+                        ),
                     };
                 });
             },
@@ -347,16 +465,9 @@ export const useSequenceStore = create<SequenceState>()(
                     if (selectedCardIds.length === 0) return state;
 
                     return {
-                        sequence: {
-                            ...state.sequence,
-                            tracks: {
-                                ...state.sequence.tracks,
-                                master: state.sequence.tracks.master.filter(
-                                    (c) => !selectedCardIds.includes(c.id)
-                                ),
-                            },
-                            updatedAt: Date.now(),
-                        },
+                        sequence: withTrack(state.sequence, state.activeTrackId, (cards) =>
+                            cards.filter((c) => !selectedCardIds.includes(c.id))
+                        ),
                         selectedCardIds: [],
                         selectionAnchor: null,
                     };
@@ -391,6 +502,26 @@ export const useSequenceStore = create<SequenceState>()(
                 }));
             },
 
+            setKeySignature: (keySignature) => {
+                set((state) => ({
+                    sequence: {
+                        ...state.sequence,
+                        keySignature,
+                        updatedAt: Date.now(),
+                    },
+                }));
+            },
+
+            setHandSplitPoint: (handSplitPoint) => {
+                set((state) => ({
+                    sequence: {
+                        ...state.sequence,
+                        handSplitPoint,
+                        updatedAt: Date.now(),
+                    },
+                }));
+            },
+
             setSequenceName: (name) => {
                 set((state) => ({
                     sequence: {
@@ -424,11 +555,64 @@ export const useSequenceStore = create<SequenceState>()(
                 }));
             },
 
+            seekToCard: (index) => {
+                const { sequence } = get();
+                const timeline = buildTimeline(activeCards(get()));
+                const entry = timeline.entries[index];
+                if (!entry) return;
+                set({ playbackPosition: positionAtTick(timeline, entry.startTick, sequence.timeSignature) });
+            },
+
+            // --- Loop & Practice ---
+
+            setLoop: (loop) => {
+                set((state) => ({
+                    sequence: {
+                        ...state.sequence,
+                        loop: loop ?? undefined,
+                        updatedAt: Date.now(),
+                    },
+                }));
+            },
+
+            setLoopFromSelection: () => {
+                const { selectedCardIds, setLoop } = get();
+                const cards = activeCards(get());
+                const indices = selectedCardIds
+                    .map((id) => cards.findIndex((c) => c.id === id))
+                    .filter((i) => i !== -1);
+                if (indices.length === 0) return;
+                setLoop({
+                    startCardId: cards[Math.min(...indices)].id,
+                    endCardId: cards[Math.max(...indices)].id,
+                    enabled: true,
+                });
+            },
+
+            setLoopEnabled: (enabled) => {
+                const { loop } = get().sequence;
+                if (!loop || loop.enabled === enabled) return;
+                get().setLoop({ ...loop, enabled });
+            },
+
+            setCountInBars: (bars) => {
+                set((state) => ({
+                    practice: { ...state.practice, countInBars: Math.max(0, Math.min(4, Math.round(bars))) },
+                }));
+            },
+
+            setTempoRamp: (ramp) => {
+                set((state) => ({
+                    practice: { ...state.practice, tempoRamp: ramp },
+                }));
+            },
+
             // --- Persistence ---
 
             loadSequence: (sequence) => {
                 set({
                     sequence,
+                    activeTrackId: firstTrack(sequence),
                     selectedCardIds: [],
                     selectionAnchor: null,
                     playbackState: 'stopped',
@@ -439,6 +623,7 @@ export const useSequenceStore = create<SequenceState>()(
             resetSequence: () => {
                 set({
                     sequence: createSequence(),
+                    activeTrackId: MASTER_TRACK,
                     selectedCardIds: [],
                     selectionAnchor: null,
                     playbackState: 'stopped',
@@ -448,22 +633,30 @@ export const useSequenceStore = create<SequenceState>()(
 
             // --- Computed Helpers ---
 
-            getCards: () => get().sequence.tracks.master,
+            getCards: (trackId = get().activeTrackId) => get().sequence.tracks[trackId] ?? EMPTY_CARDS,
 
-            getCardById: (id) => get().sequence.tracks.master.find((c) => c.id === id),
+            getCardById: (id) => {
+                const { tracks } = get().sequence;
+                for (const cards of Object.values(tracks)) {
+                    const card = cards.find((c) => c.id === id);
+                    if (card) return card;
+                }
+                return undefined;
+            },
 
-            getCardByIndex: (index) => get().sequence.tracks.master[index],
+            getCardByIndex: (index, trackId = get().activeTrackId) => get().getCards(trackId)[index],
 
             getSelectedCards: () => {
-                const { selectedCardIds, sequence } = get();
+                const { selectedCardIds } = get();
                 if (selectedCardIds.length === 0) return [];
+                const cards = activeCards(get());
                 // Return cards in selection order
                 return selectedCardIds
-                    .map((id) => sequence.tracks.master.find((c) => c.id === id))
+                    .map((id) => cards.find((c) => c.id === id))
                     .filter((c): c is Card => c !== undefined);
             },
 
-            getCardIndex: (id) => get().sequence.tracks.master.findIndex((c) => c.id === id),
+            getCardIndex: (id) => activeCards(get()).findIndex((c) => c.id === id),
 
             isCardSelected: (id) => get().selectedCardIds.includes(id),
 
@@ -495,8 +688,14 @@ export const useSequenceHistory = () => {
 // SELECTORS
 // =============================================================================
 
-/** Select just the cards array (for components that only need cards) */
-export const selectCards = (state: SequenceState) => state.sequence.tracks.master;
+/** Select the active track's cards (for components that only need cards) */
+export const selectCards = (state: SequenceState) => activeCards(state);
+
+/** Select the track being edited */
+export const selectActiveTrackId = (state: SequenceState) => state.activeTrackId;
+
+/** Select every track's cards */
+export const selectTracks = (state: SequenceState) => state.sequence.tracks;
 
 /** Select the selected card IDs (multi-selection) */
 export const selectSelectedCardIds = (state: SequenceState) => state.selectedCardIds;
@@ -504,6 +703,9 @@ export const selectSelectedCardIds = (state: SequenceState) => state.selectedCar
 /** Select the selection anchor */
 export const selectSelectionAnchor = (state: SequenceState) => state.selectionAnchor;
 
+/** Select the card under the pointer */
+export const selectHoveredCardId = (state: SequenceState) => state.hoveredCardId;
+
 /** Select recording duration */
 export const selectRecordingDuration = (state: SequenceState) => state.recordingDuration;
 
@@ -513,9 +715,22 @@ export const selectTempo = (state: SequenceState) => state.sequence.tempo;
 /** Select time signature */
 export const selectTimeSignature = (state: SequenceState) => state.sequence.timeSignature;
 
+/** Select key signature (C major for sequences saved before keys existed) */
+export const selectKeySignature = (state: SequenceState) => state.sequence.keySignature ?? 'C';
+export const selectHandSplitPoint = (state: SequenceState) => state.sequence.handSplitPoint ?? DEFAULT_SPLIT_POINT;
+
 /** Select playback state */
 export const selectPlaybackState = (state: SequenceState) => state.playbackState;
 
+/** Select playback position */
+export const selectPlaybackPosition = (state: SequenceState) => state.playbackPosition;
+
+/** Select the sequence's loop region (may be disabled) */
+export const selectLoop = (state: SequenceState) => state.sequence.loop;
+
+/** Select practice settings */
+export const selectPractice = (state: SequenceState) => state.practice;
+
 /** Check if a card is selected */
 export const selectIsCardSelected = (id: string) => (state: SequenceState) =>
     state.selectedCardIds.includes(id);
@@ -0,0 +1,52 @@
+/**
+ * Web Audio Type Definitions
+ *
+ * The slice of the Web Audio API the built-in synth uses. A real
+ * AudioContext satisfies these, and they are narrow enough that an
+ * offline stub (see lib/fakeAudioContext) can record what was scheduled.
+ * Methods use method syntax so the DOM's wider node types stay assignable.
+ */
+
+/** Oscillator waveform */
+export type SynthWaveform = 'sine' | 'square' | 'sawtooth' | 'triangle';
+
+/** An automatable parameter (gain, frequency, ...) */
+export interface AudioParamLike {
+    value: number;
+    setValueAtTime(value: number, startTime: number): unknown;
+    linearRampToValueAtTime(value: number, endTime: number): unknown;
+    exponentialRampToValueAtTime(value: number, endTime: number): unknown;
+    setTargetAtTime(target: number, startTime: number, timeConstant: number): unknown;
+    cancelScheduledValues(cancelTime: number): unknown;
+}
+
+export interface AudioNodeLike {
+    connect(destination: AudioNodeLike): unknown;
+    disconnect(): void;
+}
+
+export interface GainNodeLike extends AudioNodeLike {
+    readonly gain: AudioParamLike;
+}
+
+export interface OscillatorNodeLike extends AudioNodeLike {
+    type: SynthWaveform | 'custom';
+    readonly frequency: AudioParamLike;
+    readonly detune: AudioParamLike;
+    start(when?: number): void;
+    stop(when?: number): void;
+    onended: ((event: Event) => unknown) | null;
+}
+
+/** Realtime or offline audio context */
+export interface AudioContextLike {
+    /** Audio clock in seconds */
+    readonly currentTime: number;
+    readonly destination: AudioNodeLike;
+    /** 'suspended' until a user gesture resumes a realtime context */
+    readonly state: string;
+    resume?(): Promise<void>;
+    close?(): Promise<void>;
+    createGain(): GainNodeLike;
+    createOscillator(): OscillatorNodeLike;
+}
@@ -7,6 +7,10 @@
 
 // Re-export MIDI types
 export type {
+    MIDIPortType,
+    MIDIPortDeviceState,
+    MIDIPortConnectionState,
+    MIDIPort,
     MIDIMessageEvent,
     MIDIInput,
     MIDIOutput,
@@ -15,20 +19,76 @@ export type {
     NavigatorWithMIDI,
 } from './midi';
 
+// Re-export Web Audio types
+export type {
+    SynthWaveform,
+    AudioParamLike,
+    AudioNodeLike,
+    GainNodeLike,
+    OscillatorNodeLike,
+    AudioContextLike,
+} from './audio';
+
 // =============================================================================
 // DURATION
 // =============================================================================
 
-/** VexFlow-compatible duration values */
-export type Duration = 'w' | 'h' | 'q' | '8' | '16';
+/** Undotted, untupleted note values, matching VexFlow's duration strings */
+export type BaseDuration = 'w' | 'h' | 'q' | '8' | '16' | '32';
+
+/**
+ * Note values. Plain and dotted keys ('qd', 'qdd') match VexFlow's duration
+ * strings; tuplet keys add the tuplet's note count ('8t3' is a triplet
+ * eighth, '16t5' a quintuplet sixteenth).
+ */
+export type Duration =
+    | BaseDuration
+    | 'wd' | 'hd' | 'qd' | '8d' | '16d'
+    | 'hdd' | 'qdd' | '8dd'
+    | 'ht3' | 'qt3' | '8t3' | '16t3'
+    | '8t5' | '16t5';
+
+/** `notes` tuplet notes fill the time of `inSpaceOf` plain ones */
+export interface TupletRatio {
+    notes: number;
+    inSpaceOf: number;
+}
+
+export interface DurationInfo {
+    label: string;
+    beats: number;
+    ppq: number;
+    /** Written note value */
+    base: BaseDuration;
+    dots: number;
+    tuplet?: TupletRatio;
+}
 
-/** Duration metadata for UI and playback */
-export const DURATION_INFO: Record<Duration, { label: string; beats: number; ppq: number }> = {
-    'w':  { label: 'Whole',      beats: 4,    ppq: 1920 },
-    'h':  { label: 'Half',       beats: 2,    ppq: 960  },
-    'q':  { label: 'Quarter',    beats: 1,    ppq: 480  },
-    '8':  { label: 'Eighth',     beats: 0.5,  ppq: 240  },
-    '16': { label: 'Sixteenth',  beats: 0.25, ppq: 120  },
+const TRIPLET: TupletRatio = { notes: 3, inSpaceOf: 2 };
+const QUINTUPLET: TupletRatio = { notes: 5, inSpaceOf: 4 };
+
+/** Duration metadata for UI, notation and playback */
+export const DURATION_INFO: Record<Duration, DurationInfo> = {
+    'w':    { label: 'Whole',                 beats: 4,     ppq: 1920, base: 'w',  dots: 0 },
+    'h':    { label: 'Half',                  beats: 2,     ppq: 960,  base: 'h',  dots: 0 },
+    'q':    { label: 'Quarter',               beats: 1,     ppq: 480,  base: 'q',  dots: 0 },
+    '8':    { label: 'Eighth',                beats: 0.5,   ppq: 240,  base: '8',  dots: 0 },
+    '16':   { label: 'Sixteenth',             beats: 0.25,  ppq: 120,  base: '16', dots: 0 },
+    '32':   { label: 'Thirty-second',         beats: 0.125, ppq: 60,   base: '32', dots: 0 },
+    'wd':   { label: 'Dotted Whole',          beats: 6,     ppq: 2880, base: 'w',  dots: 1 },
+    'hd':   { label: 'Dotted Half',           beats: 3,     ppq: 1440, base: 'h',  dots: 1 },
+    'qd':   { label: 'Dotted Quarter',        beats: 1.5,   ppq: 720,  base: 'q',  dots: 1 },
+    '8d':   { label: 'Dotted Eighth',         beats: 0.75,  ppq: 360,  base: '8',  dots: 1 },
+    '16d':  { label: 'Dotted Sixteenth',      beats: 0.375, ppq: 180,  base: '16', dots: 1 },
+    'hdd':  { label: 'Double-dotted Half',    beats: 3.5,   ppq: 1680, base: 'h',  dots: 2 },
+    'qdd':  { label: 'Double-dotted Quarter', beats: 1.75,  ppq: 840,  base: 'q',  dots: 2 },
+    '8dd':  { label: 'Double-dotted Eighth',  beats: 0.875, ppq: 420,  base: '8',  dots: 2 },
+    'ht3':  { label: 'Triplet Half',          beats: 4 / 3, ppq: 640,  base: 'h',  dots: 0, tuplet: TRIPLET },
+    'qt3':  { label: 'Triplet Quarter',       beats: 2 / 3, ppq: 320,  base: 'q',  dots: 0, tuplet: TRIPLET },
+    '8t3':  { label: 'Triplet Eighth',        beats: 1 / 3, ppq: 160,  base: '8',  dots: 0, tuplet: TRIPLET },
+    '16t3': { label: 'Triplet Sixteenth',     beats: 1 / 6, ppq: 80,   base: '16', dots: 0, tuplet: TRIPLET },
+    '8t5':  { label: 'Quintuplet Eighth',     beats: 0.4,   ppq: 192,  base: '8',  dots: 0, tuplet: QUINTUPLET },
+    '16t5': { label: 'Quintuplet Sixteenth',  beats: 0.2,   ppq: 96,   base: '16', dots: 0, tuplet: QUINTUPLET },
 };
 
 /** Standard PPQ (pulses per quarter note) - matches MIDI standard */
@@ -92,16 +152,37 @@ export interface Card {
     /** Optional overrides for enharmonic spelling per note */
     enharmonicOverrides?: Record<number, string>;
 
+    /** Manual hand split: notes below this MIDI note go on the bass staff */
+    handSplit?: number;
+
+    /** Recorded note-on velocities (1-127), parallel to `notes` */
+    velocities?: number[];
+
+    /** Recorded onset of each note in ms after the first, parallel to `notes` (rolled chords) */
+    onsets?: number[];
+
     /** Timestamp when card was created (for history/ordering) */
     createdAt: number;
 }
 
+/** Performance detail captured with a recorded card; absent for entered cards */
+export type CardExpression = Pick<Card, 'velocities' | 'onsets'>;
+
 // =============================================================================
 // SEQUENCE
 // =============================================================================
 
 export type TimeSignature = [number, number]; // [beats, beatUnit] e.g., [4, 4] or [6, 8]
 
+/** Name of a track: one of the well-known ones below or any other */
+export type TrackId = string;
+
+/** Both hands' notes on one track, split onto the staves as they're drawn */
+export const MASTER_TRACK: TrackId = 'master';
+/** Each hand on a track of its own, with its own rhythm */
+export const RIGHT_HAND_TRACK: TrackId = 'rightHand';
+export const LEFT_HAND_TRACK: TrackId = 'leftHand';
+
 /**
  * A Sequence is the top-level container for a musical piece.
  * Contains tempo, time signature, and one or more tracks of cards.
@@ -119,16 +200,21 @@ export interface Sequence {
     /** Time signature [beats, beatUnit] */
     timeSignature: TimeSignature;
 
+    /** Key signature as a VexFlow key spec ('C', 'Eb', 'F#'); C major when absent */
+    keySignature?: string;
+
+    /** MIDI note the treble/bass split leans toward; middle C when absent */
+    handSplitPoint?: number;
+
     /**
-     * Track structure - single track for Phase 1-2,
-     * will expand to rightHand/leftHand in Phase 3
+     * Card lists by track, in display order. A new sequence has just
+     * `master`; splitting it gives `rightHand` and `leftHand`, each with its
+     * own rhythm. Every track starts at tick 0.
      */
-    tracks: {
-        master: Card[];
-        // Phase 3:
-        // rightHand?: Card[];
-        // leftHand?: Card[];
-    };
+    tracks: Record<TrackId, Card[]>;
+
+    /** Practice loop over a range of one track's cards */
+    loop?: LoopRegion;
 
     /** When the sequence was created */
     createdAt: number;
@@ -153,8 +239,41 @@ export interface PlaybackPosition {
     /** Current beat position */
     beat: number;
 
-    /** Current measure */
+    /** Current measure (negative during a count-in) */
     measure: number;
+
+    /** Completed passes of the practice loop, when looping */
+    loopPass?: number;
+
+    /** Effective tempo, when a practice ramp has moved it off the sequence tempo */
+    tempo?: number;
+}
+
+/**
+ * Cards to repeat during practice, by ID so the region survives edits
+ * elsewhere in the sequence. Inclusive at both ends.
+ */
+export interface LoopRegion {
+    startCardId: string;
+    endCardId: string;
+    enabled: boolean;
+}
+
+/** Speed a loop up as it repeats */
+export interface TempoRamp {
+    /** BPM added at each step */
+    stepBpm: number;
+    /** Loop passes between steps */
+    everyLoops: number;
+    /** Tempo the ramp stops at */
+    targetTempo: number;
+}
+
+/** Playback aids that aren't part of the piece itself */
+export interface PracticeSettings {
+    /** Bars of count-in before playback starts */
+    countInBars: number;
+    tempoRamp: TempoRamp | null;
 }
 
 // =============================================================================
@@ -165,11 +284,14 @@ export interface PlaybackPosition {
  * @deprecated Use Card instead. Kept for migration compatibility.
  */
 export interface PhraseSegment {
-    type: 'chord' | 'scale';
+    type: 'chord' | 'scale' | 'rest';
     notes: number[];
     timestamp: number;
     analysis?: ChordAnalysis;
     duration: Duration;
+    enharmonicOverrides?: Record<number, string>;
+    velocities?: number[];
+    onsets?: number[];
 }
 
 /**
@@ -180,8 +302,10 @@ export function phraseSegmentToCard(segment: PhraseSegment): Card {
         id: crypto.randomUUID(),
         notes: segment.notes,
         duration: segment.duration,
-        isRest: false,
+        isRest: segment.type === 'rest',
         analysis: segment.analysis,
+        ...(segment.enharmonicOverrides && { enharmonicOverrides: segment.enharmonicOverrides }),
+        ...pickExpression(segment),
         createdAt: segment.timestamp,
     };
 }
@@ -196,6 +320,8 @@ export function cardToPhraseSegment(card: Card): PhraseSegment {
         timestamp: card.createdAt,
         analysis: card.analysis,
         duration: card.duration,
+        ...(card.enharmonicOverrides && { enharmonicOverrides: card.enharmonicOverrides }),
+        ...pickExpression(card),
     };
 }
 
@@ -206,11 +332,20 @@ export function cardToPhraseSegment(card: Card): PhraseSegment {
 /** Helper to generate unique IDs */
 export const generateId = (): string => crypto.randomUUID();
 
+/** Copy only the expression fields that are set, so cards without them stay lean */
+export function pickExpression(source: CardExpression): CardExpression {
+    const expression: CardExpression = {};
+    if (source.velocities) expression.velocities = source.velocities;
+    if (source.onsets) expression.onsets = source.onsets;
+    return expression;
+}
+
 /** Create a new empty card with default values */
 export function createCard(
     notes: number[],
     duration: Duration = 'q',
-    analysis?: ChordAnalysis
+    analysis?: ChordAnalysis,
+    expression: CardExpression = {}
 ): Card {
     return {
         id: generateId(),
@@ -218,6 +353,7 @@ export function createCard(
         duration,
         isRest: notes.length === 0,
         analysis,
+        ...pickExpression(expression),
         createdAt: Date.now(),
     };
 }
@@ -241,7 +377,7 @@ export function createSequence(name: string = 'Untitled'): Sequence {
         tempo: 120,
         timeSignature: [4, 4],
         tracks: {
-            master: [],
+            [MASTER_TRACK]: [],
         },
         createdAt: Date.now(),
         updatedAt: Date.now(),
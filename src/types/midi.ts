@@ -2,27 +2,71 @@
  * Web MIDI API Type Definitions
  *
  * Custom types for Web MIDI API to ensure consistent typing across the app.
- * These are used instead of the built-in types to avoid conflicts.
+ * These are used instead of the built-in types to avoid conflicts, and are
+ * narrow enough that an in-memory fake (see lib/fakeMIDIAccess) can implement them.
  */
 
-// eslint-disable-next-line @typescript-eslint/no-explicit-any
-export type MIDIMessageEvent = any;
+/** Port direction */
+export type MIDIPortType = 'input' | 'output';
 
-// eslint-disable-next-line @typescript-eslint/no-explicit-any
-export type MIDIInput = any;
+/** Whether the device is physically present */
+export type MIDIPortDeviceState = 'connected' | 'disconnected';
 
-// eslint-disable-next-line @typescript-eslint/no-explicit-any
-export type MIDIOutput = any;
+/** Whether the port has been opened by this page */
+export type MIDIPortConnectionState = 'open' | 'closed' | 'pending';
 
-// eslint-disable-next-line @typescript-eslint/no-explicit-any
-export type MIDIConnectionEvent = any;
+/**
+ * A single MIDI port (input or output)
+ */
+export interface MIDIPort {
+    readonly id: string;
+    readonly name: string | null;
+    readonly manufacturer: string | null;
+    readonly type: MIDIPortType;
+    readonly state: MIDIPortDeviceState;
+    readonly connection: MIDIPortConnectionState;
+}
+
+/**
+ * Raw message delivered to an input's onmidimessage handler
+ */
+export interface MIDIMessageEvent {
+    /** Status byte followed by 0-2 data bytes (null for empty events) */
+    readonly data: Uint8Array | null;
+    /** High-resolution receive time (same clock as performance.now()) */
+    readonly timeStamp: number;
+}
+
+export interface MIDIInput extends MIDIPort {
+    readonly type: 'input';
+    onmidimessage: ((event: MIDIMessageEvent) => void) | null;
+}
+
+export interface MIDIOutput extends MIDIPort {
+    readonly type: 'output';
+    /** Send bytes now, or at a performance.now() timestamp */
+    send: (data: number[] | Uint8Array, timestamp?: number) => void;
+    /** Drop messages queued for the future (not implemented by every browser) */
+    clear?: () => void;
+}
+
+/**
+ * Fired on MIDIAccess when a port is connected, disconnected or opened
+ */
+export interface MIDIConnectionEvent {
+    readonly port: MIDIInput | MIDIOutput | null;
+}
 
-// eslint-disable-next-line @typescript-eslint/no-explicit-any
-export type MIDIAccess = any;
+export interface MIDIAccess {
+    readonly inputs: ReadonlyMap<string, MIDIInput>;
+    readonly outputs: ReadonlyMap<string, MIDIOutput>;
+    readonly sysexEnabled: boolean;
+    onstatechange: ((event: MIDIConnectionEvent) => void) | null;
+}
 
 /**
  * Navigator with optional requestMIDIAccess method
  */
 export interface NavigatorWithMIDI {
-    requestMIDIAccess?: () => Promise<MIDIAccess>;
+    requestMIDIAccess?: (options?: { sysex?: boolean }) => Promise<MIDIAccess>;
 }